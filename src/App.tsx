@@ -1,5 +1,16 @@
-// Version: 2.4.0
+// Version: 2.15.0
 // Main application component with routing and authentication
+// v2.15.0: No-access screen texts come from the admin catalogs
+// v2.14.0: Admin UI language (zh-CN / en) provided by I18nProvider
+// v2.13.0: Added /restaurants route (super admins and restaurant managers)
+// v2.12.0: Added /audit-log route (super admins only)
+// v2.11.0: Added /users route (super admins only); deactivated accounts see the no-access screen
+// v2.10.0: Role-based access - accounts without a role see a no-access screen; analysts cannot open /trash
+// v2.9.0: Added /trash route for restoring soft-deleted tables, QR codes and questionnaires
+// v2.8.0: Added public /q/:qrcodeId customer questionnaire route (replaces public/questionnaire.html)
+// v2.7.0: Added /responses route for browsing and exporting individual responses
+// v2.6.0: Added /experiments route for A/B test reports
+// v2.5.0: Added /analytics route for the answer analytics dashboard
 // v2.4.0: Fixed infinite loop in password recovery redirect
 // v2.3.0: CRITICAL FIX - Preserve URL hash during navigation to prevent token loss
 // v2.2.0: Added verbose console logging for debugging password recovery flow
@@ -13,17 +24,29 @@ import CssBaseline from '@mui/material/CssBaseline'
 import { useEffect } from 'react'
 import { theme } from './theme/theme'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
+import { I18nProvider, useI18n } from './contexts/I18nContext'
 import { supabase } from './services/supabase'
 import MainLayout from './components/Layout/MainLayout'
 import QRCodeManagementPage from './pages/QRCodeManagement/QRCodeManagementPage'
 import QuestionnaireEditorPage from './pages/QuestionnaireEditor/QuestionnaireEditorPage'
+import AnalyticsPage from './pages/Analytics/AnalyticsPage'
+import ResponsesPage from './pages/Responses/ResponsesPage'
+import ExperimentReportPage from './pages/Experiments/ExperimentReportPage'
+import TrashPage from './pages/Trash/TrashPage'
+import RestaurantManagementPage from './pages/Restaurants/RestaurantManagementPage'
+import UserManagementPage from './pages/Users/UserManagementPage'
+import AuditLogPage from './pages/AuditLog/AuditLogPage'
+import CustomerQuestionnairePage from './pages/CustomerQuestionnaire/CustomerQuestionnairePage'
 import { LoginPage } from './components/Auth/LoginPage'
 import { ResetPasswordPage } from './components/Auth/ResetPasswordPage'
-import { Box, CircularProgress } from '@mui/material'
+import { canManageRestaurants, canUseTrash, hasAccess, isSuperAdmin } from './utils/permissions'
+import { Box, Button, CircularProgress, Paper, Typography } from '@mui/material'
 
 // Protected route wrapper - redirects to login if not authenticated
+// Signed-in accounts without an echo_user_roles row, or deactivated ones, have no access to any admin page
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { session, loading } = useAuth()
+  const { session, access, loading, signOut } = useAuth()
+  const { t } = useI18n()
 
   if (loading) {
     return (
@@ -44,6 +67,32 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" replace />
   }
 
+  const deactivated = !!access?.deactivated_at
+  if (!hasAccess(access)) {
+    return (
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          minHeight: '100vh',
+        }}
+      >
+        <Paper sx={{ p: 4, maxWidth: 420, textAlign: 'center' }}>
+          <Typography variant="h6" gutterBottom>
+            {t('noAccess.title')}
+          </Typography>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            {t(deactivated ? 'noAccess.deactivated' : 'noAccess.noRole', { email: session.user.email ?? '' })}
+          </Typography>
+          <Button variant="outlined" onClick={signOut}>
+            {t('layout.logout')}
+          </Button>
+        </Paper>
+      </Box>
+    )
+  }
+
   return <>{children}</>
 }
 
@@ -82,7 +131,7 @@ function PasswordRecoveryListener() {
 }
 
 function AppRoutes() {
-  const { session } = useAuth()
+  const { session, access } = useAuth()
 
   // Check if this is a password recovery flow (check URL hash for type=recovery)
   const isPasswordRecovery = window.location.hash.includes('type=recovery')
@@ -114,6 +163,9 @@ function AppRoutes() {
         {/* Password reset - accessible to both authenticated and unauthenticated users */}
         <Route path="/reset-password" element={<ResetPasswordPage />} />
 
+        {/* Customer questionnaire - opened by scanning a table QR code, no login */}
+        <Route path="/q/:qrcodeId?" element={<CustomerQuestionnairePage />} />
+
         {/* Protected admin routes */}
         <Route
           path="/*"
@@ -124,6 +176,27 @@ function AppRoutes() {
                   <Route path="/" element={<Navigate to="/qrcode-management" replace />} />
                   <Route path="/qrcode-management" element={<QRCodeManagementPage />} />
                   <Route path="/questionnaire-editor" element={<QuestionnaireEditorPage />} />
+                  <Route path="/analytics" element={<AnalyticsPage />} />
+                  <Route path="/responses" element={<ResponsesPage />} />
+                  <Route path="/experiments" element={<ExperimentReportPage />} />
+                  <Route
+                    path="/trash"
+                    element={canUseTrash(access) ? <TrashPage /> : <Navigate to="/qrcode-management" replace />}
+                  />
+                  <Route
+                    path="/restaurants"
+                    element={
+                      canManageRestaurants(access) ? <RestaurantManagementPage /> : <Navigate to="/qrcode-management" replace />
+                    }
+                  />
+                  <Route
+                    path="/users"
+                    element={isSuperAdmin(access) ? <UserManagementPage /> : <Navigate to="/qrcode-management" replace />}
+                  />
+                  <Route
+                    path="/audit-log"
+                    element={isSuperAdmin(access) ? <AuditLogPage /> : <Navigate to="/qrcode-management" replace />}
+                  />
                 </Routes>
               </MainLayout>
             </ProtectedRoute>
@@ -138,11 +211,13 @@ function App() {
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
-      <Router>
-        <AuthProvider>
-          <AppRoutes />
-        </AuthProvider>
-      </Router>
+      <I18nProvider>
+        <Router>
+          <AuthProvider>
+            <AppRoutes />
+          </AuthProvider>
+        </Router>
+      </I18nProvider>
     </ThemeProvider>
   )
 }
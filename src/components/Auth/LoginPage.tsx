@@ -1,5 +1,6 @@
-// Version: 1.2.0
+// Version: 1.3.0
 // Login page component
+// v1.3.0: Texts come from the message catalogs (admin UI language)
 // v1.2.0: Localized to Chinese and added background image for consistent design
 // v1.1.0: Added "Forgot Password?" functionality with email dialog
 
@@ -23,6 +24,7 @@ import { Visibility, VisibilityOff } from '@mui/icons-material'
 import { useAuth } from '../../contexts/AuthContext'
 import { useNavigate } from 'react-router-dom'
 import { sendPasswordResetEmail } from '../../services/authService'
+import { useI18n } from '../../contexts/I18nContext'
 
 export function LoginPage() {
   const [email, setEmail] = useState('')
@@ -39,6 +41,7 @@ export function LoginPage() {
   const [sendingReset, setSendingReset] = useState(false)
 
   const { signIn } = useAuth()
+  const { t } = useI18n()
   const navigate = useNavigate()
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -57,7 +60,7 @@ export function LoginPage() {
         navigate('/')
       }
     } catch (err) {
-      setError('An unexpected error occurred. Please try again.')
+      setError(t('login.unexpectedError'))
     } finally {
       setLoading(false)
     }
@@ -72,7 +75,7 @@ export function LoginPage() {
 
   const handleSendResetEmail = async () => {
     if (!resetEmail) {
-      setResetError('Please enter your email address')
+      setResetError(t('login.resetEmailRequired'))
       return
     }
 
@@ -88,7 +91,7 @@ export function LoginPage() {
         setResetSuccess(true)
       }
     } catch (err) {
-      setResetError('Failed to send reset email. Please try again.')
+      setResetError(t('login.resetFailed'))
     } finally {
       setSendingReset(false)
     }
@@ -128,7 +131,7 @@ export function LoginPage() {
             }}
           >
             <Typography variant="h4" component="h1" gutterBottom align="center">
-              管理员登录
+              {t('login.title')}
             </Typography>
             <Typography
               variant="body2"
@@ -137,7 +140,7 @@ export function LoginPage() {
               align="center"
               sx={{ mb: 3 }}
             >
-              EchoOfSmartICE 管理后台
+              {t('login.subtitle')}
             </Typography>
 
             {error && (
@@ -148,7 +151,7 @@ export function LoginPage() {
 
             <Box component="form" onSubmit={handleSubmit}>
               <TextField
-                label="邮箱"
+                label={t('login.email')}
                 type="email"
                 fullWidth
                 required
@@ -161,7 +164,7 @@ export function LoginPage() {
               />
 
               <TextField
-                label="密码"
+                label={t('login.password')}
                 type={showPassword ? 'text' : 'password'}
                 fullWidth
                 required
@@ -174,7 +177,7 @@ export function LoginPage() {
                   endAdornment: (
                     <InputAdornment position="end">
                       <IconButton
-                        aria-label="切换密码可见性"
+                        aria-label={t('login.togglePasswordVisibility')}
                         onClick={() => setShowPassword(!showPassword)}
                         edge="end"
                       >
@@ -193,7 +196,7 @@ export function LoginPage() {
                 disabled={loading}
                 sx={{ mt: 3 }}
               >
-                {loading ? '登录中...' : '登录'}
+                {loading ? t('login.signingIn') : t('login.signIn')}
               </Button>
 
               <Button
@@ -203,7 +206,7 @@ export function LoginPage() {
                 disabled={loading}
                 sx={{ mt: 1 }}
               >
-                忘记密码？
+                {t('login.forgotPassword')}
               </Button>
             </Box>
           </Paper>
@@ -212,16 +215,16 @@ export function LoginPage() {
 
       {/* Forgot Password Dialog */}
       <Dialog open={showForgotPasswordDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
-        <DialogTitle>重置密码</DialogTitle>
+        <DialogTitle>{t('login.resetTitle')}</DialogTitle>
         <DialogContent>
           {resetSuccess ? (
             <Alert severity="success" sx={{ mt: 2 }}>
-              密码重置邮件已发送！请检查您的收件箱并按照说明操作。
+              {t('login.resetSent')}
             </Alert>
           ) : (
             <>
               <Typography variant="body2" color="text.secondary" sx={{ mb: 2, mt: 1 }}>
-                输入您的邮箱地址，我们将发送重置密码的链接给您。
+                {t('login.resetIntro')}
               </Typography>
 
               {resetError && (
@@ -231,7 +234,7 @@ export function LoginPage() {
               )}
 
               <TextField
-                label="邮箱"
+                label={t('login.email')}
                 type="email"
                 fullWidth
                 required
@@ -250,18 +253,18 @@ export function LoginPage() {
         </DialogContent>
         <DialogActions>
           {resetSuccess ? (
-            <Button onClick={handleCloseDialog}>关闭</Button>
+            <Button onClick={handleCloseDialog}>{t('common.close')}</Button>
           ) : (
             <>
               <Button onClick={handleCloseDialog} disabled={sendingReset}>
-                取消
+                {t('common.cancel')}
               </Button>
               <Button
                 onClick={handleSendResetEmail}
                 variant="contained"
                 disabled={sendingReset}
               >
-                {sendingReset ? '发送中...' : '发送重置邮件'}
+                {sendingReset ? t('login.sendingReset') : t('login.sendReset')}
               </Button>
             </>
           )}
@@ -1,6 +1,8 @@
-// Version: 1.4.0
+// Version: 1.5.0
 // Reset password page component
-// Handles password reset after user clicks email link
+// Handles password reset after user clicks email link, and first password setup for invited users
+// v1.5.0: Set-password view for invitation links (?invite=1) - own copy, expired-link message and redirect into the app;
+//         texts come from the message catalogs (admin UI language)
 // v1.4.0: Localized to Chinese and added background image for consistent design
 // v1.3.0: Cleaned up debug logging after successful password recovery implementation
 // v1.2.0: Added verbose console logging for debugging password recovery flow
@@ -21,8 +23,9 @@ import {
 } from '@mui/material'
 import { Visibility, VisibilityOff } from '@mui/icons-material'
 import { updatePassword } from '../../services/authService'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { useAuth } from '../../contexts/AuthContext'
+import { useI18n } from '../../contexts/I18nContext'
 
 export function ResetPasswordPage() {
   const [newPassword, setNewPassword] = useState('')
@@ -36,6 +39,10 @@ export function ResetPasswordPage() {
 
   const navigate = useNavigate()
   const { session } = useAuth()
+  const { t } = useI18n()
+  // Invitation links (userService) sign the invitee in; they set their first password here
+  const [searchParams] = useSearchParams()
+  const isInvite = searchParams.get('invite') === '1'
 
   // Wait for Supabase to create session from recovery token
   useEffect(() => {
@@ -51,9 +58,7 @@ export function ResetPasswordPage() {
       timeoutId = setTimeout(() => {
         if (!session) {
           setCheckingSession(false)
-          setError(
-            'Auth session missing! The reset link may have expired or already been used. Please request a new password reset email.'
-          )
+          setError(t(isInvite ? 'resetPassword.inviteLinkExpired' : 'resetPassword.linkExpired'))
         }
       }, 10000)
     }
@@ -61,7 +66,7 @@ export function ResetPasswordPage() {
     return () => {
       if (timeoutId) clearTimeout(timeoutId)
     }
-  }, [session])
+  }, [session, isInvite, t])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -69,12 +74,12 @@ export function ResetPasswordPage() {
 
     // Validation
     if (newPassword.length < 6) {
-      setError('密码长度至少为 6 个字符')
+      setError(t('resetPassword.passwordTooShort'))
       return
     }
 
     if (newPassword !== confirmPassword) {
-      setError('两次输入的密码不匹配')
+      setError(t('resetPassword.passwordMismatch'))
       return
     }
 
@@ -87,18 +92,22 @@ export function ResetPasswordPage() {
         setError(error.message)
       } else {
         setSuccess(true)
-        // Redirect to login after 2 seconds
+        // Invited users are signed in already and go straight into the app; recovery goes back to login
         setTimeout(() => {
-          navigate('/login')
+          navigate(isInvite ? '/' : '/login')
         }, 2000)
       }
     } catch (err) {
-      setError('密码更新失败，请重试')
+      setError(t('resetPassword.updateFailed'))
     } finally {
       setLoading(false)
     }
   }
 
+  const submitLabel = isInvite
+    ? t(loading ? 'resetPassword.settingPassword' : 'resetPassword.setPassword')
+    : t(loading ? 'resetPassword.updating' : 'resetPassword.update')
+
   return (
     <Box
       sx={{
@@ -125,7 +134,7 @@ export function ResetPasswordPage() {
           }}
         >
           <Typography variant="h4" component="h1" gutterBottom align="center">
-            重置密码
+            {t(isInvite ? 'resetPassword.inviteTitle' : 'resetPassword.title')}
           </Typography>
           <Typography
             variant="body2"
@@ -134,7 +143,7 @@ export function ResetPasswordPage() {
             align="center"
             sx={{ mb: 3 }}
           >
-            请在下方输入您的新密码
+            {t(isInvite ? 'resetPassword.inviteIntro' : 'resetPassword.intro')}
           </Typography>
 
           {/* Show loading while checking for session */}
@@ -142,7 +151,7 @@ export function ResetPasswordPage() {
             <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', my: 4 }}>
               <CircularProgress size={40} sx={{ mb: 2 }} />
               <Typography variant="body2" color="text.secondary">
-                正在验证重置链接...
+                {t(isInvite ? 'resetPassword.inviteChecking' : 'resetPassword.checking')}
               </Typography>
             </Box>
           )}
@@ -155,14 +164,14 @@ export function ResetPasswordPage() {
 
           {success && (
             <Alert severity="success" sx={{ mb: 2 }}>
-              密码更新成功！正在跳转到登录页面...
+              {t(isInvite ? 'resetPassword.passwordSet' : 'resetPassword.updated')}
             </Alert>
           )}
 
           {!success && !checkingSession && sessionReady && (
             <Box component="form" onSubmit={handleSubmit}>
               <TextField
-                label="新密码"
+                label={t('resetPassword.newPassword')}
                 type={showPassword ? 'text' : 'password'}
                 fullWidth
                 required
@@ -171,12 +180,12 @@ export function ResetPasswordPage() {
                 margin="normal"
                 autoFocus
                 disabled={loading}
-                helperText="至少 6 个字符"
+                helperText={t('resetPassword.passwordHelper')}
                 InputProps={{
                   endAdornment: (
                     <InputAdornment position="end">
                       <IconButton
-                        aria-label="切换密码可见性"
+                        aria-label={t('login.togglePasswordVisibility')}
                         onClick={() => setShowPassword(!showPassword)}
                         edge="end"
                       >
@@ -188,7 +197,7 @@ export function ResetPasswordPage() {
               />
 
               <TextField
-                label="确认新密码"
+                label={t('resetPassword.confirmPassword')}
                 type={showPassword ? 'text' : 'password'}
                 fullWidth
                 required
@@ -206,7 +215,7 @@ export function ResetPasswordPage() {
                 disabled={loading}
                 sx={{ mt: 3 }}
               >
-                {loading ? '更新中...' : '更新密码'}
+                {submitLabel}
               </Button>
             </Box>
           )}
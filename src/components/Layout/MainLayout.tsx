@@ -1,8 +1,17 @@
-// Version: 1.2.0
+// Version: 1.11.0
 // Main layout component with navigation bar for switching between admin pages
+// v1.11.0: Texts come from the message catalogs; added a language switcher (简体中文 / English)
+// v1.10.0: Added restaurant management page (super admins and restaurant managers)
+// v1.9.0: Added audit log page (super admins only)
+// v1.8.0: Added user management page (super admins only)
+// v1.7.0: Shows the signed-in user's role; pages the role cannot use are hidden
+// v1.6.0: Added trash page
+// v1.5.0: Added responses page
+// v1.4.0: Added A/B experiment report page
+// v1.3.0: Added analytics page; navigation buttons are now rendered from a navItems list
 // v1.2.0: Added logout button with auth context integration
 
-import { ReactNode } from 'react'
+import { ReactNode, useState } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
 import {
   AppBar,
@@ -10,22 +19,59 @@ import {
   Typography,
   Button,
   Box,
+  Chip,
   Container,
+  Menu,
+  MenuItem,
 } from '@mui/material'
-import { QrCode, EditNote, Logout } from '@mui/icons-material'
+import {
+  QrCode,
+  EditNote,
+  Insights,
+  ListAlt,
+  Science,
+  Storefront,
+  Delete,
+  ManageAccounts,
+  History,
+  Logout,
+  Translate,
+} from '@mui/icons-material'
 import { useAuth } from '../../contexts/AuthContext'
+import { useI18n } from '../../contexts/I18nContext'
+import { ADMIN_LOCALES, ADMIN_LOCALE_LABELS } from '../../i18n/messages'
+import type { MessageKey } from '../../i18n/messages'
+import { canManageRestaurants, canUseTrash, isSuperAdmin } from '../../utils/permissions'
+import type { EchoUserRole } from '../../types/database'
 
 interface MainLayoutProps {
   children: ReactNode
 }
 
+// Admin pages shown in the navigation bar (visible limits a page to some roles)
+const navItems: Array<{
+  path: string
+  label: MessageKey
+  icon: ReactNode
+  visible?: (access: EchoUserRole | null) => boolean
+}> = [
+  { path: '/qrcode-management', label: 'layout.nav.qrcodeManagement', icon: <QrCode /> },
+  { path: '/questionnaire-editor', label: 'layout.nav.questionnaireEditor', icon: <EditNote /> },
+  { path: '/analytics', label: 'layout.nav.analytics', icon: <Insights /> },
+  { path: '/responses', label: 'layout.nav.responses', icon: <ListAlt /> },
+  { path: '/experiments', label: 'layout.nav.experiments', icon: <Science /> },
+  { path: '/restaurants', label: 'layout.nav.restaurants', icon: <Storefront />, visible: canManageRestaurants },
+  { path: '/trash', label: 'layout.nav.trash', icon: <Delete />, visible: canUseTrash },
+  { path: '/users', label: 'layout.nav.users', icon: <ManageAccounts />, visible: isSuperAdmin },
+  { path: '/audit-log', label: 'layout.nav.auditLog', icon: <History />, visible: isSuperAdmin },
+]
+
 export default function MainLayout({ children }: MainLayoutProps) {
   const navigate = useNavigate()
   const location = useLocation()
-  const { signOut } = useAuth()
-
-  const isQRCodePage = location.pathname === '/qrcode-management'
-  const isQuestionnairePage = location.pathname === '/questionnaire-editor'
+  const { access, signOut } = useAuth()
+  const { locale, setLocale, t } = useI18n()
+  const [languageMenuAnchor, setLanguageMenuAnchor] = useState<HTMLElement | null>(null)
 
   const handleLogout = async () => {
     await signOut()
@@ -67,19 +113,50 @@ export default function MainLayout({ children }: MainLayoutProps) {
               letterSpacing: '1px',
             }}
           >
-            Echo 管理后台
+            {t('layout.title')}
           </Typography>
 
-          <Box sx={{ display: 'flex', gap: 2 }}>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+            {navItems.filter((item) => !item.visible || item.visible(access)).map((item) => {
+              const isActive = location.pathname === item.path
+
+              return (
+                <Button
+                  key={item.path}
+                  color="inherit"
+                  startIcon={item.icon}
+                  onClick={() => navigate(item.path)}
+                  sx={{
+                    color: 'rgba(255, 255, 255, 0.9)',
+                    background: isActive ? 'rgba(255, 255, 255, 0.2)' : 'transparent',
+                    backdropFilter: isActive ? 'blur(10px)' : 'none',
+                    border: isActive ? '1px solid rgba(255, 255, 255, 0.4)' : '1px solid transparent',
+                    borderRadius: '8px',
+                    '&:hover': {
+                      background: 'rgba(255, 255, 255, 0.25)',
+                      backdropFilter: 'blur(10px)',
+                    },
+                  }}
+                >
+                  {t(item.label)}
+                </Button>
+              )
+            })}
+            {access && (
+              <Chip
+                label={t(`layout.roles.${access.role}`)}
+                size="small"
+                sx={{ color: 'rgba(255, 255, 255, 0.95)', background: 'rgba(255, 255, 255, 0.2)' }}
+              />
+            )}
             <Button
               color="inherit"
-              startIcon={<QrCode />}
-              onClick={() => navigate('/qrcode-management')}
+              startIcon={<Translate />}
+              onClick={(e) => setLanguageMenuAnchor(e.currentTarget)}
+              aria-label={t('layout.language')}
               sx={{
                 color: 'rgba(255, 255, 255, 0.9)',
-                background: isQRCodePage ? 'rgba(255, 255, 255, 0.2)' : 'transparent',
-                backdropFilter: isQRCodePage ? 'blur(10px)' : 'none',
-                border: isQRCodePage ? '1px solid rgba(255, 255, 255, 0.4)' : '1px solid transparent',
+                border: '1px solid transparent',
                 borderRadius: '8px',
                 '&:hover': {
                   background: 'rgba(255, 255, 255, 0.25)',
@@ -87,26 +164,26 @@ export default function MainLayout({ children }: MainLayoutProps) {
                 },
               }}
             >
-              二维码管理
+              {ADMIN_LOCALE_LABELS[locale]}
             </Button>
-            <Button
-              color="inherit"
-              startIcon={<EditNote />}
-              onClick={() => navigate('/questionnaire-editor')}
-              sx={{
-                color: 'rgba(255, 255, 255, 0.9)',
-                background: isQuestionnairePage ? 'rgba(255, 255, 255, 0.2)' : 'transparent',
-                backdropFilter: isQuestionnairePage ? 'blur(10px)' : 'none',
-                border: isQuestionnairePage ? '1px solid rgba(255, 255, 255, 0.4)' : '1px solid transparent',
-                borderRadius: '8px',
-                '&:hover': {
-                  background: 'rgba(255, 255, 255, 0.25)',
-                  backdropFilter: 'blur(10px)',
-                },
-              }}
+            <Menu
+              anchorEl={languageMenuAnchor}
+              open={!!languageMenuAnchor}
+              onClose={() => setLanguageMenuAnchor(null)}
             >
-              问卷编辑
-            </Button>
+              {ADMIN_LOCALES.map((option) => (
+                <MenuItem
+                  key={option}
+                  selected={option === locale}
+                  onClick={() => {
+                    setLocale(option)
+                    setLanguageMenuAnchor(null)
+                  }}
+                >
+                  {ADMIN_LOCALE_LABELS[option]}
+                </MenuItem>
+              ))}
+            </Menu>
             <Button
               color="inherit"
               startIcon={<Logout />}
@@ -123,7 +200,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
                 },
               }}
             >
-              退出登录
+              {t('layout.logout')}
             </Button>
           </Box>
         </Toolbar>
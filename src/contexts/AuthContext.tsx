@@ -1,15 +1,20 @@
-// Version: 1.2.0
+// Version: 1.3.0
 // Authentication context provider
 // Manages global auth state and provides auth methods to components
+// v1.3.0: Exposes the signed-in user's role (access) for role-based access control; loading lasts until it is known
 // v1.2.0: Cleaned up debug logging after successful password recovery implementation
 
 import React, { createContext, useContext, useEffect, useState } from 'react'
 import { supabase } from '../services/supabase'
+import { clearCurrentUserRoleCache, getCurrentUserRole } from '../services/roleService'
 import type { Session, User, AuthChangeEvent } from '@supabase/supabase-js'
+import type { EchoUserRole } from '../types/database'
 
 interface AuthContextType {
   user: User | null
   session: Session | null
+  // Role of the signed-in user - null when signed out or when the account has no role yet
+  access: EchoUserRole | null
   loading: boolean
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>
   signOut: () => Promise<void>
@@ -20,24 +25,38 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined)
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [session, setSession] = useState<Session | null>(null)
+  const [access, setAccess] = useState<EchoUserRole | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    const applySession = async (session: Session | null) => {
       setSession(session)
       setUser(session?.user ?? null)
+
+      if (!session) {
+        clearCurrentUserRoleCache()
+        setAccess(null)
+      } else {
+        try {
+          setAccess(await getCurrentUserRole())
+        } catch (error) {
+          console.error('Failed to load user role:', error)
+          setAccess(null)
+        }
+      }
       setLoading(false)
-    })
+    }
+
+    // Get initial session
+    supabase.auth.getSession().then(({ data: { session } }) => applySession(session))
 
     // Listen for auth changes
+    // The role is loaded outside the callback - awaiting Supabase calls inside onAuthStateChange can deadlock
     const {
       data: { subscription },
     } = supabase.auth.onAuthStateChange(
       (_event: AuthChangeEvent, session: Session | null) => {
-        setSession(session)
-        setUser(session?.user ?? null)
-        setLoading(false)
+        setTimeout(() => applySession(session), 0)
       }
     )
 
@@ -61,11 +80,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const signOut = async () => {
     await supabase.auth.signOut()
+    clearCurrentUserRoleCache()
   }
 
   const value = {
     user,
     session,
+    access,
     loading,
     signIn,
     signOut,
@@ -0,0 +1,64 @@
+// Version: 1.0.0
+// Admin UI language context provider
+// Holds the admin's language (zh-CN or en, remembered in localStorage) and provides message and error translation
+
+import React, { createContext, useContext, useEffect, useState } from 'react'
+import type { ReactNode } from 'react'
+import {
+  ADMIN_LOCALES,
+  DEFAULT_ADMIN_LOCALE,
+  formatError,
+  formatMessage,
+  formatMessageParts,
+} from '../i18n/messages'
+import type { AdminLocale, MessageKey, MessageParams } from '../i18n/messages'
+
+const LOCALE_STORAGE_KEY = 'echo_admin_locale'
+
+interface I18nContextType {
+  locale: AdminLocale
+  setLocale: (locale: AdminLocale) => void
+  t: (key: MessageKey, params?: MessageParams) => string
+  // Message with placeholders filled by elements, e.g. { table: <strong>…</strong> }
+  tRich: (key: MessageKey, params: Record<string, ReactNode>) => ReactNode[]
+  // Text of a caught error - AppError codes are translated; fallback is used for values that are not errors
+  translateError: (err: unknown, fallback: MessageKey) => string
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined)
+
+const getStoredLocale = (): AdminLocale => {
+  const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY)
+  return ADMIN_LOCALES.find((locale) => locale === stored) || DEFAULT_ADMIN_LOCALE
+}
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<AdminLocale>(getStoredLocale)
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const setLocale = (nextLocale: AdminLocale) => {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, nextLocale)
+    setLocaleState(nextLocale)
+  }
+
+  const value = {
+    locale,
+    setLocale,
+    t: (key: MessageKey, params?: MessageParams) => formatMessage(locale, key, params),
+    tRich: (key: MessageKey, params: Record<string, ReactNode>) => formatMessageParts(locale, key, params),
+    translateError: (err: unknown, fallback: MessageKey) => formatError(locale, err, fallback),
+  }
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n() {
+  const context = useContext(I18nContext)
+  if (context === undefined) {
+    throw new Error('useI18n must be used within an I18nProvider')
+  }
+  return context
+}
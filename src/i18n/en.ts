@@ -0,0 +1,962 @@
+// Version: 1.13.0
+// Admin UI messages in English - same keys as the Chinese reference catalog (zhCN.ts)
+// v1.13.0: Restaurant management page and dialog, time zone names
+// v1.12.0: Audit log page, with action and object labels
+// v1.11.0: User management page and role dialog
+// v1.10.0: Trash page
+// v1.9.0: A/B test report
+// v1.8.0: Analytics and responses pages, with their shared filters
+// v1.7.0: Answer labels (export column headers, rating points, out-of-range and blank answers)
+// v1.6.0: QR code management dialogs (style, batch add, print, assignments, defaults, move); table naming errors
+// v1.5.0: Questionnaire editor dialogs (publish, skip logic, translations, import, templates)
+// v1.4.0: No-access screen
+// v1.3.0: Trash, user management, answers and customer questionnaire errors; generic fallback error
+// v1.2.0: Reset password page, including the set-password view for invited users
+// v1.1.0: QR code move errors
+
+import type { Messages } from './messages'
+
+export const en: Messages = {
+  common: {
+    cancel: 'Cancel',
+    close: 'Close',
+    save: 'Save',
+    saving: 'Saving...',
+    edit: 'Edit',
+    delete: 'Delete',
+    unexpectedError: 'Something went wrong, please try again',
+  },
+  layout: {
+    title: 'Echo Admin',
+    logout: 'Sign out',
+    language: 'Language',
+    nav: {
+      qrcodeManagement: 'QR codes',
+      questionnaireEditor: 'Questionnaires',
+      analytics: 'Analytics',
+      responses: 'Responses',
+      experiments: 'A/B tests',
+      restaurants: 'Restaurants',
+      trash: 'Trash',
+      users: 'Users',
+      auditLog: 'Audit log',
+    },
+    roles: {
+      super_admin: 'Super admin',
+      restaurant_manager: 'Restaurant manager',
+      analyst: 'Analyst',
+    },
+  },
+  noAccess: {
+    title: 'No access',
+    noRole: 'Your account ({email}) has no role yet. Please contact a super admin.',
+    deactivated: 'Your account ({email}) has been deactivated. Please contact a super admin.',
+  },
+  login: {
+    title: 'Admin sign-in',
+    subtitle: 'EchoOfSmartICE Admin',
+    email: 'Email',
+    password: 'Password',
+    togglePasswordVisibility: 'Toggle password visibility',
+    signIn: 'Sign in',
+    signingIn: 'Signing in...',
+    forgotPassword: 'Forgot password?',
+    unexpectedError: 'An unexpected error occurred. Please try again.',
+    resetTitle: 'Reset password',
+    resetIntro: "Enter your email address and we'll send you a link to reset your password.",
+    resetSent: 'Password reset email sent! Check your inbox and follow the instructions.',
+    resetEmailRequired: 'Please enter your email address',
+    resetFailed: 'Failed to send reset email. Please try again.',
+    sendReset: 'Send reset email',
+    sendingReset: 'Sending...',
+  },
+  resetPassword: {
+    title: 'Reset password',
+    intro: 'Enter your new password below',
+    checking: 'Verifying the reset link...',
+    linkExpired:
+      'The reset link has expired or has already been used. Request a new password reset email from the sign-in page.',
+    inviteTitle: 'Set your password',
+    inviteIntro: 'Welcome! Choose a password for your account',
+    inviteChecking: 'Verifying the invitation link...',
+    inviteLinkExpired:
+      'The invitation link has expired or has already been used. Ask a super admin to resend the invitation.',
+    newPassword: 'New password',
+    confirmPassword: 'Confirm new password',
+    passwordHelper: 'At least 6 characters',
+    passwordTooShort: 'The password must be at least 6 characters long',
+    passwordMismatch: 'The passwords do not match',
+    updateFailed: 'Failed to update the password. Please try again.',
+    update: 'Update password',
+    updating: 'Updating...',
+    updated: 'Password updated! Redirecting to the sign-in page...',
+    setPassword: 'Set password',
+    settingPassword: 'Saving...',
+    passwordSet: 'Password set! Opening the admin panel...',
+  },
+  qrcode: {
+    title: 'QR code management',
+    subtitle: 'Generate and manage QR codes for every table of every restaurant',
+    selectRestaurant: 'Select restaurant',
+    tableListTitle: '{restaurant} - Tables',
+    qrStyle: 'QR code style',
+    downloadAll: 'Download all',
+    packing: 'Packing...',
+    zipPng: 'PNG images (ZIP)',
+    zipSvg: 'SVG vector images (ZIP)',
+    print: 'Print QR codes',
+    batchAdd: 'Add in bulk',
+    addTable: 'Add table',
+    defaultQuestionnaires: 'Default questionnaires for new QR codes:',
+    noDefaultQuestionnaires: 'Not set - new QR codes get no questionnaire',
+    deletedQuestionnaire: 'Deleted questionnaire',
+    viewOnly:
+      'You can only view this restaurant: QR codes can be viewed and downloaded, but tables, QR codes and questionnaire assignments cannot be changed.',
+    noTables: 'This restaurant has no tables yet. Add a table first.',
+    noTablesViewOnly: 'This restaurant has no tables yet.',
+    tableNumber: 'Table {table}',
+    generated: 'Generated',
+    notGenerated: 'Not generated',
+    noQuestionnaire: 'No questionnaire',
+    questionnaires: 'Questionnaires: {questionnaires}',
+    unknownQuestionnaire: 'Unknown questionnaire',
+    noScans: 'No scans in the last {days} days',
+    scanFunnel: 'Last {days} days: {scans} scans · {completions} completed · {rate}% completion rate',
+    dropOff: 'Most drop-offs: {question} ({count} did not finish)',
+    deletedQuestion: 'Deleted question',
+    qrCodeAlt: 'Table {table} QR code',
+    generate: 'Generate QR code',
+    generating: 'Generating...',
+    download: 'Download QR code',
+    assignments: 'Questionnaires',
+    replace: 'Replace',
+    move: 'Move',
+    deleteQRCode: 'Delete QR code',
+    deleteTable: 'Delete table',
+    addTableTitle: 'Add table',
+    tableNumberLabel: 'Table number',
+    tableNumberPlaceholder: 'e.g. Room 123, A1, Table 8',
+    tableNumberHelper:
+      'Any combination of letters, digits and Chinese characters; must be unique within the restaurant',
+    creatingTable: 'Creating...',
+    confirmAddTable: 'Add',
+    replaceTitle: 'Replace QR code',
+    replaceIntro: 'You are about to replace the QR code of {table} (e.g. because the sticker is damaged or lost).',
+    replaceEffects: 'Replacing the QR code will:',
+    replaceNewCode: "Generate a new QR code with the old code's questionnaire assignments (including A/B weights)",
+    replaceRetireOld: 'Retire the old QR code - scanning it redirects to the new one',
+    replaceKeepFeedback: 'Keep all customer feedback collected with the old QR code',
+    replaceReprint: 'Print the new QR code afterwards and replace the sticker on the table.',
+    replacing: 'Replacing...',
+    confirmReplace: 'Replace',
+    deleteQRCodeTitle: 'Delete QR code',
+    deleteTableTitle: 'Delete table',
+    deleteQRCodeIntro: 'You are about to delete the QR code of {table}.',
+    deleteTableIntro: 'You are about to delete {table}.',
+    deleteQRCodeDeactivated: 'Scanning the QR code shows "QR code deactivated"',
+    deleteQRCodeKeepTable: 'The table stays and can get a new QR code',
+    deleteTableRemoved: 'The table is removed from the list; scanning its QR code shows "QR code deactivated"',
+    deleteTableKeepData: 'The QR code, questionnaire assignments and customer feedback are kept',
+    trashNote:
+      'Deleted items move to the trash and can be restored within {days} days. Only admins can delete them permanently.',
+    deleting: 'Deleting...',
+    moveToTrash: 'Move to trash',
+    loadRestaurantsFailed: 'Failed to load restaurants',
+    loadTablesFailed: 'Failed to load tables',
+    loadAssignmentsFailed: 'Failed to load assignments',
+    generateFailed: 'Failed to generate QR code',
+    downloadFailed: 'Failed to download QR codes',
+    createTableFailed: 'Failed to create table',
+    replaceFailed: 'Failed to replace QR code',
+    deleteFailed: 'Failed to delete',
+  },
+  qrStyle: {
+    title: 'QR code style - {restaurant}',
+    foreground: 'Foreground',
+    background: 'Background',
+    contrast: 'Contrast {contrast}:1 (higher scans more reliably)',
+    size: 'Size',
+    sizes: {
+      small: 'Small ({pixels}px)',
+      medium: 'Medium ({pixels}px)',
+      large: 'Large ({pixels}px)',
+      print: 'Print ({pixels}px)',
+    },
+    errorCorrection: 'Error correction',
+    errorCorrectionLevels: {
+      L: 'L - about 7% recovery',
+      M: 'M - about 15% recovery (default)',
+      Q: 'Q - about 25% recovery',
+      H: 'H - about 30% recovery',
+    },
+    addLogo: 'Add center logo',
+    replaceLogo: 'Replace logo',
+    removeLogo: 'Remove logo',
+    logoErrorCorrection: 'With a logo the highest error correction level, H, is used',
+    logoTooLarge: 'The logo image must not exceed {size}KB',
+    previewTitle: 'Preview',
+    preview: 'QR code preview',
+    warnings: {
+      invalid_color: 'Invalid color, use the #RRGGBB format',
+      low_contrast: 'Foreground and background contrast is too low ({contrast}:1); some phones may fail to scan it',
+      inverted: 'The foreground is lighter than the background (inverted QR code); some scanners cannot read it',
+      small_with_logo: 'A small QR code with a logo has little detail left; check that it scans before printing',
+    },
+    confirmWarnings: 'New and downloaded QR codes will use this style. Save anyway?',
+    reset: 'Reset to default',
+    saveAnyway: 'Save anyway',
+    previewFailed: 'Failed to render the preview',
+    readImageFailed: 'Failed to read the image',
+    saveFailed: 'Failed to save the QR code style',
+  },
+  batchAddTables: {
+    title: 'Add tables in bulk',
+    pattern: 'Naming pattern',
+    patternPlaceholder: 'A1-A20\nVIP-1..5\nPrivate room 8',
+    csv: 'Import CSV',
+    patternHelper:
+      'One pattern per line or separated by commas: A1-A20 creates A1 to A20, VIP-1..5 creates VIP-1 to VIP-5, anything else is added as a single table',
+    chooseCsv: 'Choose CSV file',
+    csvRead: '{file}: {count} table numbers read',
+    csvHint:
+      'The first column is read as table numbers (UTF-8); a first row of "桌号" or table_number is treated as a header',
+    preview: 'Preview: {count} tables will be added',
+    skippedExisting: ', {count} existing skipped',
+    skippedDuplicates: ', {count} duplicates skipped',
+    new: 'New',
+    exists: 'Exists',
+    duplicate: 'Duplicate',
+    tableWithStatus: '{table} ({status})',
+    existingWarning: 'Table numbers must be unique within a restaurant; existing table numbers are not created.',
+    generateQRCodes: "Also generate QR codes for the new tables (assigns the restaurant's questionnaires)",
+    creating: 'Creating...',
+    create: 'Create {count} tables',
+    invalidPattern: 'Invalid naming pattern',
+    readCsvFailed: 'Failed to read the CSV file',
+    generateFailed: 'The tables were created, but generating their QR codes failed: {detail}',
+    createFailed: 'Failed to create the tables',
+  },
+  printLayout: {
+    title: 'Print QR codes - {restaurant}',
+    layout: 'Layout',
+    sheet: 'A4 grid ({count} per page)',
+    tent: 'Table tent (folded card)',
+    callToAction: 'Call to action',
+    brandText: 'Brand line (optional)',
+    accentColor: 'Accent color',
+    uploadLogo: 'Upload logo',
+    replaceLogo: 'Replace logo',
+    removeLogo: 'Remove logo',
+    logoTooLarge: 'The logo image must not exceed {size}MB',
+    format: 'File format',
+    pdfHint: 'For printing directly (A4, 200 dpi)',
+    svgHint: 'Vector format for print shops; several pages are packed into a ZIP',
+    noQRCodes: 'No tables of this restaurant have QR codes yet.',
+    summary: '{tables} tables, {pages} pages',
+    skippedTables: ' ({count} tables without QR codes are not printed)',
+    preview: 'Preview',
+    previewAlt: 'Print preview',
+    generating: 'Generating...',
+    download: 'Download {format}',
+    sheetFileName: 'QR codes',
+    tentFileName: 'Table tents',
+    readImageFailed: 'Failed to read the image',
+    downloadFailed: 'Failed to generate the print file',
+  },
+  assignmentDialog: {
+    title: 'Questionnaire assignments - table {table}',
+    single: 'Single questionnaire',
+    weighted: 'A/B weighted',
+    singleHint: 'Customers at this table always see the same questionnaire.',
+    weightedHint: 'Customers see one of the questionnaires at random, by weight, for A/B testing.',
+    questionnaire: 'Questionnaire',
+    inactive: ' (inactive)',
+    unpublished: ' (not published)',
+    weight: 'Weight',
+    add: 'Add questionnaire',
+    duplicate: 'A questionnaire can only be assigned to a table once.',
+    invalidWeight: 'Weights must be whole numbers of at least 1.',
+    preview: 'Questionnaires customers see after scanning:',
+    empty: 'Without a questionnaire, customers who scan the QR code see no questionnaire.',
+    removedNote: 'Removed assignments are deactivated, not deleted; collected feedback is kept.',
+    loadFailed: 'Failed to load questionnaire assignments',
+    saveFailed: 'Failed to save questionnaire assignments',
+  },
+  defaultAssignments: {
+    title: 'Default questionnaires for new QR codes - {restaurant}',
+    intro:
+      'New QR codes of this restaurant get these questionnaires and weights. Existing QR codes keep their assignments, which can be changed per table.',
+    duplicate: 'A questionnaire can only be added once.',
+    preview: 'Questionnaires customers at new tables see after scanning:',
+    empty: 'Without default questionnaires, new QR codes get no questionnaire and customers who scan them see none.',
+    saveFailed: 'Failed to save the default questionnaires',
+  },
+  moveQRCode: {
+    title: 'Move QR code - table {table}',
+    intro:
+      'Use this QR code (the printed sticker) on another table. Its content and questionnaire assignments stay the same; feedback already collected stays with the original table.',
+    target: 'Target table',
+    hasQRCode: ' (has a QR code)',
+    retireWarning:
+      "Table {table}'s current QR code will be retired; scanning it opens the moved QR code. Its past feedback is kept.",
+    moving: 'Moving...',
+    confirm: 'Move',
+    moveFailed: 'Failed to move the QR code',
+  },
+  editor: {
+    title: 'Questionnaire editor',
+    subtitle: 'Create and edit questionnaires with flexible question types',
+    import: 'Import',
+    fromTemplate: 'From template',
+    create: 'New questionnaire',
+    empty: 'No questionnaires found. Create your first one!',
+    notPublished: 'Not published',
+    published: 'Published v{version}',
+    publishedWithDraftChanges: 'Published v{version} · draft changed',
+    active: 'Active',
+    inactive: 'Inactive',
+    questionCount: 'Questions ({count}):',
+    summaryOptions: 'Options: {options}',
+    optionSeparator: ', ',
+    summaryRatingStyle: 'Style: {style}',
+    summaryRange: 'Range: {min} ~ {max}',
+    translations: 'Translations:',
+    translationComplete: '{language} complete',
+    translationNone: '{language} not translated',
+    translationMissing: '{language} {count} missing',
+    assigned: 'Assigned to:',
+    notAssigned: 'Not assigned to any table',
+    tableCount: '{count} tables',
+    table: 'Table {table}',
+    removeRestaurantAssignments: 'Remove all assignments of this restaurant',
+    removeTableAssignment: 'Remove the assignment of this table',
+    versions: 'Versions & publishing',
+    duplicate: 'Duplicate',
+    translate: 'Translate',
+    assign: 'Assign',
+    export: 'Export',
+    editTitle: 'Edit questionnaire',
+    createTitle: 'New questionnaire',
+    titleLabel: 'Title',
+    descriptionLabel: 'Description (optional)',
+    activeLabel: 'Active',
+    questions: 'Questions',
+    addQuestion: 'Add question',
+    questionLabel: 'Question {number}',
+    type: 'Type',
+    options: 'Answer options ({min}-{max})',
+    optionLabel: 'Label',
+    optionLabelPlaceholder: 'Answer',
+    optionValue: 'Value',
+    optionValuePlaceholder: 'Data key (e.g. mood 1-5; leave empty for synonyms)',
+    addOption: 'Add option',
+    minSelections: 'Min. selections',
+    maxSelections: 'Max. selections',
+    unlimited: 'No limit',
+    ratingStyle: 'Style',
+    ratingHint: 'Customers choose 1 to 5',
+    npsHint: 'Customers choose 0 (not at all likely) to 10 (extremely likely); analytics computes the NPS',
+    minValue: 'Minimum',
+    maxValue: 'Maximum',
+    assignTitle: 'Assign questionnaire',
+    assignTo: 'Assign "{title}" to:',
+    assignUnpublished:
+      'This questionnaire is not published yet - customers will not see it after scanning. Publish it under "Versions & publishing" first.',
+    scope: 'Scope',
+    scopeRestaurant: 'Whole restaurant (all tables)',
+    scopeTable: 'One table',
+    mode: 'Mode',
+    modeSingle: 'Single questionnaire (skip tables that have one)',
+    modeWeighted: 'A/B weighted (alongside existing questionnaires)',
+    weight: 'Weight',
+    weightedHint:
+      'Customers get one questionnaire at random by weight; see and adjust the percentages under "Questionnaires" on the QR code page.',
+    selectRestaurant: 'Select restaurant',
+    selectTable: 'Select table',
+    noQRCode: 'No QR code',
+    assigning: 'Assigning...',
+    confirmAssign: 'Assign',
+    copyTitle: '{title} (copy)',
+    loadFailed: 'Failed to load data',
+    loadTablesFailed: 'Failed to load tables',
+    draftSaved: 'Draft saved! Customers see the changes after publishing under "Versions & publishing".',
+    updated: 'Questionnaire updated! Customers see it after it is published.',
+    created: 'Questionnaire created! Publish it under "Versions & publishing" before assigning it to tables.',
+    saveFailed: 'Failed to save questionnaire',
+    readFileFailed: 'Failed to read the file',
+    importFailed: 'Failed to import questionnaire',
+    invalidWeight: 'The weight must be a whole number of at least 1',
+    restaurantRequired: 'Please select a restaurant',
+    tableRequired: 'Please select a table',
+    tableNotFound: 'Table not found',
+    tableWithoutQRCode: 'This table has no QR code - generate one first',
+    assignedToRestaurant: 'Questionnaire assigned to {count} tables!',
+    skippedAssignedTables: ' (skipped {count} tables that already have an assignment: {tables})',
+    skippedTablesWithQuestionnaire: ' (skipped {count} tables that already have this questionnaire: {tables})',
+    assignedSuccess: 'Questionnaire assigned!',
+    assignFailed: 'Failed to assign questionnaire',
+    confirmRemoveAssignment: 'Remove the questionnaire assignment of {restaurant} - table {table}?',
+    assignmentRemoved: 'Assignment removed!',
+    removeAssignmentFailed: 'Failed to remove assignment',
+    confirmRemoveRestaurantAssignments:
+      'Remove all {count} questionnaire assignments of {restaurant}?\n\nThis removes the assignment from every table of the restaurant.',
+    restaurantAssignmentsRemoved: 'Removed {count} assignments from {restaurant}!',
+    removeRestaurantAssignmentsFailed: 'Failed to remove restaurant assignments',
+    confirmDelete:
+      'Delete the questionnaire "{title}"? Customers will no longer see it.\nIt moves to the trash and can be restored within {days} days; collected feedback is not affected.',
+    deleted: 'Questionnaire moved to the trash',
+    deleteFailed: 'Failed to delete questionnaire',
+    duplicated: 'Duplicated "{title}". Publish the copy before assigning it to tables.',
+    duplicateFailed: 'Failed to duplicate questionnaire',
+    templateCreated: 'Created "{title}" from a template. Check it, then publish it under "Versions & publishing".',
+    importedOverwrite:
+      'Replaced the draft of "{title}" with the imported file. Customers see the changes after publishing.',
+    importedCreate: 'Imported "{title}". Publish it under "Versions & publishing" before assigning it to tables.',
+    publishedVersion: 'Published v{version}. Customers get the new version when they scan.',
+    translationsSaved:
+      'Translations saved to the draft. Customers see them after publishing under "Versions & publishing".',
+  },
+  publishDialog: {
+    title: 'Versions & publishing - {title}',
+    intro:
+      'Customers see the published version. Editing a questionnaire only changes its draft, which takes effect once published; published versions never change, and each answer stays linked to the version it was given for.',
+    compareFrom: 'Compare from',
+    noBaseline: '(None - first publish)',
+    compareTo: 'Compare to',
+    draft: 'Current draft',
+    versionLabel: 'v{version} ({date})',
+    identical: 'Both versions have the same content.',
+    breakingWarning:
+      'Some changes affect how collected answers compare (removed questions, changed question types or removed options). Earlier answers are still stored and shown with their original version.',
+    titleChanged: 'Title: {before} → {after}',
+    descriptionChanged: 'Description: {before} → {after}',
+    textTranslationsChanged: 'Title or description translations changed',
+    unchanged: '{count} more questions unchanged',
+    added: 'Added',
+    removed: 'Removed',
+    modified: 'Modified',
+    breaking: 'Affects collected answers',
+    textChanged: 'Question: {before} → {after}',
+    typeChanged: 'Type: {before} → {after}',
+    moved: 'Moved',
+    settingsChanged: 'Type settings changed (rating style, number of selections or value range)',
+    logicChanged: 'Skip logic changed',
+    translationsChanged: 'Translations changed',
+    optionsAdded: 'Added options: {options}',
+    optionsRemoved: 'Removed options: {options}',
+    optionRelabeled: 'Option renamed: {before} → {after}',
+    history: 'Version history',
+    notPublished: 'Not published yet',
+    publishing: 'Publishing...',
+    publishAs: 'Publish as v{version}',
+    noChanges: 'No draft changes',
+    loadFailed: 'Failed to load version history',
+    publishFailed: 'Failed to publish the questionnaire',
+  },
+  branchEditor: {
+    title: 'Skip logic',
+    ifScore: 'If the score is',
+    ifOption: 'If the answer is',
+    goTo: 'go to',
+    question: 'Question {number}: {text}',
+    untitled: '(empty)',
+    end: 'End of questionnaire',
+    addRule: 'Add rule',
+    otherwise: 'Otherwise',
+    afterAnswer: 'After this question',
+    inOrder: 'Next question in order',
+    firstMatch: 'Rules are checked in order; the first matching rule is used',
+  },
+  translationsDialog: {
+    dialogTitle: 'Translations - {title}',
+    intro:
+      'Customers see translations based on their browser language or the language switch on the page; untranslated texts are shown in Chinese. Answers are always stored with the Chinese options and option values. Publish after saving for customers to see the changes.',
+    missing: '{count} missing',
+    complete: 'Complete',
+    missingOnly: 'Only show texts without a translation',
+    allTranslated: 'Everything is translated.',
+    title: 'Title',
+    description: 'Description',
+    question: 'Question {number}',
+    option: 'Question {number} · Option {option}',
+    placeholder: '{language} translation (leave empty to show Chinese)',
+    saveFailed: 'Failed to save translations',
+  },
+  importDialog: {
+    title: 'Import questionnaire',
+    chooseFile: 'Choose questionnaire file',
+    fileHint:
+      'Choose a JSON file saved with "Export" in the questionnaire editor (it may come from another environment)',
+    fileTooLarge: 'The file is too large to be a questionnaire export',
+    issues: 'The file has {count} problems and cannot be imported:',
+    questionIssues: 'Question {number}: {issues}',
+    issueSeparator: '; ',
+    valid: '"{title}" has {count} questions and passed the check.',
+    create: 'Create as a new questionnaire',
+    overwrite: 'Overwrite the existing questionnaire "{title}"',
+    overwriteUnavailable: 'Overwrite an existing questionnaire (none with the same ID in this environment)',
+    overwriteNote:
+      'Overwriting only replaces the draft. Changes take effect after publishing in "Versions & publishing".',
+    overwritePublishedNote:
+      'Overwriting only replaces the draft. Customers keep seeing the published version until you publish in "Versions & publishing".',
+    importing: 'Importing...',
+    confirm: 'Import',
+  },
+  templateLibrary: {
+    title: 'Questionnaire templates',
+    intro:
+      'Choose a template to create a questionnaire. You can keep editing it; customers see it after it is published.',
+    use: 'Use this template',
+    createFailed: 'Failed to create a questionnaire from the template',
+  },
+  answerFilters: {
+    restaurant: 'Restaurant',
+    allRestaurants: 'All restaurants',
+    table: 'Table',
+    allTables: 'All tables',
+    tableNumber: 'Table {number}',
+    questionnaire: 'Questionnaire',
+    allQuestionnaires: 'All questionnaires',
+    startDate: 'Start date',
+    endDate: 'End date',
+    clear: 'Clear filters',
+  },
+  analytics: {
+    title: 'Analytics',
+    subtitle: 'Feedback submitted by customers (all times in Beijing time)',
+    noData: 'No feedback matches the current filters.',
+    dailyResponses: 'Responses per day',
+    totalResponses: '{count} responses in total',
+    dayResponses: '{date}: {count}',
+    versionHint: 'Counted per version the customer answered, each with its own questions and options',
+    beforeVersioning: 'Before versioning',
+    responseCount: '{count} responses',
+    noQuestions: 'This questionnaire has no questions to aggregate',
+    questionMeta: '({type}, {count} answered)',
+    questionMetaMultiSelect: '({type}, {count} answered; several choices allowed, shares are of respondents)',
+    average: 'Average {value}',
+    median: 'Median {value}',
+    optionCount: '{count} ({percentage}%)',
+  },
+  responses: {
+    title: 'Responses',
+    subtitle:
+      'Browse submitted questionnaires one by one, search written feedback and export (all times in Beijing time)',
+    search: 'Search written feedback',
+    searchPlaceholder: 'Enter keywords',
+    total: '{count} responses in total',
+    exportCsv: 'Export CSV',
+    exportExcel: 'Export Excel',
+    exportFileName: 'responses_{date}',
+    exportSheetName: 'Responses',
+    noResponses: 'No responses match the current filters.',
+    submittedAt: 'Submitted',
+    restaurant: 'Restaurant',
+    table: 'Table',
+    questionnaire: 'Questionnaire',
+    answers: 'Answers',
+    questionLabel: '{question}: ',
+    rowsPerPage: 'Rows per page',
+  },
+  experiments: {
+    title: 'A/B test report',
+    subtitle: 'Compare the feedback on different questionnaire versions at one restaurant to see which works better',
+    restaurant: 'Restaurant',
+    groupByQuestionnaire: 'By questionnaire',
+    groupByAssignment: 'By assignment',
+    variantTables: '{questionnaire} · Tables {tables}',
+    selectRestaurant: 'Select a restaurant first.',
+    noAssignments: 'This restaurant has no questionnaire assignments yet.',
+    variants: 'Variants',
+    totalResponses: '{count} responses in total',
+    variant: 'Variant',
+    expectedShare: 'Expected traffic',
+    responses: 'Responses',
+    actualShare: 'Actual share',
+    scans: 'Scans',
+    responseRate: 'Responses per scan',
+    inactive: 'Inactive',
+    noScans: 'No scans were recorded in the selected period, so responses per scan cannot be calculated.',
+    noComparableQuestions:
+      'No choice questions to compare (at least two variants need the same question, matched by question ID).',
+    earlierTexts: 'Earlier texts: {texts}',
+    earlierTextSeparator: '; ',
+    textChanged: 'Question text edited',
+    testDetails: 'χ² = {statistic}, degrees of freedom = {degreesOfFreedom}',
+    testDetailsLowCounts: 'χ² = {statistic}, degrees of freedom = {degreesOfFreedom} (small sample, indicative only)',
+    significant: 'Significant difference (p {pValue})',
+    notSignificant: 'No significant difference (p {pValue})',
+    notEnoughData: 'Not enough data',
+    variantResponses: '({count} answered)',
+    optionShare: '{label}: {count} ({percentage}%)',
+    significanceNote:
+      'Significance is tested with a chi-square test of independence; p below {level} counts as significant.',
+  },
+  trash: {
+    title: 'Trash',
+    subtitle:
+      'Deleted tables, QR codes and questionnaires can be restored for {days} days; feedback is kept until purged',
+    types: {
+      table: 'Table',
+      qrcode: 'QR code',
+      questionnaire: 'Questionnaire',
+    },
+    purgeEffects: {
+      table: 'the table, its QR codes, questionnaire assignments and all customer feedback for the table',
+      qrcode: 'the QR code, its questionnaire assignments and all customer feedback submitted through it',
+      questionnaire: 'the questionnaire, all its versions, all assignments and all customer feedback on it',
+    },
+    all: 'All',
+    itemCount: '{count} items',
+    empty: 'The trash is empty.',
+    type: 'Type',
+    name: 'Name',
+    restaurant: 'Restaurant',
+    deletedAt: 'Deleted',
+    daysLeft: 'Days left to restore',
+    actions: 'Actions',
+    days: '{count} days',
+    expired: 'Expired',
+    restore: 'Restore',
+    purge: 'Delete permanently',
+    purgeSuperAdminOnly: 'Only super admins can delete permanently',
+    tableName: 'Table {table}',
+    qrcodeName: 'QR code of table {table}',
+    restored: 'Restored "{name}"',
+    purged: 'Permanently deleted "{name}"',
+    purgeTitle: 'Delete permanently',
+    purgeWarning: 'Warning: this cannot be undone!',
+    purgeIntro: 'You are about to permanently delete {name}.',
+    purgeEffectsIntro: 'This permanently deletes {effects}',
+    purging: 'Deleting...',
+    confirmPurge: 'Delete permanently',
+  },
+  users: {
+    title: 'Users',
+    subtitle: 'Invite staff to the admin app and give them a role and the restaurants they manage',
+    invite: 'Invite user',
+    accounts: 'Users ({count})',
+    email: 'Email',
+    role: 'Role',
+    restaurants: 'Restaurants',
+    lastSignIn: 'Last sign-in',
+    status: 'Status',
+    actions: 'Actions',
+    me: 'Me',
+    deactivated: 'Deactivated',
+    active: 'Active',
+    cannotEditSelf: 'You cannot change your own account',
+    deactivate: 'Deactivate',
+    reactivate: 'Reactivate',
+    deactivatedMessage: 'Deactivated {email}',
+    reactivatedMessage: 'Reactivated {email}',
+    allRestaurants: 'All',
+    unknownRestaurant: 'Unknown restaurant',
+    restaurantSeparator: ', ',
+    neverSignedIn: 'Never',
+    invitations: 'Pending invitations ({count})',
+    noInvitations: 'No pending invitations.',
+    invitedAt: 'Invited',
+    resend: 'Resend',
+    revoke: 'Revoke',
+    resent: 'Invitation sent to {email} again',
+    confirmRevoke: 'Revoke the invitation for {email}?',
+    revoked: 'Revoked the invitation for {email}',
+  },
+  userRoleDialog: {
+    inviteTitle: 'Invite user',
+    editTitle: 'Edit access - {email}',
+    email: 'Email',
+    emailHint: 'They will get a sign-in email; after following the link and setting a password they can start',
+    role: 'Role',
+    roleDescriptions: {
+      super_admin: 'Can manage all restaurants, delete questionnaires, empty the trash and manage users',
+      restaurant_manager:
+        'Can manage tables, QR codes and assignments of the selected restaurants, and edit and publish questionnaires',
+      analyst: 'Can only view data and feedback of the selected restaurants; without a selection, of all restaurants',
+    },
+    restaurants: 'Restaurants',
+    analystRestaurantsHint: 'Leave empty to view all restaurants',
+    managerRestaurantsHint: 'Restaurant managers need at least one restaurant',
+    appliesOnNextSignIn: 'Changes apply the next time the user signs in or reloads the page.',
+    sendInvitation: 'Send invitation',
+    updated: 'Updated the access of {email}',
+    invited: 'Invitation email sent to {email}',
+  },
+  auditLog: {
+    title: 'Audit log',
+    subtitle: 'Who changed restaurants, tables, QR codes, questionnaires and assignments, and when (Beijing time)',
+    user: 'User',
+    allUsers: 'All users',
+    restaurant: 'Restaurant',
+    allRestaurants: 'All restaurants',
+    action: 'Action',
+    allActions: 'All actions',
+    restaurantFilterHint:
+      'Questionnaires belong to all restaurants, so a restaurant filter hides questionnaire changes.',
+    total: '{count} entries in total',
+    noEntries: 'No entries match the current filters.',
+    time: 'Time',
+    entity: 'Object',
+    details: 'Details',
+    view: 'View',
+    unknownUser: 'Unknown user',
+    unknownRestaurant: 'Unknown restaurant',
+    rowsPerPage: 'Rows per page',
+    none: '(none)',
+    before: 'Before',
+    after: 'After',
+    actions: {
+      restaurantCreate: 'Create restaurant',
+      restaurantUpdate: 'Edit restaurant',
+      restaurantSettings: 'Change restaurant settings',
+      tableCreate: 'Add table',
+      tableDelete: 'Delete table',
+      qrcodeGenerate: 'Generate QR code',
+      qrcodeReplace: 'Replace QR code',
+      qrcodeMove: 'Move QR code',
+      qrcodeDelete: 'Delete QR code',
+      questionnaireCreate: 'Create questionnaire',
+      questionnaireUpdate: 'Edit questionnaire',
+      questionnaireDelete: 'Delete questionnaire',
+      questionnairePublish: 'Publish questionnaire',
+      assignmentCreate: 'Assign questionnaire',
+      assignmentUpdate: 'Change assignment',
+      assignmentDeactivate: 'Deactivate assignment',
+      assignmentRemove: 'Remove assignment',
+      trashRestore: 'Restore from trash',
+      trashPurge: 'Delete permanently',
+    },
+    entities: {
+      restaurant: 'Restaurant',
+      table: 'Table',
+      qrcode: 'QR code',
+      questionnaire: 'Questionnaire',
+      assignment: 'Assignment',
+    },
+  },
+  restaurants: {
+    title: 'Restaurants',
+    subtitle: 'Add new locations and set their default questionnaires, time zone, status and QR code style',
+    create: 'New restaurant',
+    empty: 'No restaurants yet.',
+    restaurant: 'Restaurant',
+    address: 'Address',
+    defaultQuestionnaires: 'Default questionnaires',
+    timezone: 'Time zone',
+    status: 'Status',
+    actions: 'Actions',
+    active: 'Open',
+    inactive: 'Inactive',
+    qrStyle: 'QR code style',
+    notSet: 'Not set',
+    deletedQuestionnaire: 'Deleted questionnaire',
+    assignmentSeparator: ', ',
+    defaultsSaved: 'Saved the default questionnaires of {name}',
+    qrStyleSaved: 'Saved the QR code style of {name}',
+    timezones: {
+      shanghai: 'Beijing time',
+      hongKong: 'Hong Kong time',
+      taipei: 'Taipei time',
+      singapore: 'Singapore time',
+      tokyo: 'Tokyo time',
+      seoul: 'Seoul time',
+      bangkok: 'Bangkok time',
+      london: 'London time',
+      losAngeles: 'Los Angeles time',
+      newYork: 'New York time',
+    },
+  },
+  restaurantDialog: {
+    createTitle: 'New restaurant',
+    editTitle: 'Edit restaurant - {name}',
+    details: 'Details',
+    name: 'Restaurant name',
+    address: 'Address',
+    city: 'City',
+    detailsSuperAdminOnly: 'Only super admins can change the name, address and city.',
+    settings: 'Settings',
+    timezone: 'Time zone',
+    inactiveHint: 'Customers scanning a code of an inactive restaurant see "not collecting feedback"; data is kept',
+    create: 'Create',
+    saved: 'Saved {name}',
+    created: 'Created restaurant {name}',
+  },
+  answerLabels: {
+    exportColumns: {
+      submitted_at: 'Submitted (Beijing time)',
+      restaurant: 'Restaurant',
+      table: 'Table',
+      questionnaire: 'Questionnaire',
+    },
+    ratingPoint: '{point} pts',
+    outOfRange: 'Out of range',
+    emptyAnswer: '(blank)',
+  },
+  questionTypes: {
+    multiple_choice: 'Single choice',
+    multi_select: 'Multiple choice',
+    text_input: 'Text',
+    rating: 'Rating (1-5)',
+    nps: 'NPS (0-10)',
+    numeric: 'Number',
+  },
+  ratingStyles: {
+    star: 'Stars',
+    emoji: 'Emoji',
+  },
+  errors: {
+    request_failed: 'Failed to {action}: {detail}',
+    questions: {
+      not_array: 'Questions must be an array',
+      empty: 'At least one question is required',
+    },
+    question: {
+      id_required: 'Question {question}: ID is required',
+      text_required: 'Question {question}: Text is required',
+      type_invalid: 'Question {question}: Type must be one of {types}',
+      options_required: 'Question {question}: Choice questions must have options',
+      option_count: 'Question {question}: Needs {min}-{max} options',
+      option_label_required: 'Question {question}, option {option}: Label is required',
+      min_selections: 'Question {question}: Minimum selections must be a whole number of at least 1',
+      max_selections:
+        'Question {question}: Maximum selections must be between the minimum ({min}) and the number of options ({count})',
+      rating_style: 'Question {question}: Style must be stars or emoji',
+      numeric_range_required: 'Question {question}: Number questions need a minimum and a maximum',
+      numeric_range_order: 'Question {question}: Minimum must be less than maximum',
+      branches_unsupported: 'Question {question}: Skip logic rules are not supported for this question type',
+      branch_target: 'Question {question}, rule {rule}: Target question does not exist',
+      branch_score_range: 'Question {question}, rule {rule}: Score range must be within {min}-{max}',
+      branch_option: 'Question {question}, rule {rule}: Option does not exist',
+      default_next: 'Question {question}: Default next question does not exist',
+      loop: 'Skip logic creates a loop: questions {path}',
+    },
+    questionnaire: {
+      import_not_found: "No questionnaire with the file's id exists here - import it as a new questionnaire",
+      no_changes_to_publish: 'No changes to publish: the draft is identical to the latest version',
+    },
+    assignment: {
+      table_has_questionnaire:
+        'This table already has a questionnaire assigned: "{titles}". Remove the existing assignment before assigning a new one.',
+      already_assigned: 'This questionnaire is already assigned to this table. Adjust its weight in the assignment editor instead.',
+      single_mode_one_questionnaire: 'Only one questionnaire can be assigned in single-questionnaire mode',
+      duplicate_questionnaire: 'The same questionnaire cannot be assigned twice to one table',
+      invalid_weight: 'Weights must be whole numbers of at least 1',
+      no_tables: 'No tables found for this restaurant',
+      no_qrcodes: 'No QR codes found for this restaurant. Generate QR codes first.',
+      all_tables_assigned:
+        'All {count} tables of this restaurant already have questionnaire assignments. No new assignments were created.',
+      all_tables_have_questionnaire:
+        'All {count} tables of this restaurant already have this questionnaire. No new assignments were created.',
+    },
+    qrcode: {
+      none_to_print: 'No tables with QR codes to print',
+      none_to_download: 'No tables with QR codes to download',
+      move_other_restaurant: 'QR codes can only be moved to a table of the same restaurant',
+      not_on_table: 'The QR code is no longer on this table. Reload the page and try again.',
+    },
+    table: {
+      range_too_large: 'Range "{range}" has more than {max} tables',
+      batch_too_large: 'At most {max} tables can be created at once',
+    },
+    restaurant: {
+      name_required: 'Restaurant name is required',
+      unknown_timezone: 'Unknown time zone: {timezone}',
+      duplicate_default_questionnaire: 'The same questionnaire cannot be in the default questionnaires twice',
+      missing_default_questionnaires: 'Some questionnaires no longer exist or are in the trash',
+    },
+    trash: {
+      retention_passed: 'Items can only be restored within {days} days of deletion',
+      qrcode_table_missing: 'The table of this QR code no longer exists',
+      qrcode_slot_taken: 'Failed to restore QR code: the table already has another QR code',
+      table_number_taken: 'Failed to restore table: another table is already named {table}',
+    },
+    user: {
+      manager_needs_restaurant: 'Restaurant managers need at least one restaurant',
+      own_account: 'You cannot change your own account',
+      invalid_email: 'Invalid email address',
+    },
+    answers: {
+      invalid: 'Invalid answers: {detail}',
+    },
+    survey: {
+      qr_code_not_found: 'QR code not found',
+      qr_code_retired: 'QR code is no longer in use',
+      restaurant_inactive: 'Restaurant is not accepting feedback',
+      no_active_questionnaire: 'No active questionnaires found for this QR code',
+    },
+    access: {
+      manage_restaurant: 'You do not have permission to manage this restaurant',
+      edit_questionnaires: 'You do not have permission to edit questionnaires',
+      delete_questionnaires: 'Only super admins can delete questionnaires',
+      super_admin: 'Only super admins can do this',
+      purge_trash: 'Only super admins can permanently delete items',
+    },
+  },
+  requestActions: {
+    'assign questionnaire': 'assign questionnaire',
+    'assign questionnaire to restaurant': 'assign questionnaire to restaurant',
+    'check existing assignments': 'check existing assignments',
+    'create QR code': 'create QR code',
+    'create QR codes': 'create QR codes',
+    'create invitation': 'create invitation',
+    'create questionnaire': 'create questionnaire',
+    'create restaurant': 'create restaurant',
+    'create table': 'create table',
+    'create tables': 'create tables',
+    'deactivate assignment': 'deactivate assignment',
+    'deactivate removed assignments': 'deactivate removed assignments',
+    'deactivate user': 'deactivate user',
+    'delete QR code': 'delete QR code',
+    'delete questionnaire': 'delete questionnaire',
+    'delete table': 'delete table',
+    'fetch QR code': 'load QR code',
+    'fetch QR code assignments': 'load QR code assignments',
+    'fetch QR code style': 'load QR code style',
+    'fetch answers': 'fetch answers',
+    'fetch assignment': 'load assignment',
+    'fetch assignments for questionnaire': 'load assignments for questionnaire',
+    'fetch audit log': 'fetch audit log',
+    'fetch invitations': 'fetch invitations',
+    'fetch questionnaire': 'load questionnaire',
+    'fetch questionnaire assignments': 'load questionnaire assignments',
+    'fetch questionnaire versions': 'load questionnaire versions',
+    'fetch questionnaire versions for answers': 'fetch questionnaire versions for answers',
+    'fetch questionnaires': 'load questionnaires',
+    'fetch questionnaires for QR code': 'load questionnaires for QR code',
+    'fetch questionnaires for answers': 'fetch questionnaires for answers',
+    'fetch responses': 'fetch responses',
+    'fetch restaurant': 'load restaurant',
+    'fetch restaurant assignments': 'fetch restaurant assignments',
+    'fetch restaurant settings': 'load restaurant settings',
+    'fetch restaurants': 'load restaurants',
+    'fetch scan events': 'fetch scan events',
+    'fetch table data': 'load table data',
+    'fetch tables': 'load tables',
+    'fetch tables for restaurant': 'load tables for restaurant',
+    'fetch tables of deleted QR codes': 'fetch tables of deleted QR codes',
+    'fetch target table': 'load target table',
+    'fetch trash': 'fetch trash',
+    'fetch user role': 'load user role',
+    'fetch users': 'fetch users',
+    'move QR code': 'move QR code',
+    'publish questionnaire': 'publish questionnaire',
+    'purge item': 'purge item',
+    'reactivate user': 'reactivate user',
+    'remove assignment': 'remove assignment',
+    'remove restaurant assignments': 'remove restaurant assignments',
+    'restore item': 'restore item',
+    'retire QR code': 'retire QR code',
+    'revoke invitation': 'revoke invitation',
+    'save QR code style': 'save QR code style',
+    'save assignments': 'save assignments',
+    'save default assignments': 'save default questionnaires',
+    'save restaurant settings': 'save restaurant settings',
+    'send invitation email': 'send invitation email',
+    'set published version': 'set published version',
+    'submit answers': 'submit answers',
+    'update questionnaire': 'update questionnaire',
+    'update restaurant': 'update restaurant',
+    'update user role': 'update user role',
+  },
+}
@@ -0,0 +1,93 @@
+// Version: 1.0.0
+// Admin UI message catalogs (zh-CN, en) - message lookup, {name} interpolation and translation of AppError codes
+// Keys are dot paths into the catalogs, e.g. 'editor.title'; the customer questionnaire page has its own texts
+// (customerMessages.ts) because it follows the questionnaire's content languages instead
+
+import type { ReactNode } from 'react'
+import { zhCN } from './zhCN'
+import { en } from './en'
+import { AppError } from '../utils/appError'
+import type { RequestAction } from '../utils/appError'
+
+export type AdminLocale = 'zh-CN' | 'en'
+
+export const DEFAULT_ADMIN_LOCALE: AdminLocale = 'zh-CN'
+
+export const ADMIN_LOCALES: AdminLocale[] = ['zh-CN', 'en']
+
+// Each language in its own name - shown in the language switcher
+export const ADMIN_LOCALE_LABELS: Record<AdminLocale, string> = {
+  'zh-CN': '简体中文',
+  en: 'English',
+}
+
+export type Messages = typeof zhCN
+
+// Dot paths of every message in a catalog
+type MessagePath<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : MessagePath<T[K], `${Prefix}${K}.`>
+}[keyof T & string]
+
+export type MessageKey = MessagePath<Messages>
+
+export type MessageParams = Record<string, string | number>
+
+const CATALOGS: Record<AdminLocale, Messages> = {
+  'zh-CN': zhCN,
+  en,
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g
+
+const lookup = (locale: AdminLocale, key: MessageKey): string => {
+  const text = key
+    .split('.')
+    .reduce<unknown>((node, part) => (node as Record<string, unknown> | undefined)?.[part], CATALOGS[locale])
+  return typeof text === 'string' ? text : key
+}
+
+/**
+ * Message in a language with its {name} placeholders filled; unknown placeholders are left as they are
+ */
+export const formatMessage = (locale: AdminLocale, key: MessageKey, params?: MessageParams): string => {
+  const text = lookup(locale, key)
+  if (!params) return text
+  return text.replace(PLACEHOLDER, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  )
+}
+
+/**
+ * Message with placeholders filled by elements (e.g. a table number in <strong>), as a list of nodes
+ */
+export const formatMessageParts = (
+  locale: AdminLocale,
+  key: MessageKey,
+  params: Record<string, ReactNode>
+): ReactNode[] => {
+  // split() with a capture group alternates text and placeholder names
+  return lookup(locale, key)
+    .split(PLACEHOLDER)
+    .map((part, index) => (index % 2 === 1 && part in params ? params[part] : part))
+}
+
+/**
+ * Text of a caught error - AppErrors are translated by code, other errors show their message
+ * @param fallback - Message for values that are not errors
+ */
+export const formatError = (locale: AdminLocale, err: unknown, fallback: MessageKey): string => {
+  if (err instanceof AppError) {
+    if (err.code === 'request_failed') {
+      const actionKey: MessageKey = `requestActions.${err.params.action as RequestAction}`
+      return formatMessage(locale, 'errors.request_failed', {
+        ...err.params,
+        action: formatMessage(locale, actionKey),
+      })
+    }
+
+    const key: MessageKey = `errors.${err.code}`
+    return formatMessage(locale, key, err.params)
+  }
+
+  return err instanceof Error ? err.message : formatMessage(locale, fallback)
+}
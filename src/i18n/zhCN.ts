@@ -0,0 +1,932 @@
+// Version: 1.13.0
+// Admin UI messages in Simplified Chinese - the reference catalog; other catalogs must have the same keys
+// {name} placeholders are filled by t(); errors.* follow the AppError codes, requestActions the requestFailed() actions
+// v1.13.0: Restaurant management page and dialog, time zone names
+// v1.12.0: Audit log page, with action and object labels
+// v1.11.0: User management page and role dialog
+// v1.10.0: Trash page
+// v1.9.0: A/B test report
+// v1.8.0: Analytics and responses pages, with their shared filters
+// v1.7.0: Answer labels (export column headers, rating points, out-of-range and blank answers)
+// v1.6.0: QR code management dialogs (style, batch add, print, assignments, defaults, move); table naming errors
+// v1.5.0: Questionnaire editor dialogs (publish, skip logic, translations, import, templates)
+// v1.4.0: No-access screen
+// v1.3.0: Trash, user management, answers and customer questionnaire errors; generic fallback error
+// v1.2.0: Reset password page, including the set-password view for invited users
+// v1.1.0: QR code move errors
+
+export const zhCN = {
+  common: {
+    cancel: '取消',
+    close: '关闭',
+    save: '保存',
+    saving: '保存中...',
+    edit: '编辑',
+    delete: '删除',
+    unexpectedError: '操作失败，请重试',
+  },
+  layout: {
+    title: 'Echo 管理后台',
+    logout: '退出登录',
+    language: '语言',
+    nav: {
+      qrcodeManagement: '二维码管理',
+      questionnaireEditor: '问卷编辑',
+      analytics: '数据分析',
+      responses: '反馈记录',
+      experiments: 'A/B 实验',
+      restaurants: '餐厅管理',
+      trash: '回收站',
+      users: '用户管理',
+      auditLog: '操作日志',
+    },
+    roles: {
+      super_admin: '超级管理员',
+      restaurant_manager: '餐厅经理',
+      analyst: '数据分析员',
+    },
+  },
+  noAccess: {
+    title: '暂无访问权限',
+    noRole: '您的账号（{email}）尚未分配权限，请联系超级管理员',
+    deactivated: '您的账号（{email}）已被停用，请联系超级管理员',
+  },
+  login: {
+    title: '管理员登录',
+    subtitle: 'EchoOfSmartICE 管理后台',
+    email: '邮箱',
+    password: '密码',
+    togglePasswordVisibility: '切换密码可见性',
+    signIn: '登录',
+    signingIn: '登录中...',
+    forgotPassword: '忘记密码？',
+    unexpectedError: '发生意外错误，请重试。',
+    resetTitle: '重置密码',
+    resetIntro: '输入您的邮箱地址，我们将发送重置密码的链接给您。',
+    resetSent: '密码重置邮件已发送！请检查您的收件箱并按照说明操作。',
+    resetEmailRequired: '请输入您的邮箱地址',
+    resetFailed: '发送重置邮件失败，请重试。',
+    sendReset: '发送重置邮件',
+    sendingReset: '发送中...',
+  },
+  resetPassword: {
+    title: '重置密码',
+    intro: '请在下方输入您的新密码',
+    checking: '正在验证重置链接...',
+    linkExpired: '重置链接已过期或已被使用，请在登录页重新申请密码重置邮件。',
+    inviteTitle: '设置密码',
+    inviteIntro: '欢迎加入！请为您的账号设置登录密码',
+    inviteChecking: '正在验证邀请链接...',
+    inviteLinkExpired: '邀请链接已过期或已被使用，请联系超级管理员重新发送邀请。',
+    newPassword: '新密码',
+    confirmPassword: '确认新密码',
+    passwordHelper: '至少 6 个字符',
+    passwordTooShort: '密码长度至少为 6 个字符',
+    passwordMismatch: '两次输入的密码不匹配',
+    updateFailed: '密码更新失败，请重试',
+    update: '更新密码',
+    updating: '更新中...',
+    updated: '密码更新成功！正在跳转到登录页面...',
+    setPassword: '设置密码',
+    settingPassword: '保存中...',
+    passwordSet: '密码设置成功！正在进入管理后台...',
+  },
+  qrcode: {
+    title: '二维码管理',
+    subtitle: '为每个餐厅的每个桌子生成和管理二维码',
+    selectRestaurant: '选择餐厅',
+    tableListTitle: '{restaurant} - 桌位列表',
+    qrStyle: '二维码样式',
+    downloadAll: '批量下载',
+    packing: '打包中...',
+    zipPng: 'PNG 图片（ZIP）',
+    zipSvg: 'SVG 矢量图（ZIP）',
+    print: '打印二维码',
+    batchAdd: '批量添加',
+    addTable: '添加桌位',
+    defaultQuestionnaires: '新二维码默认问卷：',
+    noDefaultQuestionnaires: '未设置 - 新生成的二维码不会分配问卷',
+    deletedQuestionnaire: '已删除的问卷',
+    viewOnly: '您对该餐厅只有查看权限，可以查看和下载二维码，但不能修改桌位、二维码或问卷分配。',
+    noTables: '该餐厅暂无桌位，请先添加桌位。',
+    noTablesViewOnly: '该餐厅暂无桌位。',
+    tableNumber: '桌号 {table}',
+    generated: '已生成',
+    notGenerated: '未生成',
+    noQuestionnaire: '未分配问卷',
+    questionnaires: '问卷：{questionnaires}',
+    unknownQuestionnaire: '未知问卷',
+    noScans: '近 {days} 天暂无扫码',
+    scanFunnel: '近 {days} 天：扫码 {scans} 次 · 完成 {completions} 次 · 完成率 {rate}%',
+    dropOff: '流失最多：{question}（{count} 人未完成）',
+    deletedQuestion: '已删除的题目',
+    qrCodeAlt: '桌号 {table} 二维码',
+    generate: '生成二维码',
+    generating: '生成中...',
+    download: '下载二维码',
+    assignments: '问卷分配',
+    replace: '更换',
+    move: '移动',
+    deleteQRCode: '删除二维码',
+    deleteTable: '删除桌位',
+    addTableTitle: '添加新桌位',
+    tableNumberLabel: '桌号',
+    tableNumberPlaceholder: '例如：包间123、A1、8号桌',
+    tableNumberHelper: '支持中文、字母、数字及任意组合，同一餐厅内不能重复',
+    creatingTable: '创建中...',
+    confirmAddTable: '确认添加',
+    replaceTitle: '更换二维码确认',
+    replaceIntro: '您即将为 {table} 更换二维码（例如贴纸损坏或丢失）。',
+    replaceEffects: '更换二维码将会：',
+    replaceNewCode: '生成全新的二维码，并沿用旧二维码的问卷分配（包括 A/B 权重）',
+    replaceRetireOld: '停用旧二维码 - 扫描旧二维码会自动跳转到新二维码',
+    replaceKeepFeedback: '保留旧二维码收集的所有顾客反馈',
+    replaceReprint: '更换后请打印新的二维码并替换桌上的贴纸。',
+    replacing: '更换中...',
+    confirmReplace: '确认更换',
+    deleteQRCodeTitle: '删除二维码确认',
+    deleteTableTitle: '删除桌位确认',
+    deleteQRCodeIntro: '您即将删除 {table} 的二维码。',
+    deleteTableIntro: '您即将删除 {table}。',
+    deleteQRCodeDeactivated: '扫描该二维码将提示"二维码已停用"',
+    deleteQRCodeKeepTable: '桌位保留，可以为它生成新的二维码',
+    deleteTableRemoved: '桌位从列表中移除，扫描它的二维码将提示"二维码已停用"',
+    deleteTableKeepData: '二维码、问卷分配和顾客反馈数据都会保留',
+    trashNote: '删除的内容会移到回收站，{days} 天内可以恢复。只有管理员可以在回收站中彻底删除。',
+    deleting: '删除中...',
+    moveToTrash: '移到回收站',
+    loadRestaurantsFailed: '加载餐厅失败',
+    loadTablesFailed: '加载桌位失败',
+    loadAssignmentsFailed: '加载问卷分配失败',
+    generateFailed: '生成二维码失败',
+    downloadFailed: '下载二维码失败',
+    createTableFailed: '创建桌位失败',
+    replaceFailed: '更换二维码失败',
+    deleteFailed: '删除失败',
+  },
+  qrStyle: {
+    title: '二维码样式 - {restaurant}',
+    foreground: '前景色',
+    background: '背景色',
+    contrast: '对比度 {contrast}:1（越高越容易识别）',
+    size: '尺寸',
+    sizes: {
+      small: '小（{pixels}px）',
+      medium: '中（{pixels}px）',
+      large: '大（{pixels}px）',
+      print: '印刷（{pixels}px）',
+    },
+    errorCorrection: '容错级别',
+    errorCorrectionLevels: {
+      L: 'L - 约 7% 容错',
+      M: 'M - 约 15% 容错（默认）',
+      Q: 'Q - 约 25% 容错',
+      H: 'H - 约 30% 容错',
+    },
+    addLogo: '添加中心 Logo',
+    replaceLogo: '更换 Logo',
+    removeLogo: '移除 Logo',
+    logoErrorCorrection: '添加 Logo 后自动使用最高容错级别 H',
+    logoTooLarge: 'Logo 图片不能超过 {size}KB',
+    previewTitle: '预览',
+    preview: '二维码预览',
+    warnings: {
+      invalid_color: '颜色格式无效，请使用 #RRGGBB 格式',
+      low_contrast: '前景色与背景色对比度过低（{contrast}:1），部分手机可能无法识别',
+      inverted: '前景色比背景色浅（反色二维码），部分扫码工具无法识别',
+      small_with_logo: '小尺寸二维码加 Logo 后细节较少，请在打印前确认可以扫描',
+    },
+    confirmWarnings: '保存后新生成和下载的二维码都会使用此样式，确定仍要保存吗？',
+    reset: '恢复默认',
+    saveAnyway: '仍然保存',
+    previewFailed: '生成预览失败',
+    readImageFailed: '读取图片失败',
+    saveFailed: '保存二维码样式失败',
+  },
+  batchAddTables: {
+    title: '批量添加桌位',
+    pattern: '命名规则',
+    patternPlaceholder: 'A1-A20\nVIP-1..5\n包间8',
+    csv: '导入 CSV',
+    patternHelper:
+      '每行或用逗号分隔一条规则：A1-A20 生成 A1 到 A20，VIP-1..5 生成 VIP-1 到 VIP-5，其他内容按单个桌号添加',
+    chooseCsv: '选择 CSV 文件',
+    csvRead: '{file}：读取到 {count} 个桌号',
+    csvHint: '读取第一列作为桌号（UTF-8 编码），首行为“桌号”或 table_number 时视为表头',
+    preview: '预览：将新增 {count} 个桌位',
+    skippedExisting: '，跳过 {count} 个已存在',
+    skippedDuplicates: '，跳过 {count} 个重复',
+    new: '新增',
+    exists: '已存在',
+    duplicate: '重复',
+    tableWithStatus: '{table}（{status}）',
+    existingWarning: '同一餐厅内桌号不能重复，已存在的桌号不会被创建。',
+    generateQRCodes: '同时为新桌位生成二维码（自动分配该餐厅的问卷）',
+    creating: '创建中...',
+    create: '创建 {count} 个桌位',
+    invalidPattern: '命名规则无效',
+    readCsvFailed: '读取 CSV 文件失败',
+    generateFailed: '桌位已创建，但生成二维码失败：{detail}',
+    createFailed: '批量创建桌位失败',
+  },
+  printLayout: {
+    title: '打印二维码 - {restaurant}',
+    layout: '版式',
+    sheet: 'A4 网格（每页 {count} 张）',
+    tent: '桌卡（对折立牌）',
+    callToAction: '引导语',
+    brandText: '品牌标语（可选）',
+    accentColor: '主题色',
+    uploadLogo: '上传 Logo',
+    replaceLogo: '更换 Logo',
+    removeLogo: '移除 Logo',
+    logoTooLarge: 'Logo 图片不能超过 {size}MB',
+    format: '文件格式',
+    pdfHint: '适合直接打印（A4，200 dpi）',
+    svgHint: '矢量格式，适合交给印刷厂；多页时打包为 ZIP',
+    noQRCodes: '该餐厅还没有已生成二维码的桌位。',
+    summary: '共 {tables} 个桌位，{pages} 页',
+    skippedTables: '（{count} 个未生成二维码的桌位不会打印）',
+    preview: '预览',
+    previewAlt: '打印预览',
+    generating: '生成中...',
+    download: '下载 {format}',
+    sheetFileName: '二维码',
+    tentFileName: '桌卡',
+    readImageFailed: '读取图片失败',
+    downloadFailed: '生成打印文件失败',
+  },
+  assignmentDialog: {
+    title: '问卷分配 - 桌号 {table}',
+    single: '单一问卷',
+    weighted: 'A/B 加权',
+    singleHint: '该桌位的顾客扫码后始终看到同一份问卷。',
+    weightedHint: '顾客扫码时按权重随机看到其中一份问卷，用于 A/B 测试。',
+    questionnaire: '问卷',
+    inactive: '（已禁用）',
+    unpublished: '（未发布）',
+    weight: '权重',
+    add: '添加问卷',
+    duplicate: '同一问卷不能重复分配到同一桌位。',
+    invalidWeight: '权重必须是不小于 1 的整数。',
+    preview: '顾客扫码时看到的问卷：',
+    empty: '未分配问卷时，顾客扫码将无法看到问卷。',
+    removedNote: '移除的问卷分配会被停用而非删除，已收集的反馈数据会保留。',
+    loadFailed: '加载问卷分配失败',
+    saveFailed: '保存问卷分配失败',
+  },
+  defaultAssignments: {
+    title: '新二维码默认问卷 - {restaurant}',
+    intro: '该餐厅新生成的二维码会自动分配以下问卷和权重。已有二维码的问卷分配不受影响，可在各桌位单独调整。',
+    duplicate: '同一问卷不能重复添加。',
+    preview: '新桌位的顾客扫码时看到的问卷：',
+    empty: '未设置默认问卷时，新生成的二维码不会分配问卷，顾客扫码将无法看到问卷。',
+    saveFailed: '保存默认问卷失败',
+  },
+  moveQRCode: {
+    title: '移动二维码 - 桌号 {table}',
+    intro: '将此二维码（已打印的贴纸）移到其他桌位使用。二维码内容和问卷分配保持不变，已收集的反馈仍记录在原桌号下。',
+    target: '目标桌位',
+    hasQRCode: '（已有二维码）',
+    retireWarning: '桌号 {table} 当前的二维码将被停用，扫描它会自动打开移过去的二维码。该二维码的历史反馈会保留。',
+    moving: '移动中...',
+    confirm: '确认移动',
+    moveFailed: '移动二维码失败',
+  },
+  editor: {
+    title: '问卷编辑器',
+    subtitle: '创建和编辑具有灵活问题类型的问卷',
+    import: '导入',
+    fromTemplate: '从模板创建',
+    create: '创建新问卷',
+    empty: '未找到问卷。创建您的第一个问卷吧！',
+    notPublished: '未发布',
+    published: '已发布 v{version}',
+    publishedWithDraftChanges: '已发布 v{version} · 草稿有修改',
+    active: '启用',
+    inactive: '禁用',
+    questionCount: '问题 ({count}):',
+    summaryOptions: '选项：{options}',
+    optionSeparator: '、',
+    summaryRatingStyle: '样式：{style}',
+    summaryRange: '范围：{min} ~ {max}',
+    translations: '翻译：',
+    translationComplete: '{language} 已完成',
+    translationNone: '{language} 未翻译',
+    translationMissing: '{language} 缺 {count} 项',
+    assigned: '已分配：',
+    notAssigned: '未分配到任何餐桌',
+    tableCount: '{count} 个餐桌',
+    table: '餐桌 {table}',
+    removeRestaurantAssignments: '删除该餐厅的所有分配',
+    removeTableAssignment: '删除该餐桌的分配',
+    versions: '版本与发布',
+    duplicate: '复制',
+    translate: '翻译',
+    assign: '分配',
+    export: '导出',
+    editTitle: '编辑问卷',
+    createTitle: '创建新问卷',
+    titleLabel: '问卷标题',
+    descriptionLabel: '描述（可选）',
+    activeLabel: '启用',
+    questions: '问题',
+    addQuestion: '添加问题',
+    questionLabel: '问题 {number}',
+    type: '类型',
+    options: '答案选项（{min}-{max}个）',
+    optionLabel: '标签',
+    optionLabelPlaceholder: '答案',
+    optionValue: '值',
+    optionValuePlaceholder: '数据标识（如：情绪1-5，同义词则留空）',
+    addOption: '添加选项',
+    minSelections: '最少选择',
+    maxSelections: '最多选择',
+    unlimited: '不限',
+    ratingStyle: '显示样式',
+    ratingHint: '顾客从 1 到 5 分中选择',
+    npsHint: '顾客从 0（完全不可能）到 10（非常可能）中选择，分析页按 NPS 计算推荐值',
+    minValue: '最小值',
+    maxValue: '最大值',
+    assignTitle: '分配问卷',
+    assignTo: '将"{title}"分配到：',
+    assignUnpublished: '该问卷尚未发布，分配后顾客扫码暂时看不到它。请先在"版本与发布"中发布。',
+    scope: '分配范围',
+    scopeRestaurant: '整个餐厅（所有餐桌）',
+    scopeTable: '指定餐桌',
+    mode: '分配模式',
+    modeSingle: '单一问卷（跳过已有问卷的餐桌）',
+    modeWeighted: 'A/B 加权（与现有问卷并存）',
+    weight: '权重',
+    weightedHint: '顾客扫码时按各问卷权重占比随机展示，可在二维码管理页的"问卷分配"中查看和调整百分比。',
+    selectRestaurant: '选择餐厅',
+    selectTable: '选择餐桌',
+    noQRCode: '无二维码',
+    assigning: '分配中...',
+    confirmAssign: '确认分配',
+    copyTitle: '{title}（副本）',
+    loadFailed: '加载数据失败',
+    loadTablesFailed: '加载餐桌失败',
+    draftSaved: '草稿已保存！点击"版本与发布"发布后，顾客才会看到修改。',
+    updated: '问卷更新成功！发布后才能被顾客看到。',
+    created: '问卷创建成功！请点击"版本与发布"发布后再分配给餐桌。',
+    saveFailed: '保存问卷失败',
+    readFileFailed: '读取文件失败',
+    importFailed: '导入问卷失败',
+    invalidWeight: '权重必须是不小于 1 的整数',
+    restaurantRequired: '请选择餐厅',
+    tableRequired: '请选择餐桌',
+    tableNotFound: '未找到餐桌',
+    tableWithoutQRCode: '该餐桌没有二维码，请先生成',
+    assignedToRestaurant: '成功分配问卷到 {count} 个餐桌！',
+    skippedAssignedTables: ' (已跳过 {count} 个已有分配的餐桌：{tables})',
+    skippedTablesWithQuestionnaire: ' (已跳过 {count} 个已分配该问卷的餐桌：{tables})',
+    assignedSuccess: '问卷分配成功！',
+    assignFailed: '分配问卷失败',
+    confirmRemoveAssignment: '确定要移除 {restaurant} - 餐桌 {table} 的问卷分配吗？',
+    assignmentRemoved: '分配移除成功！',
+    removeAssignmentFailed: '移除分配失败',
+    confirmRemoveRestaurantAssignments: '确定要移除 {restaurant} 的所有 {count} 个问卷分配吗？\n\n这将删除该餐厅所有餐桌的分配。',
+    restaurantAssignmentsRemoved: '成功从 {restaurant} 移除了 {count} 个分配！',
+    removeRestaurantAssignmentsFailed: '移除餐厅分配失败',
+    confirmDelete:
+      '确定要删除问卷「{title}」吗？顾客将无法再看到它。\n问卷会移到回收站，{days} 天内可以恢复，已收集的反馈不受影响。',
+    deleted: '问卷已移到回收站',
+    deleteFailed: '删除问卷失败',
+    duplicated: '已复制问卷「{title}」，副本需要发布后才能分配给餐桌。',
+    duplicateFailed: '复制问卷失败',
+    templateCreated: '已从模板创建问卷「{title}」，请检查后点击"版本与发布"发布。',
+    importedOverwrite: '已用导入的文件覆盖问卷「{title}」的草稿，发布后顾客才会看到修改。',
+    importedCreate: '已导入问卷「{title}」，请点击"版本与发布"发布后再分配给餐桌。',
+    publishedVersion: '已发布 v{version}，顾客扫码将看到新版本。',
+    translationsSaved: '翻译已保存到草稿，点击"版本与发布"发布后顾客才会看到。',
+  },
+  publishDialog: {
+    title: '版本与发布 - {title}',
+    intro:
+      '顾客扫码看到的是已发布的版本。编辑问卷只会修改草稿，发布后才会生效；每个发布的版本都不可更改，已收集的回答始终对应其作答时的版本。',
+    compareFrom: '对比基准',
+    noBaseline: '（无 - 首次发布）',
+    compareTo: '对比目标',
+    draft: '当前草稿',
+    versionLabel: 'v{version}（{date}）',
+    identical: '两个版本内容相同。',
+    breakingWarning: '部分修改会影响已收集回答的可比性（删除题目、修改题型或删除选项）。旧回答仍按原版本保存和展示。',
+    titleChanged: '标题：{before} → {after}',
+    descriptionChanged: '描述：{before} → {after}',
+    textTranslationsChanged: '标题或描述的翻译已修改',
+    unchanged: '另有 {count} 个问题未改动',
+    added: '新增',
+    removed: '删除',
+    modified: '修改',
+    breaking: '影响已有回答',
+    textChanged: '题目：{before} → {after}',
+    typeChanged: '题型：{before} → {after}',
+    moved: '顺序已调整',
+    settingsChanged: '题型设置已修改（评分样式、可选数量或数值范围）',
+    logicChanged: '跳转逻辑已修改',
+    translationsChanged: '翻译已修改',
+    optionsAdded: '新增选项：{options}',
+    optionsRemoved: '删除选项：{options}',
+    optionRelabeled: '选项改名：{before} → {after}',
+    history: '版本历史',
+    notPublished: '尚未发布',
+    publishing: '发布中...',
+    publishAs: '发布为 v{version}',
+    noChanges: '草稿无改动',
+    loadFailed: '加载版本历史失败',
+    publishFailed: '发布问卷失败',
+  },
+  branchEditor: {
+    title: '跳转逻辑',
+    ifScore: '评分在',
+    ifOption: '选择',
+    goTo: '时跳转到',
+    question: '问题 {number}：{text}',
+    untitled: '（未填写）',
+    end: '结束问卷',
+    addRule: '添加跳转规则',
+    otherwise: '其他情况',
+    afterAnswer: '答完后',
+    inOrder: '按顺序进入下一题',
+    firstMatch: '规则按顺序检查，使用第一条符合的规则',
+  },
+  translationsDialog: {
+    dialogTitle: '翻译 - {title}',
+    intro:
+      '顾客会根据浏览器语言或页面上的语言切换看到翻译，未翻译的内容显示中文。回答始终按中文选项和选项值保存。保存后需要发布才对顾客生效。',
+    missing: '缺 {count}',
+    complete: '完成',
+    missingOnly: '只显示缺少翻译的内容',
+    allTranslated: '所有内容都已翻译。',
+    title: '标题',
+    description: '描述',
+    question: '问题 {number}',
+    option: '问题 {number} · 选项 {option}',
+    placeholder: '{language}翻译（留空则显示中文）',
+    saveFailed: '保存翻译失败',
+  },
+  importDialog: {
+    title: '导入问卷',
+    chooseFile: '选择问卷文件',
+    fileHint: '选择从问卷编辑器“导出”的 JSON 文件（可来自其他环境）',
+    fileTooLarge: '文件过大，不是有效的问卷导出文件',
+    issues: '文件有 {count} 处问题，无法导入：',
+    questionIssues: '问题 {number}：{issues}',
+    issueSeparator: '；',
+    valid: '「{title}」共 {count} 个问题，检查通过。',
+    create: '创建为新问卷',
+    overwrite: '覆盖现有问卷「{title}」',
+    overwriteUnavailable: '覆盖现有问卷（当前环境中没有相同 ID 的问卷）',
+    overwriteNote: '覆盖只替换草稿。点击"版本与发布"发布后修改才会生效。',
+    overwritePublishedNote: '覆盖只替换草稿。顾客仍看到已发布的版本，点击"版本与发布"发布后修改才会生效。',
+    importing: '导入中...',
+    confirm: '导入',
+  },
+  templateLibrary: {
+    title: '问卷模板库',
+    intro: '选择一个模板创建问卷，创建后可以继续编辑，发布后才会被顾客看到。',
+    use: '使用此模板',
+    createFailed: '从模板创建问卷失败',
+  },
+  answerFilters: {
+    restaurant: '餐厅',
+    allRestaurants: '全部餐厅',
+    table: '餐桌',
+    allTables: '全部餐桌',
+    tableNumber: '餐桌 {number}',
+    questionnaire: '问卷',
+    allQuestionnaires: '全部问卷',
+    startDate: '开始日期',
+    endDate: '结束日期',
+    clear: '清除筛选',
+  },
+  analytics: {
+    title: '数据分析',
+    subtitle: '查看顾客提交的问卷反馈（时间均为北京时间）',
+    noData: '当前筛选条件下暂无反馈数据。',
+    dailyResponses: '每日反馈数量',
+    totalResponses: '共 {count} 份反馈',
+    dayResponses: '{date}：{count} 份',
+    versionHint: '按顾客作答时的版本统计，每个版本使用各自的题目和选项',
+    beforeVersioning: '版本化前',
+    responseCount: '{count} 份反馈',
+    noQuestions: '该问卷没有可统计的题目',
+    questionMeta: '（{type}，{count} 人作答）',
+    questionMetaMultiSelect: '（{type}，{count} 人作答，可多选，占比按作答人数计算）',
+    average: '平均 {value}',
+    median: '中位数 {value}',
+    optionCount: '{count}（{percentage}%）',
+  },
+  responses: {
+    title: '反馈记录',
+    subtitle: '逐条查看顾客提交的问卷，搜索文字反馈并导出（时间均为北京时间）',
+    search: '搜索文字反馈',
+    searchPlaceholder: '输入关键词',
+    total: '共 {count} 份反馈',
+    exportCsv: '导出 CSV',
+    exportExcel: '导出 Excel',
+    exportFileName: '反馈记录_{date}',
+    exportSheetName: '反馈记录',
+    noResponses: '当前筛选条件下暂无反馈记录。',
+    submittedAt: '提交时间',
+    restaurant: '餐厅',
+    table: '桌号',
+    questionnaire: '问卷',
+    answers: '回答',
+    questionLabel: '{question}：',
+    rowsPerPage: '每页行数',
+  },
+  experiments: {
+    title: 'A/B 实验报告',
+    subtitle: '对比同一餐厅中不同问卷版本的反馈结果，判断哪个版本更优',
+    restaurant: '选择餐厅',
+    groupByQuestionnaire: '按问卷分组',
+    groupByAssignment: '按分配分组',
+    variantTables: '{questionnaire} · 餐桌 {tables}',
+    selectRestaurant: '请先选择餐厅。',
+    noAssignments: '该餐厅暂无问卷分配记录。',
+    variants: '实验版本',
+    totalResponses: '共 {count} 份反馈',
+    variant: '版本',
+    expectedShare: '预期流量',
+    responses: '反馈数',
+    actualShare: '实际占比',
+    scans: '扫码数',
+    responseRate: '扫码转化率',
+    inactive: '已停用',
+    noScans: '所选时间范围内没有扫码记录，暂无法计算扫码转化率。',
+    noComparableQuestions: '没有可在多个版本间对比的选择题（需要至少两个版本包含同一题目，按题目 ID 匹配）。',
+    earlierTexts: '曾用题目：{texts}',
+    earlierTextSeparator: '；',
+    textChanged: '题目文字有修改',
+    testDetails: 'χ² = {statistic}，自由度 = {degreesOfFreedom}',
+    testDetailsLowCounts: 'χ² = {statistic}，自由度 = {degreesOfFreedom}（样本量较小，结果仅供参考）',
+    significant: '差异显著（p {pValue}）',
+    notSignificant: '差异不显著（p {pValue}）',
+    notEnoughData: '数据不足',
+    variantResponses: '（{count} 人作答）',
+    optionShare: '{label}：{count}（{percentage}%）',
+    significanceNote: '显著性检验采用卡方独立性检验，p 值小于 {level} 视为差异显著。',
+  },
+  trash: {
+    title: '回收站',
+    subtitle: '删除的桌位、二维码和问卷会在这里保留 {days} 天，期间可以恢复；顾客反馈数据在彻底删除前不会丢失',
+    types: {
+      table: '桌位',
+      qrcode: '二维码',
+      questionnaire: '问卷',
+    },
+    purgeEffects: {
+      table: '桌位、它的二维码、问卷分配以及该桌位的所有顾客反馈',
+      qrcode: '二维码、它的问卷分配以及通过它提交的所有顾客反馈',
+      questionnaire: '问卷、所有版本、所有分配以及该问卷的所有顾客反馈',
+    },
+    all: '全部',
+    itemCount: '共 {count} 项',
+    empty: '回收站是空的。',
+    type: '类型',
+    name: '名称',
+    restaurant: '餐厅',
+    deletedAt: '删除时间',
+    daysLeft: '剩余可恢复天数',
+    actions: '操作',
+    days: '{count} 天',
+    expired: '已过期',
+    restore: '恢复',
+    purge: '彻底删除',
+    purgeSuperAdminOnly: '仅超级管理员可以彻底删除',
+    tableName: '桌号 {table}',
+    qrcodeName: '桌号 {table} 的二维码',
+    restored: '已恢复{type}「{name}」',
+    purged: '已彻底删除{type}「{name}」',
+    purgeTitle: '彻底删除确认',
+    purgeWarning: '警告：此操作不可撤销！',
+    purgeIntro: '您即将彻底删除 {name}。',
+    purgeEffectsIntro: '将永久删除：{effects}',
+    purging: '删除中...',
+    confirmPurge: '确认彻底删除',
+  },
+  users: {
+    title: '用户管理',
+    subtitle: '邀请员工使用管理后台，并分配角色和可管理的餐厅',
+    invite: '邀请用户',
+    accounts: '用户（{count}）',
+    email: '邮箱',
+    role: '角色',
+    restaurants: '餐厅',
+    lastSignIn: '最近登录',
+    status: '状态',
+    actions: '操作',
+    me: '我',
+    deactivated: '已停用',
+    active: '正常',
+    cannotEditSelf: '不能修改自己的账号',
+    deactivate: '停用',
+    reactivate: '启用',
+    deactivatedMessage: '已停用 {email}',
+    reactivatedMessage: '已启用 {email}',
+    allRestaurants: '全部',
+    unknownRestaurant: '未知餐厅',
+    restaurantSeparator: '、',
+    neverSignedIn: '从未登录',
+    invitations: '待接受的邀请（{count}）',
+    noInvitations: '没有待接受的邀请。',
+    invitedAt: '邀请时间',
+    resend: '重新发送',
+    revoke: '撤销',
+    resent: '已重新发送邀请给 {email}',
+    confirmRevoke: '确定要撤销对 {email} 的邀请吗？',
+    revoked: '已撤销对 {email} 的邀请',
+  },
+  userRoleDialog: {
+    inviteTitle: '邀请用户',
+    editTitle: '编辑权限 - {email}',
+    email: '邮箱',
+    emailHint: '对方会收到一封登录邮件，点击链接后设置密码即可使用',
+    role: '角色',
+    roleDescriptions: {
+      super_admin: '可以管理所有餐厅、删除问卷、清空回收站以及管理用户',
+      restaurant_manager: '可以管理所选餐厅的桌位、二维码和问卷分配，并编辑和发布问卷',
+      analyst: '只能查看所选餐厅的数据和反馈，不选择餐厅则可以查看所有餐厅',
+    },
+    restaurants: '餐厅',
+    analystRestaurantsHint: '不选择则可以查看所有餐厅',
+    managerRestaurantsHint: '餐厅经理至少需要一个餐厅',
+    appliesOnNextSignIn: '修改会在该用户下次登录或刷新页面后生效。',
+    sendInvitation: '发送邀请',
+    updated: '已更新 {email} 的权限',
+    invited: '已向 {email} 发送邀请邮件',
+  },
+  auditLog: {
+    title: '操作日志',
+    subtitle: '查看谁在什么时候修改了餐厅、桌位、二维码、问卷和问卷分配（时间均为北京时间）',
+    user: '用户',
+    allUsers: '全部用户',
+    restaurant: '餐厅',
+    allRestaurants: '全部餐厅',
+    action: '操作',
+    allActions: '全部操作',
+    restaurantFilterHint: '问卷本身属于所有餐厅，按餐厅筛选时不包含创建、编辑、发布和删除问卷的记录。',
+    total: '共 {count} 条记录',
+    noEntries: '当前筛选条件下暂无操作记录。',
+    time: '时间',
+    entity: '对象',
+    details: '详情',
+    view: '查看',
+    unknownUser: '未知用户',
+    unknownRestaurant: '未知餐厅',
+    rowsPerPage: '每页行数',
+    none: '（无）',
+    before: '修改前',
+    after: '修改后',
+    actions: {
+      restaurantCreate: '创建餐厅',
+      restaurantUpdate: '编辑餐厅',
+      restaurantSettings: '修改餐厅设置',
+      tableCreate: '添加桌位',
+      tableDelete: '删除桌位',
+      qrcodeGenerate: '生成二维码',
+      qrcodeReplace: '更换二维码',
+      qrcodeMove: '移动二维码',
+      qrcodeDelete: '删除二维码',
+      questionnaireCreate: '创建问卷',
+      questionnaireUpdate: '编辑问卷',
+      questionnaireDelete: '删除问卷',
+      questionnairePublish: '发布问卷',
+      assignmentCreate: '分配问卷',
+      assignmentUpdate: '调整问卷分配',
+      assignmentDeactivate: '停用问卷分配',
+      assignmentRemove: '删除问卷分配',
+      trashRestore: '从回收站恢复',
+      trashPurge: '彻底删除',
+    },
+    entities: {
+      restaurant: '餐厅',
+      table: '桌位',
+      qrcode: '二维码',
+      questionnaire: '问卷',
+      assignment: '问卷分配',
+    },
+  },
+  restaurants: {
+    title: '餐厅管理',
+    subtitle: '添加新门店，设置默认问卷、时区、营业状态和二维码样式',
+    create: '新建餐厅',
+    empty: '还没有餐厅。',
+    restaurant: '餐厅',
+    address: '地址',
+    defaultQuestionnaires: '默认问卷',
+    timezone: '时区',
+    status: '状态',
+    actions: '操作',
+    active: '营业中',
+    inactive: '已停用',
+    qrStyle: '二维码样式',
+    notSet: '未设置',
+    deletedQuestionnaire: '已删除的问卷',
+    assignmentSeparator: '、',
+    defaultsSaved: '已保存 {name} 的默认问卷',
+    qrStyleSaved: '已保存 {name} 的二维码样式',
+    timezones: {
+      shanghai: '北京时间',
+      hongKong: '香港时间',
+      taipei: '台北时间',
+      singapore: '新加坡时间',
+      tokyo: '东京时间',
+      seoul: '首尔时间',
+      bangkok: '曼谷时间',
+      london: '伦敦时间',
+      losAngeles: '洛杉矶时间',
+      newYork: '纽约时间',
+    },
+  },
+  restaurantDialog: {
+    createTitle: '新建餐厅',
+    editTitle: '编辑餐厅 - {name}',
+    details: '基本信息',
+    name: '餐厅名称',
+    address: '地址',
+    city: '城市',
+    detailsSuperAdminOnly: '餐厅名称、地址和城市只能由超级管理员修改。',
+    settings: '门店设置',
+    timezone: '时区',
+    inactiveHint: '停用后，顾客扫码会看到“本店暂未开放问卷反馈”，已有数据不受影响',
+    create: '创建',
+    saved: '已保存 {name}',
+    created: '已创建餐厅 {name}',
+  },
+  answerLabels: {
+    exportColumns: {
+      submitted_at: '提交时间（北京时间）',
+      restaurant: '餐厅',
+      table: '桌号',
+      questionnaire: '问卷',
+    },
+    ratingPoint: '{point} 分',
+    outOfRange: '超出范围',
+    emptyAnswer: '（空）',
+  },
+  questionTypes: {
+    multiple_choice: '单选题',
+    multi_select: '多选题',
+    text_input: '文本输入',
+    rating: '评分（1-5）',
+    nps: 'NPS（0-10）',
+    numeric: '数字',
+  },
+  ratingStyles: {
+    star: '星级',
+    emoji: '表情',
+  },
+  errors: {
+    request_failed: '{action}失败：{detail}',
+    questions: {
+      not_array: '问题格式无效',
+      empty: '至少需要一个问题',
+    },
+    question: {
+      id_required: '问题 {question}：缺少 ID',
+      text_required: '问题 {question}：请填写问题内容',
+      type_invalid: '问题 {question}：类型必须是 {types} 之一',
+      options_required: '问题 {question}：选择题必须有选项',
+      option_count: '问题 {question}：需要 {min}-{max} 个选项',
+      option_label_required: '问题 {question}，选项 {option}：请填写标签',
+      min_selections: '问题 {question}：最少选择必须是不小于 1 的整数',
+      max_selections: '问题 {question}：最多选择必须在最少选择（{min}）和选项数（{count}）之间',
+      rating_style: '问题 {question}：显示样式必须是星级或表情',
+      numeric_range_required: '问题 {question}：数字题需要设置最小值和最大值',
+      numeric_range_order: '问题 {question}：最小值必须小于最大值',
+      branches_unsupported: '问题 {question}：该类型的问题不支持跳转规则',
+      branch_target: '问题 {question}，规则 {rule}：目标问题不存在',
+      branch_score_range: '问题 {question}，规则 {rule}：分数范围必须在 {min}-{max} 之间',
+      branch_option: '问题 {question}，规则 {rule}：选项不存在',
+      default_next: '问题 {question}：默认下一题不存在',
+      loop: '跳转逻辑形成了循环：问题 {path}',
+    },
+    questionnaire: {
+      import_not_found: '当前环境中没有与文件 ID 相同的问卷，请作为新问卷导入',
+      no_changes_to_publish: '没有可发布的修改：草稿与最新版本相同',
+    },
+    assignment: {
+      table_has_questionnaire: '该餐桌已分配问卷「{titles}」，请先移除现有分配再分配新问卷',
+      already_assigned: '该问卷已分配到此餐桌，请在问卷分配中调整它的权重',
+      single_mode_one_questionnaire: '单一问卷模式只能分配一个问卷',
+      duplicate_questionnaire: '同一问卷不能重复分配到一个餐桌',
+      invalid_weight: '权重必须是不小于 1 的整数',
+      no_tables: '该餐厅没有餐桌',
+      no_qrcodes: '该餐厅还没有二维码，请先生成二维码',
+      all_tables_assigned: '该餐厅的 {count} 个餐桌都已有问卷分配，未创建新的分配',
+      all_tables_have_questionnaire: '该餐厅的 {count} 个餐桌都已分配该问卷，未创建新的分配',
+    },
+    qrcode: {
+      none_to_print: '没有已生成二维码的桌位可以打印',
+      none_to_download: '没有已生成二维码的桌位可以下载',
+      move_other_restaurant: '二维码只能移动到同一餐厅的桌位',
+      not_on_table: '该二维码已不在此桌位上，请刷新页面后重试',
+    },
+    table: {
+      range_too_large: '范围“{range}”超过 {max} 个桌位',
+      batch_too_large: '一次最多创建 {max} 个桌位',
+    },
+    restaurant: {
+      name_required: '请填写餐厅名称',
+      unknown_timezone: '未知时区：{timezone}',
+      duplicate_default_questionnaire: '默认问卷中不能重复添加同一问卷',
+      missing_default_questionnaires: '部分问卷已不存在或已在回收站中',
+    },
+    trash: {
+      retention_passed: '只能恢复 {days} 天内删除的内容',
+      qrcode_table_missing: '该二维码所在的桌位已不存在',
+      qrcode_slot_taken: '恢复二维码失败：该桌位已有其他二维码',
+      table_number_taken: '恢复桌位失败：已有名为 {table} 的桌位',
+    },
+    user: {
+      manager_needs_restaurant: '餐厅管理员至少需要一个餐厅',
+      own_account: '不能修改自己的账号',
+      invalid_email: '邮箱地址无效',
+    },
+    answers: {
+      invalid: '反馈无效：{detail}',
+    },
+    survey: {
+      qr_code_not_found: '未找到该二维码',
+      qr_code_retired: '该二维码已停用',
+      restaurant_inactive: '该餐厅暂未开放问卷反馈',
+      no_active_questionnaire: '该二维码暂无可用问卷',
+    },
+    access: {
+      manage_restaurant: '您没有管理该餐厅的权限',
+      edit_questionnaires: '您没有编辑问卷的权限',
+      delete_questionnaires: '只有超级管理员可以删除问卷',
+      super_admin: '只有超级管理员可以执行此操作',
+      purge_trash: '只有超级管理员可以彻底删除内容',
+    },
+  },
+  requestActions: {
+    'assign questionnaire': '分配问卷',
+    'assign questionnaire to restaurant': '分配问卷到餐厅',
+    'check existing assignments': '检查现有分配',
+    'create QR code': '生成二维码',
+    'create QR codes': '批量生成二维码',
+    'create invitation': '创建邀请',
+    'create questionnaire': '创建问卷',
+    'create restaurant': '创建餐厅',
+    'create table': '创建桌位',
+    'create tables': '批量创建桌位',
+    'deactivate assignment': '停用分配',
+    'deactivate removed assignments': '停用已移除的分配',
+    'deactivate user': '停用账号',
+    'delete QR code': '删除二维码',
+    'delete questionnaire': '删除问卷',
+    'delete table': '删除桌位',
+    'fetch QR code': '加载二维码',
+    'fetch QR code assignments': '加载二维码的问卷分配',
+    'fetch QR code style': '加载二维码样式',
+    'fetch answers': '加载反馈',
+    'fetch assignment': '加载分配',
+    'fetch assignments for questionnaire': '加载问卷的分配',
+    'fetch audit log': '加载操作日志',
+    'fetch invitations': '加载邀请',
+    'fetch questionnaire': '加载问卷',
+    'fetch questionnaire assignments': '加载问卷分配',
+    'fetch questionnaire versions': '加载问卷版本',
+    'fetch questionnaire versions for answers': '加载反馈对应的问卷版本',
+    'fetch questionnaires': '加载问卷列表',
+    'fetch questionnaires for QR code': '加载二维码的问卷',
+    'fetch questionnaires for answers': '加载反馈对应的问卷',
+    'fetch responses': '加载反馈明细',
+    'fetch restaurant': '加载餐厅',
+    'fetch restaurant assignments': '加载餐厅的问卷分配',
+    'fetch restaurant settings': '加载餐厅设置',
+    'fetch restaurants': '加载餐厅列表',
+    'fetch scan events': '加载扫码记录',
+    'fetch table data': '加载桌位数据',
+    'fetch tables': '加载桌位',
+    'fetch tables for restaurant': '加载餐厅的桌位',
+    'fetch tables of deleted QR codes': '加载已删除二维码的桌位',
+    'fetch target table': '加载目标桌位',
+    'fetch trash': '加载回收站',
+    'fetch user role': '加载用户角色',
+    'fetch users': '加载用户',
+    'move QR code': '移动二维码',
+    'publish questionnaire': '发布问卷',
+    'purge item': '彻底删除',
+    'reactivate user': '恢复账号',
+    'remove assignment': '移除分配',
+    'remove restaurant assignments': '移除餐厅分配',
+    'restore item': '恢复',
+    'retire QR code': '停用旧二维码',
+    'revoke invitation': '撤销邀请',
+    'save QR code style': '保存二维码样式',
+    'save assignments': '保存分配',
+    'save default assignments': '保存默认问卷',
+    'save restaurant settings': '保存餐厅设置',
+    'send invitation email': '发送邀请邮件',
+    'set published version': '设置发布版本',
+    'submit answers': '提交反馈',
+    'update questionnaire': '更新问卷',
+    'update restaurant': '更新餐厅',
+    'update user role': '更新用户角色',
+  },
+}
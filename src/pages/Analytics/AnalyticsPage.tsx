@@ -0,0 +1,397 @@
+// Version: 1.7.0
+// Analytics Page - Visualize customer feedback collected in echo_answers
+// Features: Filters by restaurant, table, questionnaire and date range (Beijing time),
+//           daily response counts, option distributions for multiple choice questions
+// v1.7.0: Headings, filters, chips and empty states come from the admin catalogs
+// v1.6.0: Rating points, blank answers and out-of-range buckets are labelled through the admin catalogs
+// v1.5.0: Question type labels come from the admin catalogs
+// v1.4.0: Service errors are shown through translateError
+// v1.3.0: One card per questionnaire version - answers are counted with the questions of the version they answered
+// v1.2.0: Responses for filters that changed in the meantime are ignored
+// v1.1.0: Shows rating averages, NPS scores, multi-select and numeric question distributions
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Alert,
+  CircularProgress,
+  LinearProgress,
+  Chip,
+  Stack,
+  Button,
+  Tooltip,
+} from '@mui/material'
+import { FilterAltOff } from '@mui/icons-material'
+import type { Restaurant, EchoQuestionnaire, TableWithQRCode } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import { getAllRestaurants } from '../../services/restaurantService'
+import { getTablesWithQRCodes } from '../../services/qrcodeService'
+import { getAllQuestionnaires } from '../../services/questionnaireService'
+import { getAnswerAnalytics } from '../../services/answerService'
+import type { AnswerAnalytics, AnswerFilters, QuestionDistribution } from '../../services/answerService'
+import { getDistributionOptionLabel } from './optionLabels'
+
+// Filter form state - empty strings mean "no filter"
+type FilterState = Required<AnswerFilters>
+
+const EMPTY_FILTERS: FilterState = {
+  restaurantId: '',
+  tableId: '',
+  questionnaireId: '',
+  startDate: '',
+  endDate: '',
+}
+
+export default function AnalyticsPage() {
+  const { t, translateError } = useI18n()
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([])
+  const [questionnaires, setQuestionnaires] = useState<EchoQuestionnaire[]>([])
+  const [tables, setTables] = useState<TableWithQRCode[]>([])
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS)
+  const [analytics, setAnalytics] = useState<AnswerAnalytics | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load filter options on mount
+  useEffect(() => {
+    loadFilterOptions()
+  }, [])
+
+  // Load tables when restaurant changes
+  useEffect(() => {
+    if (filters.restaurantId) {
+      loadTables(filters.restaurantId)
+    } else {
+      setTables([])
+    }
+  }, [filters.restaurantId])
+
+  // Reload analytics whenever filters change; a slower response for earlier filters is ignored
+  useEffect(() => {
+    let cancelled = false
+    loadAnalytics(() => cancelled)
+    return () => {
+      cancelled = true
+    }
+  }, [filters])
+
+  const loadFilterOptions = async () => {
+    try {
+      const [restaurantsData, questionnairesData] = await Promise.all([
+        getAllRestaurants(),
+        getAllQuestionnaires(),
+      ])
+      setRestaurants(restaurantsData)
+      setQuestionnaires(questionnairesData)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    }
+  }
+
+  const loadTables = async (restaurantId: string) => {
+    try {
+      const data = await getTablesWithQRCodes(restaurantId)
+      setTables(data)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    }
+  }
+
+  const loadAnalytics = async (isStale: () => boolean) => {
+    try {
+      setLoading(true)
+      setError(null)
+      const activeFilters: AnswerFilters = {
+        restaurantId: filters.restaurantId || undefined,
+        tableId: filters.tableId || undefined,
+        questionnaireId: filters.questionnaireId || undefined,
+        startDate: filters.startDate || undefined,
+        endDate: filters.endDate || undefined,
+      }
+      const data = await getAnswerAnalytics(activeFilters)
+      if (isStale()) return
+      setAnalytics(data)
+    } catch (err) {
+      if (isStale()) return
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      if (!isStale()) setLoading(false)
+    }
+  }
+
+  const updateFilter = (updates: Partial<FilterState>) => {
+    setFilters((prev) => ({ ...prev, ...updates }))
+  }
+
+  // Summary chips shown next to a question (average, NPS, median)
+  const renderQuestionSummary = (question: QuestionDistribution) => {
+    const chips: string[] = []
+    if (question.question_type === 'nps' && question.nps_score !== null && question.nps_score !== undefined) {
+      chips.push(`NPS ${question.nps_score.toFixed(0)}`)
+    }
+    if (question.average !== null && question.average !== undefined) {
+      const digits = question.question_type === 'numeric' ? 2 : 1
+      chips.push(t('analytics.average', { value: question.average.toFixed(digits) }))
+    }
+    if (question.median !== null && question.median !== undefined) {
+      chips.push(t('analytics.median', { value: question.median }))
+    }
+    return chips.map((label) => (
+      <Chip key={label} label={label} size="small" color="primary" variant="outlined" sx={{ ml: 1, height: 20 }} />
+    ))
+  }
+
+  const maxDailyCount = analytics
+    ? Math.max(1, ...analytics.daily_counts.map((day) => day.count))
+    : 1
+
+  return (
+    <>
+      {/* Header */}
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          {t('analytics.title')}
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          {t('analytics.subtitle')}
+        </Typography>
+      </Box>
+
+      {/* Filters */}
+      <Card sx={{ mb: 4 }}>
+        <CardContent>
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={4}>
+              <FormControl fullWidth>
+                <InputLabel>{t('answerFilters.restaurant')}</InputLabel>
+                <Select
+                  value={filters.restaurantId}
+                  onChange={(e) => updateFilter({ restaurantId: e.target.value, tableId: '' })}
+                  label={t('answerFilters.restaurant')}
+                >
+                  <MenuItem value="">{t('answerFilters.allRestaurants')}</MenuItem>
+                  {restaurants.map((restaurant) => (
+                    <MenuItem key={restaurant.id} value={restaurant.id}>
+                      {restaurant.name}{restaurant.address && `, ${restaurant.address}`}{restaurant.city && `, ${restaurant.city}`}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <FormControl fullWidth disabled={!filters.restaurantId}>
+                <InputLabel>{t('answerFilters.table')}</InputLabel>
+                <Select
+                  value={filters.tableId}
+                  onChange={(e) => updateFilter({ tableId: e.target.value })}
+                  label={t('answerFilters.table')}
+                >
+                  <MenuItem value="">{t('answerFilters.allTables')}</MenuItem>
+                  {tables.map((table) => (
+                    <MenuItem key={table.id} value={table.id}>
+                      {t('answerFilters.tableNumber', { number: table.table_number })}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <FormControl fullWidth>
+                <InputLabel>{t('answerFilters.questionnaire')}</InputLabel>
+                <Select
+                  value={filters.questionnaireId}
+                  onChange={(e) => updateFilter({ questionnaireId: e.target.value })}
+                  label={t('answerFilters.questionnaire')}
+                >
+                  <MenuItem value="">{t('answerFilters.allQuestionnaires')}</MenuItem>
+                  {questionnaires.map((questionnaire) => (
+                    <MenuItem key={questionnaire.id} value={questionnaire.id}>
+                      {questionnaire.title}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={5} md={4}>
+              <TextField
+                label={t('answerFilters.startDate')}
+                type="date"
+                fullWidth
+                value={filters.startDate}
+                onChange={(e) => updateFilter({ startDate: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={5} md={4}>
+              <TextField
+                label={t('answerFilters.endDate')}
+                type="date"
+                fullWidth
+                value={filters.endDate}
+                onChange={(e) => updateFilter({ endDate: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={2} md={4} sx={{ display: 'flex', alignItems: 'center' }}>
+              <Button startIcon={<FilterAltOff />} onClick={() => setFilters(EMPTY_FILTERS)}>
+                {t('answerFilters.clear')}
+              </Button>
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {/* Error Display */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : !analytics || analytics.total_responses === 0 ? (
+        <Alert severity="info">{t('analytics.noData')}</Alert>
+      ) : (
+        <>
+          {/* Responses Over Time */}
+          <Card sx={{ mb: 4 }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                <Typography variant="h6">{t('analytics.dailyResponses')}</Typography>
+                <Chip label={t('analytics.totalResponses', { count: analytics.total_responses })} color="primary" />
+              </Box>
+              <Box
+                sx={{
+                  display: 'flex',
+                  alignItems: 'flex-end',
+                  gap: '2px',
+                  height: 160,
+                  overflowX: 'auto',
+                  pb: 1,
+                }}
+              >
+                {analytics.daily_counts.map((day) => (
+                  <Tooltip
+                    key={day.date}
+                    title={t('analytics.dayResponses', { date: day.date, count: day.count })}
+                    arrow
+                  >
+                    <Box
+                      sx={{
+                        flex: '1 0 8px',
+                        minWidth: 8,
+                        height: `${(day.count / maxDailyCount) * 100}%`,
+                        minHeight: day.count > 0 ? 4 : 1,
+                        bgcolor: day.count > 0 ? 'primary.main' : 'grey.300',
+                        borderRadius: '2px 2px 0 0',
+                      }}
+                    />
+                  </Tooltip>
+                ))}
+              </Box>
+              {analytics.daily_counts.length > 0 && (
+                <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <Typography variant="caption" color="text.secondary">
+                    {analytics.daily_counts[0].date}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {analytics.daily_counts[analytics.daily_counts.length - 1].date}
+                  </Typography>
+                </Box>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Option Distributions per Questionnaire */}
+          <Stack spacing={3}>
+            {analytics.questionnaires.map((questionnaire) => (
+              <Card key={`${questionnaire.questionnaire_id}:${questionnaire.version_number ?? ''}`}>
+                <CardContent>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Typography variant="h6">{questionnaire.title}</Typography>
+                      <Tooltip title={t('analytics.versionHint')}>
+                        <Chip
+                          label={
+                            questionnaire.version_number !== null
+                              ? `v${questionnaire.version_number}`
+                              : t('analytics.beforeVersioning')
+                          }
+                          size="small"
+                          variant="outlined"
+                        />
+                      </Tooltip>
+                    </Box>
+                    <Chip label={t('analytics.responseCount', { count: questionnaire.response_count })} size="small" />
+                  </Box>
+
+                  {questionnaire.questions.length === 0 ? (
+                    <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+                      {t('analytics.noQuestions')}
+                    </Typography>
+                  ) : (
+                    <Stack spacing={3}>
+                      {questionnaire.questions.map((question, index) => (
+                        <Box key={question.question_id}>
+                          <Typography variant="subtitle1" gutterBottom>
+                            {index + 1}. {question.question_text}
+                            <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                              {t(
+                                question.question_type === 'multi_select'
+                                  ? 'analytics.questionMetaMultiSelect'
+                                  : 'analytics.questionMeta',
+                                {
+                                  type: t(`questionTypes.${question.question_type}`),
+                                  count: question.total_responses,
+                                }
+                              )}
+                            </Typography>
+                            {renderQuestionSummary(question)}
+                          </Typography>
+                          <Stack spacing={1}>
+                            {question.options.map((option) => (
+                              <Box key={`${option.value}-${option.label}`}>
+                                <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                                  <Typography variant="body2">
+                                    {getDistributionOptionLabel(t, question.question_type, option)}
+                                  </Typography>
+                                  <Typography variant="body2" color="text.secondary">
+                                    {t('analytics.optionCount', {
+                                      count: option.count,
+                                      percentage: option.percentage.toFixed(1),
+                                    })}
+                                  </Typography>
+                                </Box>
+                                <LinearProgress
+                                  variant="determinate"
+                                  value={option.percentage}
+                                  sx={{ height: 8, borderRadius: 4 }}
+                                />
+                              </Box>
+                            ))}
+                          </Stack>
+                        </Box>
+                      ))}
+                    </Stack>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </Stack>
+        </>
+      )}
+    </>
+  )
+}
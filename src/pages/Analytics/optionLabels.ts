@@ -0,0 +1,27 @@
+// Version: 1.0.0
+// Display labels of answer distribution options, shared by the analytics page and the A/B test report
+// The answer service leaves the texts that depend on the admin's language to the pages: the rating unit,
+// blank answers and the out-of-range bucket of numeric questions
+
+import type { QuestionType } from '../../types/database'
+import type { MessageKey, MessageParams } from '../../i18n/messages'
+import { OUT_OF_RANGE_OPTION_VALUE } from '../../services/answerService'
+import type { OptionDistribution } from '../../services/answerService'
+
+/**
+ * Label of a distribution option in the admin's language
+ * @param t - Message lookup of useI18n()
+ */
+export const getDistributionOptionLabel = (
+  t: (key: MessageKey, params?: MessageParams) => string,
+  questionType: QuestionType,
+  option: OptionDistribution
+): string => {
+  if (questionType === 'rating') {
+    return t('answerLabels.ratingPoint', { point: option.label })
+  }
+  if (questionType === 'numeric' && option.value === OUT_OF_RANGE_OPTION_VALUE) {
+    return t('answerLabels.outOfRange')
+  }
+  return option.label || t('answerLabels.emptyAnswer')
+}
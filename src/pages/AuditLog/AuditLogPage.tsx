@@ -0,0 +1,363 @@
+// Version: 1.3.0
+// Audit Log Page - Who changed tables, QR codes, questionnaires and assignments, and when (super admins only)
+// Features: Paginated log filtered by user, restaurant and action; before/after snapshot of each entry
+// v1.3.0: Texts, action and object labels come from the admin catalogs
+// v1.2.0: Service errors are shown through translateError
+// v1.1.0: Restaurant actions (create, edit, settings)
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  Chip,
+  Button,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TablePagination,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material'
+import { FilterAltOff, Visibility } from '@mui/icons-material'
+import type { AdminUser, AuditAction, AuditEntityType, EchoAuditLog, Restaurant } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import type { MessageKey } from '../../i18n/messages'
+import { getAllRestaurants } from '../../services/restaurantService'
+import { getAdminUsers } from '../../services/userService'
+import { getAuditLogPage } from '../../services/auditService'
+import type { AuditLogFilters } from '../../services/auditService'
+import { formatBeijingDateTime } from '../../services/answerService'
+
+const ACTION_LABELS: Record<AuditAction, MessageKey> = {
+  'restaurant.create': 'auditLog.actions.restaurantCreate',
+  'restaurant.update': 'auditLog.actions.restaurantUpdate',
+  'restaurant.settings': 'auditLog.actions.restaurantSettings',
+  'table.create': 'auditLog.actions.tableCreate',
+  'table.delete': 'auditLog.actions.tableDelete',
+  'qrcode.generate': 'auditLog.actions.qrcodeGenerate',
+  'qrcode.replace': 'auditLog.actions.qrcodeReplace',
+  'qrcode.move': 'auditLog.actions.qrcodeMove',
+  'qrcode.delete': 'auditLog.actions.qrcodeDelete',
+  'questionnaire.create': 'auditLog.actions.questionnaireCreate',
+  'questionnaire.update': 'auditLog.actions.questionnaireUpdate',
+  'questionnaire.delete': 'auditLog.actions.questionnaireDelete',
+  'questionnaire.publish': 'auditLog.actions.questionnairePublish',
+  'assignment.create': 'auditLog.actions.assignmentCreate',
+  'assignment.update': 'auditLog.actions.assignmentUpdate',
+  'assignment.deactivate': 'auditLog.actions.assignmentDeactivate',
+  'assignment.remove': 'auditLog.actions.assignmentRemove',
+  'trash.restore': 'auditLog.actions.trashRestore',
+  'trash.purge': 'auditLog.actions.trashPurge',
+}
+
+const ENTITY_LABELS: Record<AuditEntityType, MessageKey> = {
+  restaurant: 'auditLog.entities.restaurant',
+  table: 'auditLog.entities.table',
+  qrcode: 'auditLog.entities.qrcode',
+  questionnaire: 'auditLog.entities.questionnaire',
+  assignment: 'auditLog.entities.assignment',
+}
+
+// Filter form state - empty strings mean "no filter"
+type FilterState = { actorId: string; restaurantId: string; action: AuditAction | '' }
+
+const EMPTY_FILTERS: FilterState = { actorId: '', restaurantId: '', action: '' }
+
+const ROWS_PER_PAGE_OPTIONS = [25, 50, 100]
+
+export default function AuditLogPage() {
+  const { t, translateError } = useI18n()
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([])
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS)
+  const [page, setPage] = useState(0)
+  const [rowsPerPage, setRowsPerPage] = useState(ROWS_PER_PAGE_OPTIONS[0])
+  const [entries, setEntries] = useState<EchoAuditLog[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Entry whose before/after snapshot is shown
+  const [selectedEntry, setSelectedEntry] = useState<EchoAuditLog | null>(null)
+
+  // Load filter options on mount
+  useEffect(() => {
+    loadFilterOptions()
+  }, [])
+
+  // Reload the current page whenever filters or pagination change
+  useEffect(() => {
+    loadEntries()
+  }, [filters, page, rowsPerPage])
+
+  const loadFilterOptions = async () => {
+    try {
+      const [usersData, restaurantsData] = await Promise.all([getAdminUsers(), getAllRestaurants()])
+      setUsers(usersData)
+      setRestaurants(restaurantsData)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    }
+  }
+
+  const loadEntries = async () => {
+    const activeFilters: AuditLogFilters = {
+      actorId: filters.actorId || undefined,
+      restaurantId: filters.restaurantId || undefined,
+      action: filters.action || undefined,
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await getAuditLogPage(activeFilters, page, rowsPerPage)
+      setEntries(data.rows)
+      setTotal(data.total)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateFilter = (updates: Partial<FilterState>) => {
+    setFilters((prev) => ({ ...prev, ...updates }))
+    setPage(0)
+  }
+
+  const getRestaurantName = (restaurantId: string | null) => {
+    if (!restaurantId) return '—'
+    return restaurants.find((restaurant) => restaurant.id === restaurantId)?.name || t('auditLog.unknownRestaurant')
+  }
+
+  const formatSnapshot = (snapshot: unknown) => {
+    return snapshot === null || snapshot === undefined ? t('auditLog.none') : JSON.stringify(snapshot, null, 2)
+  }
+
+  // Unknown values (e.g. actions added after this page) are shown as stored
+  const getActionLabel = (action: AuditAction) => (ACTION_LABELS[action] ? t(ACTION_LABELS[action]) : action)
+
+  const getEntityLabel = (entityType: AuditEntityType) =>
+    ENTITY_LABELS[entityType] ? t(ENTITY_LABELS[entityType]) : entityType
+
+  return (
+    <>
+      {/* Header */}
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          {t('auditLog.title')}
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          {t('auditLog.subtitle')}
+        </Typography>
+      </Box>
+
+      {/* Filters */}
+      <Card sx={{ mb: 4 }}>
+        <CardContent>
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={3}>
+              <FormControl fullWidth>
+                <InputLabel>{t('auditLog.user')}</InputLabel>
+                <Select
+                  value={filters.actorId}
+                  onChange={(e) => updateFilter({ actorId: e.target.value })}
+                  label={t('auditLog.user')}
+                >
+                  <MenuItem value="">{t('auditLog.allUsers')}</MenuItem>
+                  {users.map((user) => (
+                    <MenuItem key={user.user_id} value={user.user_id}>
+                      {user.email}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <FormControl fullWidth>
+                <InputLabel>{t('auditLog.restaurant')}</InputLabel>
+                <Select
+                  value={filters.restaurantId}
+                  onChange={(e) => updateFilter({ restaurantId: e.target.value })}
+                  label={t('auditLog.restaurant')}
+                >
+                  <MenuItem value="">{t('auditLog.allRestaurants')}</MenuItem>
+                  {restaurants.map((restaurant) => (
+                    <MenuItem key={restaurant.id} value={restaurant.id}>
+                      {restaurant.name}{restaurant.address && `, ${restaurant.address}`}{restaurant.city && `, ${restaurant.city}`}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <FormControl fullWidth>
+                <InputLabel>{t('auditLog.action')}</InputLabel>
+                <Select
+                  value={filters.action}
+                  onChange={(e) => updateFilter({ action: e.target.value as AuditAction | '' })}
+                  label={t('auditLog.action')}
+                >
+                  <MenuItem value="">{t('auditLog.allActions')}</MenuItem>
+                  {(Object.keys(ACTION_LABELS) as AuditAction[]).map((action) => (
+                    <MenuItem key={action} value={action}>
+                      {t(ACTION_LABELS[action])}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} md={2} sx={{ display: 'flex', alignItems: 'center' }}>
+              <Button
+                startIcon={<FilterAltOff />}
+                onClick={() => {
+                  setFilters(EMPTY_FILTERS)
+                  setPage(0)
+                }}
+              >
+                {t('answerFilters.clear')}
+              </Button>
+            </Grid>
+          </Grid>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            {t('auditLog.restaurantFilterHint')}
+          </Typography>
+        </CardContent>
+      </Card>
+
+      {/* Error Display */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          <Box sx={{ mb: 2 }}>
+            <Chip label={t('auditLog.total', { count: total })} color="primary" />
+          </Box>
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+              <CircularProgress />
+            </Box>
+          ) : entries.length === 0 ? (
+            <Alert severity="info">{t('auditLog.noEntries')}</Alert>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{t('auditLog.time')}</TableCell>
+                    <TableCell>{t('auditLog.user')}</TableCell>
+                    <TableCell>{t('auditLog.action')}</TableCell>
+                    <TableCell>{t('auditLog.entity')}</TableCell>
+                    <TableCell>{t('auditLog.restaurant')}</TableCell>
+                    <TableCell align="right">{t('auditLog.details')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatBeijingDateTime(entry.created_at)}</TableCell>
+                      <TableCell>{entry.actor_email || t('auditLog.unknownUser')}</TableCell>
+                      <TableCell>
+                        <Chip label={getActionLabel(entry.action)} size="small" />
+                      </TableCell>
+                      <TableCell>
+                        {getEntityLabel(entry.entity_type)}
+                        <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                          {entry.entity_id.slice(0, 8)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{getRestaurantName(entry.restaurant_id)}</TableCell>
+                      <TableCell align="right">
+                        <Button size="small" startIcon={<Visibility />} onClick={() => setSelectedEntry(entry)}>
+                          {t('auditLog.view')}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          <TablePagination
+            component="div"
+            count={total}
+            page={page}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10))
+              setPage(0)
+            }}
+            rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+            labelRowsPerPage={t('auditLog.rowsPerPage')}
+            labelDisplayedRows={({ from, to, count }) => `${from}-${to} / ${count}`}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Before / After Dialog */}
+      <Dialog open={selectedEntry !== null} onClose={() => setSelectedEntry(null)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {selectedEntry &&
+            `${getActionLabel(selectedEntry.action)} - ${formatBeijingDateTime(selectedEntry.created_at)}`}
+        </DialogTitle>
+        <DialogContent>
+          {selectedEntry && (
+            <>
+              <Typography variant="body2" color="text.secondary" paragraph>
+                {selectedEntry.actor_email || t('auditLog.unknownUser')} ·{' '}
+                {getEntityLabel(selectedEntry.entity_type)} {selectedEntry.entity_id}
+              </Typography>
+              <Grid container spacing={2}>
+                {(['before', 'after'] as const).map((key) => (
+                  <Grid item xs={12} md={6} key={key}>
+                    <Typography variant="subtitle2" gutterBottom>
+                      {t(key === 'before' ? 'auditLog.before' : 'auditLog.after')}
+                    </Typography>
+                    <Box
+                      component="pre"
+                      sx={{
+                        m: 0,
+                        p: 1.5,
+                        bgcolor: 'background.default',
+                        borderRadius: 1,
+                        fontSize: '0.75rem',
+                        overflow: 'auto',
+                        maxHeight: 420,
+                      }}
+                    >
+                      {formatSnapshot(selectedEntry[key])}
+                    </Box>
+                  </Grid>
+                ))}
+              </Grid>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelectedEntry(null)}>{t('common.close')}</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
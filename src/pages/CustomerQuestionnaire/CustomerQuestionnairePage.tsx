@@ -0,0 +1,471 @@
+// Version: 1.6.0
+// Customer Questionnaire Page - Public page opened by scanning a table's QR code (/q/:qrcodeId)
+// Features: Loads the published questionnaire for the QR code (weighted A/B pick), one question per screen,
+//           skip logic, progress dots, submission to echo_answers, glassmorphism UI for the WeChat browser
+// Replaces the standalone public/questionnaire.html, which now only redirects here
+// v1.6.0: Load errors are explained by their AppError code; the network message only shows when offline
+// v1.5.0: Translated questionnaires - language picked from the browser, switcher in the header when the
+//         questionnaire has translations; answers are stored the same in every language
+// v1.4.0: Records scan events (open, questionnaire picked, each question shown, submitted) for the QR code funnel
+// v1.3.0: Friendly message for restaurants that are not in service (inactive in restaurant settings)
+// v1.2.0: Friendly message for retired QR codes (replaced codes open their replacement via loadSurvey)
+// v1.1.0: Answers are typed AnswerValue and validated against the answered version on submit
+
+import { useState, useEffect, useMemo } from 'react'
+import { useParams } from 'react-router-dom'
+import { Box, ButtonBase, CircularProgress, Typography } from '@mui/material'
+import type { AnswerMap, AnswerValue } from '../../types/database'
+import { loadSurvey } from '../../services/surveyService'
+import type { Survey } from '../../services/surveyService'
+import { submitAnswers } from '../../services/answerService'
+import { createScanSessionId, recordScanEvent } from '../../services/scanEventService'
+import { isAnswerComplete } from '../../utils/answerValidation'
+import { AppError } from '../../utils/appError'
+import { END_OF_QUESTIONNAIRE, getNextQuestionId } from '../../utils/questionFlow'
+import {
+  CONTENT_LOCALE_LABELS,
+  DEFAULT_CONTENT_LOCALE,
+  getAvailableLocales,
+  getQuestionText,
+  pickContentLocale,
+} from '../../utils/contentLocale'
+import type { ContentLocale } from '../../utils/contentLocale'
+import QuestionInput from './QuestionInput'
+import { TEXT_PRIMARY, glassButtonSx } from './customerStyles'
+import { CUSTOMER_MESSAGES } from './customerMessages'
+
+/**
+ * Customer-facing explanation for a load error, chosen by its AppError code
+ */
+const getLoadErrorMessage = (err: unknown): string => {
+  switch (err instanceof AppError ? err.code : undefined) {
+    case 'survey.qr_code_not_found':
+      return '未找到对应的二维码信息，请联系餐厅工作人员。\nQR code not found. Please contact restaurant staff.'
+    case 'survey.qr_code_retired':
+      return '此二维码已停用，请扫描桌上的新二维码或联系餐厅工作人员。\nThis QR code is no longer in use. Please scan the new code on your table or contact staff.'
+    case 'survey.restaurant_inactive':
+      return '本店暂未开放问卷反馈，感谢您的光临。\nThis restaurant is not collecting feedback at the moment. Thank you for visiting.'
+    case 'survey.no_active_questionnaire':
+      return '此二维码暂无可用问卷，请稍后再试。\nNo active questionnaires available. Please try again later.'
+  }
+  if (!navigator.onLine) {
+    return '网络连接失败，请检查网络后重试。\nNetwork connection failed. Please check your connection.'
+  }
+  return '加载问卷时出现问题，请稍后重试或联系工作人员。\nError loading questionnaire. Please try again or contact staff.'
+}
+
+const MISSING_QR_CODE_MESSAGE = '二维码参数缺失，请使用有效的二维码扫描。\nQR code parameter is missing. Please scan a valid QR code.'
+
+export default function CustomerQuestionnairePage() {
+  const { qrcodeId } = useParams<{ qrcodeId: string }>()
+  // Groups this page load's scan events into one funnel session
+  const [scanSessionId] = useState(createScanSessionId)
+
+  const [survey, setSurvey] = useState<Survey | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<{ message: string; details?: string } | null>(null)
+
+  // Answering state: current question, questions shown before it (for Back), answers by question id
+  const [currentQuestionId, setCurrentQuestionId] = useState<string | null>(null)
+  const [history, setHistory] = useState<string[]>([])
+  const [answers, setAnswers] = useState<AnswerMap>({})
+  const [submitting, setSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [submitted, setSubmitted] = useState(false)
+
+  // Language of the questionnaire content - picked from the browser once loaded, changeable in the header
+  const [locale, setLocale] = useState<ContentLocale>(DEFAULT_CONTENT_LOCALE)
+  const messages = CUSTOMER_MESSAGES[locale]
+
+  useEffect(() => {
+    if (!qrcodeId) {
+      setError({ message: MISSING_QR_CODE_MESSAGE, details: 'Error: Missing QR code ID in URL' })
+      setLoading(false)
+      return
+    }
+
+    const load = async () => {
+      try {
+        setLoading(true)
+        const data = await loadSurvey(qrcodeId)
+        recordScanEvent({ sessionId: scanSessionId, qrcodeId: data.qrcode_id, eventType: 'open' })
+        recordScanEvent({
+          sessionId: scanSessionId,
+          qrcodeId: data.qrcode_id,
+          eventType: 'select',
+          assignmentId: data.assignment.id,
+          questionnaireVersionId: data.version.id,
+        })
+        setSurvey(data)
+        setLocale(pickContentLocale(getAvailableLocales(data.version), navigator.languages || [navigator.language]))
+        setCurrentQuestionId([...data.version.questions].sort((a, b) => a.order - b.order)[0]?.id || null)
+      } catch (err) {
+        // Counted as a scan that never got a questionnaire (unknown QR codes are rejected by the database)
+        recordScanEvent({ sessionId: scanSessionId, qrcodeId, eventType: 'open' })
+        const message = err instanceof Error ? err.message : String(err)
+        setError({ message: getLoadErrorMessage(err), details: `Error: ${message}` })
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [qrcodeId])
+
+  // Every question shown counts as progress; the last one shown is where an unfinished session dropped off
+  useEffect(() => {
+    if (!survey || !currentQuestionId) return
+    recordScanEvent({
+      sessionId: scanSessionId,
+      qrcodeId: survey.qrcode_id,
+      eventType: 'question',
+      assignmentId: survey.assignment.id,
+      questionnaireVersionId: survey.version.id,
+      questionId: currentQuestionId,
+    })
+  }, [survey, currentQuestionId])
+
+  const questions = useMemo(
+    () => [...(survey?.version.questions || [])].sort((a, b) => a.order - b.order),
+    [survey]
+  )
+  const availableLocales = useMemo(() => (survey ? getAvailableLocales(survey.version) : []), [survey])
+
+  const currentIndex = questions.findIndex((question) => question.id === currentQuestionId)
+  const currentQuestion = questions[currentIndex]
+  const currentAnswer = currentQuestion ? answers[currentQuestion.id] : undefined
+  const nextQuestionId = currentQuestion ? getNextQuestionId(currentQuestion, questions, currentAnswer) : null
+  const isLastQuestion = nextQuestionId === END_OF_QUESTIONNAIRE
+
+  const handleAnswerChange = (answer: AnswerValue | undefined) => {
+    if (!currentQuestion) return
+    setAnswers((previous) => {
+      const { [currentQuestion.id]: _removed, ...rest } = previous
+      return answer ? { ...rest, [currentQuestion.id]: answer } : rest
+    })
+  }
+
+  const handleSubmit = async () => {
+    if (!survey || !currentQuestion) return
+
+    // Answers to questions left by going back and taking another branch are not submitted
+    const answeredPath = [...history, currentQuestion.id].reduce<AnswerMap>((result, questionId) => {
+      if (answers[questionId]) result[questionId] = answers[questionId]
+      return result
+    }, {})
+
+    try {
+      setSubmitting(true)
+      setSubmitError(null)
+      await submitAnswers(
+        {
+          qrcode_id: survey.qrcode_id,
+          table_id: survey.table.id,
+          questionnaire_id: survey.version.questionnaire_id,
+          questionnaire_version_id: survey.version.id,
+          assignment_id: survey.assignment.id,
+          answers: answeredPath,
+        },
+        survey.version.questions
+      )
+      recordScanEvent({
+        sessionId: scanSessionId,
+        qrcodeId: survey.qrcode_id,
+        eventType: 'submit',
+        assignmentId: survey.assignment.id,
+        questionnaireVersionId: survey.version.id,
+      })
+      setSubmitted(true)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      setSubmitError(`提交失败：${message}\nSubmission failed, please try again.`)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleNext = () => {
+    if (!currentQuestion || !nextQuestionId) return
+    if (nextQuestionId === END_OF_QUESTIONNAIRE) {
+      handleSubmit()
+      return
+    }
+    setHistory([...history, currentQuestion.id])
+    setCurrentQuestionId(nextQuestionId)
+    setSubmitError(null)
+  }
+
+  const handleBack = () => {
+    if (history.length === 0) return
+    setCurrentQuestionId(history[history.length - 1])
+    setHistory(history.slice(0, -1))
+    setSubmitError(null)
+  }
+
+  const renderLoading = () => (
+    <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', p: 2.5 }}>
+      <CircularProgress size={64} thickness={3} sx={{ color: TEXT_PRIMARY, mb: 4 }} />
+      <Typography sx={{ fontSize: 20, fontWeight: 600, color: TEXT_PRIMARY, mb: 1.5 }}>野百灵正在赶来的路上</Typography>
+      <Typography sx={{ fontSize: 14, color: 'rgba(255, 255, 255, 0.6)' }}>Loading...</Typography>
+    </Box>
+  )
+
+  const renderError = () => (
+    <Box
+      sx={{
+        flex: 1,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        textAlign: 'center',
+        p: 2.5,
+      }}
+    >
+      <Typography sx={{ fontSize: 80, mb: 3 }}>🤔</Typography>
+      <Typography sx={{ fontSize: 24, fontWeight: 700, color: TEXT_PRIMARY, mb: 2 }}>野百灵迷路了...</Typography>
+      <Typography sx={{ fontSize: 15, color: 'rgba(255, 255, 255, 0.8)', lineHeight: 1.8, whiteSpace: 'pre-line' }}>
+        {error?.message}
+      </Typography>
+      {error?.details && (
+        <Box
+          sx={{
+            mt: 2,
+            px: 2,
+            py: 1.5,
+            background: 'rgba(255, 255, 255, 0.1)',
+            borderRadius: 2,
+            fontSize: 13,
+            color: 'rgba(255, 255, 255, 0.6)',
+            fontFamily: "'Courier New', monospace",
+            wordBreak: 'break-word',
+          }}
+        >
+          {error.details}
+        </Box>
+      )}
+    </Box>
+  )
+
+  const renderThankYou = () => (
+    <Box sx={{ textAlign: 'center', px: 2, py: 4 }}>
+      <Typography sx={{ fontSize: 72, mb: 3 }}>📬</Typography>
+      <Typography sx={{ fontSize: 28, fontWeight: 700, color: TEXT_PRIMARY, mb: 1.5 }}>{messages.thankYouTitle}</Typography>
+      <Typography sx={{ fontSize: 16, color: 'rgba(255, 255, 255, 0.85)', lineHeight: 1.6, whiteSpace: 'pre-line' }}>
+        {messages.thankYouLines.join('\n')}
+      </Typography>
+    </Box>
+  )
+
+  const renderQuestionnaire = () => (
+    <>
+      {/* Progress dots - skipped questions are passed over */}
+      {!submitted && (
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'center',
+            gap: 'clamp(8px, 1.5vh, 12px)',
+            p: 'clamp(12px, 2vh, 16px)',
+            background: 'rgba(255, 255, 255, 0.1)',
+            borderBottom: '1px solid rgba(255, 255, 255, 0.2)',
+            flexShrink: 0,
+          }}
+        >
+          {questions.map((question, index) => (
+            <Box
+              key={question.id}
+              sx={{
+                width: 'clamp(8px, 1.5vh, 12px)',
+                height: 'clamp(8px, 1.5vh, 12px)',
+                borderRadius: '50%',
+                background: index <= currentIndex ? TEXT_PRIMARY : 'rgba(255, 255, 255, 0.4)',
+                transform: index <= currentIndex ? 'scale(1.1)' : undefined,
+                transition: 'all 0.3s ease',
+              }}
+            />
+          ))}
+        </Box>
+      )}
+
+      {/* Scrollable question area */}
+      <Box sx={{ flex: 1, overflowY: 'auto', overscrollBehavior: 'contain', minHeight: 0 }}>
+        {submitted ? (
+          renderThankYou()
+        ) : (
+          currentQuestion && (
+            <Box key={currentQuestion.id} sx={{ p: 'clamp(16px, 2.5vh, 24px) clamp(16px, 2.5vh, 20px)' }}>
+              <Typography
+                sx={{
+                  color: 'rgba(255, 255, 255, 0.7)',
+                  fontSize: 'clamp(11px, 1.8vh, 14px)',
+                  fontWeight: 600,
+                  textTransform: 'uppercase',
+                  letterSpacing: 0.5,
+                  mb: 'clamp(8px, 1.5vh, 12px)',
+                }}
+              >
+                {messages.questionNumber(currentIndex + 1)}
+              </Typography>
+              <Typography
+                sx={{
+                  fontSize: 'clamp(18px, 2.8vh, 22px)',
+                  fontWeight: 700,
+                  color: TEXT_PRIMARY,
+                  mb: 'clamp(16px, 2.5vh, 24px)',
+                  lineHeight: 1.3,
+                  wordBreak: 'break-word',
+                }}
+              >
+                {getQuestionText(currentQuestion, locale)}
+              </Typography>
+              <QuestionInput
+                question={currentQuestion}
+                answer={currentAnswer}
+                locale={locale}
+                onChange={handleAnswerChange}
+              />
+              {submitError && (
+                <Typography sx={{ mt: 2, fontSize: 14, color: '#ffcdd2', whiteSpace: 'pre-line' }}>
+                  {submitError}
+                </Typography>
+              )}
+            </Box>
+          )
+        )}
+      </Box>
+
+      {/* Navigation */}
+      {!submitted && (
+        <Box
+          sx={{
+            display: 'flex',
+            gap: 'clamp(8px, 1.5vh, 12px)',
+            p: 'clamp(12px, 2vh, 16px)',
+            pb: 'clamp(16px, 2.5vh, 20px)',
+            background: 'rgba(255, 255, 255, 0.05)',
+            borderTop: '1px solid rgba(255, 255, 255, 0.2)',
+            flexShrink: 0,
+          }}
+        >
+          {history.length > 0 && (
+            <ButtonBase
+              onClick={handleBack}
+              disabled={submitting}
+              sx={[glassButtonSx, { flex: 1, p: 'clamp(12px, 2vh, 16px)', fontWeight: 600, background: 'rgba(255, 255, 255, 0.2)' }]}
+            >
+              {messages.back}
+            </ButtonBase>
+          )}
+          <ButtonBase
+            onClick={handleNext}
+            disabled={!currentQuestion || !isAnswerComplete(currentQuestion, currentAnswer) || submitting}
+            sx={[
+              glassButtonSx,
+              {
+                flex: 1,
+                p: 'clamp(12px, 2vh, 16px)',
+                fontWeight: 600,
+                background: 'rgba(255, 255, 255, 0.4)',
+                '&.Mui-disabled': {
+                  background: 'rgba(255, 255, 255, 0.15)',
+                  color: 'rgba(255, 255, 255, 0.4)',
+                  borderColor: 'rgba(255, 255, 255, 0.2)',
+                },
+              },
+            ]}
+          >
+            {submitting ? <CircularProgress size={20} sx={{ color: TEXT_PRIMARY }} /> : isLastQuestion ? messages.submit : messages.next}
+          </ButtonBase>
+        </Box>
+      )}
+    </>
+  )
+
+  return (
+    <Box
+      sx={{
+        height: '100dvh',
+        width: '100%',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        px: 3,
+        background: "url('/background.png') center/cover no-repeat",
+        backgroundColor: '#1e3a5f',
+        fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', 'PingFang SC', 'Hiragino Sans GB', 'Microsoft YaHei', sans-serif",
+        overflow: 'hidden',
+      }}
+    >
+      <Box
+        sx={{
+          width: { xs: '90%', sm: '85%' },
+          maxWidth: 420,
+          height: '60dvh',
+          background: 'rgba(255, 255, 255, 0.25)',
+          backdropFilter: 'blur(20px)',
+          WebkitBackdropFilter: 'blur(20px)',
+          border: '1px solid rgba(255, 255, 255, 0.3)',
+          borderRadius: '24px',
+          boxShadow: '0 8px 32px rgba(0, 0, 0, 0.2)',
+          overflow: 'hidden',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+      >
+        {loading ? (
+          renderLoading()
+        ) : error || !survey ? (
+          renderError()
+        ) : (
+          <>
+            {/* Restaurant header */}
+            <Box
+              sx={{
+                p: 'clamp(12px, 2vh, 20px) clamp(12px, 2vh, 16px)',
+                textAlign: 'center',
+                background: 'rgba(255, 255, 255, 0.15)',
+                borderBottom: '1px solid rgba(255, 255, 255, 0.2)',
+                flexShrink: 0,
+              }}
+            >
+              <Typography
+                sx={{ fontSize: 'clamp(16px, 3vh, 24px)', fontWeight: 700, color: TEXT_PRIMARY, letterSpacing: 1, lineHeight: 1.2 }}
+              >
+                {survey.restaurant.name || '餐厅'}
+              </Typography>
+              {/* Language switcher - only for questionnaires with translations */}
+              {availableLocales.length > 1 && !submitted && (
+                <Box
+                  role="group"
+                  aria-label={messages.languageSwitcher}
+                  sx={{ display: 'flex', justifyContent: 'center', flexWrap: 'wrap', gap: 0.75, mt: 1 }}
+                >
+                  {availableLocales.map((availableLocale) => (
+                    <ButtonBase
+                      key={availableLocale}
+                      onClick={() => setLocale(availableLocale)}
+                      aria-pressed={availableLocale === locale}
+                      sx={{
+                        px: 1.25,
+                        py: 0.25,
+                        borderRadius: '12px',
+                        fontSize: 12,
+                        color: TEXT_PRIMARY,
+                        border: '1px solid rgba(255, 255, 255, 0.4)',
+                        background: availableLocale === locale ? 'rgba(255, 255, 255, 0.35)' : 'transparent',
+                      }}
+                    >
+                      {CONTENT_LOCALE_LABELS[availableLocale]}
+                    </ButtonBase>
+                  ))}
+                </Box>
+              )}
+            </Box>
+            {renderQuestionnaire()}
+          </>
+        )}
+      </Box>
+    </Box>
+  )
+}
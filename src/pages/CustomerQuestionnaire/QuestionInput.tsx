@@ -0,0 +1,213 @@
+// Version: 1.2.1
+// Question Input - Renders the answer controls for one question on the customer questionnaire
+// Features: Single choice, multi-select (with selection limits), rating (stars or emoji), NPS 0-10,
+//           numeric (with range) and free text; answers are AnswerValue entries
+// v1.2.1: Scales and rating emojis come from utils/questionScales
+// v1.2.0: Shows option labels and hints in the chosen language; answers keep the Chinese label and the value
+// v1.1.0: Answers are typed AnswerValue
+
+import { useState } from 'react'
+import { Box, ButtonBase, TextField, Typography } from '@mui/material'
+import type { AnswerValue, Question } from '../../types/database'
+import { getSelectionLimits } from '../../utils/answerValidation'
+import { getOptionKey } from '../../utils/questionFlow'
+import { getOptionLabel } from '../../utils/contentLocale'
+import type { ContentLocale } from '../../utils/contentLocale'
+import { NPS_SCALE, RATING_EMOJIS, RATING_SCALE } from '../../utils/questionScales'
+import { TEXT_SECONDARY, glassButtonSx, glassInputSx, selectedGlassButtonSx } from './customerStyles'
+import { CUSTOMER_MESSAGES } from './customerMessages'
+import type { CustomerMessages } from './customerMessages'
+
+interface QuestionInputProps {
+  question: Question
+  answer?: AnswerValue
+  locale: ContentLocale // Language shown - answers are stored the same in every language
+  onChange: (answer: AnswerValue | undefined) => void
+}
+
+const range = (min: number, max: number) => Array.from({ length: max - min + 1 }, (_, index) => min + index)
+
+function Hint({ children }: { children: React.ReactNode }) {
+  return (
+    <Typography sx={{ fontSize: 14, color: TEXT_SECONDARY, mt: -1, mb: 2 }}>
+      {children}
+    </Typography>
+  )
+}
+
+const getSelectionHint = (question: Question, messages: CustomerMessages) => {
+  const limits = getSelectionLimits(question)
+  if (limits.min === limits.max) return messages.selectExactly(limits.min)
+  if (limits.min <= 1) return messages.selectUpTo(limits.max)
+  return messages.selectRange(limits.min, limits.max)
+}
+
+export default function QuestionInput({ question, answer, locale, onChange }: QuestionInputProps) {
+  const messages = CUSTOMER_MESSAGES[locale]
+  // Raw text of a numeric field, so partial input such as "-" or "1." is not lost
+  const [numericText, setNumericText] = useState(typeof answer?.value === 'number' ? String(answer.value) : '')
+
+  const optionButtonSx = (selected: boolean) => [
+    glassButtonSx,
+    {
+      width: '100%',
+      minHeight: 'clamp(48px, 6vh, 60px)',
+      px: 'clamp(16px, 2.5vh, 20px)',
+      py: 'clamp(14px, 2vh, 18px)',
+      fontSize: 'clamp(14px, 2.2vh, 18px)',
+      wordBreak: 'break-word' as const,
+    },
+    selected && selectedGlassButtonSx,
+  ]
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 'clamp(8px, 1.5vh, 12px)' }}>
+          {(question.options || []).map((option) => (
+            <ButtonBase
+              key={getOptionKey(option)}
+              sx={optionButtonSx(answer?.type === 'multiple_choice' && (answer.value || answer.label) === getOptionKey(option))}
+              onClick={() => onChange({ type: 'multiple_choice', value: option.value, label: option.label })}
+            >
+              {getOptionLabel(option, locale)}
+            </ButtonBase>
+          ))}
+        </Box>
+      )
+
+    case 'multi_select': {
+      const options = question.options || []
+      const selectedKeys =
+        answer?.type === 'multi_select' ? answer.value.map((value, index) => value || answer.label[index]) : []
+      const { max } = getSelectionLimits(question)
+
+      const toggle = (key: string) => {
+        const isSelected = selectedKeys.includes(key)
+        // Extra selections beyond the maximum are ignored
+        if (!isSelected && selectedKeys.length >= max) return
+
+        const nextKeys = isSelected ? selectedKeys.filter((k) => k !== key) : [...selectedKeys, key]
+        // Keep the options' display order in the stored answer
+        const selected = options.filter((option) => nextKeys.includes(getOptionKey(option)))
+        onChange(
+          selected.length > 0
+            ? {
+                type: 'multi_select',
+                value: selected.map((option) => option.value),
+                label: selected.map((option) => option.label),
+              }
+            : undefined
+        )
+      }
+
+      return (
+        <>
+          <Hint>{getSelectionHint(question, messages)}</Hint>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 'clamp(8px, 1.5vh, 12px)' }}>
+            {options.map((option) => (
+              <ButtonBase
+                key={getOptionKey(option)}
+                sx={optionButtonSx(selectedKeys.includes(getOptionKey(option)))}
+                onClick={() => toggle(getOptionKey(option))}
+              >
+                {getOptionLabel(option, locale)}
+              </ButtonBase>
+            ))}
+          </Box>
+        </>
+      )
+    }
+
+    case 'rating': {
+      const style = question.rating_style || 'star'
+      const score = typeof answer?.value === 'number' ? answer.value : null
+
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', gap: 1 }}>
+          {range(RATING_SCALE.min, RATING_SCALE.max).map((value) => {
+            // Stars fill up to the chosen value; emoji highlight a single face
+            const active = score !== null && (style === 'star' ? value <= score : value === score)
+            return (
+              <ButtonBase
+                key={value}
+                aria-label={messages.ratingScore(value)}
+                onClick={() => onChange({ type: 'rating', value, label: `${value} 分` })}
+                sx={{
+                  fontSize: 32,
+                  p: 1,
+                  borderRadius: 2,
+                  transition: 'all 0.2s ease',
+                  color: style === 'star' ? (active ? '#ffd54f' : 'rgba(255, 255, 255, 0.35)') : undefined,
+                  opacity: style === 'emoji' && !active ? 0.5 : 1,
+                  transform: style === 'emoji' && active ? 'scale(1.2)' : undefined,
+                }}
+              >
+                {style === 'star' ? '★' : RATING_EMOJIS[value - RATING_SCALE.min]}
+              </ButtonBase>
+            )
+          })}
+        </Box>
+      )
+    }
+
+    case 'nps':
+      return (
+        <Box>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: 1 }}>
+            {range(NPS_SCALE.min, NPS_SCALE.max).map((value) => (
+              <ButtonBase
+                key={value}
+                onClick={() => onChange({ type: 'nps', value })}
+                sx={[
+                  glassButtonSx,
+                  { minWidth: 44, px: 1, py: 1.5, fontSize: 18, borderRadius: '12px' },
+                  answer?.value === value && selectedGlassButtonSx,
+                ]}
+              >
+                {value}
+              </ButtonBase>
+            ))}
+          </Box>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1.5, fontSize: 13, color: TEXT_SECONDARY }}>
+            <span>{messages.npsLow}</span>
+            <span>{messages.npsHigh}</span>
+          </Box>
+        </Box>
+      )
+
+    case 'numeric':
+      return (
+        <>
+          {question.min !== undefined && question.max !== undefined && (
+            <Hint>{messages.numericRange(question.min, question.max)}</Hint>
+          )}
+          <TextField
+            type="number"
+            fullWidth
+            placeholder={messages.numericPlaceholder}
+            value={numericText}
+            onChange={(e) => {
+              setNumericText(e.target.value)
+              onChange(e.target.value.trim() === '' ? undefined : { type: 'numeric', value: Number(e.target.value) })
+            }}
+            inputProps={{ inputMode: 'decimal', min: question.min, max: question.max }}
+            sx={glassInputSx}
+          />
+        </>
+      )
+
+    default:
+      return (
+        <TextField
+          multiline
+          minRows={4}
+          fullWidth
+          placeholder={messages.textPlaceholder}
+          value={typeof answer?.value === 'string' ? answer.value : ''}
+          onChange={(e) => onChange({ type: 'text_input', value: e.target.value })}
+          sx={glassInputSx}
+        />
+      )
+  }
+}
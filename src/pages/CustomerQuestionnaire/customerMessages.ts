@@ -0,0 +1,99 @@
+// Version: 1.0.0
+// Texts of the customer questionnaire page around the questionnaire content, per content language
+// The Chinese texts are the ones the page always showed (including the English navigation buttons)
+
+import type { ContentLocale } from '../../utils/contentLocale'
+
+export interface CustomerMessages {
+  questionNumber: (number: number) => string
+  back: string
+  next: string
+  submit: string
+  selectExactly: (count: number) => string
+  selectUpTo: (max: number) => string
+  selectRange: (min: number, max: number) => string
+  ratingScore: (score: number) => string // Screen reader label of a rating button
+  npsLow: string
+  npsHigh: string
+  numericRange: (min: number, max: number) => string
+  numericPlaceholder: string
+  textPlaceholder: string
+  thankYouTitle: string
+  thankYouLines: string[]
+  languageSwitcher: string
+}
+
+export const CUSTOMER_MESSAGES: Record<ContentLocale, CustomerMessages> = {
+  zh: {
+    questionNumber: (number) => `Question ${number}`,
+    back: 'Back',
+    next: 'Next',
+    submit: 'Submit',
+    selectExactly: (count) => `请选择 ${count} 项`,
+    selectUpTo: (max) => `可多选，最多 ${max} 项`,
+    selectRange: (min, max) => `请选择 ${min} 到 ${max} 项`,
+    ratingScore: (score) => `${score} 分`,
+    npsLow: '0 = 完全不可能',
+    npsHigh: '10 = 非常愿意',
+    numericRange: (min, max) => `请输入 ${min} 到 ${max} 之间的数字`,
+    numericPlaceholder: '请输入数字',
+    textPlaceholder: '请在此输入您的回答...',
+    thankYouTitle: '感谢您的反馈！',
+    thankYouLines: ['反馈信已被放进信箱，野百灵需要几天去寄送他们...', '期待再次为您服务！'],
+    languageSwitcher: '语言',
+  },
+  en: {
+    questionNumber: (number) => `Question ${number}`,
+    back: 'Back',
+    next: 'Next',
+    submit: 'Submit',
+    selectExactly: (count) => `Select ${count}`,
+    selectUpTo: (max) => `Select up to ${max}`,
+    selectRange: (min, max) => `Select ${min} to ${max}`,
+    ratingScore: (score) => `${score} out of 5`,
+    npsLow: '0 = Not at all likely',
+    npsHigh: '10 = Extremely likely',
+    numericRange: (min, max) => `Enter a number from ${min} to ${max}`,
+    numericPlaceholder: 'Enter a number',
+    textPlaceholder: 'Type your answer here...',
+    thankYouTitle: 'Thank you for your feedback!',
+    thankYouLines: ['Your feedback is on its way to the restaurant.', 'We look forward to serving you again!'],
+    languageSwitcher: 'Language',
+  },
+  ja: {
+    questionNumber: (number) => `質問 ${number}`,
+    back: '戻る',
+    next: '次へ',
+    submit: '送信',
+    selectExactly: (count) => `${count} つ選択してください`,
+    selectUpTo: (max) => `最大 ${max} つまで選択できます`,
+    selectRange: (min, max) => `${min}〜${max} つ選択してください`,
+    ratingScore: (score) => `${score} 点`,
+    npsLow: '0 = まったく思わない',
+    npsHigh: '10 = 強くそう思う',
+    numericRange: (min, max) => `${min}〜${max} の数字を入力してください`,
+    numericPlaceholder: '数字を入力',
+    textPlaceholder: 'こちらにご記入ください...',
+    thankYouTitle: 'ご意見ありがとうございました！',
+    thankYouLines: ['いただいたご意見はお店に届けられます。', 'またのご来店をお待ちしております！'],
+    languageSwitcher: '言語',
+  },
+  ko: {
+    questionNumber: (number) => `질문 ${number}`,
+    back: '이전',
+    next: '다음',
+    submit: '제출',
+    selectExactly: (count) => `${count}개를 선택해 주세요`,
+    selectUpTo: (max) => `최대 ${max}개까지 선택할 수 있습니다`,
+    selectRange: (min, max) => `${min}~${max}개를 선택해 주세요`,
+    ratingScore: (score) => `${score}점`,
+    npsLow: '0 = 전혀 그렇지 않다',
+    npsHigh: '10 = 매우 그렇다',
+    numericRange: (min, max) => `${min}~${max} 사이의 숫자를 입력해 주세요`,
+    numericPlaceholder: '숫자 입력',
+    textPlaceholder: '여기에 답변을 입력해 주세요...',
+    thankYouTitle: '소중한 의견 감사합니다!',
+    thankYouLines: ['보내주신 의견은 매장에 전달됩니다.', '다시 찾아주시길 기다리겠습니다!'],
+    languageSwitcher: '언어',
+  },
+}
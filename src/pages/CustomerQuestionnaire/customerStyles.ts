@@ -0,0 +1,41 @@
+// Version: 1.0.0
+// Shared glassmorphism styles for the customer questionnaire (white text on the background photo)
+
+export const TEXT_PRIMARY = 'rgba(255, 255, 255, 0.95)'
+export const TEXT_SECONDARY = 'rgba(255, 255, 255, 0.75)'
+
+export const glassButtonSx = {
+  background: 'rgba(255, 255, 255, 0.3)',
+  backdropFilter: 'blur(10px)',
+  WebkitBackdropFilter: 'blur(10px)',
+  border: '1px solid rgba(255, 255, 255, 0.4)',
+  borderRadius: 'clamp(12px, 2vh, 16px)',
+  color: TEXT_PRIMARY,
+  fontWeight: 500,
+  transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
+  WebkitTapHighlightColor: 'transparent',
+  '&:active': { transform: 'scale(0.96)' },
+}
+
+export const selectedGlassButtonSx = {
+  background: 'rgba(255, 255, 255, 0.6)',
+  borderColor: 'rgba(255, 255, 255, 0.9)',
+  color: 'white',
+  fontWeight: 600,
+  boxShadow: '0 4px 12px rgba(255, 255, 255, 0.2)',
+}
+
+export const glassInputSx = {
+  '& .MuiOutlinedInput-root': {
+    background: 'rgba(255, 255, 255, 0.3)',
+    backdropFilter: 'blur(10px)',
+    WebkitBackdropFilter: 'blur(10px)',
+    borderRadius: '16px',
+    color: TEXT_PRIMARY,
+    fontSize: 16, // 16px prevents iOS from zooming into the field
+    '& fieldset': { borderColor: 'rgba(255, 255, 255, 0.4)' },
+    '&:hover fieldset': { borderColor: 'rgba(255, 255, 255, 0.6)' },
+    '&.Mui-focused fieldset': { borderColor: 'rgba(255, 255, 255, 0.8)' },
+  },
+  '& .MuiInputBase-input::placeholder': { color: 'rgba(255, 255, 255, 0.6)', opacity: 1 },
+}
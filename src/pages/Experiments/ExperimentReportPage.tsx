@@ -0,0 +1,376 @@
+// Version: 1.5.0
+// Experiment Report Page - Compare A/B test variants (questionnaire assignments) for a restaurant
+// Features: Group by assignment or questionnaire, expected vs actual response share,
+//           per-question option distributions per variant with chi-square significance
+// v1.5.0: Headings, filters, table headers, test results and empty states come from the admin catalogs
+// v1.4.0: Rating points and blank answers are labelled through the admin catalogs
+// v1.3.0: Service errors are shown through translateError
+// v1.2.0: Questions are matched by id; an edited question text is marked with its earlier texts
+// v1.1.0: Scan counts and responses per scan come from the recorded scan events
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Alert,
+  CircularProgress,
+  Chip,
+  Stack,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+} from '@mui/material'
+import type { Restaurant } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import { getAllRestaurants } from '../../services/restaurantService'
+import { getExperimentReport, SIGNIFICANCE_LEVEL } from '../../services/experimentService'
+import type {
+  ExperimentGrouping,
+  ExperimentReport,
+  ExperimentVariant,
+} from '../../services/experimentService'
+import { getDistributionOptionLabel } from '../Analytics/optionLabels'
+
+// Variant colors used consistently across the summary table and question breakdowns
+const VARIANT_COLORS = ['#6366f1', '#ec4899', '#10b981', '#f59e0b', '#0ea5e9', '#8b5cf6']
+
+export default function ExperimentReportPage() {
+  const { t, translateError } = useI18n()
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([])
+  const [selectedRestaurantId, setSelectedRestaurantId] = useState('')
+  const [grouping, setGrouping] = useState<ExperimentGrouping>('questionnaire')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [report, setReport] = useState<ExperimentReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadRestaurants()
+  }, [])
+
+  useEffect(() => {
+    if (selectedRestaurantId) {
+      loadReport()
+    } else {
+      setReport(null)
+    }
+  }, [selectedRestaurantId, grouping, startDate, endDate])
+
+  const loadRestaurants = async () => {
+    try {
+      const data = await getAllRestaurants()
+      setRestaurants(data)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    }
+  }
+
+  const loadReport = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await getExperimentReport(selectedRestaurantId, grouping, {
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+      })
+      setReport(data)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getVariantLabel = (variant: ExperimentVariant) => {
+    if (grouping === 'questionnaire') {
+      return variant.questionnaire_title
+    }
+    return t('experiments.variantTables', {
+      questionnaire: variant.questionnaire_title,
+      tables: variant.table_numbers.join(', '),
+    })
+  }
+
+  const getVariantColor = (variantKey: string) => {
+    const index = report?.variants.findIndex((v) => v.key === variantKey) ?? 0
+    return VARIANT_COLORS[Math.max(0, index) % VARIANT_COLORS.length]
+  }
+
+  const formatPercentage = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`)
+
+  return (
+    <>
+      {/* Header */}
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          {t('experiments.title')}
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          {t('experiments.subtitle')}
+        </Typography>
+      </Box>
+
+      {/* Filters */}
+      <Card sx={{ mb: 4 }}>
+        <CardContent>
+          <Grid container spacing={2} alignItems="center">
+            <Grid item xs={12} md={6}>
+              <FormControl fullWidth>
+                <InputLabel>{t('experiments.restaurant')}</InputLabel>
+                <Select
+                  value={selectedRestaurantId}
+                  onChange={(e) => setSelectedRestaurantId(e.target.value)}
+                  label={t('experiments.restaurant')}
+                >
+                  {restaurants.map((restaurant) => (
+                    <MenuItem key={restaurant.id} value={restaurant.id}>
+                      {restaurant.name}{restaurant.address && `, ${restaurant.address}`}{restaurant.city && `, ${restaurant.city}`}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <ToggleButtonGroup
+                value={grouping}
+                exclusive
+                onChange={(_, value) => value && setGrouping(value)}
+                size="small"
+              >
+                <ToggleButton value="questionnaire">{t('experiments.groupByQuestionnaire')}</ToggleButton>
+                <ToggleButton value="assignment">{t('experiments.groupByAssignment')}</ToggleButton>
+              </ToggleButtonGroup>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                label={t('answerFilters.startDate')}
+                type="date"
+                fullWidth
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                label={t('answerFilters.endDate')}
+                type="date"
+                fullWidth
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {/* Error Display */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!selectedRestaurantId ? (
+        <Alert severity="info">{t('experiments.selectRestaurant')}</Alert>
+      ) : loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : !report || report.variants.length === 0 ? (
+        <Alert severity="info">{t('experiments.noAssignments')}</Alert>
+      ) : (
+        <>
+          {/* Variant Summary */}
+          <Card sx={{ mb: 4 }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                <Typography variant="h6">{t('experiments.variants')}</Typography>
+                <Chip label={t('experiments.totalResponses', { count: report.total_responses })} color="primary" />
+              </Box>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('experiments.variant')}</TableCell>
+                      <TableCell align="right">{t('experiments.expectedShare')}</TableCell>
+                      <TableCell align="right">{t('experiments.responses')}</TableCell>
+                      <TableCell align="right">{t('experiments.actualShare')}</TableCell>
+                      <TableCell align="right">{t('experiments.scans')}</TableCell>
+                      <TableCell align="right">{t('experiments.responseRate')}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {report.variants.map((variant) => (
+                      <TableRow key={variant.key}>
+                        <TableCell>
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <Box
+                              sx={{
+                                width: 12,
+                                height: 12,
+                                borderRadius: '50%',
+                                bgcolor: getVariantColor(variant.key),
+                                flexShrink: 0,
+                              }}
+                            />
+                            <Typography variant="body2">{getVariantLabel(variant)}</Typography>
+                            {!variant.is_active && (
+                              <Chip label={t('experiments.inactive')} size="small" sx={{ height: 20 }} />
+                            )}
+                          </Box>
+                        </TableCell>
+                        <TableCell align="right">{formatPercentage(variant.weight_share)}</TableCell>
+                        <TableCell align="right">{variant.response_count}</TableCell>
+                        <TableCell align="right">
+                          {formatPercentage(
+                            report.total_responses > 0
+                              ? (variant.response_count / report.total_responses) * 100
+                              : null
+                          )}
+                        </TableCell>
+                        <TableCell align="right">{variant.scan_count}</TableCell>
+                        <TableCell align="right">{formatPercentage(variant.response_rate)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              {report.variants.every((variant) => variant.scan_count === 0) && (
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                  {t('experiments.noScans')}
+                </Typography>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Per-question Comparisons */}
+          {report.questions.length === 0 ? (
+            <Alert severity="info">{t('experiments.noComparableQuestions')}</Alert>
+          ) : (
+            <Stack spacing={3}>
+              {report.questions.map((question) => (
+                <Card key={question.question_id}>
+                  <CardContent>
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Typography variant="subtitle1">{question.question_text}</Typography>
+                        {question.text_changed && (
+                          <Tooltip
+                            title={t('experiments.earlierTexts', {
+                              texts: question.question_texts.slice(1).join(t('experiments.earlierTextSeparator')),
+                            })}
+                            arrow
+                          >
+                            <Chip label={t('experiments.textChanged')} size="small" variant="outlined" color="info" />
+                          </Tooltip>
+                        )}
+                      </Box>
+                      {question.test ? (
+                        <Tooltip
+                          title={t(
+                            question.test.lowExpectedCounts
+                              ? 'experiments.testDetailsLowCounts'
+                              : 'experiments.testDetails',
+                            {
+                              statistic: question.test.statistic.toFixed(2),
+                              degreesOfFreedom: question.test.degreesOfFreedom,
+                            }
+                          )}
+                          arrow
+                        >
+                          <Chip
+                            label={t(question.significant ? 'experiments.significant' : 'experiments.notSignificant', {
+                              pValue: question.test.pValue < 0.001 ? '< 0.001' : `= ${question.test.pValue.toFixed(3)}`,
+                            })}
+                            color={question.significant ? 'success' : 'default'}
+                            variant={question.test.lowExpectedCounts ? 'outlined' : 'filled'}
+                            size="small"
+                          />
+                        </Tooltip>
+                      ) : (
+                        <Chip label={t('experiments.notEnoughData')} size="small" variant="outlined" />
+                      )}
+                    </Box>
+
+                    <Stack spacing={2}>
+                      {question.variants.map((breakdown) => {
+                        const variant = report.variants.find((v) => v.key === breakdown.variant_key)
+                        const color = getVariantColor(breakdown.variant_key)
+
+                        return (
+                          <Box key={breakdown.variant_key}>
+                            <Typography variant="body2" sx={{ mb: 0.5, color }}>
+                              {variant ? getVariantLabel(variant) : breakdown.variant_key}
+                              <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                                {t('experiments.variantResponses', { count: breakdown.total_responses })}
+                              </Typography>
+                            </Typography>
+                            {/* Stacked bar of option shares */}
+                            <Box sx={{ display: 'flex', height: 24, borderRadius: 1, overflow: 'hidden', bgcolor: 'grey.200' }}>
+                              {breakdown.options
+                                .filter((option) => option.count > 0)
+                                .map((option, index) => (
+                                  <Tooltip
+                                    key={`${option.value}-${option.label}`}
+                                    title={t('experiments.optionShare', {
+                                      label: getDistributionOptionLabel(t, question.question_type, option),
+                                      count: option.count,
+                                      percentage: option.percentage.toFixed(1),
+                                    })}
+                                    arrow
+                                  >
+                                    <Box
+                                      sx={{
+                                        width: `${option.percentage}%`,
+                                        bgcolor: color,
+                                        opacity: 1 - (index % 5) * 0.15,
+                                        color: 'white',
+                                        fontSize: '0.7rem',
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        justifyContent: 'center',
+                                        overflow: 'hidden',
+                                        whiteSpace: 'nowrap',
+                                      }}
+                                    >
+                                      {option.percentage >= 10 &&
+                                        getDistributionOptionLabel(t, question.question_type, option)}
+                                    </Box>
+                                  </Tooltip>
+                                ))}
+                            </Box>
+                          </Box>
+                        )
+                      })}
+                    </Stack>
+                  </CardContent>
+                </Card>
+              ))}
+            </Stack>
+          )}
+
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+            {t('experiments.significanceNote', { level: SIGNIFICANCE_LEVEL })}
+          </Typography>
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,254 @@
+// Version: 1.1.0
+// Batch Add Tables Dialog - Create many tables at once from naming patterns (A1-A20, VIP-1..5) or a CSV table list
+// Features: Preview that flags names already used in the restaurant or repeated in the batch,
+//           optional QR code generation for every new table in the same step
+// v1.1.0: Texts come from the admin catalogs
+
+import { useState, useMemo } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+  Chip,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material'
+import { UploadFile } from '@mui/icons-material'
+import { useI18n } from '../../contexts/I18nContext'
+import type { MessageKey } from '../../i18n/messages'
+import { createTables, generateQRCodesForTables } from '../../services/qrcodeService'
+import { expandTablePatterns, parseTableCsv, previewTableNames } from '../../utils/tableNames'
+import type { TableNameStatus } from '../../utils/tableNames'
+
+interface BatchAddTablesDialogProps {
+  open: boolean
+  restaurantId: string
+  existingTableNumbers: string[]
+  onClose: () => void
+  onCreated: () => void
+}
+
+type NameSource = 'pattern' | 'csv'
+
+const STATUS_CHIPS: Record<TableNameStatus, { label: MessageKey; color: 'success' | 'error' | 'default' }> = {
+  new: { label: 'batchAddTables.new', color: 'success' },
+  exists: { label: 'batchAddTables.exists', color: 'error' },
+  duplicate: { label: 'batchAddTables.duplicate', color: 'default' },
+}
+
+export default function BatchAddTablesDialog({
+  open,
+  restaurantId,
+  existingTableNumbers,
+  onClose,
+  onCreated,
+}: BatchAddTablesDialogProps) {
+  const { t, translateError } = useI18n()
+  const [source, setSource] = useState<NameSource>('pattern')
+  const [patternText, setPatternText] = useState('')
+  const [csvFileName, setCsvFileName] = useState('')
+  const [csvNames, setCsvNames] = useState<string[]>([])
+  const [generateQRCodes, setGenerateQRCodes] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Pattern errors (e.g. a range that is too large) are shown inline instead of as a dialog error
+  const { names, patternError } = useMemo(() => {
+    if (source === 'csv') return { names: csvNames, patternError: null }
+    try {
+      return { names: expandTablePatterns(patternText), patternError: null }
+    } catch (err) {
+      return { names: [], patternError: translateError(err, 'batchAddTables.invalidPattern') }
+    }
+  }, [source, patternText, csvNames, translateError])
+
+  const preview = useMemo(() => previewTableNames(names, existingTableNumbers), [names, existingTableNumbers])
+  const newTableNumbers = preview.filter((item) => item.status === 'new').map((item) => item.table_number)
+  const existingCount = preview.filter((item) => item.status === 'exists').length
+  const duplicateCount = preview.filter((item) => item.status === 'duplicate').length
+
+  const resetForm = () => {
+    setPatternText('')
+    setCsvFileName('')
+    setCsvNames([])
+    setError(null)
+  }
+
+  const handleClose = () => {
+    resetForm()
+    onClose()
+  }
+
+  const handleCsvSelected = async (file: File | undefined) => {
+    if (!file) return
+
+    try {
+      setError(null)
+      setCsvNames(parseTableCsv(await file.text()))
+      setCsvFileName(file.name)
+    } catch (err) {
+      setCsvNames([])
+      setCsvFileName('')
+      setError(translateError(err, 'batchAddTables.readCsvFailed'))
+    }
+  }
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true)
+      setError(null)
+
+      const tables = await createTables(restaurantId, newTableNumbers)
+
+      if (generateQRCodes) {
+        try {
+          await generateQRCodesForTables(restaurantId, tables.map((table) => table.id))
+        } catch (err) {
+          // The tables exist at this point - refresh the page and let the user generate QR codes per table
+          onCreated()
+          setError(t('batchAddTables.generateFailed', { detail: translateError(err, 'common.unexpectedError') }))
+          return
+        }
+      }
+
+      onCreated()
+      handleClose()
+    } catch (err) {
+      setError(translateError(err, 'batchAddTables.createFailed'))
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={() => !creating && handleClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('batchAddTables.title')}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <ToggleButtonGroup
+            value={source}
+            exclusive
+            onChange={(_, value) => value && setSource(value)}
+            size="small"
+          >
+            <ToggleButton value="pattern">{t('batchAddTables.pattern')}</ToggleButton>
+            <ToggleButton value="csv">{t('batchAddTables.csv')}</ToggleButton>
+          </ToggleButtonGroup>
+
+          {source === 'pattern' ? (
+            <TextField
+              label={t('batchAddTables.pattern')}
+              multiline
+              minRows={3}
+              fullWidth
+              value={patternText}
+              onChange={(e) => setPatternText(e.target.value)}
+              placeholder={t('batchAddTables.patternPlaceholder')}
+              error={!!patternError}
+              helperText={patternError || t('batchAddTables.patternHelper')}
+            />
+          ) : (
+            <Box>
+              <Button variant="outlined" component="label" startIcon={<UploadFile />}>
+                {t('batchAddTables.chooseCsv')}
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  hidden
+                  onChange={(e) => {
+                    handleCsvSelected(e.target.files?.[0])
+                    // Allow choosing the same file again after editing it
+                    e.target.value = ''
+                  }}
+                />
+              </Button>
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                {csvFileName
+                  ? t('batchAddTables.csvRead', { file: csvFileName, count: csvNames.length })
+                  : t('batchAddTables.csvHint')}
+              </Typography>
+            </Box>
+          )}
+
+          {preview.length > 0 && (
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                {t('batchAddTables.preview', { count: newTableNumbers.length })}
+                {existingCount > 0 && t('batchAddTables.skippedExisting', { count: existingCount })}
+                {duplicateCount > 0 && t('batchAddTables.skippedDuplicates', { count: duplicateCount })}
+              </Typography>
+              <Box
+                sx={{
+                  display: 'flex',
+                  flexWrap: 'wrap',
+                  gap: 1,
+                  maxHeight: 240,
+                  overflowY: 'auto',
+                  p: 1,
+                  bgcolor: 'background.default',
+                  borderRadius: 1,
+                }}
+              >
+                {preview.map((item, index) => (
+                  <Chip
+                    key={`${item.table_number}-${index}`}
+                    size="small"
+                    variant={item.status === 'new' ? 'outlined' : 'filled'}
+                    color={STATUS_CHIPS[item.status].color}
+                    label={
+                      item.status === 'new'
+                        ? item.table_number
+                        : t('batchAddTables.tableWithStatus', {
+                            table: item.table_number,
+                            status: t(STATUS_CHIPS[item.status].label),
+                          })
+                    }
+                  />
+                ))}
+              </Box>
+            </Box>
+          )}
+
+          {existingCount > 0 && (
+            <Alert severity="warning">{t('batchAddTables.existingWarning')}</Alert>
+          )}
+
+          <FormControlLabel
+            control={
+              <Checkbox checked={generateQRCodes} onChange={(e) => setGenerateQRCodes(e.target.checked)} />
+            }
+            label={t('batchAddTables.generateQRCodes')}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={creating}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={handleCreate}
+          variant="contained"
+          disabled={creating || newTableNumbers.length === 0}
+          startIcon={creating ? <CircularProgress size={20} /> : undefined}
+        >
+          {creating ? t('batchAddTables.creating') : t('batchAddTables.create', { count: newTableNumbers.length })}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
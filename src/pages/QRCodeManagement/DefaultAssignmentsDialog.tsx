@@ -0,0 +1,210 @@
+// Version: 1.1.0
+// Default Assignments Dialog - Edit which questionnaires (and A/B weights) new QR codes of a restaurant get
+// Features: Ordered questionnaire list with weights, live normalized percentages; existing QR codes are not changed
+// v1.1.0: Texts come from the admin catalogs
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  IconButton,
+  Alert,
+  CircularProgress,
+  LinearProgress,
+  Stack,
+} from '@mui/material'
+import { AddCircle, RemoveCircleOutline } from '@mui/icons-material'
+import type { DefaultAssignment, EchoQuestionnaire } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import { saveDefaultAssignments } from '../../services/restaurantService'
+import { DEFAULT_ASSIGNMENT_WEIGHT, getSelectionPercentages } from '../../utils/weightedSelection'
+
+interface DefaultAssignmentsDialogProps {
+  open: boolean
+  restaurantId: string
+  restaurantName: string
+  assignments: DefaultAssignment[]
+  questionnaires: EchoQuestionnaire[]
+  onClose: () => void
+  onSaved: (assignments: DefaultAssignment[]) => void
+}
+
+// Weight is kept as a string while editing so the field can be cleared
+interface DefaultAssignmentRow {
+  questionnaire_id: string
+  weight: string
+}
+
+export default function DefaultAssignmentsDialog({
+  open,
+  restaurantId,
+  restaurantName,
+  assignments,
+  questionnaires,
+  onClose,
+  onSaved,
+}: DefaultAssignmentsDialogProps) {
+  const { t, translateError } = useI18n()
+  const [rows, setRows] = useState<DefaultAssignmentRow[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setRows(assignments.map((entry) => ({ questionnaire_id: entry.questionnaire_id, weight: String(entry.weight) })))
+      setError(null)
+    }
+  }, [open, assignments])
+
+  const handleAddRow = () => {
+    setRows([...rows, { questionnaire_id: '', weight: String(DEFAULT_ASSIGNMENT_WEIGHT) }])
+  }
+
+  const handleRemoveRow = (index: number) => {
+    setRows(rows.filter((_, i) => i !== index))
+  }
+
+  const handleUpdateRow = (index: number, updates: Partial<DefaultAssignmentRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...updates } : row)))
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      const saved = await saveDefaultAssignments(
+        restaurantId,
+        rows
+          .filter((row) => row.questionnaire_id)
+          .map((row) => ({ questionnaire_id: row.questionnaire_id, weight: Number(row.weight) }))
+      )
+      onSaved(saved)
+      onClose()
+    } catch (err) {
+      setError(translateError(err, 'defaultAssignments.saveFailed'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const selectedRows = rows.filter((row) => row.questionnaire_id)
+  const percentages = getSelectionPercentages(selectedRows.map((row) => ({ weight: Number(row.weight) || 0 })))
+  const hasInvalidWeight = rows.some((row) => !Number.isInteger(Number(row.weight)) || Number(row.weight) < 1)
+  const hasDuplicate = new Set(selectedRows.map((row) => row.questionnaire_id)).size !== selectedRows.length
+
+  return (
+    <Dialog open={open} onClose={() => !saving && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('defaultAssignments.title', { restaurant: restaurantName })}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 3 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <Typography variant="body2" color="text.secondary">
+            {t('defaultAssignments.intro')}
+          </Typography>
+
+          <Stack spacing={2}>
+            {rows.map((row, index) => (
+              <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                <FormControl sx={{ flex: 1 }} size="small">
+                  <InputLabel>{t('assignmentDialog.questionnaire')}</InputLabel>
+                  <Select
+                    value={row.questionnaire_id}
+                    onChange={(e) => handleUpdateRow(index, { questionnaire_id: e.target.value })}
+                    label={t('assignmentDialog.questionnaire')}
+                  >
+                    {questionnaires.map((questionnaire) => (
+                      <MenuItem key={questionnaire.id} value={questionnaire.id}>
+                        {questionnaire.title}
+                        {!questionnaire.is_active && t('assignmentDialog.inactive')}
+                        {!questionnaire.published_version_id && t('assignmentDialog.unpublished')}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  size="small"
+                  label={t('assignmentDialog.weight')}
+                  type="number"
+                  value={row.weight}
+                  onChange={(e) => handleUpdateRow(index, { weight: e.target.value })}
+                  inputProps={{ min: 1, step: 1 }}
+                  sx={{ width: 100 }}
+                />
+                <IconButton size="small" color="error" onClick={() => handleRemoveRow(index)}>
+                  <RemoveCircleOutline />
+                </IconButton>
+              </Box>
+            ))}
+            <Button size="small" startIcon={<AddCircle />} onClick={handleAddRow} sx={{ alignSelf: 'flex-start' }}>
+              {t('assignmentDialog.add')}
+            </Button>
+          </Stack>
+
+          {hasDuplicate && <Alert severity="warning">{t('defaultAssignments.duplicate')}</Alert>}
+          {hasInvalidWeight && <Alert severity="warning">{t('assignmentDialog.invalidWeight')}</Alert>}
+
+          {/* Preview of what customers at new tables will get */}
+          {selectedRows.length > 0 && !hasInvalidWeight && (
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                {t('defaultAssignments.preview')}
+              </Typography>
+              <Stack spacing={1}>
+                {selectedRows.map((row, index) => {
+                  const questionnaire = questionnaires.find((q) => q.id === row.questionnaire_id)
+                  return (
+                    <Box key={row.questionnaire_id + index}>
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <Typography variant="body2">{questionnaire?.title || row.questionnaire_id}</Typography>
+                        <Typography variant="body2" color="text.secondary">
+                          {percentages[index].toFixed(1)}%
+                        </Typography>
+                      </Box>
+                      <LinearProgress
+                        variant="determinate"
+                        value={percentages[index]}
+                        sx={{ height: 6, borderRadius: 3 }}
+                      />
+                    </Box>
+                  )
+                })}
+              </Stack>
+            </Box>
+          )}
+
+          {selectedRows.length === 0 && (
+            <Alert severity="warning">{t('defaultAssignments.empty')}</Alert>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={saving || hasInvalidWeight || hasDuplicate}
+          startIcon={saving ? <CircularProgress size={20} /> : undefined}
+        >
+          {saving ? t('common.saving') : t('common.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
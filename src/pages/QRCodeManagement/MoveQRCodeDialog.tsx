@@ -0,0 +1,124 @@
+// Version: 1.1.0
+// Move QR Code Dialog - Move a table's QR code (the printed sticker) to another table of the restaurant
+// Features: Target table picker, explains what happens to the target table's current QR code (retired, redirects here)
+// v1.1.0: Texts come from the admin catalogs
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  CircularProgress,
+} from '@mui/material'
+import { SwapHoriz } from '@mui/icons-material'
+import type { TableWithQRCode } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import { moveQRCodeToTable } from '../../services/qrcodeService'
+import { compareTableNumbers } from '../../utils/tableNames'
+
+interface MoveQRCodeDialogProps {
+  open: boolean
+  table: TableWithQRCode | null // Table whose QR code is moved
+  tables: TableWithQRCode[] // All tables of the restaurant
+  onClose: () => void
+  onMoved: () => void
+}
+
+export default function MoveQRCodeDialog({ open, table, tables, onClose, onMoved }: MoveQRCodeDialogProps) {
+  const { t, translateError } = useI18n()
+  const [targetTableId, setTargetTableId] = useState('')
+  const [moving, setMoving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setTargetTableId('')
+      setError(null)
+    }
+  }, [open])
+
+  const targetTables = tables
+    .filter((candidate) => candidate.id !== table?.id)
+    .sort((a, b) => compareTableNumbers(a.table_number, b.table_number))
+  const targetTable = targetTables.find((candidate) => candidate.id === targetTableId)
+
+  const handleMove = async () => {
+    // echo_qrcode is a single object (not array) for 1:1 relationships
+    if (!table?.echo_qrcode || !targetTable) return
+
+    try {
+      setMoving(true)
+      setError(null)
+      await moveQRCodeToTable(table.echo_qrcode.id, table.id, targetTable.id)
+      onMoved()
+      onClose()
+    } catch (err) {
+      setError(translateError(err, 'moveQRCode.moveFailed'))
+    } finally {
+      setMoving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={() => !moving && onClose()} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('moveQRCode.title', { table: table?.table_number ?? '' })}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <Typography variant="body2" color="text.secondary">
+            {t('moveQRCode.intro')}
+          </Typography>
+
+          <FormControl size="small" fullWidth>
+            <InputLabel>{t('moveQRCode.target')}</InputLabel>
+            <Select
+              value={targetTableId}
+              onChange={(e) => setTargetTableId(e.target.value)}
+              label={t('moveQRCode.target')}
+            >
+              {targetTables.map((candidate) => (
+                <MenuItem key={candidate.id} value={candidate.id}>
+                  {t('qrcode.tableNumber', { table: candidate.table_number })}
+                  {candidate.echo_qrcode ? t('moveQRCode.hasQRCode') : ''}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {targetTable?.echo_qrcode && (
+            <Alert severity="warning">
+              {t('moveQRCode.retireWarning', { table: targetTable.table_number })}
+            </Alert>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={moving}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={handleMove}
+          variant="contained"
+          disabled={moving || !targetTable}
+          startIcon={moving ? <CircularProgress size={20} /> : <SwapHoriz />}
+        >
+          {moving ? t('moveQRCode.moving') : t('moveQRCode.confirm')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
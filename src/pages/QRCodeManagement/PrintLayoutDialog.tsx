@@ -0,0 +1,261 @@
+// Version: 1.2.0
+// Print Layout Dialog - Download printable QR codes for all tables of a restaurant
+// Features: A4 sheet grid or fold-in-half table tent cards, call-to-action text, optional logo / brand line /
+//           accent colour, live preview of one card layout, PDF or SVG output
+// v1.2.0: Texts come from the admin catalogs; the printed cards keep their Chinese call to action
+// v1.1.0: QR codes use the restaurant's QR code style
+
+import { useState, useMemo } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  IconButton,
+} from '@mui/material'
+import { Download, Image as ImageIcon, Close } from '@mui/icons-material'
+import type { QRCodeStyle, TableWithQRCode } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import { buildQRCodePrintPages, downloadPrintPages } from '../../services/qrcodeService'
+import type { PrintFormat } from '../../services/qrcodeService'
+import {
+  buildPrintPages,
+  DEFAULT_ACCENT_COLOR,
+  DEFAULT_CALL_TO_ACTION,
+  SHEET_CARDS_PER_PAGE,
+} from '../../utils/printLayout'
+import type { PrintLayout } from '../../utils/printLayout'
+import { readFileAsDataUrl } from '../../utils/imageFiles'
+
+interface PrintLayoutDialogProps {
+  open: boolean
+  restaurantId: string
+  restaurantName: string
+  tables: TableWithQRCode[]
+  qrStyle: QRCodeStyle
+  onClose: () => void
+}
+
+// The logo is embedded in every card, so large images would bloat the files
+const MAX_LOGO_BYTES = 1024 * 1024
+
+export default function PrintLayoutDialog({
+  open,
+  restaurantId,
+  restaurantName,
+  tables,
+  qrStyle,
+  onClose,
+}: PrintLayoutDialogProps) {
+  const { t, translateError } = useI18n()
+  const [layout, setLayout] = useState<PrintLayout>('sheet')
+  const [format, setFormat] = useState<PrintFormat>('pdf')
+  const [callToAction, setCallToAction] = useState(DEFAULT_CALL_TO_ACTION)
+  const [brandText, setBrandText] = useState('')
+  const [logoDataUrl, setLogoDataUrl] = useState('')
+  const [accentColor, setAccentColor] = useState(DEFAULT_ACCENT_COLOR)
+  const [downloading, setDownloading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const options = {
+    layout,
+    callToAction,
+    brandText: brandText.trim() || undefined,
+    logoDataUrl: logoDataUrl || undefined,
+    accentColor,
+    qrStyle,
+  }
+
+  const printableTables = tables.filter((table) => table.echo_qrcode)
+
+  // Preview the first page with the first table only
+  const previewTable = printableTables[0]
+  const previewUrl = useMemo(() => {
+    if (!open || !previewTable?.echo_qrcode) return ''
+    const [page] = buildPrintPages(
+      [
+        {
+          restaurant_name: restaurantName,
+          table_number: previewTable.table_number,
+          qr_code_value: previewTable.echo_qrcode.qr_code_value,
+        },
+      ],
+      options
+    )
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(page)}`
+  }, [open, previewTable, restaurantName, layout, callToAction, brandText, logoDataUrl, accentColor, qrStyle])
+
+  const pageCount = layout === 'tent' ? printableTables.length : Math.ceil(printableTables.length / SHEET_CARDS_PER_PAGE)
+
+  const handleLogoSelected = async (file: File | undefined) => {
+    if (!file) return
+
+    if (file.size > MAX_LOGO_BYTES) {
+      setError(t('printLayout.logoTooLarge', { size: MAX_LOGO_BYTES / 1024 / 1024 }))
+      return
+    }
+
+    try {
+      setError(null)
+      setLogoDataUrl(await readFileAsDataUrl(file))
+    } catch (err) {
+      setError(translateError(err, 'printLayout.readImageFailed'))
+    }
+  }
+
+  const handleDownload = async () => {
+    try {
+      setDownloading(true)
+      setError(null)
+      const pages = await buildQRCodePrintPages(restaurantId, restaurantName, options)
+      const layoutName = layout === 'tent' ? t('printLayout.tentFileName') : t('printLayout.sheetFileName')
+      await downloadPrintPages(pages, format, `${restaurantName}-${layoutName}`)
+    } catch (err) {
+      setError(translateError(err, 'printLayout.downloadFailed'))
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={() => !downloading && onClose()} maxWidth="md" fullWidth>
+      <DialogTitle>{t('printLayout.title', { restaurant: restaurantName })}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1, display: 'flex', gap: 3, flexDirection: { xs: 'column', md: 'row' } }}>
+          <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                {t('printLayout.layout')}
+              </Typography>
+              <ToggleButtonGroup
+                value={layout}
+                exclusive
+                onChange={(_, value) => value && setLayout(value)}
+                size="small"
+              >
+                <ToggleButton value="sheet">
+                  {t('printLayout.sheet', { count: SHEET_CARDS_PER_PAGE })}
+                </ToggleButton>
+                <ToggleButton value="tent">{t('printLayout.tent')}</ToggleButton>
+              </ToggleButtonGroup>
+            </Box>
+
+            <TextField
+              label={t('printLayout.callToAction')}
+              size="small"
+              fullWidth
+              value={callToAction}
+              onChange={(e) => setCallToAction(e.target.value)}
+              placeholder={DEFAULT_CALL_TO_ACTION}
+            />
+
+            <TextField
+              label={t('printLayout.brandText')}
+              size="small"
+              fullWidth
+              value={brandText}
+              onChange={(e) => setBrandText(e.target.value)}
+            />
+
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+              <TextField
+                label={t('printLayout.accentColor')}
+                size="small"
+                type="color"
+                value={accentColor}
+                onChange={(e) => setAccentColor(e.target.value)}
+                sx={{ width: 100 }}
+              />
+              <Button variant="outlined" size="small" component="label" startIcon={<ImageIcon />}>
+                {logoDataUrl ? t('printLayout.replaceLogo') : t('printLayout.uploadLogo')}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/svg+xml"
+                  hidden
+                  onChange={(e) => {
+                    handleLogoSelected(e.target.files?.[0])
+                    e.target.value = ''
+                  }}
+                />
+              </Button>
+              {logoDataUrl && (
+                <IconButton size="small" onClick={() => setLogoDataUrl('')} aria-label={t('printLayout.removeLogo')}>
+                  <Close fontSize="small" />
+                </IconButton>
+              )}
+            </Box>
+
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                {t('printLayout.format')}
+              </Typography>
+              <ToggleButtonGroup
+                value={format}
+                exclusive
+                onChange={(_, value) => value && setFormat(value)}
+                size="small"
+              >
+                <ToggleButton value="pdf">PDF</ToggleButton>
+                <ToggleButton value="svg">SVG</ToggleButton>
+              </ToggleButtonGroup>
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                {format === 'pdf' ? t('printLayout.pdfHint') : t('printLayout.svgHint')}
+              </Typography>
+            </Box>
+
+            {printableTables.length === 0 ? (
+              <Alert severity="info">{t('printLayout.noQRCodes')}</Alert>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                {t('printLayout.summary', { tables: printableTables.length, pages: pageCount })}
+                {printableTables.length < tables.length &&
+                  t('printLayout.skippedTables', { count: tables.length - printableTables.length })}
+              </Typography>
+            )}
+          </Box>
+
+          {previewUrl && (
+            <Box sx={{ width: { xs: '100%', md: 280 }, flexShrink: 0 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                {t('printLayout.preview')}
+              </Typography>
+              <Box
+                component="img"
+                src={previewUrl}
+                alt={t('printLayout.previewAlt')}
+                sx={{ width: '100%', border: 1, borderColor: 'divider', boxShadow: 1 }}
+              />
+            </Box>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={downloading}>
+          {t('common.close')}
+        </Button>
+        <Button
+          onClick={handleDownload}
+          variant="contained"
+          disabled={downloading || printableTables.length === 0 || !callToAction.trim()}
+          startIcon={downloading ? <CircularProgress size={20} /> : <Download />}
+        >
+          {downloading ? t('printLayout.generating') : t('printLayout.download', { format: format.toUpperCase() })}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,280 @@
+// Version: 1.2.0
+// QR Code Assignment Dialog - Edit which questionnaires a table's QR code shows, with A/B weights
+// Features: Single-questionnaire or weighted mode, editable weights, live normalized percentages
+//           computed with the same weighted selection the customer page uses
+// v1.2.0: Texts come from the admin catalogs
+// v1.1.0: Marks questionnaires that have not been published (customers cannot see them yet)
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  IconButton,
+  Alert,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  LinearProgress,
+  Stack,
+} from '@mui/material'
+import { AddCircle, RemoveCircleOutline } from '@mui/icons-material'
+import type { EchoQuestionnaire, TableWithQRCode } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import { getQRCodeAssignments, saveQRCodeAssignments } from '../../services/questionnaireService'
+import type { AssignmentMode } from '../../services/questionnaireService'
+import { DEFAULT_ASSIGNMENT_WEIGHT, getSelectionPercentages } from '../../utils/weightedSelection'
+
+interface QRCodeAssignmentDialogProps {
+  open: boolean
+  table: TableWithQRCode | null
+  questionnaires: EchoQuestionnaire[]
+  onClose: () => void
+  onSaved: () => void
+}
+
+// Weight is kept as a string while editing so the field can be cleared
+interface AssignmentRow {
+  questionnaire_id: string
+  weight: string
+}
+
+export default function QRCodeAssignmentDialog({
+  open,
+  table,
+  questionnaires,
+  onClose,
+  onSaved,
+}: QRCodeAssignmentDialogProps) {
+  const { t, translateError } = useI18n()
+  const [mode, setMode] = useState<AssignmentMode>('single')
+  const [rows, setRows] = useState<AssignmentRow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const qrcodeId = table?.echo_qrcode?.id
+
+  useEffect(() => {
+    if (open && qrcodeId) {
+      loadAssignments(qrcodeId)
+    }
+  }, [open, qrcodeId])
+
+  const loadAssignments = async (id: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await getQRCodeAssignments(id)
+      setRows(
+        data.map((assignment) => ({
+          questionnaire_id: assignment.questionnaire_id,
+          weight: String(assignment.weight || DEFAULT_ASSIGNMENT_WEIGHT),
+        }))
+      )
+      setMode(data.length > 1 ? 'weighted' : 'single')
+    } catch (err) {
+      setError(translateError(err, 'assignmentDialog.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleModeChange = (newMode: AssignmentMode) => {
+    setMode(newMode)
+    // Single mode keeps only the first questionnaire
+    if (newMode === 'single' && rows.length > 1) {
+      setRows(rows.slice(0, 1))
+    }
+  }
+
+  const handleAddRow = () => {
+    setRows([...rows, { questionnaire_id: '', weight: String(DEFAULT_ASSIGNMENT_WEIGHT) }])
+  }
+
+  const handleRemoveRow = (index: number) => {
+    setRows(rows.filter((_, i) => i !== index))
+  }
+
+  const handleUpdateRow = (index: number, updates: Partial<AssignmentRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...updates } : row)))
+  }
+
+  const handleSave = async () => {
+    if (!qrcodeId) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      await saveQRCodeAssignments(
+        qrcodeId,
+        rows
+          .filter((row) => row.questionnaire_id)
+          .map((row) => ({
+            questionnaire_id: row.questionnaire_id,
+            weight: mode === 'single' ? DEFAULT_ASSIGNMENT_WEIGHT : Number(row.weight),
+          })),
+        mode
+      )
+      onSaved()
+      onClose()
+    } catch (err) {
+      setError(translateError(err, 'assignmentDialog.saveFailed'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const selectedRows = rows.filter((row) => row.questionnaire_id)
+  const percentages = getSelectionPercentages(
+    selectedRows.map((row) => ({ weight: mode === 'single' ? DEFAULT_ASSIGNMENT_WEIGHT : Number(row.weight) || 0 }))
+  )
+  const hasInvalidWeight =
+    mode === 'weighted' &&
+    rows.some((row) => !Number.isInteger(Number(row.weight)) || Number(row.weight) < 1)
+  const hasDuplicate = new Set(selectedRows.map((row) => row.questionnaire_id)).size !== selectedRows.length
+
+  return (
+    <Dialog open={open} onClose={() => !saving && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('assignmentDialog.title', { table: table?.table_number ?? '' })}</DialogTitle>
+      <DialogContent>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 3 }}>
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            <ToggleButtonGroup
+              value={mode}
+              exclusive
+              onChange={(_, value) => value && handleModeChange(value)}
+              size="small"
+            >
+              <ToggleButton value="single">{t('assignmentDialog.single')}</ToggleButton>
+              <ToggleButton value="weighted">{t('assignmentDialog.weighted')}</ToggleButton>
+            </ToggleButtonGroup>
+
+            <Typography variant="body2" color="text.secondary">
+              {mode === 'single' ? t('assignmentDialog.singleHint') : t('assignmentDialog.weightedHint')}
+            </Typography>
+
+            <Stack spacing={2}>
+              {rows.map((row, index) => (
+                <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                  <FormControl sx={{ flex: 1 }} size="small">
+                    <InputLabel>{t('assignmentDialog.questionnaire')}</InputLabel>
+                    <Select
+                      value={row.questionnaire_id}
+                      onChange={(e) => handleUpdateRow(index, { questionnaire_id: e.target.value })}
+                      label={t('assignmentDialog.questionnaire')}
+                    >
+                      {questionnaires.map((questionnaire) => (
+                        <MenuItem key={questionnaire.id} value={questionnaire.id}>
+                          {questionnaire.title}
+                          {!questionnaire.is_active && t('assignmentDialog.inactive')}
+                          {!questionnaire.published_version_id && t('assignmentDialog.unpublished')}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  {mode === 'weighted' && (
+                    <TextField
+                      size="small"
+                      label={t('assignmentDialog.weight')}
+                      type="number"
+                      value={row.weight}
+                      onChange={(e) => handleUpdateRow(index, { weight: e.target.value })}
+                      inputProps={{ min: 1, step: 1 }}
+                      sx={{ width: 100 }}
+                    />
+                  )}
+                  <IconButton size="small" color="error" onClick={() => handleRemoveRow(index)}>
+                    <RemoveCircleOutline />
+                  </IconButton>
+                </Box>
+              ))}
+              {(mode === 'weighted' || rows.length === 0) && (
+                <Button
+                  size="small"
+                  startIcon={<AddCircle />}
+                  onClick={handleAddRow}
+                  sx={{ alignSelf: 'flex-start' }}
+                >
+                  {t('assignmentDialog.add')}
+                </Button>
+              )}
+            </Stack>
+
+            {hasDuplicate && <Alert severity="warning">{t('assignmentDialog.duplicate')}</Alert>}
+            {hasInvalidWeight && <Alert severity="warning">{t('assignmentDialog.invalidWeight')}</Alert>}
+
+            {/* Preview of what customers will get */}
+            {selectedRows.length > 0 && !hasInvalidWeight && (
+              <Box>
+                <Typography variant="subtitle2" gutterBottom>
+                  {t('assignmentDialog.preview')}
+                </Typography>
+                <Stack spacing={1}>
+                  {selectedRows.map((row, index) => {
+                    const questionnaire = questionnaires.find((q) => q.id === row.questionnaire_id)
+                    return (
+                      <Box key={row.questionnaire_id + index}>
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                          <Typography variant="body2">{questionnaire?.title || row.questionnaire_id}</Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            {percentages[index].toFixed(1)}%
+                          </Typography>
+                        </Box>
+                        <LinearProgress
+                          variant="determinate"
+                          value={percentages[index]}
+                          sx={{ height: 6, borderRadius: 3 }}
+                        />
+                      </Box>
+                    )
+                  })}
+                </Stack>
+              </Box>
+            )}
+
+            {selectedRows.length === 0 && (
+              <Alert severity="warning">{t('assignmentDialog.empty')}</Alert>
+            )}
+
+            <Typography variant="caption" color="text.secondary">
+              {t('assignmentDialog.removedNote')}
+            </Typography>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={saving || loading || hasInvalidWeight || hasDuplicate}
+          startIcon={saving ? <CircularProgress size={20} /> : undefined}
+        >
+          {saving ? t('common.saving') : t('common.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -1,6 +1,19 @@
-// Version: 2.6.0
+// Version: 2.17.0
 // QR Code Management Page - Generate and manage QR codes for restaurant tables
-// Features: Restaurant selection, table list, QR code generation, regeneration, download functionality, table deletion
+// Features: Restaurant selection, table list, QR code generation, replacement, download functionality, table deletion,
+//           batch table creation, printable QR code sheets and table tent cards, ZIP download of all QR codes,
+//           per-restaurant QR code style, non-destructive QR code replacement and moving codes between tables
+// v2.17.0: Texts come from the message catalogs (admin UI language); service errors are translated by code
+// v2.16.0: Scan funnel per table - scans, completion rate and the question most customers drop off at
+// v2.15.0: Shows the restaurant's default questionnaires for new QR codes, editable by its managers
+// v2.14.0: Role-based access - the selector lists only the user's restaurants; changes need manager access
+// v2.13.0: Deleting a table moves it to the trash; added deleting only a table's QR code (also to the trash)
+// v2.12.0: Regenerate became "replace" (old code is retired and redirects, assignments are kept); added moving a QR code
+// v2.11.0: Added QR code style dialog; QR code images are rendered with the restaurant's style
+// v2.10.0: Added ZIP download of every table's QR code (PNG or SVG, with manifest CSV)
+// v2.9.0: Added print layout dialog (A4 sheets or tent cards for all tables, PDF or SVG)
+// v2.8.0: Added batch table creation (naming patterns or CSV import, with optional QR code generation)
+// v2.7.0: Added per-table questionnaire assignment editor (single or weighted A/B) and assignment summary on each card
 // v2.6.0: Improved button layout - regenerate and delete buttons now side-by-side in one row
 // v2.5.0: Added delete table functionality with confirmation dialog and CASCADE delete handling
 // v2.4.0: Removed input format restrictions - now supports Chinese characters and any format for table numbers
@@ -28,21 +41,66 @@ import {
   DialogContent,
   DialogActions,
   TextField,
+  Menu,
 } from '@mui/material'
-import { QrCode, Download, Add, Refresh, Warning, Delete } from '@mui/icons-material'
-import type { Restaurant, TableWithQRCode } from '../../types/database'
-import { getAllRestaurants } from '../../services/restaurantService'
+import {
+  QrCode,
+  Download,
+  Add,
+  Refresh,
+  Warning,
+  Delete,
+  Assignment,
+  PlaylistAdd,
+  Print,
+  FolderZip,
+  Palette,
+  SwapHoriz,
+  Edit,
+} from '@mui/icons-material'
+import type {
+  DefaultAssignment,
+  QRCodeStyle,
+  Restaurant,
+  TableWithQRCode,
+  EchoQuestionnaire,
+  QRCodeQuestionnaireWithQuestionnaire,
+} from '../../types/database'
+import { getAllRestaurants, getRestaurantSettings } from '../../services/restaurantService'
 import {
   getTablesWithQRCodes,
   generateQRCodeForTable,
   generateQRCodeImage,
   downloadQRCode,
   createTable,
-  regenerateQRCodeForTable,
+  replaceQRCodeForTable,
   deleteTable,
+  deleteQRCode,
+  downloadQRCodeZip,
 } from '../../services/qrcodeService'
+import type { QRCodeImageFormat } from '../../services/qrcodeService'
+import {
+  getAllQuestionnaires,
+  getQuestionnaireAssignmentsForRestaurant,
+} from '../../services/questionnaireService'
+import { getSelectionPercentages } from '../../utils/weightedSelection'
+import { getScanFunnels, SCAN_FUNNEL_DAYS } from '../../services/scanEventService'
+import type { QRCodeFunnel } from '../../services/scanEventService'
+import QRCodeAssignmentDialog from './QRCodeAssignmentDialog'
+import DefaultAssignmentsDialog from './DefaultAssignmentsDialog'
+import BatchAddTablesDialog from './BatchAddTablesDialog'
+import PrintLayoutDialog from './PrintLayoutDialog'
+import QRStyleDialog from './QRStyleDialog'
+import MoveQRCodeDialog from './MoveQRCodeDialog'
+import { DEFAULT_QR_STYLE } from '../../utils/qrStyle'
+import { TRASH_RETENTION_DAYS } from '../../services/trashService'
+import { useAuth } from '../../contexts/AuthContext'
+import { useI18n } from '../../contexts/I18nContext'
+import { canManageRestaurant } from '../../utils/permissions'
 
 export default function QRCodeManagementPage() {
+  const { access } = useAuth()
+  const { t, tRich, translateError } = useI18n()
   const [restaurants, setRestaurants] = useState<Restaurant[]>([])
   const [selectedRestaurantId, setSelectedRestaurantId] = useState<string>('')
   const [tables, setTables] = useState<TableWithQRCode[]>([])
@@ -50,22 +108,54 @@ export default function QRCodeManagementPage() {
   const [error, setError] = useState<string | null>(null)
   const [generatingQRCodeForTable, setGeneratingQRCodeForTable] = useState<string | null>(null)
   const [qrCodeImages, setQrCodeImages] = useState<Record<string, string>>({})
+  const [questionnaires, setQuestionnaires] = useState<EchoQuestionnaire[]>([])
+  // Active questionnaire assignments keyed by QR code ID
+  const [qrCodeAssignments, setQrCodeAssignments] = useState<Record<string, QRCodeQuestionnaireWithQuestionnaire[]>>({})
+  // Scan funnels of the last SCAN_FUNNEL_DAYS days keyed by QR code ID
+  const [scanFunnels, setScanFunnels] = useState<Record<string, QRCodeFunnel>>({})
 
   // Dialog for adding new table
   const [addTableDialogOpen, setAddTableDialogOpen] = useState(false)
   const [newTableNumber, setNewTableNumber] = useState<string>('')
   const [creatingTable, setCreatingTable] = useState(false)
 
-  // Dialog for regenerating QR code
-  const [regenerateDialogOpen, setRegenerateDialogOpen] = useState(false)
-  const [tableToRegenerate, setTableToRegenerate] = useState<TableWithQRCode | null>(null)
-  const [regeneratingQRCode, setRegeneratingQRCode] = useState(false)
+  // Dialog for adding tables in bulk
+  const [batchAddDialogOpen, setBatchAddDialogOpen] = useState(false)
+
+  // Dialog for printing QR codes of all tables
+  const [printDialogOpen, setPrintDialogOpen] = useState(false)
+
+  // Format menu for downloading all QR codes as a ZIP
+  const [zipMenuAnchor, setZipMenuAnchor] = useState<HTMLElement | null>(null)
+  const [downloadingZip, setDownloadingZip] = useState(false)
+
+  // QR code style of the selected restaurant, and its editor dialog
+  const [qrStyle, setQrStyle] = useState<QRCodeStyle>(DEFAULT_QR_STYLE)
+  const [styleDialogOpen, setStyleDialogOpen] = useState(false)
+
+  // Questionnaires new QR codes of the selected restaurant get, and their editor dialog
+  const [defaultAssignments, setDefaultAssignments] = useState<DefaultAssignment[]>([])
+  const [defaultsDialogOpen, setDefaultsDialogOpen] = useState(false)
 
-  // Dialog for deleting table
+  // Dialog for replacing a QR code (old code is retired, not deleted)
+  const [replaceDialogOpen, setReplaceDialogOpen] = useState(false)
+  const [tableToReplace, setTableToReplace] = useState<TableWithQRCode | null>(null)
+  const [replacingQRCode, setReplacingQRCode] = useState(false)
+
+  // Dialog for moving a QR code to another table
+  const [moveDialogOpen, setMoveDialogOpen] = useState(false)
+  const [tableToMove, setTableToMove] = useState<TableWithQRCode | null>(null)
+
+  // Dialog for deleting a table or only its QR code (both go to the trash)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [tableToDelete, setTableToDelete] = useState<TableWithQRCode | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<'table' | 'qrcode'>('table')
   const [deletingTable, setDeletingTable] = useState(false)
 
+  // Dialog for editing questionnaire assignments
+  const [assignmentDialogOpen, setAssignmentDialogOpen] = useState(false)
+  const [tableToAssign, setTableToAssign] = useState<TableWithQRCode | null>(null)
+
   // Load restaurants on mount
   useEffect(() => {
     loadRestaurants()
@@ -84,10 +174,14 @@ export default function QRCodeManagementPage() {
     try {
       setLoading(true)
       setError(null)
-      const data = await getAllRestaurants()
+      const [data, questionnairesData] = await Promise.all([
+        getAllRestaurants(),
+        getAllQuestionnaires(),
+      ])
       setRestaurants(data)
+      setQuestionnaires(questionnairesData)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load restaurants')
+      setError(translateError(err, 'qrcode.loadRestaurantsFailed'))
     } finally {
       setLoading(false)
     }
@@ -97,25 +191,58 @@ export default function QRCodeManagementPage() {
     try {
       setLoading(true)
       setError(null)
-      const data = await getTablesWithQRCodes(selectedRestaurantId)
+      const [data, settings] = await Promise.all([
+        getTablesWithQRCodes(selectedRestaurantId),
+        getRestaurantSettings(selectedRestaurantId),
+      ])
+      const style = settings.qr_style || DEFAULT_QR_STYLE
       setTables(data)
+      setQrStyle(style)
+      setDefaultAssignments(settings.default_assignments || [])
 
       // Generate QR code images for existing QR codes
       const images: Record<string, string> = {}
       for (const table of data) {
         // echo_qrcode is a single object (not array) for 1:1 relationships
         if (table.echo_qrcode && table.echo_qrcode.qr_code_value) {
-          images[table.id] = await generateQRCodeImage(table.echo_qrcode.qr_code_value)
+          images[table.id] = await generateQRCodeImage(table.echo_qrcode.qr_code_value, style)
         }
       }
       setQrCodeImages(images)
+
+      await loadAssignments()
+      setScanFunnels(
+        await getScanFunnels(data.flatMap((table) => (table.echo_qrcode ? [table.echo_qrcode.id] : [])))
+      )
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load tables')
+      setError(translateError(err, 'qrcode.loadTablesFailed'))
     } finally {
       setLoading(false)
     }
   }
 
+  const loadAssignments = async () => {
+    const qrCodes = await getQuestionnaireAssignmentsForRestaurant(selectedRestaurantId)
+    const assignmentsByQRCode: Record<string, QRCodeQuestionnaireWithQuestionnaire[]> = {}
+    qrCodes.forEach((qrCode) => {
+      assignmentsByQRCode[qrCode.id] = (qrCode.echo_qrcode_questionnaire || []).filter((a) => a.is_active)
+    })
+    setQrCodeAssignments(assignmentsByQRCode)
+  }
+
+  const handleOpenAssignmentDialog = (table: TableWithQRCode) => {
+    setTableToAssign(table)
+    setAssignmentDialogOpen(true)
+  }
+
+  const handleAssignmentsSaved = async () => {
+    try {
+      await loadAssignments()
+    } catch (err) {
+      setError(translateError(err, 'qrcode.loadAssignmentsFailed'))
+    }
+  }
+
   const handleGenerateQRCode = async (tableId: string) => {
     try {
       setGeneratingQRCodeForTable(tableId)
@@ -134,8 +261,11 @@ export default function QRCodeManagementPage() {
 
       // Save the image URL
       setQrCodeImages((prev) => ({ ...prev, [tableId]: imageUrl }))
+
+      // New QR codes are auto-assigned questionnaires - refresh the assignment summary
+      await loadAssignments()
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to generate QR code')
+      setError(translateError(err, 'qrcode.generateFailed'))
     } finally {
       setGeneratingQRCodeForTable(null)
     }
@@ -150,6 +280,21 @@ export default function QRCodeManagementPage() {
     }
   }
 
+  const handleDownloadZip = async (format: QRCodeImageFormat) => {
+    setZipMenuAnchor(null)
+    const restaurant = restaurants.find((r) => r.id === selectedRestaurantId)
+
+    try {
+      setDownloadingZip(true)
+      setError(null)
+      await downloadQRCodeZip(selectedRestaurantId, restaurant?.name || 'restaurant', format)
+    } catch (err) {
+      setError(translateError(err, 'qrcode.downloadFailed'))
+    } finally {
+      setDownloadingZip(false)
+    }
+  }
+
   const handleAddTable = async () => {
     try {
       setCreatingTable(true)
@@ -164,57 +309,69 @@ export default function QRCodeManagementPage() {
       setAddTableDialogOpen(false)
       setNewTableNumber('')
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create table')
+      setError(translateError(err, 'qrcode.createTableFailed'))
     } finally {
       setCreatingTable(false)
     }
   }
 
-  const handleOpenRegenerateDialog = (table: TableWithQRCode) => {
-    setTableToRegenerate(table)
-    setRegenerateDialogOpen(true)
+  const handleOpenReplaceDialog = (table: TableWithQRCode) => {
+    setTableToReplace(table)
+    setReplaceDialogOpen(true)
   }
 
-  const handleRegenerateQRCode = async () => {
+  const handleReplaceQRCode = async () => {
     // echo_qrcode is a single object (not array) for 1:1 relationships
-    if (!tableToRegenerate || !tableToRegenerate.echo_qrcode) {
+    if (!tableToReplace || !tableToReplace.echo_qrcode) {
       return
     }
 
     try {
-      setRegeneratingQRCode(true)
+      setReplacingQRCode(true)
       setError(null)
 
-      const existingQRCode = tableToRegenerate.echo_qrcode
-      const { qrCodeData, imageUrl } = await regenerateQRCodeForTable(
-        tableToRegenerate.id,
+      const existingQRCode = tableToReplace.echo_qrcode
+      const { qrCodeData, imageUrl } = await replaceQRCodeForTable(
+        tableToReplace.id,
         existingQRCode.id
       )
 
       // Update the table in the list (echo_qrcode is a single object, not array)
       setTables((prevTables) =>
         prevTables.map((table) =>
-          table.id === tableToRegenerate.id
+          table.id === tableToReplace.id
             ? { ...table, echo_qrcode: qrCodeData }
             : table
         )
       )
 
       // Update the image URL
-      setQrCodeImages((prev) => ({ ...prev, [tableToRegenerate.id]: imageUrl }))
+      setQrCodeImages((prev) => ({ ...prev, [tableToReplace.id]: imageUrl }))
+      await loadAssignments()
 
       // Close dialog
-      setRegenerateDialogOpen(false)
-      setTableToRegenerate(null)
+      setReplaceDialogOpen(false)
+      setTableToReplace(null)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to regenerate QR code')
+      setError(translateError(err, 'qrcode.replaceFailed'))
     } finally {
-      setRegeneratingQRCode(false)
+      setReplacingQRCode(false)
     }
   }
 
-  const handleOpenDeleteDialog = (table: TableWithQRCode) => {
+  const handleOpenMoveDialog = (table: TableWithQRCode) => {
+    setTableToMove(table)
+    setMoveDialogOpen(true)
+  }
+
+  const handleQRCodeMoved = async () => {
+    await loadTables()
+    await loadAssignments()
+  }
+
+  const handleOpenDeleteDialog = (table: TableWithQRCode, target: 'table' | 'qrcode' = 'table') => {
     setTableToDelete(table)
+    setDeleteTarget(target)
     setDeleteDialogOpen(true)
   }
 
@@ -227,10 +384,19 @@ export default function QRCodeManagementPage() {
       setDeletingTable(true)
       setError(null)
 
-      await deleteTable(tableToDelete.id)
+      if (deleteTarget === 'qrcode' && tableToDelete.echo_qrcode) {
+        await deleteQRCode(tableToDelete.echo_qrcode.id, tableToDelete.id)
 
-      // Remove table from local state
-      setTables((prevTables) => prevTables.filter((table) => table.id !== tableToDelete.id))
+        // The table stays, without a QR code
+        setTables((prevTables) =>
+          prevTables.map((table) => (table.id === tableToDelete.id ? { ...table, echo_qrcode: null } : table))
+        )
+      } else {
+        await deleteTable(tableToDelete.id)
+
+        // Remove table from local state
+        setTables((prevTables) => prevTables.filter((table) => table.id !== tableToDelete.id))
+      }
 
       // Remove QR code image from local state
       setQrCodeImages((prev) => {
@@ -243,23 +409,26 @@ export default function QRCodeManagementPage() {
       setDeleteDialogOpen(false)
       setTableToDelete(null)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete table')
+      setError(translateError(err, 'qrcode.deleteFailed'))
     } finally {
       setDeletingTable(false)
     }
   }
 
   const selectedRestaurant = restaurants.find((r) => r.id === selectedRestaurantId)
+  const defaultPercentages = getSelectionPercentages(defaultAssignments)
+  // Analysts and managers of other restaurants only view and download
+  const canManage = canManageRestaurant(access, selectedRestaurantId)
 
   return (
     <>
       {/* Header */}
       <Box sx={{ mb: 4 }}>
         <Typography variant="h4" gutterBottom>
-          二维码管理
+          {t('qrcode.title')}
         </Typography>
         <Typography variant="body1" color="text.secondary">
-          为每个餐厅的每个桌子生成和管理二维码
+          {t('qrcode.subtitle')}
         </Typography>
       </Box>
 
@@ -267,11 +436,11 @@ export default function QRCodeManagementPage() {
       <Card sx={{ mb: 4 }}>
         <CardContent>
           <FormControl fullWidth>
-            <InputLabel>选择餐厅</InputLabel>
+            <InputLabel>{t('qrcode.selectRestaurant')}</InputLabel>
             <Select
               value={selectedRestaurantId}
               onChange={(e) => setSelectedRestaurantId(e.target.value)}
-              label="选择餐厅"
+              label={t('qrcode.selectRestaurant')}
             >
               {restaurants.map((restaurant) => (
                 <MenuItem key={restaurant.id} value={restaurant.id}>
@@ -295,23 +464,106 @@ export default function QRCodeManagementPage() {
         <>
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
             <Typography variant="h5">
-              {selectedRestaurant?.name} - 桌位列表
+              {t('qrcode.tableListTitle', { restaurant: selectedRestaurant?.name || '' })}
             </Typography>
-            <Button
-              variant="contained"
-              startIcon={<Add />}
-              onClick={() => setAddTableDialogOpen(true)}
-            >
-              添加桌位
-            </Button>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              {canManage && (
+                <Button
+                  variant="outlined"
+                  startIcon={<Palette />}
+                  onClick={() => setStyleDialogOpen(true)}
+                >
+                  {t('qrcode.qrStyle')}
+                </Button>
+              )}
+              <Button
+                variant="outlined"
+                startIcon={downloadingZip ? <CircularProgress size={20} /> : <FolderZip />}
+                onClick={(e) => setZipMenuAnchor(e.currentTarget)}
+                disabled={downloadingZip || !tables.some((table) => table.echo_qrcode)}
+              >
+                {downloadingZip ? t('qrcode.packing') : t('qrcode.downloadAll')}
+              </Button>
+              <Menu anchorEl={zipMenuAnchor} open={!!zipMenuAnchor} onClose={() => setZipMenuAnchor(null)}>
+                <MenuItem onClick={() => handleDownloadZip('png')}>{t('qrcode.zipPng')}</MenuItem>
+                <MenuItem onClick={() => handleDownloadZip('svg')}>{t('qrcode.zipSvg')}</MenuItem>
+              </Menu>
+              <Button
+                variant="outlined"
+                startIcon={<Print />}
+                onClick={() => setPrintDialogOpen(true)}
+                disabled={!tables.some((table) => table.echo_qrcode)}
+              >
+                {t('qrcode.print')}
+              </Button>
+              {canManage && (
+                <>
+                  <Button
+                    variant="outlined"
+                    startIcon={<PlaylistAdd />}
+                    onClick={() => setBatchAddDialogOpen(true)}
+                  >
+                    {t('qrcode.batchAdd')}
+                  </Button>
+                  <Button
+                    variant="contained"
+                    startIcon={<Add />}
+                    onClick={() => setAddTableDialogOpen(true)}
+                  >
+                    {t('qrcode.addTable')}
+                  </Button>
+                </>
+              )}
+            </Box>
           </Box>
 
+          {/* Default questionnaires for new QR codes */}
+          <Card sx={{ mb: 3 }}>
+            <CardContent sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+              <Typography variant="subtitle2">{t('qrcode.defaultQuestionnaires')}</Typography>
+              {defaultAssignments.length === 0 ? (
+                <Typography variant="body2" color="warning.main">
+                  {t('qrcode.noDefaultQuestionnaires')}
+                </Typography>
+              ) : (
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  {defaultAssignments.map((entry, index) => {
+                    const questionnaire = questionnaires.find((q) => q.id === entry.questionnaire_id)
+                    const title = questionnaire?.title || t('qrcode.deletedQuestionnaire')
+                    return (
+                      <Chip
+                        key={entry.questionnaire_id}
+                        size="small"
+                        label={
+                          defaultAssignments.length > 1
+                            ? `${title} · ${defaultPercentages[index].toFixed(0)}%`
+                            : title
+                        }
+                      />
+                    )
+                  })}
+                </Box>
+              )}
+              {canManage && (
+                <Button size="small" startIcon={<Edit />} onClick={() => setDefaultsDialogOpen(true)} sx={{ ml: 'auto' }}>
+                  {t('common.edit')}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {!canManage && (
+            <Alert severity="info" sx={{ mb: 3 }}>
+              {t('qrcode.viewOnly')}
+            </Alert>
+          )}
+
           {loading ? (
             <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
               <CircularProgress />
             </Box>
           ) : tables.length === 0 ? (
-            <Alert severity="info">该餐厅暂无桌位，请先添加桌位。</Alert>
+            <Alert severity="info">{canManage ? t('qrcode.noTables') : t('qrcode.noTablesViewOnly')}</Alert>
           ) : (
             <Grid container spacing={3}>
               {tables.map((table) => {
@@ -319,20 +571,70 @@ export default function QRCodeManagementPage() {
                 const hasQRCode = !!table.echo_qrcode
                 const qrCodeImage = qrCodeImages[table.id]
                 const isGenerating = generatingQRCodeForTable === table.id
+                const assignments = table.echo_qrcode ? qrCodeAssignments[table.echo_qrcode.id] || [] : []
+                const assignmentPercentages = getSelectionPercentages(assignments)
+                const funnel = table.echo_qrcode ? scanFunnels[table.echo_qrcode.id] : undefined
 
                 return (
                   <Grid item xs={12} sm={6} md={4} key={table.id}>
                     <Card>
                       <CardContent>
                         <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
-                          <Typography variant="h6">桌号 {table.table_number}</Typography>
+                          <Typography variant="h6">{t('qrcode.tableNumber', { table: table.table_number })}</Typography>
                           <Chip
-                            label={hasQRCode ? '已生成' : '未生成'}
+                            label={hasQRCode ? t('qrcode.generated') : t('qrcode.notGenerated')}
                             color={hasQRCode ? 'success' : 'default'}
                             size="small"
                           />
                         </Box>
 
+                        {hasQRCode && (
+                          <Box sx={{ mb: 2 }}>
+                            {assignments.length === 0 ? (
+                              <Chip label={t('qrcode.noQuestionnaire')} color="warning" size="small" />
+                            ) : (
+                              <Typography variant="body2" color="text.secondary">
+                                {t('qrcode.questionnaires', {
+                                  questionnaires: assignments
+                                    .map((assignment, index) => {
+                                      const title = assignment.echo_questionnaire?.title || t('qrcode.unknownQuestionnaire')
+                                      return assignments.length > 1
+                                        ? `${title} ${assignmentPercentages[index].toFixed(0)}%`
+                                        : title
+                                    })
+                                    .join(' · '),
+                                })}
+                              </Typography>
+                            )}
+
+                            {/* Scan funnel */}
+                            {!funnel || funnel.scans === 0 ? (
+                              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                                {t('qrcode.noScans', { days: SCAN_FUNNEL_DAYS })}
+                              </Typography>
+                            ) : (
+                              <Box sx={{ mt: 1 }}>
+                                <Typography variant="body2" color="text.secondary">
+                                  {t('qrcode.scanFunnel', {
+                                    days: SCAN_FUNNEL_DAYS,
+                                    scans: funnel.scans,
+                                    completions: funnel.completions,
+                                    rate: funnel.completion_rate.toFixed(0),
+                                  })}
+                                </Typography>
+                                {funnel.drop_off_question_id && (
+                                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                                    {t('qrcode.dropOff', {
+                                      question: funnel.drop_off_question_text || t('qrcode.deletedQuestion'),
+                                      count: funnel.drop_off_count,
+                                    })}
+                                  </Typography>
+                                )}
+                              </Box>
+                            )}
+                          </Box>
+                        )}
+
                         {qrCodeImage && (
                           <Box
                             sx={{
@@ -345,7 +647,7 @@ export default function QRCodeManagementPage() {
                           >
                             <img
                               src={qrCodeImage}
-                              alt={`Table ${table.table_number} QR Code`}
+                              alt={t('qrcode.qrCodeAlt', { table: table.table_number })}
                               style={{ width: '100%', maxWidth: 200 }}
                             />
                           </Box>
@@ -353,56 +655,89 @@ export default function QRCodeManagementPage() {
 
                         <Box sx={{ display: 'flex', gap: 1, flexDirection: 'column' }}>
                           {!hasQRCode ? (
-                            <>
-                              <Button
-                                variant="contained"
-                                startIcon={isGenerating ? <CircularProgress size={20} /> : <QrCode />}
-                                onClick={() => handleGenerateQRCode(table.id)}
-                                disabled={isGenerating}
-                                fullWidth
-                              >
-                                {isGenerating ? '生成中...' : '生成二维码'}
-                              </Button>
-                              <Button
-                                variant="outlined"
-                                color="error"
-                                startIcon={<Delete />}
-                                onClick={() => handleOpenDeleteDialog(table)}
-                                fullWidth
-                              >
-                                删除桌位
-                              </Button>
-                            </>
-                          ) : (
-                            <>
-                              <Button
-                                variant="contained"
-                                startIcon={<Download />}
-                                onClick={() => handleDownloadQRCode(table.id, table.table_number)}
-                                fullWidth
-                              >
-                                下载二维码
-                              </Button>
-                              <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+                            canManage && (
+                              <>
                                 <Button
-                                  variant="outlined"
-                                  color="warning"
-                                  startIcon={<Refresh />}
-                                  onClick={() => handleOpenRegenerateDialog(table)}
-                                  sx={{ flex: 1 }}
+                                  variant="contained"
+                                  startIcon={isGenerating ? <CircularProgress size={20} /> : <QrCode />}
+                                  onClick={() => handleGenerateQRCode(table.id)}
+                                  disabled={isGenerating}
+                                  fullWidth
                                 >
-                                  重新生成
+                                  {isGenerating ? t('qrcode.generating') : t('qrcode.generate')}
                                 </Button>
                                 <Button
                                   variant="outlined"
                                   color="error"
                                   startIcon={<Delete />}
                                   onClick={() => handleOpenDeleteDialog(table)}
-                                  sx={{ flex: 1 }}
+                                  fullWidth
                                 >
-                                  删除桌位
+                                  {t('qrcode.deleteTable')}
                                 </Button>
-                              </Box>
+                              </>
+                            )
+                          ) : (
+                            <>
+                              <Button
+                                variant="contained"
+                                startIcon={<Download />}
+                                onClick={() => handleDownloadQRCode(table.id, table.table_number)}
+                                fullWidth
+                              >
+                                {t('qrcode.download')}
+                              </Button>
+                              {canManage && (
+                                <>
+                                  <Button
+                                    variant="outlined"
+                                    startIcon={<Assignment />}
+                                    onClick={() => handleOpenAssignmentDialog(table)}
+                                    fullWidth
+                                  >
+                                    {t('qrcode.assignments')}
+                                  </Button>
+                                  <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+                                    <Button
+                                      variant="outlined"
+                                      color="warning"
+                                      startIcon={<Refresh />}
+                                      onClick={() => handleOpenReplaceDialog(table)}
+                                      sx={{ flex: 1 }}
+                                    >
+                                      {t('qrcode.replace')}
+                                    </Button>
+                                    <Button
+                                      variant="outlined"
+                                      startIcon={<SwapHoriz />}
+                                      onClick={() => handleOpenMoveDialog(table)}
+                                      sx={{ flex: 1 }}
+                                    >
+                                      {t('qrcode.move')}
+                                    </Button>
+                                  </Box>
+                                  <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+                                    <Button
+                                      variant="outlined"
+                                      color="error"
+                                      startIcon={<Delete />}
+                                      onClick={() => handleOpenDeleteDialog(table, 'qrcode')}
+                                      sx={{ flex: 1 }}
+                                    >
+                                      {t('qrcode.deleteQRCode')}
+                                    </Button>
+                                    <Button
+                                      variant="outlined"
+                                      color="error"
+                                      startIcon={<Delete />}
+                                      onClick={() => handleOpenDeleteDialog(table)}
+                                      sx={{ flex: 1 }}
+                                    >
+                                      {t('qrcode.deleteTable')}
+                                    </Button>
+                                  </Box>
+                                </>
+                              )}
                             </>
                           )}
                         </Box>
@@ -416,96 +751,156 @@ export default function QRCodeManagementPage() {
         </>
       )}
 
+      {/* Questionnaire Assignment Dialog */}
+      <QRCodeAssignmentDialog
+        open={assignmentDialogOpen}
+        table={tableToAssign}
+        questionnaires={questionnaires}
+        onClose={() => {
+          setAssignmentDialogOpen(false)
+          setTableToAssign(null)
+        }}
+        onSaved={handleAssignmentsSaved}
+      />
+
+      {/* Default Assignments Dialog */}
+      <DefaultAssignmentsDialog
+        open={defaultsDialogOpen}
+        restaurantId={selectedRestaurantId}
+        restaurantName={selectedRestaurant?.name || ''}
+        assignments={defaultAssignments}
+        questionnaires={questionnaires}
+        onClose={() => setDefaultsDialogOpen(false)}
+        onSaved={setDefaultAssignments}
+      />
+
       {/* Add Table Dialog */}
       <Dialog open={addTableDialogOpen} onClose={() => setAddTableDialogOpen(false)}>
-        <DialogTitle>添加新桌位</DialogTitle>
+        <DialogTitle>{t('qrcode.addTableTitle')}</DialogTitle>
         <DialogContent>
           <TextField
             autoFocus
             margin="dense"
-            label="桌号"
+            label={t('qrcode.tableNumberLabel')}
             type="text"
             fullWidth
             value={newTableNumber}
             onChange={(e) => setNewTableNumber(e.target.value)}
-            placeholder="例如：包间123、A1、8号桌"
-            helperText="支持中文、字母、数字及任意组合，同一餐厅内不能重复"
+            placeholder={t('qrcode.tableNumberPlaceholder')}
+            helperText={t('qrcode.tableNumberHelper')}
           />
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => setAddTableDialogOpen(false)}>取消</Button>
+          <Button onClick={() => setAddTableDialogOpen(false)}>{t('common.cancel')}</Button>
           <Button
             onClick={handleAddTable}
             variant="contained"
             disabled={creatingTable || !newTableNumber.trim()}
           >
-            {creatingTable ? '创建中...' : '确认添加'}
+            {creatingTable ? t('qrcode.creatingTable') : t('qrcode.confirmAddTable')}
           </Button>
         </DialogActions>
       </Dialog>
 
-      {/* Regenerate QR Code Confirmation Dialog */}
+      {/* Batch Add Tables Dialog */}
+      <BatchAddTablesDialog
+        open={batchAddDialogOpen}
+        restaurantId={selectedRestaurantId}
+        existingTableNumbers={tables.map((table) => table.table_number)}
+        onClose={() => setBatchAddDialogOpen(false)}
+        onCreated={loadTables}
+      />
+
+      {/* Print Layout Dialog */}
+      <PrintLayoutDialog
+        open={printDialogOpen}
+        restaurantId={selectedRestaurantId}
+        restaurantName={selectedRestaurant?.name || ''}
+        tables={tables}
+        qrStyle={qrStyle}
+        onClose={() => setPrintDialogOpen(false)}
+      />
+
+      {/* QR Code Style Dialog */}
+      <QRStyleDialog
+        open={styleDialogOpen}
+        restaurantId={selectedRestaurantId}
+        restaurantName={selectedRestaurant?.name || ''}
+        style={qrStyle}
+        sampleValue={
+          tables.find((table) => table.echo_qrcode)?.echo_qrcode?.qr_code_value ||
+          `${import.meta.env.VITE_BASE_URL || 'http://localhost:3000/q/'}preview`
+        }
+        onClose={() => setStyleDialogOpen(false)}
+        onSaved={() => loadTables()}
+      />
+
+      {/* Move QR Code Dialog */}
+      <MoveQRCodeDialog
+        open={moveDialogOpen}
+        table={tableToMove}
+        tables={tables}
+        onClose={() => {
+          setMoveDialogOpen(false)
+          setTableToMove(null)
+        }}
+        onMoved={handleQRCodeMoved}
+      />
+
+      {/* Replace QR Code Confirmation Dialog */}
       <Dialog
-        open={regenerateDialogOpen}
-        onClose={() => !regeneratingQRCode && setRegenerateDialogOpen(false)}
+        open={replaceDialogOpen}
+        onClose={() => !replacingQRCode && setReplaceDialogOpen(false)}
         maxWidth="sm"
         fullWidth
       >
         <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-          <Warning color="error" />
-          重新生成二维码确认
+          <Warning color="warning" />
+          {t('qrcode.replaceTitle')}
         </DialogTitle>
         <DialogContent>
-          <Alert severity="error" sx={{ mb: 2 }}>
-            <strong>警告：此操作不可撤销！</strong>
-          </Alert>
           <Typography variant="body1" paragraph>
-            您即将为 <strong>桌号 {tableToRegenerate?.table_number}</strong> 重新生成二维码。
+            {tRich('qrcode.replaceIntro', {
+              table: <strong>{t('qrcode.tableNumber', { table: tableToReplace?.table_number || '' })}</strong>,
+            })}
           </Typography>
           <Typography variant="body2" color="text.secondary" paragraph>
-            重新生成二维码将会：
+            {t('qrcode.replaceEffects')}
           </Typography>
           <Box component="ul" sx={{ color: 'text.secondary', pl: 2 }}>
             <li>
-              <Typography variant="body2">删除旧的二维码记录</Typography>
-            </li>
-            <li>
-              <Typography variant="body2">生成全新的二维码</Typography>
+              <Typography variant="body2">{t('qrcode.replaceNewCode')}</Typography>
             </li>
             <li>
-              <Typography variant="body2" color="error.main" fontWeight="bold">
-                使桌子上已打印的旧二维码失效
-              </Typography>
+              <Typography variant="body2">{t('qrcode.replaceRetireOld')}</Typography>
             </li>
             <li>
-              <Typography variant="body2" color="error.main" fontWeight="bold">
-                需要重新打印并更换实体二维码
-              </Typography>
+              <Typography variant="body2">{t('qrcode.replaceKeepFeedback')}</Typography>
             </li>
           </Box>
-          <Alert severity="warning" sx={{ mt: 2 }}>
+          <Alert severity="info" sx={{ mt: 2 }}>
             <Typography variant="body2">
-              请确保您已准备好重新打印并更换桌子上的二维码，否则顾客将无法扫码。
+              {t('qrcode.replaceReprint')}
             </Typography>
           </Alert>
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => setRegenerateDialogOpen(false)} disabled={regeneratingQRCode}>
-            取消
+          <Button onClick={() => setReplaceDialogOpen(false)} disabled={replacingQRCode}>
+            {t('common.cancel')}
           </Button>
           <Button
-            onClick={handleRegenerateQRCode}
+            onClick={handleReplaceQRCode}
             variant="contained"
-            color="error"
-            disabled={regeneratingQRCode}
-            startIcon={regeneratingQRCode ? <CircularProgress size={20} /> : <Refresh />}
+            color="warning"
+            disabled={replacingQRCode}
+            startIcon={replacingQRCode ? <CircularProgress size={20} /> : <Refresh />}
           >
-            {regeneratingQRCode ? '重新生成中...' : '确认重新生成'}
+            {replacingQRCode ? t('qrcode.replacing') : t('qrcode.confirmReplace')}
           </Button>
         </DialogActions>
       </Dialog>
 
-      {/* Delete Table Confirmation Dialog */}
+      {/* Delete Table / QR Code Confirmation Dialog */}
       <Dialog
         open={deleteDialogOpen}
         onClose={() => !deletingTable && setDeleteDialogOpen(false)}
@@ -513,50 +908,45 @@ export default function QRCodeManagementPage() {
         fullWidth
       >
         <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-          <Warning color="error" />
-          删除桌位确认
+          <Warning color="warning" />
+          {deleteTarget === 'qrcode' ? t('qrcode.deleteQRCodeTitle') : t('qrcode.deleteTableTitle')}
         </DialogTitle>
         <DialogContent>
-          <Alert severity="error" sx={{ mb: 2 }}>
-            <strong>警告：此操作不可撤销！所有数据将永久删除！</strong>
-          </Alert>
           <Typography variant="body1" paragraph>
-            您即将删除 <strong>桌号 {tableToDelete?.table_number}</strong>。
-          </Typography>
-          <Typography variant="body2" color="text.secondary" paragraph>
-            删除桌位将会永久删除以下所有数据：
+            {tRich(deleteTarget === 'qrcode' ? 'qrcode.deleteQRCodeIntro' : 'qrcode.deleteTableIntro', {
+              table: <strong>{t('qrcode.tableNumber', { table: tableToDelete?.table_number || '' })}</strong>,
+            })}
           </Typography>
           <Box component="ul" sx={{ color: 'text.secondary', pl: 2 }}>
-            <li>
-              <Typography variant="body2" color="error.main" fontWeight="bold">
-                桌位记录
-              </Typography>
-            </li>
-            <li>
-              <Typography variant="body2" color="error.main" fontWeight="bold">
-                关联的二维码
-              </Typography>
-            </li>
-            <li>
-              <Typography variant="body2" color="error.main" fontWeight="bold">
-                所有问卷分配记录
-              </Typography>
-            </li>
-            <li>
-              <Typography variant="body2" color="error.main" fontWeight="bold">
-                该桌位的所有顾客反馈数据
-              </Typography>
-            </li>
+            {deleteTarget === 'qrcode' ? (
+              <>
+                <li>
+                  <Typography variant="body2">{t('qrcode.deleteQRCodeDeactivated')}</Typography>
+                </li>
+                <li>
+                  <Typography variant="body2">{t('qrcode.deleteQRCodeKeepTable')}</Typography>
+                </li>
+              </>
+            ) : (
+              <>
+                <li>
+                  <Typography variant="body2">{t('qrcode.deleteTableRemoved')}</Typography>
+                </li>
+                <li>
+                  <Typography variant="body2">{t('qrcode.deleteTableKeepData')}</Typography>
+                </li>
+              </>
+            )}
           </Box>
-          <Alert severity="error" sx={{ mt: 2 }}>
-            <Typography variant="body2" fontWeight="bold">
-              删除后无法恢复！请确认您真的要删除这个桌位及其所有历史数据。
+          <Alert severity="info" sx={{ mt: 2 }}>
+            <Typography variant="body2">
+              {t('qrcode.trashNote', { days: TRASH_RETENTION_DAYS })}
             </Typography>
           </Alert>
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setDeleteDialogOpen(false)} disabled={deletingTable}>
-            取消
+            {t('common.cancel')}
           </Button>
           <Button
             onClick={handleDeleteTable}
@@ -565,7 +955,7 @@ export default function QRCodeManagementPage() {
             disabled={deletingTable}
             startIcon={deletingTable ? <CircularProgress size={20} /> : <Delete />}
           >
-            {deletingTable ? '删除中...' : '确认删除'}
+            {deletingTable ? t('qrcode.deleting') : t('qrcode.moveToTrash')}
           </Button>
         </DialogActions>
       </Dialog>
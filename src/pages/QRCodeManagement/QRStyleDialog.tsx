@@ -0,0 +1,283 @@
+// Version: 1.1.0
+// QR Style Dialog - Edit how a restaurant's QR codes are rendered
+// Features: Foreground/background colors with contrast ratio, size presets, error correction, centered logo
+//           (raises error correction to H), live preview, scan reliability warnings confirmed before saving
+// v1.1.0: Texts come from the admin catalogs
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  IconButton,
+} from '@mui/material'
+import { Image as ImageIcon, Close } from '@mui/icons-material'
+import type { QRCodeStyle, QRErrorCorrectionLevel, QRSizePreset } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import type { MessageParams } from '../../i18n/messages'
+import { saveRestaurantQRStyle } from '../../services/restaurantService'
+import {
+  DEFAULT_QR_STYLE,
+  MAX_QR_LOGO_BYTES,
+  QR_SIZE_PRESETS,
+  getContrastRatio,
+  getQRStyleWarnings,
+  renderQRCodePng,
+} from '../../utils/qrStyle'
+import type { QRStyleWarning } from '../../utils/qrStyle'
+import { readFileAsDataUrl } from '../../utils/imageFiles'
+
+interface QRStyleDialogProps {
+  open: boolean
+  restaurantId: string
+  restaurantName: string
+  style: QRCodeStyle
+  sampleValue: string // QR code value rendered in the preview
+  onClose: () => void
+  onSaved: (style: QRCodeStyle) => void
+}
+
+const ERROR_CORRECTION_LEVELS: QRErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H']
+
+// Placeholders of the qrStyle.warnings.* messages
+const getWarningParams = (warning: QRStyleWarning): MessageParams | undefined =>
+  warning.code === 'low_contrast' ? { contrast: warning.contrast.toFixed(1) } : undefined
+
+export default function QRStyleDialog({
+  open,
+  restaurantId,
+  restaurantName,
+  style,
+  sampleValue,
+  onClose,
+  onSaved,
+}: QRStyleDialogProps) {
+  const { t, translateError } = useI18n()
+  const [draft, setDraft] = useState<QRCodeStyle>(style)
+  const [previewUrl, setPreviewUrl] = useState('')
+  // Set after a save attempt with warnings - the next click saves anyway
+  const [confirmingWarnings, setConfirmingWarnings] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Start from the saved style every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(style)
+      setConfirmingWarnings(false)
+      setError(null)
+    }
+  }, [open, style])
+
+  const warnings = getQRStyleWarnings(draft)
+  const hasInvalidColor = warnings.some((warning) => warning.code === 'invalid_color')
+
+  useEffect(() => {
+    if (!open || hasInvalidColor) return
+
+    let cancelled = false
+    renderQRCodePng(sampleValue, draft)
+      .then((url) => !cancelled && setPreviewUrl(url))
+      .catch((err) => !cancelled && setError(translateError(err, 'qrStyle.previewFailed')))
+    return () => {
+      cancelled = true
+    }
+  }, [open, sampleValue, draft, hasInvalidColor])
+
+  const updateDraft = (updates: Partial<QRCodeStyle>) => {
+    setDraft((previous) => ({ ...previous, ...updates }))
+    setConfirmingWarnings(false)
+  }
+
+  const handleLogoSelected = async (file: File | undefined) => {
+    if (!file) return
+
+    if (file.size > MAX_QR_LOGO_BYTES) {
+      setError(t('qrStyle.logoTooLarge', { size: MAX_QR_LOGO_BYTES / 1024 }))
+      return
+    }
+
+    try {
+      setError(null)
+      updateDraft({ logo_data_url: await readFileAsDataUrl(file) })
+    } catch (err) {
+      setError(translateError(err, 'qrStyle.readImageFailed'))
+    }
+  }
+
+  const handleSave = async () => {
+    if (warnings.length > 0 && !confirmingWarnings) {
+      setConfirmingWarnings(true)
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+      await saveRestaurantQRStyle(restaurantId, draft)
+      onSaved(draft)
+      onClose()
+    } catch (err) {
+      setError(translateError(err, 'qrStyle.saveFailed'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={() => !saving && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('qrStyle.title', { restaurant: restaurantName })}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1, display: 'flex', gap: 3, flexDirection: { xs: 'column', sm: 'row' } }}>
+          <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label={t('qrStyle.foreground')}
+                size="small"
+                type="color"
+                value={draft.foreground}
+                onChange={(e) => updateDraft({ foreground: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label={t('qrStyle.background')}
+                size="small"
+                type="color"
+                value={draft.background}
+                onChange={(e) => updateDraft({ background: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+            {!hasInvalidColor && (
+              <Typography variant="caption" color="text.secondary">
+                {t('qrStyle.contrast', { contrast: getContrastRatio(draft.foreground, draft.background).toFixed(1) })}
+              </Typography>
+            )}
+
+            <FormControl size="small" fullWidth>
+              <InputLabel>{t('qrStyle.size')}</InputLabel>
+              <Select
+                value={draft.size}
+                onChange={(e) => updateDraft({ size: e.target.value as QRSizePreset })}
+                label={t('qrStyle.size')}
+              >
+                {(Object.keys(QR_SIZE_PRESETS) as QRSizePreset[]).map((preset) => (
+                  <MenuItem key={preset} value={preset}>
+                    {t(`qrStyle.sizes.${preset}`, { pixels: QR_SIZE_PRESETS[preset] })}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl size="small" fullWidth disabled={!!draft.logo_data_url}>
+              <InputLabel>{t('qrStyle.errorCorrection')}</InputLabel>
+              <Select
+                value={draft.logo_data_url ? 'H' : draft.error_correction}
+                onChange={(e) => updateDraft({ error_correction: e.target.value as QRErrorCorrectionLevel })}
+                label={t('qrStyle.errorCorrection')}
+              >
+                {ERROR_CORRECTION_LEVELS.map((level) => (
+                  <MenuItem key={level} value={level}>
+                    {t(`qrStyle.errorCorrectionLevels.${level}`)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <Button variant="outlined" size="small" component="label" startIcon={<ImageIcon />}>
+                {draft.logo_data_url ? t('qrStyle.replaceLogo') : t('qrStyle.addLogo')}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/svg+xml"
+                  hidden
+                  onChange={(e) => {
+                    handleLogoSelected(e.target.files?.[0])
+                    e.target.value = ''
+                  }}
+                />
+              </Button>
+              {draft.logo_data_url && (
+                <IconButton
+                  size="small"
+                  onClick={() => updateDraft({ logo_data_url: null })}
+                  aria-label={t('qrStyle.removeLogo')}
+                >
+                  <Close fontSize="small" />
+                </IconButton>
+              )}
+            </Box>
+            {draft.logo_data_url && (
+              <Typography variant="caption" color="text.secondary">
+                {t('qrStyle.logoErrorCorrection')}
+              </Typography>
+            )}
+          </Box>
+
+          <Box sx={{ width: { xs: '100%', sm: 200 }, flexShrink: 0, textAlign: 'center' }}>
+            <Typography variant="subtitle2" gutterBottom>
+              {t('qrStyle.previewTitle')}
+            </Typography>
+            {previewUrl && !hasInvalidColor && (
+              <Box
+                component="img"
+                src={previewUrl}
+                alt={t('qrStyle.preview')}
+                sx={{ width: '100%', maxWidth: 200, border: 1, borderColor: 'divider' }}
+              />
+            )}
+          </Box>
+        </Box>
+
+        {warnings.length > 0 && (
+          <Alert severity={confirmingWarnings ? 'error' : 'warning'} sx={{ mt: 2 }}>
+            {warnings.map((warning) => (
+              <Typography key={warning.code} variant="body2">
+                {t(`qrStyle.warnings.${warning.code}`, getWarningParams(warning))}
+              </Typography>
+            ))}
+            {confirmingWarnings && (
+              <Typography variant="body2" fontWeight="bold" sx={{ mt: 1 }}>
+                {t('qrStyle.confirmWarnings')}
+              </Typography>
+            )}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => updateDraft(DEFAULT_QR_STYLE)} disabled={saving} sx={{ mr: 'auto' }}>
+          {t('qrStyle.reset')}
+        </Button>
+        <Button onClick={onClose} disabled={saving}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          color={confirmingWarnings ? 'warning' : 'primary'}
+          disabled={saving || hasInvalidColor}
+          startIcon={saving ? <CircularProgress size={20} /> : undefined}
+        >
+          {saving ? t('common.saving') : confirmingWarnings ? t('qrStyle.saveAnyway') : t('common.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
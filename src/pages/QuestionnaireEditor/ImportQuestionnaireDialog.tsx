@@ -0,0 +1,230 @@
+// Version: 1.2.0
+// Import Questionnaire Dialog - Read a questionnaire file exported from this or another Supabase project
+// Features: Strict file check with problems listed per question, import as a new questionnaire or overwrite the
+//           draft of the questionnaire with the same id
+// v1.2.0: Texts come from the admin catalogs
+// v1.1.0: Question rule and import errors are translated (AppError codes) in the admin UI language
+
+import { useState } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+} from '@mui/material'
+import { UploadFile } from '@mui/icons-material'
+import type { EchoQuestionnaire } from '../../types/database'
+import { importQuestionnaire, validateQuestions } from '../../services/questionnaireService'
+import type { QuestionnaireImportMode } from '../../services/questionnaireService'
+import { MAX_QUESTIONNAIRE_FILE_BYTES, parseQuestionnaireFile } from '../../utils/questionnaireFile'
+import type { QuestionnaireFileContent, QuestionnaireFileIssue } from '../../utils/questionnaireFile'
+import { useI18n } from '../../contexts/I18nContext'
+
+interface ImportQuestionnaireDialogProps {
+  open: boolean
+  questionnaires: EchoQuestionnaire[] // Existing questionnaires - the file's id is looked up here for overwriting
+  onClose: () => void
+  onImported: (questionnaire: EchoQuestionnaire, mode: QuestionnaireImportMode) => void
+}
+
+export default function ImportQuestionnaireDialog({
+  open,
+  questionnaires,
+  onClose,
+  onImported,
+}: ImportQuestionnaireDialogProps) {
+  const { t, translateError } = useI18n()
+  const [fileName, setFileName] = useState('')
+  const [content, setContent] = useState<QuestionnaireFileContent | null>(null)
+  const [issues, setIssues] = useState<QuestionnaireFileIssue[]>([])
+  const [mode, setMode] = useState<QuestionnaireImportMode>('create')
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const existing = content ? questionnaires.find((q) => q.id === content.id) : undefined
+
+  const resetForm = () => {
+    setFileName('')
+    setContent(null)
+    setIssues([])
+    setMode('create')
+    setError(null)
+  }
+
+  const handleClose = () => {
+    if (importing) return
+    resetForm()
+    onClose()
+  }
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return
+
+    resetForm()
+    setFileName(file.name)
+
+    if (file.size > MAX_QUESTIONNAIRE_FILE_BYTES) {
+      setIssues([{ questionIndex: null, message: t('importDialog.fileTooLarge') }])
+      return
+    }
+
+    try {
+      const result = parseQuestionnaireFile(await file.text())
+      if (!result.questionnaire) {
+        setIssues(result.issues)
+        return
+      }
+
+      // The schema is fine - check the question rules (option counts, skip logic) the editor checks on save
+      const validation = validateQuestions(result.questionnaire.questions)
+      if (!validation.valid) {
+        setIssues([{ questionIndex: null, message: translateError(validation.error, 'editor.importFailed') }])
+        return
+      }
+
+      setContent(result.questionnaire)
+      setMode(questionnaires.some((q) => q.id === result.questionnaire!.id) ? 'overwrite' : 'create')
+    } catch (err) {
+      setError(translateError(err, 'editor.readFileFailed'))
+    }
+  }
+
+  const handleImport = async () => {
+    if (!content) return
+
+    try {
+      setImporting(true)
+      setError(null)
+      const questionnaire = await importQuestionnaire(content, mode)
+      onImported(questionnaire, mode)
+      resetForm()
+      onClose()
+    } catch (err) {
+      setError(translateError(err, 'editor.importFailed'))
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  // File-level problems first, then the problems of each question in order
+  const fileIssues = issues.filter((issue) => issue.questionIndex === null)
+  const questionIssues = new Map<number, string[]>()
+  issues.forEach((issue) => {
+    if (issue.questionIndex !== null) {
+      questionIssues.set(issue.questionIndex, [...(questionIssues.get(issue.questionIndex) || []), issue.message])
+    }
+  })
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('importDialog.title')}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 3 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <Box>
+            <Button variant="outlined" component="label" startIcon={<UploadFile />} disabled={importing}>
+              {t('importDialog.chooseFile')}
+              <input
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={(e) => {
+                  handleFileSelected(e.target.files?.[0])
+                  // Allow choosing the same file again after fixing it
+                  e.target.value = ''
+                }}
+              />
+            </Button>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              {fileName || t('importDialog.fileHint')}
+            </Typography>
+          </Box>
+
+          {issues.length > 0 && (
+            <Alert severity="error">
+              <Typography variant="subtitle2" gutterBottom>
+                {t('importDialog.issues', { count: issues.length })}
+              </Typography>
+              <Box component="ul" sx={{ m: 0, pl: 2.5 }}>
+                {fileIssues.map((issue, index) => (
+                  <li key={`file-${index}`}>
+                    <Typography variant="body2">{issue.message}</Typography>
+                  </li>
+                ))}
+                {[...questionIssues.entries()].map(([questionIndex, messages]) => (
+                  <li key={`question-${questionIndex}`}>
+                    <Typography variant="body2">
+                      {t('importDialog.questionIssues', {
+                        number: questionIndex + 1,
+                        issues: messages.join(t('importDialog.issueSeparator')),
+                      })}
+                    </Typography>
+                  </li>
+                ))}
+              </Box>
+            </Alert>
+          )}
+
+          {content && (
+            <>
+              <Alert severity="success">
+                {t('importDialog.valid', { title: content.title, count: content.questions.length })}
+              </Alert>
+
+              <FormControl>
+                <RadioGroup value={mode} onChange={(e) => setMode(e.target.value as QuestionnaireImportMode)}>
+                  <FormControlLabel value="create" control={<Radio />} label={t('importDialog.create')} />
+                  <FormControlLabel
+                    value="overwrite"
+                    control={<Radio />}
+                    disabled={!existing}
+                    label={
+                      existing
+                        ? t('importDialog.overwrite', { title: existing.title })
+                        : t('importDialog.overwriteUnavailable')
+                    }
+                  />
+                </RadioGroup>
+              </FormControl>
+
+              {mode === 'overwrite' && existing && (
+                <Alert severity="warning">
+                  {existing.published_version_id
+                    ? t('importDialog.overwritePublishedNote')
+                    : t('importDialog.overwriteNote')}
+                </Alert>
+              )}
+            </>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={importing}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={handleImport}
+          variant="contained"
+          disabled={!content || importing}
+          startIcon={importing ? <CircularProgress size={20} /> : undefined}
+        >
+          {importing ? t('importDialog.importing') : t('importDialog.confirm')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,342 @@
+// Version: 1.5.0
+// Publish Questionnaire Dialog - Review changes between questionnaire versions and publish the draft
+// Features: Compare any published version with the draft or another version, breaking change warnings,
+//           version history, publish draft as a new immutable version
+// v1.5.0: Texts come from the admin catalogs
+// v1.4.0: Question type labels come from the admin catalogs
+// v1.3.0: Shows translation changes
+// v1.2.0: Shows skip logic changes
+// v1.1.0: Question type labels come from the shared questionTypeLabels module; shows type setting changes
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  Chip,
+  Stack,
+  Paper,
+} from '@mui/material'
+import { ArrowForward, WarningAmber } from '@mui/icons-material'
+import type { EchoQuestionnaireVersion, QuestionnaireWithVersion } from '../../types/database'
+import { getQuestionnaireVersions, publishQuestionnaire } from '../../services/questionnaireVersionService'
+import { formatBeijingDateTime } from '../../services/answerService'
+import { diffQuestionnaires } from '../../utils/questionnaireDiff'
+import type { QuestionDiff, QuestionnaireContent } from '../../utils/questionnaireDiff'
+import { useI18n } from '../../contexts/I18nContext'
+import type { MessageKey } from '../../i18n/messages'
+
+interface PublishQuestionnaireDialogProps {
+  open: boolean
+  questionnaire: QuestionnaireWithVersion | null
+  onClose: () => void
+  onPublished: (version: EchoQuestionnaireVersion) => void
+}
+
+// Select value for the current draft in the "compare to" dropdown
+const DRAFT_KEY = 'draft'
+
+const STATUS_CHIPS: Record<Exclude<QuestionDiff['status'], 'unchanged'>, { label: MessageKey; color: 'success' | 'error' | 'warning' }> = {
+  added: { label: 'publishDialog.added', color: 'success' },
+  removed: { label: 'publishDialog.removed', color: 'error' },
+  modified: { label: 'publishDialog.modified', color: 'warning' },
+}
+
+function QuestionDiffItem({ diff }: { diff: QuestionDiff }) {
+  const { t } = useI18n()
+  if (diff.status === 'unchanged') return null
+  const question = diff.after || diff.before!
+  const chip = STATUS_CHIPS[diff.status]
+
+  return (
+    <Paper variant="outlined" sx={{ p: 1.5 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+        <Chip label={t(chip.label)} color={chip.color} size="small" sx={{ height: 20 }} />
+        <Typography variant="body2" sx={{ flex: 1 }}>
+          {question.text}
+        </Typography>
+        {diff.breaking && (
+          <Chip
+            icon={<WarningAmber />}
+            label={t('publishDialog.breaking')}
+            color="error"
+            variant="outlined"
+            size="small"
+            sx={{ height: 20 }}
+          />
+        )}
+      </Box>
+      <Stack spacing={0.25} sx={{ pl: 1 }}>
+        {diff.text_changed && (
+          <Typography variant="caption" color="text.secondary">
+            {t('publishDialog.textChanged', { before: diff.before?.text ?? '', after: diff.after?.text ?? '' })}
+          </Typography>
+        )}
+        {diff.type_changed && diff.before && diff.after && (
+          <Typography variant="caption" color="text.secondary">
+            {t('publishDialog.typeChanged', {
+              before: t(`questionTypes.${diff.before.type}`),
+              after: t(`questionTypes.${diff.after.type}`),
+            })}
+          </Typography>
+        )}
+        {diff.moved && (
+          <Typography variant="caption" color="text.secondary">
+            {t('publishDialog.moved')}
+          </Typography>
+        )}
+        {diff.settings_changed && (
+          <Typography variant="caption" color="text.secondary">
+            {t('publishDialog.settingsChanged')}
+          </Typography>
+        )}
+        {diff.logic_changed && (
+          <Typography variant="caption" color="text.secondary">
+            {t('publishDialog.logicChanged')}
+          </Typography>
+        )}
+        {diff.translations_changed && (
+          <Typography variant="caption" color="text.secondary">
+            {t('publishDialog.translationsChanged')}
+          </Typography>
+        )}
+        {diff.status === 'modified' && diff.options_added.length > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            {t('publishDialog.optionsAdded', {
+              options: diff.options_added.map((option) => option.label).join(t('editor.optionSeparator')),
+            })}
+          </Typography>
+        )}
+        {diff.status === 'modified' && diff.options_removed.length > 0 && (
+          <Typography variant="caption" color="error">
+            {t('publishDialog.optionsRemoved', {
+              options: diff.options_removed.map((option) => option.label).join(t('editor.optionSeparator')),
+            })}
+          </Typography>
+        )}
+        {diff.options_relabeled.map((option) => (
+          <Typography key={option.value} variant="caption" color="text.secondary">
+            {t('publishDialog.optionRelabeled', { before: option.before, after: option.after })}
+          </Typography>
+        ))}
+      </Stack>
+    </Paper>
+  )
+}
+
+export default function PublishQuestionnaireDialog({
+  open,
+  questionnaire,
+  onClose,
+  onPublished,
+}: PublishQuestionnaireDialogProps) {
+  const { t, translateError } = useI18n()
+  const [versions, setVersions] = useState<EchoQuestionnaireVersion[]>([])
+  const [fromVersionId, setFromVersionId] = useState('')
+  const [toKey, setToKey] = useState(DRAFT_KEY)
+  const [loading, setLoading] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open && questionnaire) {
+      loadVersions(questionnaire.id)
+    }
+  }, [open, questionnaire?.id])
+
+  const loadVersions = async (questionnaireId: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await getQuestionnaireVersions(questionnaireId)
+      setVersions(data)
+      // Default: latest version → draft, i.e. what publishing would change
+      setFromVersionId(data[0]?.id || '')
+      setToKey(DRAFT_KEY)
+    } catch (err) {
+      setError(translateError(err, 'publishDialog.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePublish = async () => {
+    if (!questionnaire) return
+
+    try {
+      setPublishing(true)
+      setError(null)
+      const version = await publishQuestionnaire(questionnaire.id)
+      onPublished(version)
+      onClose()
+    } catch (err) {
+      setError(translateError(err, 'publishDialog.publishFailed'))
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  const formatVersionLabel = (version: EchoQuestionnaireVersion) =>
+    t('publishDialog.versionLabel', {
+      version: version.version_number,
+      date: formatBeijingDateTime(version.published_at),
+    })
+
+  const fromContent: QuestionnaireContent | null = versions.find((v) => v.id === fromVersionId) || null
+  const toContent: QuestionnaireContent | null =
+    toKey === DRAFT_KEY ? questionnaire : versions.find((v) => v.id === toKey) || null
+  const diff = toContent ? diffQuestionnaires(fromContent, toContent) : null
+
+  // Publishing is only possible when the draft differs from the latest version
+  const draftDiff = questionnaire ? diffQuestionnaires(versions[0] || null, questionnaire) : null
+  const unchangedCount = diff ? diff.questions.filter((question) => question.status === 'unchanged').length : 0
+
+  return (
+    <Dialog open={open} onClose={() => !publishing && onClose()} maxWidth="md" fullWidth>
+      <DialogTitle>{t('publishDialog.title', { title: questionnaire?.title ?? '' })}</DialogTitle>
+      <DialogContent>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 3 }}>
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            <Typography variant="body2" color="text.secondary">
+              {t('publishDialog.intro')}
+            </Typography>
+
+            {/* Comparison selectors */}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <FormControl sx={{ flex: 1 }} size="small">
+                <InputLabel>{t('publishDialog.compareFrom')}</InputLabel>
+                <Select
+                  value={fromVersionId}
+                  onChange={(e) => setFromVersionId(e.target.value)}
+                  label={t('publishDialog.compareFrom')}
+                >
+                  <MenuItem value="">{t('publishDialog.noBaseline')}</MenuItem>
+                  {versions.map((version) => (
+                    <MenuItem key={version.id} value={version.id}>
+                      {formatVersionLabel(version)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <ArrowForward color="action" />
+              <FormControl sx={{ flex: 1 }} size="small">
+                <InputLabel>{t('publishDialog.compareTo')}</InputLabel>
+                <Select value={toKey} onChange={(e) => setToKey(e.target.value)} label={t('publishDialog.compareTo')}>
+                  <MenuItem value={DRAFT_KEY}>{t('publishDialog.draft')}</MenuItem>
+                  {versions.map((version) => (
+                    <MenuItem key={version.id} value={version.id}>
+                      {formatVersionLabel(version)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+
+            {/* Diff */}
+            {diff && !diff.has_changes ? (
+              <Alert severity="info">{t('publishDialog.identical')}</Alert>
+            ) : (
+              diff && (
+                <Stack spacing={1}>
+                  {diff.has_breaking_changes && (
+                    <Alert severity="warning">
+                      {t('publishDialog.breakingWarning')}
+                    </Alert>
+                  )}
+                  {diff.title_changed && (
+                    <Typography variant="body2">
+                      {t('publishDialog.titleChanged', {
+                        before: fromContent?.title || '—',
+                        after: toContent?.title ?? '',
+                      })}
+                    </Typography>
+                  )}
+                  {diff.description_changed && (
+                    <Typography variant="body2">
+                      {t('publishDialog.descriptionChanged', {
+                        before: fromContent?.description || '—',
+                        after: toContent?.description || '—',
+                      })}
+                    </Typography>
+                  )}
+                  {diff.translations_changed && (
+                    <Typography variant="body2">{t('publishDialog.textTranslationsChanged')}</Typography>
+                  )}
+                  {diff.questions.map((question) => (
+                    <QuestionDiffItem key={question.question_id} diff={question} />
+                  ))}
+                  {unchangedCount > 0 && (
+                    <Typography variant="caption" color="text.secondary">
+                      {t('publishDialog.unchanged', { count: unchangedCount })}
+                    </Typography>
+                  )}
+                </Stack>
+              )
+            )}
+
+            {/* Version history */}
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                {t('publishDialog.history')}
+              </Typography>
+              {versions.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+                  {t('publishDialog.notPublished')}
+                </Typography>
+              ) : (
+                <Stack direction="row" spacing={1} sx={{ flexWrap: 'wrap', gap: 1 }}>
+                  {versions.map((version) => (
+                    <Chip
+                      key={version.id}
+                      label={formatVersionLabel(version)}
+                      size="small"
+                      color={version.id === questionnaire?.published_version_id ? 'primary' : 'default'}
+                      variant={version.id === questionnaire?.published_version_id ? 'filled' : 'outlined'}
+                    />
+                  ))}
+                </Stack>
+              )}
+            </Box>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={publishing}>
+          {t('common.close')}
+        </Button>
+        <Button
+          onClick={handlePublish}
+          variant="contained"
+          disabled={publishing || loading || !draftDiff?.has_changes}
+          startIcon={publishing ? <CircularProgress size={20} /> : undefined}
+        >
+          {publishing
+            ? t('publishDialog.publishing')
+            : draftDiff?.has_changes
+              ? t('publishDialog.publishAs', { version: (versions[0]?.version_number || 0) + 1 })
+              : t('publishDialog.noChanges')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
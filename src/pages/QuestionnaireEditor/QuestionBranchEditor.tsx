@@ -0,0 +1,174 @@
+// Version: 1.1.1
+// Question Branch Editor - Skip logic rules for one question in the questionnaire builder
+// Features: "If the answer is X / the score is in a range, go to question Y or finish", plus a default route
+//           for answers that match no rule (next question in order, a specific question, or the end)
+// v1.1.1: Scales come from utils/questionScales
+// v1.1.0: Texts come from the admin catalogs
+
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  IconButton,
+  Stack,
+} from '@mui/material'
+import { AddCircle, RemoveCircleOutline } from '@mui/icons-material'
+import type { Question, QuestionBranch } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import { BRANCHING_QUESTION_TYPES, END_OF_QUESTIONNAIRE, getOptionKey } from '../../utils/questionFlow'
+import { NPS_SCALE, RATING_SCALE } from '../../utils/questionScales'
+
+interface QuestionBranchEditorProps {
+  question: Question
+  questions: Question[]
+  onChange: (updates: Partial<Question>) => void
+}
+
+// Select value for "continue with the next question in order"
+const IN_ORDER_KEY = ''
+
+export default function QuestionBranchEditor({ question, questions, onChange }: QuestionBranchEditorProps) {
+  const { t } = useI18n()
+  const branches = question.branches || []
+  const scale = question.type === 'rating' ? RATING_SCALE : question.type === 'nps' ? NPS_SCALE : null
+  const canBranch = BRANCHING_QUESTION_TYPES.includes(question.type)
+  const options = (question.options || []).filter((option) => getOptionKey(option))
+
+  const updateBranch = (branchIndex: number, updates: Partial<QuestionBranch>) => {
+    onChange({
+      branches: branches.map((branch, index) => (index === branchIndex ? { ...branch, ...updates } : branch)),
+    })
+  }
+
+  const handleAddBranch = () => {
+    const nextQuestion = questions.find((q) => q.order === question.order + 1)
+    const newBranch: QuestionBranch = scale
+      ? { min_score: scale.min, max_score: scale.max, next_question_id: nextQuestion?.id || END_OF_QUESTIONNAIRE }
+      : { option_value: options[0] ? getOptionKey(options[0]) : '', next_question_id: nextQuestion?.id || END_OF_QUESTIONNAIRE }
+    onChange({ branches: [...branches, newBranch] })
+  }
+
+  const handleRemoveBranch = (branchIndex: number) => {
+    const remaining = branches.filter((_, index) => index !== branchIndex)
+    onChange({ branches: remaining.length > 0 ? remaining : undefined })
+  }
+
+  const renderTargetItems = () => [
+    ...questions
+      .filter((q) => q.id !== question.id)
+      .map((q) => (
+        <MenuItem key={q.id} value={q.id}>
+          {t('branchEditor.question', { number: q.order, text: q.text || t('branchEditor.untitled') })}
+        </MenuItem>
+      )),
+    <MenuItem key={END_OF_QUESTIONNAIRE} value={END_OF_QUESTIONNAIRE}>
+      {t('branchEditor.end')}
+    </MenuItem>,
+  ]
+
+  const parseScore = (value: string) => (value.trim() === '' ? undefined : Number(value))
+
+  const defaultLabel = branches.length > 0 ? t('branchEditor.otherwise') : t('branchEditor.afterAnswer')
+
+  return (
+    <Box sx={{ ml: 2, mt: 2 }}>
+      <Typography variant="subtitle2" gutterBottom>
+        {t('branchEditor.title')}
+      </Typography>
+      <Stack spacing={1}>
+        {branches.map((branch, branchIndex) => (
+          <Box key={branchIndex} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+              {scale ? t('branchEditor.ifScore') : t('branchEditor.ifOption')}
+            </Typography>
+            {scale ? (
+              <>
+                <TextField
+                  size="small"
+                  type="number"
+                  value={branch.min_score ?? ''}
+                  onChange={(e) => updateBranch(branchIndex, { min_score: parseScore(e.target.value) })}
+                  inputProps={{ min: scale.min, max: scale.max, step: 1 }}
+                  sx={{ width: 80 }}
+                />
+                <Typography variant="body2" color="text.secondary">
+                  -
+                </Typography>
+                <TextField
+                  size="small"
+                  type="number"
+                  value={branch.max_score ?? ''}
+                  onChange={(e) => updateBranch(branchIndex, { max_score: parseScore(e.target.value) })}
+                  inputProps={{ min: scale.min, max: scale.max, step: 1 }}
+                  sx={{ width: 80 }}
+                />
+              </>
+            ) : (
+              <FormControl size="small" sx={{ flex: 1, minWidth: 120 }}>
+                <Select
+                  value={branch.option_value || ''}
+                  onChange={(e) => updateBranch(branchIndex, { option_value: e.target.value })}
+                  displayEmpty
+                >
+                  {options.map((option) => (
+                    <MenuItem key={getOptionKey(option)} value={getOptionKey(option)}>
+                      {option.label || option.value}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+            <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+              {t('branchEditor.goTo')}
+            </Typography>
+            <FormControl size="small" sx={{ flex: 2, minWidth: 160 }}>
+              <Select
+                value={branch.next_question_id}
+                onChange={(e) => updateBranch(branchIndex, { next_question_id: e.target.value })}
+              >
+                {renderTargetItems()}
+              </Select>
+            </FormControl>
+            <IconButton size="small" onClick={() => handleRemoveBranch(branchIndex)} color="error">
+              <RemoveCircleOutline />
+            </IconButton>
+          </Box>
+        ))}
+
+        {canBranch && (
+          <Button
+            size="small"
+            startIcon={<AddCircle />}
+            onClick={handleAddBranch}
+            disabled={!scale && options.length === 0}
+            sx={{ alignSelf: 'flex-start' }}
+          >
+            {t('branchEditor.addRule')}
+          </Button>
+        )}
+
+        <FormControl size="small" sx={{ maxWidth: 360 }}>
+          <InputLabel>{defaultLabel}</InputLabel>
+          <Select
+            value={question.default_next_question_id || IN_ORDER_KEY}
+            onChange={(e) => onChange({ default_next_question_id: e.target.value || undefined })}
+            label={defaultLabel}
+          >
+            <MenuItem value={IN_ORDER_KEY}>{t('branchEditor.inOrder')}</MenuItem>
+            {renderTargetItems()}
+          </Select>
+        </FormControl>
+        {branches.length > 1 && (
+          <Typography variant="caption" color="text.secondary">
+            {t('branchEditor.firstMatch')}
+          </Typography>
+        )}
+      </Stack>
+    </Box>
+  )
+}
@@ -1,7 +1,19 @@
-// Version: 3.0.0
+// Version: 3.10.0
 // Questionnaire Editor Page - Create and edit questionnaires with flexible question types
 // Features: Dynamic question builder, multiple choice with 2-5 options, text input, drag-and-drop reordering
 // Updated: Complete redesign to support different question types (multiple_choice, text_input) with JSONB storage
+// v3.10.0: Texts come from the message catalogs (admin UI language); service errors are translated by code
+// v3.9.0: Translations of questionnaire content - per-language status on each card and a translations dialog
+// v3.8.0: Export a questionnaire to a JSON file and import one (new questionnaire or overwrite by id)
+// v3.7.0: Duplicate a questionnaire (fresh question ids) and create one from the template library
+// v3.6.0: Role-based access - editing/publishing need manager access, deleting needs super admin; the assignment
+//         dialog and assignment removal are limited to the user's restaurants
+// v3.5.0: Questionnaires can be deleted (moved to the trash, restorable from the trash page)
+// v3.4.0: Skip logic - per-question branch rules (QuestionBranchEditor); rules follow option edits and deleted questions
+// v3.3.0: Builder supports rating (star/emoji), NPS, multi-select (min/max selections) and numeric (range) questions;
+//         existing multiple_choice is now labelled 单选题 to distinguish it from multi-select
+// v3.2.0: Draft/published versioning - edits save a draft, "版本与发布" dialog shows the diff and publishes a snapshot
+// v3.1.0: Assignment dialog offers "single questionnaire" or "A/B weighted" mode with a weight field
 // v3.0.0: BREAKING CHANGE - Removed legacy field support (question_1/2/3). Now uses JSONB exclusively. Cleaned up all fallback logic.
 // v2.7.0: Translated all UI text to Chinese for better Chinese user experience
 // v2.6.0: IMPROVED UX - Restaurant-wide assignments now show detailed success messages with assigned/skipped table counts
@@ -66,6 +78,12 @@ import {
   ExpandMore,
   ExpandLess,
   DeleteSweep,
+  Publish,
+  ContentCopy,
+  LibraryBooks,
+  FileDownload,
+  FileUpload,
+  Translate,
 } from '@mui/icons-material'
 import type {
   Restaurant,
@@ -75,25 +93,90 @@ import type {
   QuestionType,
   QuestionOption,
   QuestionnaireAssignment,
+  QuestionnaireWithVersion,
+  RatingStyle,
+  TranslationLocale,
 } from '../../types/database'
 import { getAllRestaurants } from '../../services/restaurantService'
 import { getTablesWithQRCodes } from '../../services/qrcodeService'
 import {
   getAllQuestionnaires,
   createQuestionnaire,
+  duplicateQuestionnaire,
   updateQuestionnaire,
+  deleteQuestionnaire,
   assignQuestionnaireToQRCode,
   assignQuestionnaireToRestaurant,
   validateQuestions,
   getAssignmentsForQuestionnaire,
   removeAssignment,
   removeRestaurantAssignments,
+  QUESTION_TYPES,
+  OPTION_LIMITS,
 } from '../../services/questionnaireService'
+import type { AssignmentMode, QuestionnaireImportMode } from '../../services/questionnaireService'
+import { TRASH_RETENTION_DAYS } from '../../services/trashService'
+import { useAuth } from '../../contexts/AuthContext'
+import { useI18n } from '../../contexts/I18nContext'
+import { canDeleteQuestionnaires, canEditQuestionnaires, canManageRestaurant } from '../../utils/permissions'
+import { DEFAULT_ASSIGNMENT_WEIGHT } from '../../utils/weightedSelection'
+import { diffQuestionnaires } from '../../utils/questionnaireDiff'
+import { getOptionKey } from '../../utils/questionFlow'
+import { generateQuestionId } from '../../utils/questionnaireCopy'
+import { downloadQuestionnaireFile } from '../../utils/questionnaireFile'
+import {
+  CONTENT_LOCALE_LABELS,
+  TRANSLATION_LOCALES,
+  getMissingTranslations,
+  getTranslatableTexts,
+} from '../../utils/contentLocale'
+import PublishQuestionnaireDialog from './PublishQuestionnaireDialog'
+import QuestionBranchEditor from './QuestionBranchEditor'
+import TemplateLibraryDialog from './TemplateLibraryDialog'
+import ImportQuestionnaireDialog from './ImportQuestionnaireDialog'
+import TranslationsDialog from './TranslationsDialog'
 
 type AssignmentScope = 'restaurant' | 'table'
 
+// Default numeric range for new numeric questions
+const DEFAULT_NUMERIC_RANGE = { min: 0, max: 100 }
+
+/**
+ * Reset type-specific fields after a question's type changed
+ * Options are kept when switching between single and multi select; branch rules are dropped
+ * because their conditions depend on the type
+ */
+const applyQuestionTypeDefaults = (question: Question): Question => {
+  const { options, rating_style, min_selections, max_selections, min, max, branches, ...base } = question
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return { ...base, options: options || [{ label: '', value: '' }, { label: '', value: '' }] }
+    case 'multi_select':
+      return {
+        ...base,
+        options: options || [{ label: '', value: '' }, { label: '', value: '' }],
+        min_selections: min_selections ?? 1,
+        max_selections,
+      }
+    case 'rating':
+      return { ...base, rating_style: rating_style || 'star' }
+    case 'numeric':
+      return { ...base, min: min ?? DEFAULT_NUMERIC_RANGE.min, max: max ?? DEFAULT_NUMERIC_RANGE.max }
+    default:
+      return base
+  }
+}
+
+// Parse an optional number field; empty input clears the setting
+const parseOptionalNumber = (value: string): number | undefined => {
+  return value.trim() === '' ? undefined : Number(value)
+}
+
 export default function QuestionnaireEditorPage() {
-  const [questionnaires, setQuestionnaires] = useState<EchoQuestionnaire[]>([])
+  const { access } = useAuth()
+  const { t, translateError } = useI18n()
+  const [questionnaires, setQuestionnaires] = useState<QuestionnaireWithVersion[]>([])
   const [restaurants, setRestaurants] = useState<Restaurant[]>([])
   const [loading, setLoading] = useState(false)
 
@@ -143,8 +226,24 @@ export default function QuestionnaireEditorPage() {
   const [selectedRestaurantId, setSelectedRestaurantId] = useState('')
   const [tables, setTables] = useState<TableWithQRCode[]>([])
   const [selectedTableId, setSelectedTableId] = useState('')
+  const [assignmentMode, setAssignmentMode] = useState<AssignmentMode>('single')
+  const [assignmentWeight, setAssignmentWeight] = useState(String(DEFAULT_ASSIGNMENT_WEIGHT))
   const [assigning, setAssigning] = useState(false)
 
+  // Publish dialog state
+  const [publishingQuestionnaire, setPublishingQuestionnaire] = useState<QuestionnaireWithVersion | null>(null)
+
+  // Template library dialog / questionnaire being duplicated
+  const [templateLibraryOpen, setTemplateLibraryOpen] = useState(false)
+  const [duplicatingId, setDuplicatingId] = useState<string | null>(null)
+
+  // Import dialog state
+  const [importDialogOpen, setImportDialogOpen] = useState(false)
+
+  // Translations dialog state
+  const [translatingQuestionnaire, setTranslatingQuestionnaire] = useState<EchoQuestionnaire | null>(null)
+  const [translationLocale, setTranslationLocale] = useState<TranslationLocale | undefined>(undefined)
+
   // Helper function to show notifications in BOTH inline alert AND popup toast
   const showNotification = (message: string, severity: 'success' | 'error' | 'warning' | 'info') => {
     // Show in inline alert location (top of page)
@@ -207,7 +306,7 @@ export default function QuestionnaireEditorPage() {
       )
       setAssignments(assignmentsMap)
     } catch (err) {
-      showNotification(err instanceof Error ? err.message : '加载数据失败', 'error')
+      showNotification(translateError(err, 'editor.loadFailed'), 'error')
     } finally {
       setLoading(false)
     }
@@ -218,7 +317,7 @@ export default function QuestionnaireEditorPage() {
       const tablesData = await getTablesWithQRCodes(restaurantId)
       setTables(tablesData)
     } catch (err) {
-      showNotification(err instanceof Error ? err.message : '加载餐桌失败', 'error')
+      showNotification(translateError(err, 'editor.loadTablesFailed'), 'error')
     }
   }
 
@@ -257,10 +356,6 @@ export default function QuestionnaireEditorPage() {
     setQuestions([])
   }
 
-  const generateQuestionId = () => {
-    return `q${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-  }
-
   const handleAddQuestion = () => {
     const newQuestion: Question = {
       id: generateQuestionId(),
@@ -273,8 +368,16 @@ export default function QuestionnaireEditorPage() {
 
   const handleRemoveQuestion = (questionId: string) => {
     const filtered = questions.filter((q) => q.id !== questionId)
-    // Reorder remaining questions
-    const reordered = filtered.map((q, index) => ({ ...q, order: index + 1 }))
+    // Reorder remaining questions and drop skip logic that pointed at the removed question
+    const reordered = filtered.map((q, index) => {
+      const branches = q.branches?.filter((branch) => branch.next_question_id !== questionId)
+      return {
+        ...q,
+        order: index + 1,
+        branches: branches && branches.length > 0 ? branches : undefined,
+        default_next_question_id: q.default_next_question_id === questionId ? undefined : q.default_next_question_id,
+      }
+    })
     setQuestions(reordered)
   }
 
@@ -283,18 +386,8 @@ export default function QuestionnaireEditorPage() {
       questions.map((q) => {
         if (q.id === questionId) {
           const updated = { ...q, ...updates }
-          // If type changed to text_input, remove options
-          if (updated.type === 'text_input') {
-            delete updated.options
-          }
-          // If type changed to multiple_choice and no options, add default options
-          if (updated.type === 'multiple_choice' && !updated.options) {
-            updated.options = [
-              { label: '', value: '' },
-              { label: '', value: '' },
-            ]
-          }
-          return updated
+          // If type changed, drop settings of the old type and add defaults for the new one
+          return updates.type && updates.type !== q.type ? applyQuestionTypeDefaults(updated) : updated
         }
         return q
       })
@@ -304,9 +397,10 @@ export default function QuestionnaireEditorPage() {
   const handleAddOption = (questionId: string) => {
     setQuestions(
       questions.map((q) => {
-        if (q.id === questionId && q.type === 'multiple_choice') {
+        const optionLimits = OPTION_LIMITS[q.type]
+        if (q.id === questionId && optionLimits) {
           const options = q.options || []
-          if (options.length < 5) {
+          if (options.length < optionLimits.max) {
             return {
               ...q,
               options: [
@@ -324,10 +418,17 @@ export default function QuestionnaireEditorPage() {
   const handleRemoveOption = (questionId: string, optionIndex: number) => {
     setQuestions(
       questions.map((q) => {
-        if (q.id === questionId && q.type === 'multiple_choice' && q.options) {
+        if (q.id === questionId && OPTION_LIMITS[q.type] && q.options) {
+          const options = q.options.filter((_, index) => index !== optionIndex)
+          const removedKey = getOptionKey(q.options[optionIndex])
+          const branches = q.branches?.filter((branch) => branch.option_value !== removedKey)
           return {
             ...q,
-            options: q.options.filter((_, index) => index !== optionIndex),
+            options,
+            branches: branches && branches.length > 0 ? branches : undefined,
+            // Keep the selection limit within the remaining options
+            max_selections:
+              q.max_selections !== undefined ? Math.min(q.max_selections, options.length) : undefined,
           }
         }
         return q
@@ -342,12 +443,18 @@ export default function QuestionnaireEditorPage() {
   ) => {
     setQuestions(
       questions.map((q) => {
-        if (q.id === questionId && q.type === 'multiple_choice' && q.options) {
+        if (q.id === questionId && OPTION_LIMITS[q.type] && q.options) {
+          const previousKey = getOptionKey(q.options[optionIndex])
+          const nextKey = getOptionKey({ ...q.options[optionIndex], ...updates })
           return {
             ...q,
             options: q.options.map((opt, index) =>
               index === optionIndex ? { ...opt, ...updates } : opt
             ),
+            // Branch rules refer to options by key - keep them pointing at the edited option
+            branches: q.branches?.map((branch) =>
+              branch.option_value === previousKey ? { ...branch, option_value: nextKey } : branch
+            ),
           }
         }
         return q
@@ -363,7 +470,7 @@ export default function QuestionnaireEditorPage() {
       // Validate questions
       const validation = validateQuestions(questions)
       if (!validation.valid) {
-        showNotification(validation.error || '问题格式无效', 'error')
+        showNotification(translateError(validation.error, 'editor.saveFailed'), 'error')
         return
       }
 
@@ -376,19 +483,24 @@ export default function QuestionnaireEditorPage() {
       }
 
       if (editingQuestionnaire) {
-        // Update existing
+        // Update existing - only the draft changes until it is published
         await updateQuestionnaire(editingQuestionnaire.id, questionnaireData)
-        showNotification('问卷更新成功！', 'success')
+        showNotification(
+          editingQuestionnaire.published_version_id
+            ? t('editor.draftSaved')
+            : t('editor.updated'),
+          'success'
+        )
       } else {
         // Create new
         await createQuestionnaire(questionnaireData)
-        showNotification('问卷创建成功！', 'success')
+        showNotification(t('editor.created'), 'success')
       }
 
       await loadData()
       handleCloseEditor()
     } catch (err) {
-      showNotification(err instanceof Error ? err.message : '保存问卷失败', 'error')
+      showNotification(translateError(err, 'editor.saveFailed'), 'error')
     } finally {
       setSaving(false)
     }
@@ -399,6 +511,8 @@ export default function QuestionnaireEditorPage() {
     setAssignmentDialogOpen(true)
     setSelectedRestaurantId('')
     setSelectedTableId('')
+    setAssignmentMode('single')
+    setAssignmentWeight(String(DEFAULT_ASSIGNMENT_WEIGHT))
   }
 
   const handleCloseAssignment = () => {
@@ -411,25 +525,36 @@ export default function QuestionnaireEditorPage() {
   const handleAssignQuestionnaire = async () => {
     if (!selectedQuestionnaireForAssignment) return
 
+    const weight = assignmentMode === 'weighted' ? Number(assignmentWeight) : DEFAULT_ASSIGNMENT_WEIGHT
+    if (!Number.isInteger(weight) || weight < 1) {
+      showNotification(t('editor.invalidWeight'), 'warning')
+      return
+    }
+
     try {
       setAssigning(true)
       setInlineAlert({ show: false, message: '', severity: 'info' })
 
       if (assignmentScope === 'restaurant') {
         if (!selectedRestaurantId) {
-          showNotification('请选择餐厅', 'warning')
+          showNotification(t('editor.restaurantRequired'), 'warning')
           return
         }
         const result = await assignQuestionnaireToRestaurant(
           selectedRestaurantId,
-          selectedQuestionnaireForAssignment.id
+          selectedQuestionnaireForAssignment.id,
+          weight,
+          assignmentMode
         )
 
         // Show detailed success message
-        let successMessage = `成功分配问卷到 ${result.assignedCount} 个餐桌！`
+        let successMessage = t('editor.assignedToRestaurant', { count: result.assignedCount })
         if (result.skippedCount > 0) {
-          const skippedTableList = result.skippedTables.map(t => t.table_number).join(', ')
-          successMessage += ` (已跳过 ${result.skippedCount} 个已有分配的餐桌：${skippedTableList})`
+          const skippedTableList = result.skippedTables.map((table) => table.table_number).join(', ')
+          successMessage += t(
+            assignmentMode === 'single' ? 'editor.skippedAssignedTables' : 'editor.skippedTablesWithQuestionnaire',
+            { count: result.skippedCount, tables: skippedTableList }
+          )
         }
 
         // Refresh assignments and close dialog
@@ -448,12 +573,12 @@ export default function QuestionnaireEditorPage() {
       } else {
         // table scope
         if (!selectedTableId) {
-          showNotification('请选择餐桌', 'warning')
+          showNotification(t('editor.tableRequired'), 'warning')
           return
         }
-        const table = tables.find((t) => t.id === selectedTableId)
+        const table = tables.find((candidate) => candidate.id === selectedTableId)
         if (!table) {
-          showNotification('未找到餐桌', 'error')
+          showNotification(t('editor.tableNotFound'), 'error')
           return
         }
 
@@ -469,13 +594,15 @@ export default function QuestionnaireEditorPage() {
         }
 
         if (!qrcodeId) {
-          showNotification('该餐桌没有二维码，请先生成', 'warning')
+          showNotification(t('editor.tableWithoutQRCode'), 'warning')
           return
         }
 
         await assignQuestionnaireToQRCode(
           qrcodeId,
-          selectedQuestionnaireForAssignment.id
+          selectedQuestionnaireForAssignment.id,
+          weight,
+          assignmentMode
         )
       }
 
@@ -490,16 +617,16 @@ export default function QuestionnaireEditorPage() {
       })
 
       handleCloseAssignment()
-      showNotification('问卷分配成功！', 'success')
+      showNotification(t('editor.assignedSuccess'), 'success')
     } catch (err) {
-      showNotification(err instanceof Error ? err.message : '分配问卷失败', 'error')
+      showNotification(translateError(err, 'editor.assignFailed'), 'error')
     } finally {
       setAssigning(false)
     }
   }
 
   const handleRemoveAssignment = async (assignmentId: string, questionnaireId: string, restaurantName: string, tableNumber: string) => {
-    if (!confirm(`确定要移除 ${restaurantName} - 餐桌 ${tableNumber} 的问卷分配吗？`)) {
+    if (!confirm(t('editor.confirmRemoveAssignment', { restaurant: restaurantName, table: tableNumber }))) {
       return
     }
 
@@ -515,12 +642,98 @@ export default function QuestionnaireEditorPage() {
         return newMap
       })
 
-      showNotification('分配移除成功！', 'success')
+      showNotification(t('editor.assignmentRemoved'), 'success')
+    } catch (err) {
+      showNotification(translateError(err, 'editor.removeAssignmentFailed'), 'error')
+    }
+  }
+
+  const handleDeleteQuestionnaire = async (questionnaire: EchoQuestionnaire) => {
+    if (!confirm(t('editor.confirmDelete', { title: questionnaire.title, days: TRASH_RETENTION_DAYS }))) {
+      return
+    }
+
+    try {
+      setInlineAlert({ show: false, message: '', severity: 'info' })
+      await deleteQuestionnaire(questionnaire.id)
+      setQuestionnaires((prev) => prev.filter((item) => item.id !== questionnaire.id))
+      showNotification(t('editor.deleted'), 'success')
+    } catch (err) {
+      showNotification(translateError(err, 'editor.deleteFailed'), 'error')
+    }
+  }
+
+  // The copy opens in the editor right away so it can be renamed and changed before publishing
+  const handleDuplicateQuestionnaire = async (questionnaire: EchoQuestionnaire) => {
+    try {
+      setDuplicatingId(questionnaire.id)
+      setInlineAlert({ show: false, message: '', severity: 'info' })
+      const copy = await duplicateQuestionnaire(questionnaire, t('editor.copyTitle', { title: questionnaire.title }))
+      showNotification(t('editor.duplicated', { title: questionnaire.title }), 'success')
+      await loadData()
+      handleOpenEditor(copy)
     } catch (err) {
-      showNotification(err instanceof Error ? err.message : '移除分配失败', 'error')
+      showNotification(translateError(err, 'editor.duplicateFailed'), 'error')
+    } finally {
+      setDuplicatingId(null)
     }
   }
 
+  const handleTemplateCreated = async (questionnaire: EchoQuestionnaire) => {
+    showNotification(t('editor.templateCreated', { title: questionnaire.title }), 'success')
+    await loadData()
+    handleOpenEditor(questionnaire)
+  }
+
+  const handleQuestionnaireImported = async (questionnaire: EchoQuestionnaire, mode: QuestionnaireImportMode) => {
+    showNotification(
+      mode === 'overwrite'
+        ? t('editor.importedOverwrite', { title: questionnaire.title })
+        : t('editor.importedCreate', { title: questionnaire.title }),
+      'success'
+    )
+    await loadData()
+  }
+
+  const handleOpenTranslations = (questionnaire: EchoQuestionnaire, locale?: TranslationLocale) => {
+    setTranslationLocale(locale)
+    setTranslatingQuestionnaire(questionnaire)
+  }
+
+  // Translation status of the draft per language - untranslated, missing some texts, or complete
+  const renderTranslationChips = (questionnaire: EchoQuestionnaire) => {
+    const total = getTranslatableTexts(questionnaire).length
+
+    return (
+      <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+        <Typography variant="subtitle2" color="text.secondary">
+          {t('editor.translations')}
+        </Typography>
+        {TRANSLATION_LOCALES.map((locale) => {
+          const missing = getMissingTranslations(questionnaire, locale).length
+          const language = CONTENT_LOCALE_LABELS[locale]
+          const label =
+            missing === 0
+              ? t('editor.translationComplete', { language })
+              : missing === total
+                ? t('editor.translationNone', { language })
+                : t('editor.translationMissing', { language, count: missing })
+          return (
+            <Chip
+              key={locale}
+              label={label}
+              size="small"
+              variant="outlined"
+              color={missing === 0 ? 'success' : missing === total ? 'default' : 'warning'}
+              onClick={canEdit ? () => handleOpenTranslations(questionnaire, locale) : undefined}
+              sx={{ height: 22 }}
+            />
+          )
+        })}
+      </Box>
+    )
+  }
+
   const handleToggleRestaurant = (restaurantId: string) => {
     setExpandedRestaurants((prev) => {
       const newSet = new Set(prev)
@@ -539,11 +752,7 @@ export default function QuestionnaireEditorPage() {
     restaurantName: string,
     tableCount: number
   ) => {
-    if (
-      !confirm(
-        `确定要移除 ${restaurantName} 的所有 ${tableCount} 个问卷分配吗？\n\n这将删除该餐厅所有餐桌的分配。`
-      )
-    ) {
+    if (!confirm(t('editor.confirmRemoveRestaurantAssignments', { restaurant: restaurantName, count: tableCount }))) {
       return
     }
 
@@ -560,39 +769,87 @@ export default function QuestionnaireEditorPage() {
       })
 
       showNotification(
-        `成功从 ${restaurantName} 移除了 ${removedCount} 个分配！`,
+        t('editor.restaurantAssignmentsRemoved', { restaurant: restaurantName, count: removedCount }),
         'success'
       )
     } catch (err) {
-      showNotification(
-        err instanceof Error ? err.message : '移除餐厅分配失败',
-        'error'
-      )
+      showNotification(translateError(err, 'editor.removeRestaurantAssignmentsFailed'), 'error')
     }
   }
 
+  // Publication status chip: never published / published (with or without pending draft changes)
+  const renderVersionChip = (questionnaire: QuestionnaireWithVersion) => {
+    const published = questionnaire.published_version
+    if (!published) {
+      return <Chip label={t('editor.notPublished')} color="warning" size="small" />
+    }
+    const hasDraftChanges = diffQuestionnaires(published, questionnaire).has_changes
+    return (
+      <Chip
+        label={t(hasDraftChanges ? 'editor.publishedWithDraftChanges' : 'editor.published', {
+          version: published.version_number,
+        })}
+        color={hasDraftChanges ? 'info' : 'primary'}
+        variant="outlined"
+        size="small"
+      />
+    )
+  }
+
   const renderQuestionTypeLabel = (type: QuestionType) => {
-    return type === 'multiple_choice' ? '多选题' : '文本输入'
+    return t(`questionTypes.${type}`)
   }
 
+  // Secondary line under a question in the questionnaire list
+  const renderQuestionSummary = (question: Question) => {
+    switch (question.type) {
+      case 'multiple_choice':
+      case 'multi_select':
+        return question.options
+          ? t('editor.summaryOptions', {
+              options: question.options.map((o) => o.label).join(t('editor.optionSeparator')),
+            })
+          : null
+      case 'rating':
+        return t('editor.summaryRatingStyle', { style: t(`ratingStyles.${question.rating_style || 'star'}`) })
+      case 'numeric':
+        return t('editor.summaryRange', { min: question.min ?? '', max: question.max ?? '' })
+      default:
+        return null
+    }
+  }
+
+  // Analysts only view; assignments can only be made for (and removed from) restaurants the user manages
+  const canEdit = canEditQuestionnaires(access)
+  const canDelete = canDeleteQuestionnaires(access)
+  const manageableRestaurants = restaurants.filter((restaurant) => canManageRestaurant(access, restaurant.id))
+
   return (
     <>
       {/* Header */}
       <Box sx={{ mb: 4 }}>
         <Typography variant="h4" gutterBottom>
-          问卷编辑器
+          {t('editor.title')}
         </Typography>
         <Typography variant="body1" color="text.secondary">
-          创建和编辑具有灵活问题类型的问卷
+          {t('editor.subtitle')}
         </Typography>
       </Box>
 
       {/* Add New Button */}
-      <Box sx={{ mb: 3, display: 'flex', justifyContent: 'flex-end' }}>
-        <Button variant="contained" startIcon={<Add />} onClick={() => handleOpenEditor()}>
-          创建新问卷
-        </Button>
-      </Box>
+      {canEdit && (
+        <Box sx={{ mb: 3, display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+          <Button variant="outlined" startIcon={<FileUpload />} onClick={() => setImportDialogOpen(true)}>
+            {t('editor.import')}
+          </Button>
+          <Button variant="outlined" startIcon={<LibraryBooks />} onClick={() => setTemplateLibraryOpen(true)}>
+            {t('editor.fromTemplate')}
+          </Button>
+          <Button variant="contained" startIcon={<Add />} onClick={() => handleOpenEditor()}>
+            {t('editor.create')}
+          </Button>
+        </Box>
+      )}
 
       {/* Inline Alert Display - shows all message types (success, error, warning, info) */}
       {inlineAlert.show && (
@@ -607,7 +864,7 @@ export default function QuestionnaireEditorPage() {
           <CircularProgress />
         </Box>
       ) : questionnaires.length === 0 ? (
-        <Alert severity="info">未找到问卷。创建您的第一个问卷吧！</Alert>
+        <Alert severity="info">{t('editor.empty')}</Alert>
       ) : (
         <Grid container spacing={3}>
           {questionnaires.map((questionnaire) => {
@@ -626,16 +883,19 @@ export default function QuestionnaireEditorPage() {
                           </Typography>
                         )}
                       </Box>
-                      <Chip
-                        label={questionnaire.is_active ? '启用' : '禁用'}
-                        color={questionnaire.is_active ? 'success' : 'default'}
-                        size="small"
-                      />
+                      <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+                        {renderVersionChip(questionnaire)}
+                        <Chip
+                          label={questionnaire.is_active ? t('editor.active') : t('editor.inactive')}
+                          color={questionnaire.is_active ? 'success' : 'default'}
+                          size="small"
+                        />
+                      </Box>
                     </Box>
 
                     <Box sx={{ mb: 2 }}>
                       <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                        问题 ({displayQuestions.length}):
+                        {t('editor.questionCount', { count: displayQuestions.length })}
                       </Typography>
                       <List dense>
                         {displayQuestions
@@ -656,11 +916,7 @@ export default function QuestionnaireEditorPage() {
                                     />
                                   </Box>
                                 }
-                                secondary={
-                                  question.type === 'multiple_choice' && question.options
-                                    ? `选项：${question.options.map((o) => o.label).join('、')}`
-                                    : null
-                                }
+                                secondary={renderQuestionSummary(question)}
                                 primaryTypographyProps={{ variant: 'body2', component: 'div' }}
                                 secondaryTypographyProps={{ variant: 'caption' }}
                               />
@@ -669,17 +925,19 @@ export default function QuestionnaireEditorPage() {
                       </List>
                     </Box>
 
+                    {renderTranslationChips(questionnaire)}
+
                     {/* Assignments Section */}
                     <Box sx={{ mb: 2, bgcolor: 'grey.50', p: 2, borderRadius: 1 }}>
                       <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                        已分配：
+                        {t('editor.assigned')}
                       </Typography>
                       {(() => {
                         const questionnaireAssignments = assignments.get(questionnaire.id) || []
                         if (questionnaireAssignments.length === 0) {
                           return (
                             <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic' }}>
-                              未分配到任何餐桌
+                              {t('editor.notAssigned')}
                             </Typography>
                           )
                         }
@@ -696,6 +954,7 @@ export default function QuestionnaireEditorPage() {
                                 .join(', ')
 
                               const isExpanded = expandedRestaurants.has(assignment.restaurant_id)
+                              const canManageAssignment = canManageRestaurant(access, assignment.restaurant_id)
 
                               return (
                                 <ListItem key={assignment.restaurant_id} sx={{ py: 0.5, px: 0, flexDirection: 'column', alignItems: 'flex-start' }}>
@@ -726,29 +985,31 @@ export default function QuestionnaireEditorPage() {
 
                                     {/* Table count badge */}
                                     <Chip
-                                      label={`${assignment.tables.length} 个餐桌`}
+                                      label={t('editor.tableCount', { count: assignment.tables.length })}
                                       size="small"
                                       sx={{ height: 20, fontSize: '0.7rem' }}
                                     />
 
                                     {/* Bulk delete button */}
-                                    <IconButton
-                                      size="small"
-                                      color="error"
-                                      onClick={(e) => {
-                                        e.stopPropagation() // Prevent toggling when clicking delete
-                                        handleRemoveRestaurantAssignments(
-                                          questionnaire.id,
-                                          assignment.restaurant_id,
-                                          assignment.restaurant_name,
-                                          assignment.tables.length
-                                        )
-                                      }}
-                                      sx={{ ml: 1 }}
-                                      title="删除该餐厅的所有分配"
-                                    >
-                                      <DeleteSweep fontSize="small" />
-                                    </IconButton>
+                                    {canManageAssignment && (
+                                      <IconButton
+                                        size="small"
+                                        color="error"
+                                        onClick={(e) => {
+                                          e.stopPropagation() // Prevent toggling when clicking delete
+                                          handleRemoveRestaurantAssignments(
+                                            questionnaire.id,
+                                            assignment.restaurant_id,
+                                            assignment.restaurant_name,
+                                            assignment.tables.length
+                                          )
+                                        }}
+                                        sx={{ ml: 1 }}
+                                        title={t('editor.removeRestaurantAssignments')}
+                                      >
+                                        <DeleteSweep fontSize="small" />
+                                      </IconButton>
+                                    )}
                                   </Box>
 
                                   {/* Individual table assignments - only show when expanded */}
@@ -766,22 +1027,24 @@ export default function QuestionnaireEditorPage() {
                                         >
                                           <Typography variant="body2" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
                                             <TableBar fontSize="small" sx={{ fontSize: '0.9rem' }} />
-                                            餐桌 {table.table_number}
+                                            {t('editor.table', { table: table.table_number })}
                                           </Typography>
-                                          <IconButton
-                                            size="small"
-                                            color="error"
-                                            onClick={() => handleRemoveAssignment(
-                                              table.assignment_id,
-                                              questionnaire.id,
-                                              assignment.restaurant_name,
-                                              table.table_number
-                                            )}
-                                            sx={{ ml: 1 }}
-                                            title="删除该餐桌的分配"
-                                          >
-                                            <Delete fontSize="small" />
-                                          </IconButton>
+                                          {canManageAssignment && (
+                                            <IconButton
+                                              size="small"
+                                              color="error"
+                                              onClick={() => handleRemoveAssignment(
+                                                table.assignment_id,
+                                                questionnaire.id,
+                                                assignment.restaurant_name,
+                                                table.table_number
+                                              )}
+                                              sx={{ ml: 1 }}
+                                              title={t('editor.removeTableAssignment')}
+                                            >
+                                              <Delete fontSize="small" />
+                                            </IconButton>
+                                          )}
                                         </Box>
                                       ))}
                                     </Box>
@@ -795,20 +1058,65 @@ export default function QuestionnaireEditorPage() {
                     </Box>
 
                     <Box sx={{ display: 'flex', gap: 1 }}>
+                      {canEdit && (
+                        <>
+                          <Button
+                            size="small"
+                            startIcon={<Edit />}
+                            onClick={() => handleOpenEditor(questionnaire)}
+                          >
+                            {t('common.edit')}
+                          </Button>
+                          <Button
+                            size="small"
+                            startIcon={<Publish />}
+                            onClick={() => setPublishingQuestionnaire(questionnaire)}
+                          >
+                            {t('editor.versions')}
+                          </Button>
+                          <Button
+                            size="small"
+                            startIcon={duplicatingId === questionnaire.id ? <CircularProgress size={16} /> : <ContentCopy />}
+                            onClick={() => handleDuplicateQuestionnaire(questionnaire)}
+                            disabled={duplicatingId !== null}
+                          >
+                            {t('editor.duplicate')}
+                          </Button>
+                          <Button
+                            size="small"
+                            startIcon={<Translate />}
+                            onClick={() => handleOpenTranslations(questionnaire)}
+                          >
+                            {t('editor.translate')}
+                          </Button>
+                        </>
+                      )}
+                      {manageableRestaurants.length > 0 && (
+                        <Button
+                          size="small"
+                          startIcon={<Assignment />}
+                          onClick={() => handleOpenAssignment(questionnaire)}
+                        >
+                          {t('editor.assign')}
+                        </Button>
+                      )}
                       <Button
                         size="small"
-                        startIcon={<Edit />}
-                        onClick={() => handleOpenEditor(questionnaire)}
-                      >
-                        编辑
-                      </Button>
-                      <Button
-                        size="small"
-                        startIcon={<Assignment />}
-                        onClick={() => handleOpenAssignment(questionnaire)}
+                        startIcon={<FileDownload />}
+                        onClick={() => downloadQuestionnaireFile(questionnaire)}
                       >
-                        分配
+                        {t('editor.export')}
                       </Button>
+                      {canDelete && (
+                        <Button
+                          size="small"
+                          color="error"
+                          startIcon={<Delete />}
+                          onClick={() => handleDeleteQuestionnaire(questionnaire)}
+                        >
+                          {t('common.delete')}
+                        </Button>
+                      )}
                     </Box>
                   </CardContent>
                 </Card>
@@ -821,20 +1129,20 @@ export default function QuestionnaireEditorPage() {
       {/* Editor Dialog */}
       <Dialog open={editorOpen} onClose={handleCloseEditor} maxWidth="md" fullWidth>
         <DialogTitle>
-          {editingQuestionnaire ? '编辑问卷' : '创建新问卷'}
+          {editingQuestionnaire ? t('editor.editTitle') : t('editor.createTitle')}
         </DialogTitle>
         <DialogContent>
           <Box sx={{ pt: 2, display: 'flex', flexDirection: 'column', gap: 3 }}>
             {/* Basic Info */}
             <TextField
-              label="问卷标题"
+              label={t('editor.titleLabel')}
               fullWidth
               value={formData.title}
               onChange={(e) => setFormData({ ...formData, title: e.target.value })}
               required
             />
             <TextField
-              label="描述（可选）"
+              label={t('editor.descriptionLabel')}
               fullWidth
               multiline
               rows={2}
@@ -848,7 +1156,7 @@ export default function QuestionnaireEditorPage() {
                   onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
                 />
               }
-              label="启用"
+              label={t('editor.activeLabel')}
             />
 
             <Divider />
@@ -856,14 +1164,14 @@ export default function QuestionnaireEditorPage() {
             {/* Questions Builder */}
             <Box>
               <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
-                <Typography variant="h6">问题</Typography>
+                <Typography variant="h6">{t('editor.questions')}</Typography>
                 <Button
                   size="small"
                   startIcon={<Add />}
                   onClick={handleAddQuestion}
                   variant="outlined"
                 >
-                  添加问题
+                  {t('editor.addQuestion')}
                 </Button>
               </Box>
 
@@ -875,7 +1183,7 @@ export default function QuestionnaireEditorPage() {
                       <Box sx={{ flex: 1 }}>
                         <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
                           <TextField
-                            label={`问题 ${index + 1}`}
+                            label={t('editor.questionLabel', { number: index + 1 })}
                             fullWidth
                             value={question.text}
                             onChange={(e) =>
@@ -884,7 +1192,7 @@ export default function QuestionnaireEditorPage() {
                             required
                           />
                           <FormControl sx={{ minWidth: 150 }}>
-                            <InputLabel>类型</InputLabel>
+                            <InputLabel>{t('editor.type')}</InputLabel>
                             <Select
                               value={question.type}
                               onChange={(e) =>
@@ -892,45 +1200,51 @@ export default function QuestionnaireEditorPage() {
                                   type: e.target.value as QuestionType,
                                 })
                               }
-                              label="类型"
+                              label={t('editor.type')}
                             >
-                              <MenuItem value="text_input">文本输入</MenuItem>
-                              <MenuItem value="multiple_choice">多选题</MenuItem>
+                              {QUESTION_TYPES.map((type) => (
+                                <MenuItem key={type} value={type}>
+                                  {t(`questionTypes.${type}`)}
+                                </MenuItem>
+                              ))}
                             </Select>
                           </FormControl>
                         </Box>
 
-                        {/* Multiple Choice Options */}
-                        {question.type === 'multiple_choice' && (
+                        {/* Choice Options (single and multi select) */}
+                        {OPTION_LIMITS[question.type] && (
                           <Box sx={{ ml: 2, mt: 2 }}>
                             <Typography variant="subtitle2" gutterBottom>
-                              答案选项（2-5个）
+                              {t('editor.options', {
+                                min: OPTION_LIMITS[question.type]!.min,
+                                max: OPTION_LIMITS[question.type]!.max,
+                              })}
                             </Typography>
                             <Stack spacing={1}>
                               {question.options?.map((option, optIndex) => (
                                 <Box key={optIndex} sx={{ display: 'flex', gap: 1 }}>
                                   <TextField
                                     size="small"
-                                    label="标签"
+                                    label={t('editor.optionLabel')}
                                     value={option.label}
                                     onChange={(e) =>
                                       handleUpdateOption(question.id, optIndex, {
                                         label: e.target.value,
                                       })
                                     }
-                                    placeholder="答案"
+                                    placeholder={t('editor.optionLabelPlaceholder')}
                                     sx={{ flex: 1 }}
                                   />
                                   <TextField
                                     size="small"
-                                    label="值"
+                                    label={t('editor.optionValue')}
                                     value={option.value}
                                     onChange={(e) =>
                                       handleUpdateOption(question.id, optIndex, {
                                         value: e.target.value,
                                       })
                                     }
-                                    placeholder="数据标识（如：情绪1-5，同义词则留空）"
+                                    placeholder={t('editor.optionValuePlaceholder')}
                                     sx={{ flex: 1 }}
                                   />
                                   <IconButton
@@ -943,19 +1257,117 @@ export default function QuestionnaireEditorPage() {
                                   </IconButton>
                                 </Box>
                               ))}
-                              {(question.options?.length || 0) < 5 && (
+                              {(question.options?.length || 0) < OPTION_LIMITS[question.type]!.max && (
                                 <Button
                                   size="small"
                                   startIcon={<AddCircle />}
                                   onClick={() => handleAddOption(question.id)}
                                   sx={{ alignSelf: 'flex-start' }}
                                 >
-                                  添加选项
+                                  {t('editor.addOption')}
                                 </Button>
                               )}
                             </Stack>
                           </Box>
                         )}
+
+                        {/* Multi-select limits */}
+                        {question.type === 'multi_select' && (
+                          <Box sx={{ ml: 2, mt: 2, display: 'flex', gap: 1 }}>
+                            <TextField
+                              size="small"
+                              type="number"
+                              label={t('editor.minSelections')}
+                              value={question.min_selections ?? ''}
+                              onChange={(e) =>
+                                handleUpdateQuestion(question.id, {
+                                  min_selections: parseOptionalNumber(e.target.value),
+                                })
+                              }
+                              inputProps={{ min: 1, step: 1 }}
+                              sx={{ width: 120 }}
+                            />
+                            <TextField
+                              size="small"
+                              type="number"
+                              label={t('editor.maxSelections')}
+                              value={question.max_selections ?? ''}
+                              onChange={(e) =>
+                                handleUpdateQuestion(question.id, {
+                                  max_selections: parseOptionalNumber(e.target.value),
+                                })
+                              }
+                              placeholder={t('editor.unlimited')}
+                              InputLabelProps={{ shrink: true }}
+                              inputProps={{ min: 1, max: question.options?.length, step: 1 }}
+                              sx={{ width: 120 }}
+                            />
+                          </Box>
+                        )}
+
+                        {/* Rating style */}
+                        {question.type === 'rating' && (
+                          <Box sx={{ ml: 2, mt: 2, display: 'flex', alignItems: 'center', gap: 2 }}>
+                            <FormControl size="small" sx={{ minWidth: 120 }}>
+                              <InputLabel>{t('editor.ratingStyle')}</InputLabel>
+                              <Select
+                                value={question.rating_style || 'star'}
+                                onChange={(e) =>
+                                  handleUpdateQuestion(question.id, {
+                                    rating_style: e.target.value as RatingStyle,
+                                  })
+                                }
+                                label={t('editor.ratingStyle')}
+                              >
+                                <MenuItem value="star">{t('ratingStyles.star')}</MenuItem>
+                                <MenuItem value="emoji">{t('ratingStyles.emoji')}</MenuItem>
+                              </Select>
+                            </FormControl>
+                            <Typography variant="caption" color="text.secondary">
+                              {t('editor.ratingHint')}
+                            </Typography>
+                          </Box>
+                        )}
+
+                        {/* NPS */}
+                        {question.type === 'nps' && (
+                          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', ml: 2, mt: 1 }}>
+                            {t('editor.npsHint')}
+                          </Typography>
+                        )}
+
+                        {/* Numeric range */}
+                        {question.type === 'numeric' && (
+                          <Box sx={{ ml: 2, mt: 2, display: 'flex', gap: 1 }}>
+                            <TextField
+                              size="small"
+                              type="number"
+                              label={t('editor.minValue')}
+                              value={question.min ?? ''}
+                              onChange={(e) =>
+                                handleUpdateQuestion(question.id, { min: parseOptionalNumber(e.target.value) })
+                              }
+                              sx={{ width: 120 }}
+                            />
+                            <TextField
+                              size="small"
+                              type="number"
+                              label={t('editor.maxValue')}
+                              value={question.max ?? ''}
+                              onChange={(e) =>
+                                handleUpdateQuestion(question.id, { max: parseOptionalNumber(e.target.value) })
+                              }
+                              sx={{ width: 120 }}
+                            />
+                          </Box>
+                        )}
+
+                        {/* Skip logic */}
+                        <QuestionBranchEditor
+                          question={question}
+                          questions={questions}
+                          onChange={(updates) => handleUpdateQuestion(question.id, updates)}
+                        />
                       </Box>
                       <IconButton
                         size="small"
@@ -973,61 +1385,97 @@ export default function QuestionnaireEditorPage() {
           </Box>
         </DialogContent>
         <DialogActions>
-          <Button onClick={handleCloseEditor}>取消</Button>
+          <Button onClick={handleCloseEditor}>{t('common.cancel')}</Button>
           <Button
             onClick={handleSaveQuestionnaire}
             variant="contained"
             disabled={saving || !formData.title || questions.length === 0}
           >
-            {saving ? '保存中...' : '保存'}
+            {saving ? t('common.saving') : t('common.save')}
           </Button>
         </DialogActions>
       </Dialog>
 
       {/* Assignment Dialog */}
       <Dialog open={assignmentDialogOpen} onClose={handleCloseAssignment} maxWidth="sm" fullWidth>
-        <DialogTitle>分配问卷</DialogTitle>
+        <DialogTitle>{t('editor.assignTitle')}</DialogTitle>
         <DialogContent>
           <Box sx={{ pt: 2, display: 'flex', flexDirection: 'column', gap: 3 }}>
             <Typography variant="body2" color="text.secondary">
-              将"{selectedQuestionnaireForAssignment?.title}"分配到：
+              {t('editor.assignTo', { title: selectedQuestionnaireForAssignment?.title || '' })}
             </Typography>
 
+            {selectedQuestionnaireForAssignment && !selectedQuestionnaireForAssignment.published_version_id && (
+              <Alert severity="warning">
+                {t('editor.assignUnpublished')}
+              </Alert>
+            )}
+
             {/* Scope Selection */}
             <FormControl fullWidth>
-              <InputLabel>分配范围</InputLabel>
+              <InputLabel>{t('editor.scope')}</InputLabel>
               <Select
                 value={assignmentScope}
                 onChange={(e) => {
                   setAssignmentScope(e.target.value as AssignmentScope)
                   setSelectedTableId('')
                 }}
-                label="分配范围"
+                label={t('editor.scope')}
               >
                 <MenuItem value="restaurant">
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                     <RestaurantIcon fontSize="small" />
-                    整个餐厅（所有餐桌）
+                    {t('editor.scopeRestaurant')}
                   </Box>
                 </MenuItem>
                 <MenuItem value="table">
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                     <TableBar fontSize="small" />
-                    指定餐桌
+                    {t('editor.scopeTable')}
                   </Box>
                 </MenuItem>
               </Select>
             </FormControl>
 
+            {/* Assignment Mode */}
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <FormControl sx={{ flex: 1 }}>
+                <InputLabel>{t('editor.mode')}</InputLabel>
+                <Select
+                  value={assignmentMode}
+                  onChange={(e) => setAssignmentMode(e.target.value as AssignmentMode)}
+                  label={t('editor.mode')}
+                >
+                  <MenuItem value="single">{t('editor.modeSingle')}</MenuItem>
+                  <MenuItem value="weighted">{t('editor.modeWeighted')}</MenuItem>
+                </Select>
+              </FormControl>
+              {assignmentMode === 'weighted' && (
+                <TextField
+                  label={t('editor.weight')}
+                  type="number"
+                  value={assignmentWeight}
+                  onChange={(e) => setAssignmentWeight(e.target.value)}
+                  inputProps={{ min: 1, step: 1 }}
+                  sx={{ width: 120 }}
+                />
+              )}
+            </Box>
+            {assignmentMode === 'weighted' && (
+              <Typography variant="caption" color="text.secondary" sx={{ mt: -2 }}>
+                {t('editor.weightedHint')}
+              </Typography>
+            )}
+
             {/* Restaurant Selection */}
             <FormControl fullWidth>
-              <InputLabel>选择餐厅</InputLabel>
+              <InputLabel>{t('editor.selectRestaurant')}</InputLabel>
               <Select
                 value={selectedRestaurantId}
                 onChange={(e) => setSelectedRestaurantId(e.target.value)}
-                label="选择餐厅"
+                label={t('editor.selectRestaurant')}
               >
-                {restaurants.map((restaurant) => (
+                {manageableRestaurants.map((restaurant) => (
                   <MenuItem key={restaurant.id} value={restaurant.id}>
                     {restaurant.name}
                     {restaurant.address && `, ${restaurant.address}`}
@@ -1040,17 +1488,17 @@ export default function QuestionnaireEditorPage() {
             {/* Table Selection (only if scope is table) */}
             {assignmentScope === 'table' && selectedRestaurantId && (
               <FormControl fullWidth>
-                <InputLabel>选择餐桌</InputLabel>
+                <InputLabel>{t('editor.selectTable')}</InputLabel>
                 <Select
                   value={selectedTableId}
                   onChange={(e) => setSelectedTableId(e.target.value)}
-                  label="选择餐桌"
+                  label={t('editor.selectTable')}
                 >
                   {tables.map((table) => (
                     <MenuItem key={table.id} value={table.id}>
-                      餐桌 {table.table_number}
+                      {t('editor.table', { table: table.table_number })}
                       {!table.echo_qrcode && (
-                        <Chip label="无二维码" size="small" color="warning" sx={{ ml: 1 }} />
+                        <Chip label={t('editor.noQRCode')} size="small" color="warning" sx={{ ml: 1 }} />
                       )}
                     </MenuItem>
                   ))}
@@ -1060,7 +1508,7 @@ export default function QuestionnaireEditorPage() {
           </Box>
         </DialogContent>
         <DialogActions>
-          <Button onClick={handleCloseAssignment}>取消</Button>
+          <Button onClick={handleCloseAssignment}>{t('common.cancel')}</Button>
           <Button
             onClick={handleAssignQuestionnaire}
             variant="contained"
@@ -1070,11 +1518,46 @@ export default function QuestionnaireEditorPage() {
               (assignmentScope === 'table' && !selectedTableId)
             }
           >
-            {assigning ? '分配中...' : '确认分配'}
+            {assigning ? t('editor.assigning') : t('editor.confirmAssign')}
           </Button>
         </DialogActions>
       </Dialog>
 
+      {/* Publish Dialog */}
+      <PublishQuestionnaireDialog
+        open={publishingQuestionnaire !== null}
+        questionnaire={publishingQuestionnaire}
+        onClose={() => setPublishingQuestionnaire(null)}
+        onPublished={(version) => {
+          showNotification(t('editor.publishedVersion', { version: version.version_number }), 'success')
+          loadData()
+        }}
+      />
+
+      <TemplateLibraryDialog
+        open={templateLibraryOpen}
+        onClose={() => setTemplateLibraryOpen(false)}
+        onCreated={handleTemplateCreated}
+      />
+
+      <TranslationsDialog
+        open={translatingQuestionnaire !== null}
+        questionnaire={translatingQuestionnaire}
+        initialLocale={translationLocale}
+        onClose={() => setTranslatingQuestionnaire(null)}
+        onSaved={() => {
+          showNotification(t('editor.translationsSaved'), 'success')
+          loadData()
+        }}
+      />
+
+      <ImportQuestionnaireDialog
+        open={importDialogOpen}
+        questionnaires={questionnaires}
+        onClose={() => setImportDialogOpen(false)}
+        onImported={handleQuestionnaireImported}
+      />
+
       {/* Popup Toast Notification - rendered in Portal to body for proper z-index stacking */}
       <Portal>
         <Snackbar
@@ -0,0 +1,124 @@
+// Version: 1.2.0
+// Template Library Dialog - Start a questionnaire from a starter template instead of an empty one
+// Features: Template list with summary and questions, creates the questionnaire as an unpublished draft
+// v1.2.0: Texts come from the admin catalogs; template contents stay Chinese like other questionnaire content
+// v1.1.0: Question type labels come from the admin catalogs
+
+import { useState } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Card,
+  CardContent,
+  Chip,
+  Alert,
+  CircularProgress,
+  Stack,
+} from '@mui/material'
+import type { EchoQuestionnaire } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import { createQuestionnaireFromTemplate } from '../../services/questionnaireService'
+import { QUESTIONNAIRE_TEMPLATES } from './questionnaireTemplates'
+import type { QuestionnaireTemplate } from './questionnaireTemplates'
+
+interface TemplateLibraryDialogProps {
+  open: boolean
+  onClose: () => void
+  onCreated: (questionnaire: EchoQuestionnaire) => void
+}
+
+export default function TemplateLibraryDialog({ open, onClose, onCreated }: TemplateLibraryDialogProps) {
+  const { t, translateError } = useI18n()
+  const [creatingKey, setCreatingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleClose = () => {
+    if (creatingKey) return
+    setError(null)
+    onClose()
+  }
+
+  const handleUseTemplate = async (template: QuestionnaireTemplate) => {
+    try {
+      setCreatingKey(template.key)
+      setError(null)
+      const questionnaire = await createQuestionnaireFromTemplate(template)
+      onCreated(questionnaire)
+      onClose()
+    } catch (err) {
+      setError(translateError(err, 'templateLibrary.createFailed'))
+    } finally {
+      setCreatingKey(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>{t('templateLibrary.title')}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <Typography variant="body2" color="text.secondary">
+            {t('templateLibrary.intro')}
+          </Typography>
+
+          <Stack spacing={2}>
+            {QUESTIONNAIRE_TEMPLATES.map((template) => (
+              <Card key={template.key} variant="outlined">
+                <CardContent>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2 }}>
+                    <Box>
+                      <Typography variant="subtitle1">{template.title}</Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {template.summary}
+                      </Typography>
+                    </Box>
+                    <Button
+                      variant="contained"
+                      size="small"
+                      onClick={() => handleUseTemplate(template)}
+                      disabled={creatingKey !== null}
+                      startIcon={creatingKey === template.key ? <CircularProgress size={16} /> : undefined}
+                      sx={{ flexShrink: 0 }}
+                    >
+                      {t('templateLibrary.use')}
+                    </Button>
+                  </Box>
+
+                  <Box component="ol" sx={{ mt: 1.5, mb: 0, pl: 3 }}>
+                    {template.questions.map((question) => (
+                      <Typography component="li" variant="body2" key={question.id} sx={{ py: 0.25 }}>
+                        {question.text}
+                        <Chip
+                          label={t(`questionTypes.${question.type}`)}
+                          size="small"
+                          variant="outlined"
+                          sx={{ height: 20, ml: 1 }}
+                        />
+                      </Typography>
+                    ))}
+                  </Box>
+                </CardContent>
+              </Card>
+            ))}
+          </Stack>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={creatingKey !== null}>
+          {t('common.close')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,243 @@
+// Version: 1.1.0
+// Translations Dialog - Translate a questionnaire's title, description, questions and options per language
+// Features: One tab per language with the number of missing translations, Chinese text next to each field,
+//           "missing only" filter; saves the draft (customers see translations after publishing)
+// v1.1.0: Texts come from the admin catalogs
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Tabs,
+  Tab,
+  Chip,
+  Alert,
+  CircularProgress,
+  FormControlLabel,
+  Switch,
+  Stack,
+} from '@mui/material'
+import type { EchoQuestionnaire, Question, TranslationLocale } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import type { MessageKey } from '../../i18n/messages'
+import { updateQuestionnaire } from '../../services/questionnaireService'
+import {
+  CONTENT_LOCALE_LABELS,
+  TRANSLATION_LOCALES,
+  getMissingTranslations,
+  getTranslatableTexts,
+  setTranslation,
+} from '../../utils/contentLocale'
+import type { TranslatableText } from '../../utils/contentLocale'
+
+interface TranslationsDialogProps {
+  open: boolean
+  questionnaire: EchoQuestionnaire | null
+  initialLocale?: TranslationLocale
+  onClose: () => void
+  onSaved: () => void
+}
+
+// Translations being edited - the translated fields of the questionnaire draft
+type TranslationDraft = Pick<EchoQuestionnaire, 'title' | 'description' | 'title_translations' | 'description_translations'> & {
+  questions: Question[]
+}
+
+const KIND_LABELS: Record<'title' | 'description', MessageKey> = {
+  title: 'translationsDialog.title',
+  description: 'translationsDialog.description',
+}
+
+export default function TranslationsDialog({
+  open,
+  questionnaire,
+  initialLocale,
+  onClose,
+  onSaved,
+}: TranslationsDialogProps) {
+  const { t, translateError } = useI18n()
+  const [locale, setLocale] = useState<TranslationLocale>(TRANSLATION_LOCALES[0])
+  const [draft, setDraft] = useState<TranslationDraft | null>(null)
+  const [missingOnly, setMissingOnly] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open && questionnaire) {
+      setLocale(initialLocale || TRANSLATION_LOCALES[0])
+      setDraft({
+        title: questionnaire.title,
+        description: questionnaire.description,
+        title_translations: questionnaire.title_translations,
+        description_translations: questionnaire.description_translations,
+        questions: [...questionnaire.questions].sort((a, b) => a.order - b.order),
+      })
+      setMissingOnly(false)
+      setError(null)
+    }
+  }, [open, questionnaire, initialLocale])
+
+  const updateTranslation = (entry: TranslatableText, text: string) => {
+    if (!draft) return
+
+    switch (entry.kind) {
+      case 'title':
+        setDraft({ ...draft, title_translations: setTranslation(draft.title_translations, locale, text) })
+        return
+      case 'description':
+        setDraft({ ...draft, description_translations: setTranslation(draft.description_translations, locale, text) })
+        return
+      case 'question':
+      case 'option':
+        setDraft({
+          ...draft,
+          questions: draft.questions.map((question) => {
+            if (question.id !== entry.question_id) return question
+            if (entry.kind === 'question') {
+              return { ...question, text_translations: setTranslation(question.text_translations, locale, text) }
+            }
+            return {
+              ...question,
+              options: question.options?.map((option, index) =>
+                index === entry.option_index
+                  ? { ...option, label_translations: setTranslation(option.label_translations, locale, text) }
+                  : option
+              ),
+            }
+          }),
+        })
+        return
+    }
+  }
+
+  const handleSave = async () => {
+    if (!questionnaire || !draft) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      await updateQuestionnaire(questionnaire.id, {
+        title_translations: draft.title_translations || {},
+        description_translations: draft.description_translations || {},
+        questions: draft.questions,
+      })
+      onSaved()
+      onClose()
+    } catch (err) {
+      setError(translateError(err, 'translationsDialog.saveFailed'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // "Missing only" follows what was missing when the dialog opened, so a field does not vanish while typing
+  const initiallyMissing = new Set(
+    questionnaire ? getMissingTranslations(questionnaire, locale).map((entry) => entry.key) : []
+  )
+  const entries = draft
+    ? getTranslatableTexts(draft).filter((entry) => !missingOnly || initiallyMissing.has(entry.key))
+    : []
+  const questionNumbers = new Map(draft?.questions.map((question, index) => [question.id, index + 1]) || [])
+
+  const getEntryLabel = (entry: TranslatableText) => {
+    const number = questionNumbers.get(entry.question_id!) ?? 0
+    if (entry.kind === 'question') return t('translationsDialog.question', { number })
+    if (entry.kind === 'option') return t('translationsDialog.option', { number, option: entry.option_index! + 1 })
+    return t(KIND_LABELS[entry.kind])
+  }
+
+  return (
+    <Dialog open={open} onClose={() => !saving && onClose()} maxWidth="md" fullWidth>
+      <DialogTitle>{t('translationsDialog.dialogTitle', { title: questionnaire?.title ?? '' })}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <Typography variant="body2" color="text.secondary">
+            {t('translationsDialog.intro')}
+          </Typography>
+
+          <Tabs value={locale} onChange={(_, value: TranslationLocale) => setLocale(value)}>
+            {TRANSLATION_LOCALES.map((translationLocale) => {
+              const missingCount = draft ? getMissingTranslations(draft, translationLocale).length : 0
+              return (
+                <Tab
+                  key={translationLocale}
+                  value={translationLocale}
+                  label={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      {CONTENT_LOCALE_LABELS[translationLocale]}
+                      <Chip
+                        label={
+                          missingCount > 0
+                            ? t('translationsDialog.missing', { count: missingCount })
+                            : t('translationsDialog.complete')
+                        }
+                        color={missingCount > 0 ? 'warning' : 'success'}
+                        size="small"
+                        sx={{ height: 20 }}
+                      />
+                    </Box>
+                  }
+                />
+              )
+            })}
+          </Tabs>
+
+          <FormControlLabel
+            control={<Switch checked={missingOnly} onChange={(e) => setMissingOnly(e.target.checked)} />}
+            label={t('translationsDialog.missingOnly')}
+          />
+
+          {entries.length === 0 ? (
+            <Alert severity="success">{t('translationsDialog.allTranslated')}</Alert>
+          ) : (
+            <Stack spacing={2}>
+              {entries.map((entry) => (
+                <Box key={entry.key} sx={{ pl: entry.kind === 'option' ? 4 : 0 }}>
+                  <Typography variant="caption" color="text.secondary">
+                    {getEntryLabel(entry)}
+                  </Typography>
+                  <Typography variant="body2" sx={{ mb: 0.5 }}>
+                    {entry.text}
+                  </Typography>
+                  <TextField
+                    value={entry.translations?.[locale] || ''}
+                    onChange={(e) => updateTranslation(entry, e.target.value)}
+                    placeholder={t('translationsDialog.placeholder', { language: CONTENT_LOCALE_LABELS[locale] })}
+                    size="small"
+                    multiline={entry.kind === 'description'}
+                    fullWidth
+                  />
+                </Box>
+              ))}
+            </Stack>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={saving || !draft}
+          startIcon={saving ? <CircularProgress size={20} /> : undefined}
+        >
+          {saving ? t('common.saving') : t('common.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
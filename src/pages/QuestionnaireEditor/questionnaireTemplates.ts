@@ -0,0 +1,156 @@
+// Version: 1.0.0
+// Starter questionnaires offered by the editor's template library
+// Question ids only need to be unique within a template - createQuestionnaireFromTemplate() gives every
+// question a fresh id. Each template must pass validateQuestions()
+
+import type { EchoQuestionnaire } from '../../types/database'
+
+export interface QuestionnaireTemplate extends Pick<EchoQuestionnaire, 'title' | 'description' | 'questions'> {
+  key: string
+  summary: string // One line shown in the template library
+}
+
+export const QUESTIONNAIRE_TEMPLATES: QuestionnaireTemplate[] = [
+  {
+    key: 'post_meal_satisfaction',
+    title: '用餐满意度调查',
+    description: '感谢您的光临！请花一分钟告诉我们这次用餐的感受。',
+    summary: '整体评分、菜品、服务和环境，低分时追问原因',
+    questions: [
+      {
+        id: 'overall',
+        text: '您对本次用餐的整体满意度如何？',
+        type: 'rating',
+        rating_style: 'emoji',
+        order: 1,
+        branches: [{ min_score: 1, max_score: 2, next_question_id: 'low_reason' }],
+        default_next_question_id: 'food',
+      },
+      {
+        id: 'low_reason',
+        text: '很抱歉没能让您满意，主要是哪些方面？',
+        type: 'multi_select',
+        order: 2,
+        options: [
+          { label: '菜品口味', value: 'food' },
+          { label: '上菜速度', value: 'speed' },
+          { label: '服务态度', value: 'service' },
+          { label: '环境卫生', value: 'hygiene' },
+          { label: '价格', value: 'price' },
+        ],
+        min_selections: 1,
+      },
+      { id: 'food', text: '您对菜品口味的评价是？', type: 'rating', rating_style: 'star', order: 3 },
+      { id: 'service', text: '您对服务的评价是？', type: 'rating', rating_style: 'star', order: 4 },
+      { id: 'ambience', text: '您对用餐环境的评价是？', type: 'rating', rating_style: 'star', order: 5 },
+      { id: 'comment', text: '还有什么想对我们说的吗？', type: 'text_input', order: 6 },
+    ],
+  },
+  {
+    key: 'service_speed',
+    title: '上菜速度调查',
+    description: '帮助我们了解您等待上菜的体验。',
+    summary: '等待时长、是否可以接受，以及最慢的环节',
+    questions: [
+      {
+        id: 'wait_minutes',
+        text: '从点餐到第一道菜上桌，您大约等了多少分钟？',
+        type: 'numeric',
+        min: 0,
+        max: 120,
+        order: 1,
+      },
+      {
+        id: 'acceptable',
+        text: '这个等待时间您可以接受吗？',
+        type: 'multiple_choice',
+        order: 2,
+        options: [
+          { label: '很快，超出预期', value: 'fast' },
+          { label: '可以接受', value: 'ok' },
+          { label: '有点慢', value: 'slow' },
+          { label: '太慢了', value: 'too_slow' },
+        ],
+        branches: [
+          { option_value: 'fast', next_question_id: 'comment' },
+          { option_value: 'ok', next_question_id: 'comment' },
+        ],
+      },
+      {
+        id: 'slowest_step',
+        text: '您觉得哪个环节最慢？',
+        type: 'multiple_choice',
+        order: 3,
+        options: [
+          { label: '入座等位', value: 'seating' },
+          { label: '点餐', value: 'ordering' },
+          { label: '上菜', value: 'serving' },
+          { label: '结账', value: 'checkout' },
+        ],
+      },
+      { id: 'comment', text: '关于速度，您还有什么建议？', type: 'text_input', order: 4 },
+    ],
+  },
+  {
+    key: 'hygiene',
+    title: '卫生状况调查',
+    description: '您的反馈帮助我们保持干净整洁的用餐环境。',
+    summary: '餐桌、餐具和洗手间卫生评分，发现问题时可具体说明',
+    questions: [
+      { id: 'table', text: '您对餐桌和座椅的清洁程度满意吗？', type: 'rating', rating_style: 'star', order: 1 },
+      { id: 'tableware', text: '您对餐具的清洁程度满意吗？', type: 'rating', rating_style: 'star', order: 2 },
+      { id: 'restroom', text: '您对洗手间的卫生状况满意吗？', type: 'rating', rating_style: 'star', order: 3 },
+      {
+        id: 'issues',
+        text: '您是否注意到以下卫生问题？',
+        type: 'multi_select',
+        order: 4,
+        options: [
+          { label: '没有发现问题', value: 'none' },
+          { label: '餐具有污渍', value: 'tableware' },
+          { label: '餐桌未擦干净', value: 'table' },
+          { label: '地面脏乱', value: 'floor' },
+          { label: '有异味', value: 'smell' },
+          { label: '发现蚊虫', value: 'pests' },
+        ],
+        min_selections: 1,
+        branches: [{ option_value: 'none', next_question_id: 'end' }],
+      },
+      { id: 'details', text: '请具体描述您遇到的问题，我们会尽快处理。', type: 'text_input', order: 5 },
+    ],
+  },
+  {
+    key: 'nps',
+    title: '推荐意愿调查（NPS）',
+    description: '只需两个问题，告诉我们您是否愿意推荐本店。',
+    summary: 'NPS 评分，并根据评分追问原因',
+    questions: [
+      {
+        id: 'nps',
+        text: '您有多大可能向朋友或家人推荐我们？',
+        type: 'nps',
+        order: 1,
+        branches: [
+          { min_score: 0, max_score: 6, next_question_id: 'detractor_reason' },
+          { min_score: 7, max_score: 8, next_question_id: 'passive_reason' },
+        ],
+        default_next_question_id: 'promoter_reason',
+      },
+      {
+        id: 'detractor_reason',
+        text: '我们哪些方面做得不够好？',
+        type: 'text_input',
+        order: 2,
+        default_next_question_id: 'end',
+      },
+      {
+        id: 'passive_reason',
+        text: '我们做出哪些改进，会让您更愿意推荐？',
+        type: 'text_input',
+        order: 3,
+        default_next_question_id: 'end',
+      },
+      { id: 'promoter_reason', text: '您最喜欢我们的哪一点？', type: 'text_input', order: 4 },
+    ],
+  },
+]
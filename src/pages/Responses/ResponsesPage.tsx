@@ -0,0 +1,408 @@
+// Version: 1.3.0
+// Responses Page - Browse individual customer responses from echo_answers
+// Features: Paginated table with restaurant/table/questionnaire/date filters (Beijing time),
+//           search over text input answers, CSV/XLSX export of the filtered set
+// v1.3.0: Headings, filters, table headers, export file name and empty states come from the admin catalogs
+// v1.2.0: Export column headers come from the admin catalogs
+// v1.1.0: Service errors are shown through translateError
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Alert,
+  CircularProgress,
+  Chip,
+  Button,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TablePagination,
+  InputAdornment,
+  Stack,
+} from '@mui/material'
+import { FilterAltOff, Search, FileDownload } from '@mui/icons-material'
+import type { Restaurant, EchoQuestionnaire, TableWithQRCode } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import { getAllRestaurants } from '../../services/restaurantService'
+import { getTablesWithQRCodes } from '../../services/qrcodeService'
+import { getAllQuestionnaires } from '../../services/questionnaireService'
+import {
+  getResponsePage,
+  getResponses,
+  getResponseAnswerItems,
+  buildResponseExportTable,
+  formatBeijingDateTime,
+  toBeijingDateKey,
+  RESPONSE_EXPORT_BASE_COLUMNS,
+} from '../../services/answerService'
+import type { AnswerResponse, ResponseFilters } from '../../services/answerService'
+import { downloadCsv, downloadXlsx } from '../../utils/spreadsheet'
+
+// Filter form state - empty strings mean "no filter"
+type FilterState = Required<ResponseFilters>
+
+const EMPTY_FILTERS: FilterState = {
+  restaurantId: '',
+  tableId: '',
+  questionnaireId: '',
+  startDate: '',
+  endDate: '',
+  search: '',
+}
+
+const ROWS_PER_PAGE_OPTIONS = [25, 50, 100]
+
+// Delay before a typed search term is applied, to avoid a query per keystroke
+const SEARCH_DEBOUNCE_MS = 400
+
+export default function ResponsesPage() {
+  const { t, translateError } = useI18n()
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([])
+  const [questionnaires, setQuestionnaires] = useState<EchoQuestionnaire[]>([])
+  const [tables, setTables] = useState<TableWithQRCode[]>([])
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS)
+  const [searchInput, setSearchInput] = useState('')
+  const [page, setPage] = useState(0)
+  const [rowsPerPage, setRowsPerPage] = useState(ROWS_PER_PAGE_OPTIONS[0])
+  const [responses, setResponses] = useState<AnswerResponse[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [exporting, setExporting] = useState<'csv' | 'xlsx' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load filter options on mount
+  useEffect(() => {
+    loadFilterOptions()
+  }, [])
+
+  // Load tables when restaurant changes
+  useEffect(() => {
+    if (filters.restaurantId) {
+      loadTables(filters.restaurantId)
+    } else {
+      setTables([])
+    }
+  }, [filters.restaurantId])
+
+  // Apply the search term once the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (searchInput !== filters.search) {
+        updateFilter({ search: searchInput })
+      }
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  // Reload the current page whenever filters or pagination change
+  useEffect(() => {
+    loadResponses()
+  }, [filters, page, rowsPerPage])
+
+  const loadFilterOptions = async () => {
+    try {
+      const [restaurantsData, questionnairesData] = await Promise.all([
+        getAllRestaurants(),
+        getAllQuestionnaires(),
+      ])
+      setRestaurants(restaurantsData)
+      setQuestionnaires(questionnairesData)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    }
+  }
+
+  const loadTables = async (restaurantId: string) => {
+    try {
+      const data = await getTablesWithQRCodes(restaurantId)
+      setTables(data)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    }
+  }
+
+  const getActiveFilters = (): ResponseFilters => ({
+    restaurantId: filters.restaurantId || undefined,
+    tableId: filters.tableId || undefined,
+    questionnaireId: filters.questionnaireId || undefined,
+    startDate: filters.startDate || undefined,
+    endDate: filters.endDate || undefined,
+    search: filters.search.trim() || undefined,
+  })
+
+  const loadResponses = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await getResponsePage(getActiveFilters(), page, rowsPerPage)
+      setResponses(data.rows)
+      setTotal(data.total)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateFilter = (updates: Partial<FilterState>) => {
+    setFilters((prev) => ({ ...prev, ...updates }))
+    setPage(0)
+  }
+
+  const handleClearFilters = () => {
+    setFilters(EMPTY_FILTERS)
+    setSearchInput('')
+    setPage(0)
+  }
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    try {
+      setExporting(format)
+      setError(null)
+      const data = await getResponses(getActiveFilters())
+      const { questionHeaders, rows } = buildResponseExportTable(data)
+      const headers = [
+        ...RESPONSE_EXPORT_BASE_COLUMNS.map((column) => t(`answerLabels.exportColumns.${column}`)),
+        ...questionHeaders,
+      ]
+      const date = toBeijingDateKey(new Date().toISOString())
+      const filename = `${t('responses.exportFileName', { date })}.${format}`
+
+      if (format === 'csv') {
+        downloadCsv([headers, ...rows], filename)
+      } else {
+        downloadXlsx([headers, ...rows], filename, t('responses.exportSheetName'))
+      }
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <>
+      {/* Header */}
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          {t('responses.title')}
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          {t('responses.subtitle')}
+        </Typography>
+      </Box>
+
+      {/* Filters */}
+      <Card sx={{ mb: 4 }}>
+        <CardContent>
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={4}>
+              <FormControl fullWidth>
+                <InputLabel>{t('answerFilters.restaurant')}</InputLabel>
+                <Select
+                  value={filters.restaurantId}
+                  onChange={(e) => updateFilter({ restaurantId: e.target.value, tableId: '' })}
+                  label={t('answerFilters.restaurant')}
+                >
+                  <MenuItem value="">{t('answerFilters.allRestaurants')}</MenuItem>
+                  {restaurants.map((restaurant) => (
+                    <MenuItem key={restaurant.id} value={restaurant.id}>
+                      {restaurant.name}{restaurant.address && `, ${restaurant.address}`}{restaurant.city && `, ${restaurant.city}`}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <FormControl fullWidth disabled={!filters.restaurantId}>
+                <InputLabel>{t('answerFilters.table')}</InputLabel>
+                <Select
+                  value={filters.tableId}
+                  onChange={(e) => updateFilter({ tableId: e.target.value })}
+                  label={t('answerFilters.table')}
+                >
+                  <MenuItem value="">{t('answerFilters.allTables')}</MenuItem>
+                  {tables.map((table) => (
+                    <MenuItem key={table.id} value={table.id}>
+                      {t('answerFilters.tableNumber', { number: table.table_number })}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <FormControl fullWidth>
+                <InputLabel>{t('answerFilters.questionnaire')}</InputLabel>
+                <Select
+                  value={filters.questionnaireId}
+                  onChange={(e) => updateFilter({ questionnaireId: e.target.value })}
+                  label={t('answerFilters.questionnaire')}
+                >
+                  <MenuItem value="">{t('answerFilters.allQuestionnaires')}</MenuItem>
+                  {questionnaires.map((questionnaire) => (
+                    <MenuItem key={questionnaire.id} value={questionnaire.id}>
+                      {questionnaire.title}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={6} md={3}>
+              <TextField
+                label={t('answerFilters.startDate')}
+                type="date"
+                fullWidth
+                value={filters.startDate}
+                onChange={(e) => updateFilter({ startDate: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6} md={3}>
+              <TextField
+                label={t('answerFilters.endDate')}
+                type="date"
+                fullWidth
+                value={filters.endDate}
+                onChange={(e) => updateFilter({ endDate: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid item xs={12} md={4}>
+              <TextField
+                label={t('responses.search')}
+                placeholder={t('responses.searchPlaceholder')}
+                fullWidth
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <Search />
+                    </InputAdornment>
+                  ),
+                }}
+              />
+            </Grid>
+            <Grid item xs={12} md={2} sx={{ display: 'flex', alignItems: 'center' }}>
+              <Button startIcon={<FilterAltOff />} onClick={handleClearFilters}>
+                {t('answerFilters.clear')}
+              </Button>
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {/* Error Display */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2, flexWrap: 'wrap' }}>
+            <Chip label={t('responses.total', { count: total })} color="primary" />
+            <Stack direction="row" spacing={1}>
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={exporting === 'csv' ? <CircularProgress size={16} /> : <FileDownload />}
+                onClick={() => handleExport('csv')}
+                disabled={total === 0 || exporting !== null}
+              >
+                {t('responses.exportCsv')}
+              </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={exporting === 'xlsx' ? <CircularProgress size={16} /> : <FileDownload />}
+                onClick={() => handleExport('xlsx')}
+                disabled={total === 0 || exporting !== null}
+              >
+                {t('responses.exportExcel')}
+              </Button>
+            </Stack>
+          </Box>
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+              <CircularProgress />
+            </Box>
+          ) : responses.length === 0 ? (
+            <Alert severity="info">{t('responses.noResponses')}</Alert>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{t('responses.submittedAt')}</TableCell>
+                    <TableCell>{t('responses.restaurant')}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{t('responses.table')}</TableCell>
+                    <TableCell>{t('responses.questionnaire')}</TableCell>
+                    <TableCell>{t('responses.answers')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {responses.map((response) => (
+                    <TableRow key={response.id} sx={{ verticalAlign: 'top' }}>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatBeijingDateTime(response.submitted_at)}</TableCell>
+                      <TableCell>{response.echo_table?.roleplay_restaurants?.name || '—'}</TableCell>
+                      <TableCell>{response.echo_table?.table_number || '—'}</TableCell>
+                      <TableCell>{response.echo_questionnaire?.title || '—'}</TableCell>
+                      <TableCell>
+                        <Stack spacing={0.5}>
+                          {getResponseAnswerItems(response).map((item) => (
+                            <Typography key={item.question_id} variant="body2">
+                              <Typography component="span" variant="body2" color="text.secondary">
+                                {t('responses.questionLabel', { question: item.question_text })}
+                              </Typography>
+                              {item.type === 'text_input' ? (
+                                <Box component="span" sx={{ whiteSpace: 'pre-wrap' }}>
+                                  {item.value}
+                                </Box>
+                              ) : (
+                                <strong>{item.value}</strong>
+                              )}
+                            </Typography>
+                          ))}
+                        </Stack>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          <TablePagination
+            component="div"
+            count={total}
+            page={page}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10))
+              setPage(0)
+            }}
+            rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+            labelRowsPerPage={t('responses.rowsPerPage')}
+            labelDisplayedRows={({ from, to, count }) => `${from}-${to} / ${count}`}
+          />
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,220 @@
+// Version: 1.3.0
+// Restaurant Dialog - Create a restaurant, or edit its details and Echo settings
+// Features: Name / address / city (super admins only), timezone, active flag (inactive restaurants show
+//           customers a "not in service" page)
+// v1.3.0: Texts and time zone names come from the admin catalogs
+// v1.2.0: Service errors are shown through translateError
+// v1.1.0: Default questionnaire moved to the default assignments dialog (questionnaires plus weights)
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  FormHelperText,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  Alert,
+  CircularProgress,
+} from '@mui/material'
+import type { RestaurantWithSettings } from '../../types/database'
+import {
+  DEFAULT_RESTAURANT_TIMEZONE,
+  createRestaurant,
+  saveRestaurantSettings,
+  updateRestaurant,
+} from '../../services/restaurantService'
+import { useI18n } from '../../contexts/I18nContext'
+import type { RestaurantSettingsInput } from '../../services/restaurantService'
+import { TIMEZONE_OPTIONS } from './timezoneOptions'
+
+interface RestaurantDialogProps {
+  open: boolean
+  restaurant: RestaurantWithSettings | null // null = create a new restaurant
+  canEditDetails: boolean // Name, address and city (super admins only)
+  onClose: () => void
+  onSaved: (message: string) => void
+}
+
+export default function RestaurantDialog({
+  open,
+  restaurant,
+  canEditDetails,
+  onClose,
+  onSaved,
+}: RestaurantDialogProps) {
+  const { t, translateError } = useI18n()
+  const [name, setName] = useState('')
+  const [address, setAddress] = useState('')
+  const [city, setCity] = useState('')
+  const [settings, setSettings] = useState<RestaurantSettingsInput>({
+    timezone: DEFAULT_RESTAURANT_TIMEZONE,
+    is_active: true,
+  })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setName(restaurant?.name || '')
+      setAddress(restaurant?.address || '')
+      setCity(restaurant?.city || '')
+      setSettings({
+        timezone: restaurant?.settings.timezone || DEFAULT_RESTAURANT_TIMEZONE,
+        is_active: restaurant?.settings.is_active ?? true,
+      })
+      setError(null)
+    }
+  }, [open, restaurant])
+
+  const timezoneOptions = TIMEZONE_OPTIONS.map((option) => ({
+    value: option.value,
+    label: `${t(option.label)} (${option.value})`,
+  }))
+  if (!timezoneOptions.some((option) => option.value === settings.timezone)) {
+    timezoneOptions.push({ value: settings.timezone, label: settings.timezone })
+  }
+
+  const detailsChanged =
+    !restaurant ||
+    name.trim() !== restaurant.name ||
+    address.trim() !== (restaurant.address || '') ||
+    city.trim() !== (restaurant.city || '')
+
+  const settingsChanged =
+    !restaurant ||
+    settings.timezone !== restaurant.settings.timezone ||
+    settings.is_active !== restaurant.settings.is_active
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+
+      let restaurantId = restaurant?.id
+      if (!restaurantId) {
+        const created = await createRestaurant({ name, address, city })
+        restaurantId = created.id
+      } else if (canEditDetails && detailsChanged) {
+        await updateRestaurant(restaurantId, { name, address, city })
+      }
+
+      if (settingsChanged) {
+        await saveRestaurantSettings(restaurantId, settings)
+      }
+
+      onSaved(t(restaurant ? 'restaurantDialog.saved' : 'restaurantDialog.created', { name: name.trim() }))
+      onClose()
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={() => !saving && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {restaurant ? t('restaurantDialog.editTitle', { name: restaurant.name }) : t('restaurantDialog.createTitle')}
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 3 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {/* Details - stored in the shared restaurant table */}
+          <Typography variant="subtitle2" color="text.secondary">
+            {t('restaurantDialog.details')}
+          </Typography>
+          <TextField
+            label={t('restaurantDialog.name')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={!canEditDetails}
+            required
+            autoFocus={!restaurant}
+            fullWidth
+          />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label={t('restaurantDialog.address')}
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              disabled={!canEditDetails}
+              fullWidth
+            />
+            <TextField
+              label={t('restaurantDialog.city')}
+              value={city}
+              onChange={(e) => setCity(e.target.value)}
+              disabled={!canEditDetails}
+              sx={{ width: 200 }}
+            />
+          </Box>
+          {!canEditDetails && (
+            <Typography variant="caption" color="text.secondary" sx={{ mt: -2 }}>
+              {t('restaurantDialog.detailsSuperAdminOnly')}
+            </Typography>
+          )}
+
+          {/* Echo settings */}
+          <Typography variant="subtitle2" color="text.secondary">
+            {t('restaurantDialog.settings')}
+          </Typography>
+          <FormControl fullWidth>
+            <InputLabel>{t('restaurantDialog.timezone')}</InputLabel>
+            <Select
+              value={settings.timezone}
+              onChange={(e) => setSettings({ ...settings, timezone: e.target.value })}
+              label={t('restaurantDialog.timezone')}
+            >
+              {timezoneOptions.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <Box>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={settings.is_active}
+                  onChange={(e) => setSettings({ ...settings, is_active: e.target.checked })}
+                />
+              }
+              label={settings.is_active ? t('restaurants.active') : t('restaurants.inactive')}
+            />
+            <FormHelperText>{t('restaurantDialog.inactiveHint')}</FormHelperText>
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={saving || !name.trim() || (!detailsChanged && !settingsChanged)}
+          startIcon={saving ? <CircularProgress size={20} /> : undefined}
+        >
+          {restaurant ? t('common.save') : t('restaurantDialog.create')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,241 @@
+// Version: 1.3.0
+// Restaurant Management Page - Onboard restaurants and edit their Echo settings without a database console
+// Features: Create restaurants and edit name / address / city (super admins), default questionnaires for new
+//           QR codes, timezone, active flag and QR code style per restaurant (managers of the restaurant)
+// v1.3.0: Texts and time zone names come from the admin catalogs
+// v1.2.0: Service errors are shown through translateError
+// v1.1.0: Default questionnaire became a default assignment set (questionnaires plus weights)
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Button,
+  Alert,
+  CircularProgress,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material'
+import { AddBusiness, Edit, Palette, Assignment } from '@mui/icons-material'
+import { useAuth } from '../../contexts/AuthContext'
+import { useI18n } from '../../contexts/I18nContext'
+import { getRestaurantsWithSettings } from '../../services/restaurantService'
+import { getAllQuestionnaires } from '../../services/questionnaireService'
+import { canEditRestaurantDetails, canManageRestaurant } from '../../utils/permissions'
+import { DEFAULT_QR_STYLE } from '../../utils/qrStyle'
+import { getSelectionPercentages } from '../../utils/weightedSelection'
+import type { DefaultAssignment, QuestionnaireWithVersion, RestaurantWithSettings } from '../../types/database'
+import RestaurantDialog from './RestaurantDialog'
+import { TIMEZONE_OPTIONS } from './timezoneOptions'
+import QRStyleDialog from '../QRCodeManagement/QRStyleDialog'
+import DefaultAssignmentsDialog from '../QRCodeManagement/DefaultAssignmentsDialog'
+
+export default function RestaurantManagementPage() {
+  const { t, translateError } = useI18n()
+  const { access } = useAuth()
+  const canEditDetails = canEditRestaurantDetails(access)
+
+  const [restaurants, setRestaurants] = useState<RestaurantWithSettings[]>([])
+  const [questionnaires, setQuestionnaires] = useState<QuestionnaireWithVersion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Create (restaurant = null) / edit dialog
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [restaurantToEdit, setRestaurantToEdit] = useState<RestaurantWithSettings | null>(null)
+
+  // QR code style dialog
+  const [styleRestaurant, setStyleRestaurant] = useState<RestaurantWithSettings | null>(null)
+
+  // Default questionnaires dialog
+  const [defaultsRestaurant, setDefaultsRestaurant] = useState<RestaurantWithSettings | null>(null)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const [restaurantsData, questionnairesData] = await Promise.all([
+        getRestaurantsWithSettings(),
+        getAllQuestionnaires(),
+      ])
+      setRestaurants(restaurantsData)
+      setQuestionnaires(questionnairesData)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleOpenDialog = (restaurant: RestaurantWithSettings | null) => {
+    setRestaurantToEdit(restaurant)
+    setDialogOpen(true)
+  }
+
+  const handleSaved = (message: string) => {
+    setError(null)
+    setSuccess(message)
+    loadData()
+  }
+
+  // "Title" for a single default questionnaire, "Title 50%、Title 50%" for an A/B split
+  const formatDefaultAssignments = (assignments: DefaultAssignment[] = []) => {
+    if (assignments.length === 0) return t('restaurants.notSet')
+    const percentages = getSelectionPercentages(assignments)
+    return assignments
+      .map((entry, index) => {
+        const title =
+          questionnaires.find((q) => q.id === entry.questionnaire_id)?.title || t('restaurants.deletedQuestionnaire')
+        return assignments.length > 1 ? `${title} ${percentages[index].toFixed(0)}%` : title
+      })
+      .join(t('restaurants.assignmentSeparator'))
+  }
+
+  const getTimezoneLabel = (timezone: string | undefined) => {
+    const option = TIMEZONE_OPTIONS.find((candidate) => candidate.value === timezone)
+    return option ? `${t(option.label)} (${option.value})` : timezone
+  }
+
+  return (
+    <>
+      {/* Header */}
+      <Box sx={{ mb: 4, display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+        <Box>
+          <Typography variant="h4" gutterBottom>
+            {t('restaurants.title')}
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            {t('restaurants.subtitle')}
+          </Typography>
+        </Box>
+        {canEditDetails && (
+          <Button variant="contained" startIcon={<AddBusiness />} onClick={() => handleOpenDialog(null)}>
+            {t('restaurants.create')}
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          {loading && restaurants.length === 0 ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+              <CircularProgress />
+            </Box>
+          ) : restaurants.length === 0 ? (
+            <Alert severity="info">{t('restaurants.empty')}</Alert>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('restaurants.restaurant')}</TableCell>
+                    <TableCell>{t('restaurants.address')}</TableCell>
+                    <TableCell>{t('restaurants.defaultQuestionnaires')}</TableCell>
+                    <TableCell>{t('restaurants.timezone')}</TableCell>
+                    <TableCell>{t('restaurants.status')}</TableCell>
+                    <TableCell align="right">{t('restaurants.actions')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {restaurants.map((restaurant) => {
+                    const canManage = canManageRestaurant(access, restaurant.id)
+
+                    return (
+                      <TableRow key={restaurant.id}>
+                        <TableCell>{restaurant.name}</TableCell>
+                        <TableCell>
+                          {[restaurant.address, restaurant.city].filter(Boolean).join(', ') || '—'}
+                        </TableCell>
+                        <TableCell>{formatDefaultAssignments(restaurant.settings.default_assignments)}</TableCell>
+                        <TableCell>{getTimezoneLabel(restaurant.settings.timezone)}</TableCell>
+                        <TableCell>
+                          {restaurant.settings.is_active ? (
+                            <Chip label={t('restaurants.active')} size="small" color="success" />
+                          ) : (
+                            <Chip label={t('restaurants.inactive')} size="small" />
+                          )}
+                        </TableCell>
+                        <TableCell align="right">
+                          {canManage && (
+                            <Box sx={{ display: 'inline-flex', gap: 1 }}>
+                              <Button size="small" startIcon={<Edit />} onClick={() => handleOpenDialog(restaurant)}>
+                                {t('common.edit')}
+                              </Button>
+                              <Button
+                                size="small"
+                                startIcon={<Assignment />}
+                                onClick={() => setDefaultsRestaurant(restaurant)}
+                              >
+                                {t('restaurants.defaultQuestionnaires')}
+                              </Button>
+                              <Button size="small" startIcon={<Palette />} onClick={() => setStyleRestaurant(restaurant)}>
+                                {t('restaurants.qrStyle')}
+                              </Button>
+                            </Box>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <RestaurantDialog
+        open={dialogOpen}
+        restaurant={restaurantToEdit}
+        canEditDetails={canEditDetails}
+        onClose={() => setDialogOpen(false)}
+        onSaved={handleSaved}
+      />
+
+      {/* Default Questionnaires Dialog */}
+      <DefaultAssignmentsDialog
+        open={defaultsRestaurant !== null}
+        restaurantId={defaultsRestaurant?.id || ''}
+        restaurantName={defaultsRestaurant?.name || ''}
+        assignments={defaultsRestaurant?.settings.default_assignments || []}
+        questionnaires={questionnaires}
+        onClose={() => setDefaultsRestaurant(null)}
+        onSaved={() => handleSaved(t('restaurants.defaultsSaved', { name: defaultsRestaurant?.name || '' }))}
+      />
+
+      {/* QR Code Style Dialog */}
+      <QRStyleDialog
+        open={styleRestaurant !== null}
+        restaurantId={styleRestaurant?.id || ''}
+        restaurantName={styleRestaurant?.name || ''}
+        style={styleRestaurant?.settings.qr_style || DEFAULT_QR_STYLE}
+        sampleValue={`${import.meta.env.VITE_BASE_URL || 'http://localhost:3000/q/'}preview`}
+        onClose={() => setStyleRestaurant(null)}
+        onSaved={() => handleSaved(t('restaurants.qrStyleSaved', { name: styleRestaurant?.name || '' }))}
+      />
+    </>
+  )
+}
@@ -0,0 +1,19 @@
+// Version: 1.1.0
+// Time zones offered for restaurants, shared by the restaurant list and the restaurant dialog
+// v1.1.0: Labels are admin catalog keys; pages show them with the zone id, e.g. "北京时间 (Asia/Shanghai)"
+
+import type { MessageKey } from '../../i18n/messages'
+
+// A saved zone outside this list is still shown by the dialog
+export const TIMEZONE_OPTIONS: Array<{ value: string; label: MessageKey }> = [
+  { value: 'Asia/Shanghai', label: 'restaurants.timezones.shanghai' },
+  { value: 'Asia/Hong_Kong', label: 'restaurants.timezones.hongKong' },
+  { value: 'Asia/Taipei', label: 'restaurants.timezones.taipei' },
+  { value: 'Asia/Singapore', label: 'restaurants.timezones.singapore' },
+  { value: 'Asia/Tokyo', label: 'restaurants.timezones.tokyo' },
+  { value: 'Asia/Seoul', label: 'restaurants.timezones.seoul' },
+  { value: 'Asia/Bangkok', label: 'restaurants.timezones.bangkok' },
+  { value: 'Europe/London', label: 'restaurants.timezones.london' },
+  { value: 'America/Los_Angeles', label: 'restaurants.timezones.losAngeles' },
+  { value: 'America/New_York', label: 'restaurants.timezones.newYork' },
+]
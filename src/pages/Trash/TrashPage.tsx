@@ -0,0 +1,282 @@
+// Version: 1.3.0
+// Trash Page - Deleted tables, QR codes and questionnaires, restorable within the retention window
+// Features: Type filter, days left before an item can no longer be restored, restore, permanent delete (super admins only)
+// v1.3.0: Texts come from the admin catalogs; dates are shown in the admin language
+// v1.2.0: Service errors are shown through translateError
+// v1.1.0: Lists only items of the user's restaurants; permanent delete is limited to super admins
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Button,
+  Alert,
+  CircularProgress,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material'
+import { RestoreFromTrash, DeleteForever, Warning } from '@mui/icons-material'
+import { useAuth } from '../../contexts/AuthContext'
+import { useI18n } from '../../contexts/I18nContext'
+import { isSuperAdmin } from '../../utils/permissions'
+import {
+  getTrashExpiry,
+  getTrashItems,
+  isRestorable,
+  purgeTrashItem,
+  restoreTrashItem,
+  TRASH_RETENTION_DAYS,
+} from '../../services/trashService'
+import type { TrashItem, TrashItemType } from '../../services/trashService'
+
+// Type filter order; labels and what a permanent delete removes are under trash.types / trash.purgeEffects
+const ITEM_TYPES: TrashItemType[] = ['table', 'qrcode', 'questionnaire']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export default function TrashPage() {
+  const { locale, t, tRich, translateError } = useI18n()
+  const { access } = useAuth()
+  // Permanent deletes are enforced by RLS; the button is only enabled for super admins to avoid a pointless error
+  const canPurge = isSuperAdmin(access)
+
+  const [items, setItems] = useState<TrashItem[]>([])
+  const [typeFilter, setTypeFilter] = useState<TrashItemType | 'all'>('all')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  // Permanent delete confirmation
+  const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null)
+  const [purging, setPurging] = useState(false)
+
+  useEffect(() => {
+    loadItems()
+  }, [])
+
+  const loadItems = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setItems(await getTrashItems())
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      setRestoringId(item.id)
+      setError(null)
+      setSuccess(null)
+      await restoreTrashItem(item)
+      setItems((prev) => prev.filter((candidate) => candidate.id !== item.id))
+      setSuccess(t('trash.restored', { type: t(`trash.types.${item.type}`), name: getItemName(item) }))
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const handlePurge = async () => {
+    if (!itemToPurge) return
+
+    try {
+      setPurging(true)
+      setError(null)
+      setSuccess(null)
+      await purgeTrashItem(itemToPurge)
+      setItems((prev) => prev.filter((candidate) => candidate.id !== itemToPurge.id))
+      setSuccess(t('trash.purged', { type: t(`trash.types.${itemToPurge.type}`), name: getItemName(itemToPurge) }))
+      setItemToPurge(null)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+      setItemToPurge(null)
+    } finally {
+      setPurging(false)
+    }
+  }
+
+  const getItemName = (item: TrashItem) => {
+    if (item.type === 'qrcode') {
+      return item.table_number ? t('trash.qrcodeName', { table: item.table_number }) : item.name
+    }
+    return item.type === 'table' ? t('trash.tableName', { table: item.name }) : item.name
+  }
+
+  const getDaysLeft = (item: TrashItem) => {
+    return Math.max(0, Math.ceil((getTrashExpiry(item.deleted_at).getTime() - Date.now()) / DAY_MS))
+  }
+
+  const visibleItems = typeFilter === 'all' ? items : items.filter((item) => item.type === typeFilter)
+
+  return (
+    <>
+      {/* Header */}
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          {t('trash.title')}
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          {t('trash.subtitle', { days: TRASH_RETENTION_DAYS })}
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+            <ToggleButtonGroup
+              value={typeFilter}
+              exclusive
+              onChange={(_, value) => value && setTypeFilter(value)}
+              size="small"
+            >
+              <ToggleButton value="all">{t('trash.all')}</ToggleButton>
+              {ITEM_TYPES.map((type) => (
+                <ToggleButton key={type} value={type}>
+                  {t(`trash.types.${type}`)}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <Chip label={t('trash.itemCount', { count: visibleItems.length })} />
+          </Box>
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+              <CircularProgress />
+            </Box>
+          ) : visibleItems.length === 0 ? (
+            <Alert severity="info">{t('trash.empty')}</Alert>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('trash.type')}</TableCell>
+                    <TableCell>{t('trash.name')}</TableCell>
+                    <TableCell>{t('trash.restaurant')}</TableCell>
+                    <TableCell>{t('trash.deletedAt')}</TableCell>
+                    <TableCell>{t('trash.daysLeft')}</TableCell>
+                    <TableCell align="right">{t('trash.actions')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {visibleItems.map((item) => {
+                    const restorable = isRestorable(item)
+
+                    return (
+                      <TableRow key={`${item.type}-${item.id}`}>
+                        <TableCell>
+                          <Chip label={t(`trash.types.${item.type}`)} size="small" />
+                        </TableCell>
+                        <TableCell>{getItemName(item)}</TableCell>
+                        <TableCell>{item.restaurant_name || '—'}</TableCell>
+                        <TableCell>{new Date(item.deleted_at).toLocaleString(locale)}</TableCell>
+                        <TableCell>
+                          {restorable ? (
+                            t('trash.days', { count: getDaysLeft(item) })
+                          ) : (
+                            <Chip label={t('trash.expired')} size="small" color="default" />
+                          )}
+                        </TableCell>
+                        <TableCell align="right">
+                          <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                            <Button
+                              size="small"
+                              startIcon={
+                                restoringId === item.id ? <CircularProgress size={16} /> : <RestoreFromTrash />
+                              }
+                              onClick={() => handleRestore(item)}
+                              disabled={!restorable || restoringId !== null}
+                            >
+                              {t('trash.restore')}
+                            </Button>
+                            <Tooltip title={canPurge ? '' : t('trash.purgeSuperAdminOnly')}>
+                              <span>
+                                <Button
+                                  size="small"
+                                  color="error"
+                                  startIcon={<DeleteForever />}
+                                  onClick={() => setItemToPurge(item)}
+                                  disabled={!canPurge}
+                                >
+                                  {t('trash.purge')}
+                                </Button>
+                              </span>
+                            </Tooltip>
+                          </Box>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Permanent Delete Confirmation Dialog */}
+      <Dialog open={itemToPurge !== null} onClose={() => !purging && setItemToPurge(null)} maxWidth="sm" fullWidth>
+        <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Warning color="error" />
+          {t('trash.purgeTitle')}
+        </DialogTitle>
+        <DialogContent>
+          <Alert severity="error" sx={{ mb: 2 }}>
+            <strong>{t('trash.purgeWarning')}</strong>
+          </Alert>
+          <Typography variant="body1" paragraph>
+            {tRich('trash.purgeIntro', { name: <strong>{itemToPurge && getItemName(itemToPurge)}</strong> })}
+          </Typography>
+          <Typography variant="body2" color="error.main" fontWeight="bold">
+            {itemToPurge && t('trash.purgeEffectsIntro', { effects: t(`trash.purgeEffects.${itemToPurge.type}`) })}
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setItemToPurge(null)} disabled={purging}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={handlePurge}
+            variant="contained"
+            color="error"
+            disabled={purging}
+            startIcon={purging ? <CircularProgress size={20} /> : <DeleteForever />}
+          >
+            {purging ? t('trash.purging') : t('trash.confirmPurge')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
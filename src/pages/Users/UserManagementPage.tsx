@@ -0,0 +1,317 @@
+// Version: 1.3.0
+// User Management Page - Admin accounts, their roles and restaurants, and pending invitations (super admins only)
+// Features: Invite by email, edit role and restaurants, deactivate / reactivate accounts, last sign-in,
+//           resend or revoke pending invitations
+// v1.3.0: Texts come from the admin catalogs; dates are shown in the admin language
+// v1.2.0: Role labels come from the admin catalogs
+// v1.1.0: Service errors are shown through translateError
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Button,
+  Alert,
+  CircularProgress,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Tooltip,
+} from '@mui/material'
+import { PersonAdd, Edit, Block, CheckCircle, Send, Close } from '@mui/icons-material'
+import { useAuth } from '../../contexts/AuthContext'
+import { useI18n } from '../../contexts/I18nContext'
+import { getAllRestaurants } from '../../services/restaurantService'
+import {
+  getAdminUsers,
+  getPendingInvitations,
+  resendInvitation,
+  revokeInvitation,
+  setUserDeactivated,
+} from '../../services/userService'
+import type { AdminUser, EchoInvitation, Restaurant, UserRole } from '../../types/database'
+import UserRoleDialog from './UserRoleDialog'
+
+export default function UserManagementPage() {
+  const { locale, t, translateError } = useI18n()
+  const { user: currentUser } = useAuth()
+
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [invitations, setInvitations] = useState<EchoInvitation[]>([])
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  // ID of the user or invitation an action is running for
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  // Invite (user = null) / edit role dialog
+  const [roleDialogOpen, setRoleDialogOpen] = useState(false)
+  const [userToEdit, setUserToEdit] = useState<AdminUser | null>(null)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const [usersData, invitationsData, restaurantsData] = await Promise.all([
+        getAdminUsers(),
+        getPendingInvitations(),
+        getAllRestaurants(),
+      ])
+      setUsers(usersData)
+      setInvitations(invitationsData)
+      setRestaurants(restaurantsData)
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runAction = async (id: string, action: () => Promise<void>, message: string) => {
+    try {
+      setBusyId(id)
+      setError(null)
+      setSuccess(null)
+      await action()
+      setSuccess(message)
+      await loadData()
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleToggleDeactivated = (user: AdminUser) => {
+    const deactivate = !user.deactivated_at
+    runAction(
+      user.user_id,
+      () => setUserDeactivated(user.user_id, deactivate),
+      t(deactivate ? 'users.deactivatedMessage' : 'users.reactivatedMessage', { email: user.email })
+    )
+  }
+
+  const handleResend = (invitation: EchoInvitation) => {
+    runAction(invitation.id, () => resendInvitation(invitation), t('users.resent', { email: invitation.email }))
+  }
+
+  const handleRevoke = (invitation: EchoInvitation) => {
+    if (!confirm(t('users.confirmRevoke', { email: invitation.email }))) return
+    runAction(invitation.id, () => revokeInvitation(invitation.id), t('users.revoked', { email: invitation.email }))
+  }
+
+  const handleOpenRoleDialog = (user: AdminUser | null) => {
+    setUserToEdit(user)
+    setRoleDialogOpen(true)
+  }
+
+  const handleRoleSaved = (message: string) => {
+    setError(null)
+    setSuccess(message)
+    loadData()
+  }
+
+  const formatRestaurants = (role: UserRole, restaurantIds: string[]) => {
+    if (role === 'super_admin') return t('users.allRestaurants')
+    if (restaurantIds.length === 0) return role === 'analyst' ? t('users.allRestaurants') : '—'
+    return restaurantIds
+      .map((id) => restaurants.find((restaurant) => restaurant.id === id)?.name || t('users.unknownRestaurant'))
+      .join(t('users.restaurantSeparator'))
+  }
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleString(locale) : t('users.neverSignedIn')
+
+  return (
+    <>
+      {/* Header */}
+      <Box sx={{ mb: 4, display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+        <Box>
+          <Typography variant="h4" gutterBottom>
+            {t('users.title')}
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            {t('users.subtitle')}
+          </Typography>
+        </Box>
+        <Button variant="contained" startIcon={<PersonAdd />} onClick={() => handleOpenRoleDialog(null)}>
+          {t('users.invite')}
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {loading && users.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          {/* Accounts */}
+          <Card sx={{ mb: 4 }}>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                {t('users.accounts', { count: users.length })}
+              </Typography>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('users.email')}</TableCell>
+                      <TableCell>{t('users.role')}</TableCell>
+                      <TableCell>{t('users.restaurants')}</TableCell>
+                      <TableCell>{t('users.lastSignIn')}</TableCell>
+                      <TableCell>{t('users.status')}</TableCell>
+                      <TableCell align="right">{t('users.actions')}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {users.map((user) => {
+                      const isSelf = user.user_id === currentUser?.id
+                      const isBusy = busyId === user.user_id
+
+                      return (
+                        <TableRow key={user.user_id}>
+                          <TableCell>
+                            {user.email}
+                            {isSelf && <Chip label={t('users.me')} size="small" sx={{ ml: 1 }} />}
+                          </TableCell>
+                          <TableCell>{t(`layout.roles.${user.role}`)}</TableCell>
+                          <TableCell>{formatRestaurants(user.role, user.restaurant_ids)}</TableCell>
+                          <TableCell>{formatDate(user.last_sign_in_at)}</TableCell>
+                          <TableCell>
+                            {user.deactivated_at ? (
+                              <Chip label={t('users.deactivated')} size="small" />
+                            ) : (
+                              <Chip label={t('users.active')} size="small" color="success" />
+                            )}
+                          </TableCell>
+                          <TableCell align="right">
+                            <Tooltip title={isSelf ? t('users.cannotEditSelf') : ''}>
+                              <Box component="span" sx={{ display: 'inline-flex', gap: 1 }}>
+                                <Button
+                                  size="small"
+                                  startIcon={<Edit />}
+                                  onClick={() => handleOpenRoleDialog(user)}
+                                  disabled={isSelf || busyId !== null}
+                                >
+                                  {t('common.edit')}
+                                </Button>
+                                <Button
+                                  size="small"
+                                  color={user.deactivated_at ? 'success' : 'error'}
+                                  startIcon={
+                                    isBusy ? (
+                                      <CircularProgress size={16} />
+                                    ) : user.deactivated_at ? (
+                                      <CheckCircle />
+                                    ) : (
+                                      <Block />
+                                    )
+                                  }
+                                  onClick={() => handleToggleDeactivated(user)}
+                                  disabled={isSelf || busyId !== null}
+                                >
+                                  {user.deactivated_at ? t('users.reactivate') : t('users.deactivate')}
+                                </Button>
+                              </Box>
+                            </Tooltip>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </CardContent>
+          </Card>
+
+          {/* Pending Invitations */}
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                {t('users.invitations', { count: invitations.length })}
+              </Typography>
+              {invitations.length === 0 ? (
+                <Alert severity="info">{t('users.noInvitations')}</Alert>
+              ) : (
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>{t('users.email')}</TableCell>
+                        <TableCell>{t('users.role')}</TableCell>
+                        <TableCell>{t('users.restaurants')}</TableCell>
+                        <TableCell>{t('users.invitedAt')}</TableCell>
+                        <TableCell align="right">{t('users.actions')}</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {invitations.map((invitation) => (
+                        <TableRow key={invitation.id}>
+                          <TableCell>{invitation.email}</TableCell>
+                          <TableCell>{t(`layout.roles.${invitation.role}`)}</TableCell>
+                          <TableCell>{formatRestaurants(invitation.role, invitation.restaurant_ids)}</TableCell>
+                          <TableCell>{new Date(invitation.invited_at).toLocaleString(locale)}</TableCell>
+                          <TableCell align="right">
+                            <Box sx={{ display: 'inline-flex', gap: 1 }}>
+                              <Button
+                                size="small"
+                                startIcon={busyId === invitation.id ? <CircularProgress size={16} /> : <Send />}
+                                onClick={() => handleResend(invitation)}
+                                disabled={busyId !== null}
+                              >
+                                {t('users.resend')}
+                              </Button>
+                              <Button
+                                size="small"
+                                color="error"
+                                startIcon={<Close />}
+                                onClick={() => handleRevoke(invitation)}
+                                disabled={busyId !== null}
+                              >
+                                {t('users.revoke')}
+                              </Button>
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <UserRoleDialog
+        open={roleDialogOpen}
+        user={userToEdit}
+        restaurants={restaurants}
+        onClose={() => setRoleDialogOpen(false)}
+        onSaved={handleRoleSaved}
+      />
+    </>
+  )
+}
@@ -0,0 +1,176 @@
+// Version: 1.3.0
+// User Role Dialog - Invite a user by email, or change the role and restaurants of an existing account
+// Features: Role picker with descriptions, restaurant multi-select (hidden for super admins; empty = all for analysts)
+// v1.3.0: Texts and role descriptions come from the admin catalogs
+// v1.2.0: Role labels come from the admin catalogs
+// v1.1.0: Service errors are shown through translateError
+
+import { useState, useEffect } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
+  ListItemText,
+  TextField,
+  Alert,
+  CircularProgress,
+} from '@mui/material'
+import type { AdminUser, Restaurant, UserRole } from '../../types/database'
+import { useI18n } from '../../contexts/I18nContext'
+import { inviteUser, updateUserRole } from '../../services/userService'
+import { USER_ROLES } from '../../utils/permissions'
+
+interface UserRoleDialogProps {
+  open: boolean
+  user: AdminUser | null // null = invite a new user
+  restaurants: Restaurant[]
+  onClose: () => void
+  onSaved: (message: string) => void
+}
+
+export default function UserRoleDialog({ open, user, restaurants, onClose, onSaved }: UserRoleDialogProps) {
+  const { t, translateError } = useI18n()
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<UserRole>('restaurant_manager')
+  const [restaurantIds, setRestaurantIds] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setEmail('')
+      setRole(user?.role ?? 'restaurant_manager')
+      setRestaurantIds(user?.restaurant_ids ?? [])
+      setError(null)
+    }
+  }, [open, user])
+
+  const getRestaurantName = (restaurantId: string) =>
+    restaurants.find((restaurant) => restaurant.id === restaurantId)?.name || restaurantId
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      if (user) {
+        await updateUserRole(user.user_id, role, restaurantIds)
+        onSaved(t('userRoleDialog.updated', { email: user.email }))
+      } else {
+        const invitation = await inviteUser(email, role, restaurantIds)
+        onSaved(t('userRoleDialog.invited', { email: invitation.email }))
+      }
+      onClose()
+    } catch (err) {
+      setError(translateError(err, 'common.unexpectedError'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const missingRestaurants = role === 'restaurant_manager' && restaurantIds.length === 0
+
+  return (
+    <Dialog open={open} onClose={() => !saving && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {user ? t('userRoleDialog.editTitle', { email: user.email }) : t('userRoleDialog.inviteTitle')}
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 3 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {!user && (
+            <TextField
+              label={t('userRoleDialog.email')}
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              helperText={t('userRoleDialog.emailHint')}
+              autoFocus
+              fullWidth
+            />
+          )}
+
+          <FormControl fullWidth>
+            <InputLabel>{t('userRoleDialog.role')}</InputLabel>
+            <Select
+              value={role}
+              onChange={(e) => setRole(e.target.value as UserRole)}
+              label={t('userRoleDialog.role')}
+            >
+              {USER_ROLES.map((value) => (
+                <MenuItem key={value} value={value}>
+                  {t(`layout.roles.${value}`)}
+                </MenuItem>
+              ))}
+            </Select>
+            <FormHelperText>{t(`userRoleDialog.roleDescriptions.${role}`)}</FormHelperText>
+          </FormControl>
+
+          {role !== 'super_admin' && (
+            <FormControl fullWidth error={missingRestaurants}>
+              <InputLabel>{t('userRoleDialog.restaurants')}</InputLabel>
+              <Select
+                multiple
+                value={restaurantIds}
+                onChange={(e) => {
+                  const value = e.target.value
+                  setRestaurantIds(typeof value === 'string' ? value.split(',') : value)
+                }}
+                label={t('userRoleDialog.restaurants')}
+                renderValue={(selected) => selected.map(getRestaurantName).join(t('users.restaurantSeparator'))}
+              >
+                {restaurants.map((restaurant) => (
+                  <MenuItem key={restaurant.id} value={restaurant.id}>
+                    <Checkbox checked={restaurantIds.includes(restaurant.id)} size="small" />
+                    <ListItemText
+                      primary={restaurant.name}
+                      secondary={[restaurant.address, restaurant.city].filter(Boolean).join(', ') || undefined}
+                    />
+                  </MenuItem>
+                ))}
+              </Select>
+              <FormHelperText>
+                {role === 'analyst'
+                  ? t('userRoleDialog.analystRestaurantsHint')
+                  : t('userRoleDialog.managerRestaurantsHint')}
+              </FormHelperText>
+            </FormControl>
+          )}
+
+          {user && (
+            <Typography variant="body2" color="text.secondary">
+              {t('userRoleDialog.appliesOnNextSignIn')}
+            </Typography>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={saving || missingRestaurants || (!user && !email.trim())}
+          startIcon={saving ? <CircularProgress size={20} /> : undefined}
+        >
+          {user ? t('common.save') : t('userRoleDialog.sendInvitation')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,747 @@
+// Version: 1.10.0
+// Service for customer answers (echo_answers) - submitting them, and reading and aggregating them for analytics
+// Submitted answers are stored in UTC - all date bucketing/filtering here uses Beijing time (Asia/Shanghai)
+// v1.10.0: No display texts in the service - the export returns its question headers (the page adds the fixed
+//          column headers) and distributions leave blank and out-of-range labels and the rating unit to the page
+// v1.9.1: Scales come from utils/questionScales
+// v1.9.0: Answer queries are limited to the restaurants the signed-in user can see
+// v1.8.0: Errors are typed (AppError with a code) for the admin UI to translate
+// v1.7.0: Analytics group answers by the version they reference (echo_answers.questionnaire_version_id) and
+//         interpret each group with that version's questions - one entry per questionnaire version
+// v1.6.0: Answers use the shared AnswerValue model - submissions are validated against the questionnaire,
+//         stored answers are read with parseAnswerValue()
+// v1.5.0: Added submitAnswers() for the in-app customer questionnaire
+// v1.4.0: Analytics for rating (average), NPS (score), multi-select (share of respondents) and numeric (histogram) questions
+// v1.3.0: Answers are interpreted with the questionnaire version they were collected against (published content for analytics)
+// v1.2.0: Paginated response browsing with text answer search, export table builder for CSV/XLSX
+// v1.1.0: Exported buildQuestionDistributions for the A/B experiment report
+
+import { supabase } from './supabase'
+import { PUBLISHED_VERSION_SELECT } from './questionnaireService'
+import { toPublishedQuestionnaire } from './questionnaireVersionService'
+import { getCurrentUserRole } from './roleService'
+import { parseAnswerValue, validateAnswers } from '../utils/answerValidation'
+import { NPS_SCALE, RATING_SCALE } from '../utils/questionScales'
+import { AppError, requestFailed } from '../utils/appError'
+import { getViewableRestaurantIds } from '../utils/permissions'
+import type {
+  AnswerMap,
+  AnswerValue,
+  EchoAnswer,
+  EchoQuestionnaire,
+  EchoQuestionnaireVersion,
+  Question,
+  QuestionType,
+  QuestionnaireWithVersion,
+  Restaurant,
+} from '../types/database'
+
+// A completed customer questionnaire, as inserted into echo_answers
+// submitted_at is generated by the database (UTC)
+export interface AnswerSubmission {
+  qrcode_id: string
+  table_id: string
+  questionnaire_id: string
+  questionnaire_version_id: string
+  assignment_id: string
+  answers: AnswerMap
+}
+
+// Timezone used for displaying and bucketing submissions (see database_architecture.md)
+export const ANSWER_TIME_ZONE = 'Asia/Shanghai'
+
+// Supabase caps a single select at 1000 rows, so larger result sets are fetched page by page
+const FETCH_PAGE_SIZE = 1000
+
+const ANSWER_WITH_TABLE_SELECT = `
+  *,
+  echo_table!inner(id, table_number, restaurant_id)
+`
+
+const RESPONSE_SELECT = `
+  *,
+  echo_table!inner(id, table_number, restaurant_id, roleplay_restaurants(id, name)),
+  echo_questionnaire(id, title, questions),
+  echo_questionnaire_version(id, version_number, title, questions)
+`
+
+// Fixed leading columns of the responses export, followed by one column per question;
+// the page puts their headers in the admin's language
+export const RESPONSE_EXPORT_BASE_COLUMNS = ['submitted_at', 'restaurant', 'table', 'questionnaire'] as const
+
+// Value of the numeric histogram bucket for answers outside the question's range
+export const OUT_OF_RANGE_OPTION_VALUE = 'out_of_range'
+
+// Question types that get aggregated in analytics (free text is read in the responses browser instead)
+const AGGREGATED_QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'multi_select', 'rating', 'nps', 'numeric']
+
+// Number of equal-width buckets in the numeric answer histogram
+const NUMERIC_HISTOGRAM_BUCKETS = 5
+
+// NPS thresholds: 0-6 detractors, 7-8 passives, 9-10 promoters
+const NPS_DETRACTOR_MAX = 6
+const NPS_PROMOTER_MIN = 9
+
+export interface AnswerFilters {
+  restaurantId?: string
+  tableId?: string
+  questionnaireId?: string
+  startDate?: string // YYYY-MM-DD in Beijing time (inclusive)
+  endDate?: string // YYYY-MM-DD in Beijing time (inclusive)
+}
+
+export interface ResponseFilters extends AnswerFilters {
+  search?: string // Case-insensitive substring matched against text_input answers
+}
+
+export interface AnswerWithTable extends EchoAnswer {
+  echo_table?: {
+    id: string
+    table_number: string
+    restaurant_id: string
+  } | null
+}
+
+// Answer row for the responses browser, joined with restaurant and questionnaire
+export interface AnswerResponse extends EchoAnswer {
+  echo_table: {
+    id: string
+    table_number: string
+    restaurant_id: string
+    roleplay_restaurants: Pick<Restaurant, 'id' | 'name'> | null
+  }
+  echo_questionnaire: Pick<EchoQuestionnaire, 'id' | 'title' | 'questions'> | null
+  echo_questionnaire_version: Pick<EchoQuestionnaireVersion, 'id' | 'version_number' | 'title' | 'questions'> | null
+}
+
+export interface ResponsePage {
+  rows: AnswerResponse[]
+  total: number
+}
+
+export interface ResponseAnswerItem {
+  question_id: string
+  question_text: string
+  type?: string
+  value: string // Display value: option label for choices, raw text for text input
+}
+
+export type ResponseExportBaseColumn = (typeof RESPONSE_EXPORT_BASE_COLUMNS)[number]
+
+export interface ResponseExportTable {
+  questionHeaders: string[] // Headers of the question columns, after RESPONSE_EXPORT_BASE_COLUMNS
+  rows: string[][]
+}
+
+export interface OptionDistribution {
+  value: string
+  // Option label; the scale point for rating / NPS, empty for blank answers and the out-of-range bucket
+  label: string
+  count: number
+  percentage: number
+}
+
+export interface QuestionDistribution {
+  question_id: string
+  question_text: string
+  question_type: QuestionType
+  total_responses: number
+  // Percentages are of total_responses; for multi_select they can add up to more than 100%
+  options: OptionDistribution[]
+  average?: number | null // rating, nps and numeric
+  median?: number | null // numeric
+  nps_score?: number | null // nps: % promoters (9-10) - % detractors (0-6), from -100 to 100
+}
+
+export interface QuestionnaireAnalytics {
+  questionnaire_id: string
+  title: string
+  version_number: number | null // null for answers collected before versioning
+  response_count: number
+  questions: QuestionDistribution[]
+}
+
+export interface DailyResponseCount {
+  date: string // YYYY-MM-DD in Beijing time
+  count: number
+}
+
+// Answers of one questionnaire collected against the same version, with that version's content
+export interface AnswerVersionGroup<T extends EchoAnswer = EchoAnswer> {
+  questionnaire: EchoQuestionnaire
+  version_number: number | null
+  answers: T[]
+}
+
+export interface AnswerAnalytics {
+  total_responses: number
+  daily_counts: DailyResponseCount[]
+  questionnaires: QuestionnaireAnalytics[]
+}
+
+/**
+ * Convert a UTC timestamp to a YYYY-MM-DD date key in Beijing time
+ */
+export const toBeijingDateKey = (timestamp: string): string => {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: ANSWER_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(timestamp))
+}
+
+/**
+ * Convert a YYYY-MM-DD Beijing date to the UTC ISO timestamp of its start (or end) of day
+ * Asia/Shanghai has no daylight saving time, so a fixed +08:00 offset is exact
+ */
+export const beijingDateToUtcIso = (date: string, endOfDay: boolean): string => {
+  const time = endOfDay ? '23:59:59.999' : '00:00:00.000'
+  return new Date(`${date}T${time}+08:00`).toISOString()
+}
+
+/**
+ * Format a UTC timestamp as "YYYY-MM-DD HH:mm:ss" in Beijing time
+ */
+export const formatBeijingDateTime = (timestamp: string): string => {
+  // sv-SE formats date-times as YYYY-MM-DD HH:mm:ss
+  return new Intl.DateTimeFormat('sv-SE', {
+    timeZone: ANSWER_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).format(new Date(timestamp))
+}
+
+/**
+ * Escape LIKE wildcards so the search term is matched literally
+ */
+const escapeLikePattern = (term: string): string => {
+  return term.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+/**
+ * Build an echo_answers query with the filters applied, newest first
+ * Answers are limited to the restaurants the signed-in user can see (restaurantIds, null = all) - answers are
+ * readable without a role in the database, so this filter is what keeps managers to their own restaurants
+ * Text search uses the generated text_answers column (text_input answers only, see database_architecture.md)
+ */
+const buildAnswerQuery = (
+  select: string,
+  filters: ResponseFilters,
+  restaurantIds: string[] | null,
+  withCount = false
+) => {
+  let query = supabase
+    .from('echo_answers')
+    .select(select, withCount ? { count: 'exact' } : undefined)
+    .order('submitted_at', { ascending: false })
+
+  if (restaurantIds) {
+    query = query.in('echo_table.restaurant_id', restaurantIds)
+  }
+  if (filters.restaurantId) {
+    query = query.eq('echo_table.restaurant_id', filters.restaurantId)
+  }
+  if (filters.tableId) {
+    query = query.eq('table_id', filters.tableId)
+  }
+  if (filters.questionnaireId) {
+    query = query.eq('questionnaire_id', filters.questionnaireId)
+  }
+  if (filters.startDate) {
+    query = query.gte('submitted_at', beijingDateToUtcIso(filters.startDate, false))
+  }
+  if (filters.endDate) {
+    query = query.lte('submitted_at', beijingDateToUtcIso(filters.endDate, true))
+  }
+  if (filters.search?.trim()) {
+    query = query.ilike('text_answers', `%${escapeLikePattern(filters.search.trim())}%`)
+  }
+
+  return query
+}
+
+/**
+ * Fetch every row matching the filters, page by page
+ */
+const fetchAllAnswers = async <T>(select: string, filters: ResponseFilters): Promise<T[]> => {
+  const results: T[] = []
+  const restaurantIds = getViewableRestaurantIds(await getCurrentUserRole())
+
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await buildAnswerQuery(select, filters, restaurantIds).range(
+      from,
+      from + FETCH_PAGE_SIZE - 1
+    )
+
+    if (error) {
+      throw requestFailed('fetch answers', error.message)
+    }
+
+    results.push(...((data || []) as T[]))
+
+    if (!data || data.length < FETCH_PAGE_SIZE) {
+      break
+    }
+  }
+
+  return results
+}
+
+/**
+ * Fetch all answers matching the filters, newest first
+ * Joins echo_table so answers can be filtered and labelled by restaurant/table
+ */
+export const getAnswers = async (filters: AnswerFilters = {}): Promise<AnswerWithTable[]> => {
+  return fetchAllAnswers<AnswerWithTable>(ANSWER_WITH_TABLE_SELECT, filters)
+}
+
+/**
+ * Fetch one page of responses (joined with restaurant and questionnaire) for the responses browser
+ * @param page - Zero-based page index
+ */
+export const getResponsePage = async (
+  filters: ResponseFilters,
+  page: number,
+  pageSize: number
+): Promise<ResponsePage> => {
+  const from = page * pageSize
+  const restaurantIds = getViewableRestaurantIds(await getCurrentUserRole())
+  const { data, error, count } = await buildAnswerQuery(RESPONSE_SELECT, filters, restaurantIds, true).range(
+    from,
+    from + pageSize - 1
+  )
+
+  if (error) {
+    throw requestFailed('fetch responses', error.message)
+  }
+
+  return {
+    rows: (data || []) as unknown as AnswerResponse[],
+    total: count || 0,
+  }
+}
+
+/**
+ * Fetch all responses matching the filters (used for export)
+ */
+export const getResponses = async (filters: ResponseFilters = {}): Promise<AnswerResponse[]> => {
+  return fetchAllAnswers<AnswerResponse>(RESPONSE_SELECT, filters)
+}
+
+/**
+ * Display text of an answer: option labels for choices, the number or text otherwise
+ */
+const formatAnswerValue = (answer: AnswerValue): string => {
+  switch (answer.type) {
+    case 'multiple_choice':
+      return answer.label || answer.value
+    case 'multi_select':
+      return answer.value.map((value, index) => answer.label[index] || value).join('、')
+    case 'rating':
+      return answer.label || String(answer.value)
+    case 'text_input':
+      return answer.value
+    default:
+      return String(answer.value)
+  }
+}
+
+/**
+ * Resolve a response's answers to display items, in question order
+ * Questions come from the version the customer answered; answers collected before versioning
+ * fall back to the current questionnaire, and unknown question ids are appended under their id
+ */
+export const getResponseAnswerItems = (response: AnswerResponse): ResponseAnswerItem[] => {
+  const answers: Record<string, unknown> = response.answers || {}
+  const sourceQuestions = response.echo_questionnaire_version?.questions || response.echo_questionnaire?.questions || []
+  const questions = [...sourceQuestions].sort((a, b) => a.order - b.order)
+  const knownIds = new Set(questions.map((question) => question.id))
+  const items: ResponseAnswerItem[] = []
+
+  const pushItem = (questionId: string, questionText: string, question?: Question) => {
+    const answer = parseAnswerValue(answers[questionId], question)
+    if (!answer) return
+    items.push({
+      question_id: questionId,
+      question_text: questionText,
+      type: question?.type ?? answer.type,
+      value: formatAnswerValue(answer),
+    })
+  }
+
+  questions.forEach((question) => pushItem(question.id, question.text, question))
+  Object.keys(answers)
+    .filter((questionId) => !knownIds.has(questionId))
+    .forEach((questionId) => pushItem(questionId, questionId))
+
+  return items
+}
+
+/**
+ * Build the export table for responses: RESPONSE_EXPORT_BASE_COLUMNS plus one column per question id
+ * Question columns follow questionnaire order; their header is the question text
+ * (suffixed with the question id when two questions share the same text)
+ */
+export const buildResponseExportTable = (responses: AnswerResponse[]): ResponseExportTable => {
+  const columnTexts = new Map<string, string>()
+  const itemsPerResponse = responses.map((response) => {
+    const items = getResponseAnswerItems(response)
+    items.forEach((item) => {
+      if (!columnTexts.has(item.question_id)) {
+        columnTexts.set(item.question_id, item.question_text)
+      }
+    })
+    return items
+  })
+
+  const questionIds = Array.from(columnTexts.keys())
+  const textCounts = new Map<string, number>()
+  columnTexts.forEach((text) => textCounts.set(text, (textCounts.get(text) || 0) + 1))
+
+  const questionHeaders = questionIds.map((questionId) => {
+    const text = columnTexts.get(questionId) || questionId
+    return (textCounts.get(text) || 0) > 1 && text !== questionId ? `${text} (${questionId})` : text
+  })
+
+  const rows = responses.map((response, index) => {
+    const valuesById = new Map(itemsPerResponse[index].map((item) => [item.question_id, item.value]))
+    return [
+      formatBeijingDateTime(response.submitted_at),
+      response.echo_table?.roleplay_restaurants?.name || '',
+      response.echo_table?.table_number || '',
+      response.echo_questionnaire?.title || '',
+      ...questionIds.map((questionId) => valuesById.get(questionId) || ''),
+    ]
+  })
+
+  return {
+    questionHeaders,
+    rows,
+  }
+}
+
+/**
+ * Count responses per day (Beijing time), filling days without responses with 0
+ */
+const countResponsesPerDay = (
+  answers: EchoAnswer[],
+  startDate?: string,
+  endDate?: string
+): DailyResponseCount[] => {
+  const counts = new Map<string, number>()
+  answers.forEach((answer) => {
+    const key = toBeijingDateKey(answer.submitted_at)
+    counts.set(key, (counts.get(key) || 0) + 1)
+  })
+
+  const keys = Array.from(counts.keys()).sort()
+  const first = startDate || keys[0]
+  const last = endDate || keys[keys.length - 1]
+  if (!first || !last) return []
+
+  const daily: DailyResponseCount[] = []
+  // Iterate in UTC on plain dates to avoid local timezone shifts
+  const cursor = new Date(`${first}T00:00:00Z`)
+  const end = new Date(`${last}T00:00:00Z`)
+  while (cursor <= end) {
+    const key = cursor.toISOString().slice(0, 10)
+    daily.push({ date: key, count: counts.get(key) || 0 })
+    cursor.setUTCDate(cursor.getUTCDate() + 1)
+  }
+
+  return daily
+}
+
+type OptionBucket = { value: string; label: string; count: number }
+
+const toOptionDistributions = (buckets: OptionBucket[], totalResponses: number): OptionDistribution[] => {
+  return buckets.map((bucket) => ({
+    ...bucket,
+    percentage: totalResponses > 0 ? (bucket.count / totalResponses) * 100 : 0,
+  }))
+}
+
+const average = (values: number[]): number | null => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+/**
+ * Count choices against the question's options
+ * Answers are matched to options by value (or by label when the option value is empty).
+ * Answers that no longer match any option (e.g. the option was renamed) are kept under their stored label.
+ */
+const countChoices = (question: Question, selections: Array<{ value: string; label?: string }>): OptionBucket[] => {
+  const options = question.options || []
+  const buckets = options.map((option) => ({ value: option.value, label: option.label, count: 0 }))
+  const unmatched = new Map<string, OptionBucket>()
+
+  selections.forEach((selection) => {
+    const index = options.findIndex((option) =>
+      option.value ? option.value === selection.value : option.label === (selection.label ?? selection.value)
+    )
+    if (index >= 0) {
+      buckets[index].count++
+      return
+    }
+
+    const label = selection.label || selection.value
+    const existing = unmatched.get(label)
+    if (existing) {
+      existing.count++
+    } else {
+      unmatched.set(label, { value: selection.value, label, count: 1 })
+    }
+  })
+
+  return [...buckets, ...unmatched.values()]
+}
+
+/**
+ * Count integer scale answers (rating, NPS) - one bucket per scale point
+ */
+const countScale = (values: number[], scale: { min: number; max: number }): OptionBucket[] => {
+  const buckets: OptionBucket[] = []
+  for (let point = scale.min; point <= scale.max; point++) {
+    buckets.push({ value: String(point), label: String(point), count: 0 })
+  }
+  values.forEach((value) => {
+    const bucket = buckets[Math.round(value) - scale.min]
+    if (bucket) bucket.count++
+  })
+  return buckets
+}
+
+/**
+ * Histogram of numeric answers over the question's range; out-of-range answers get their own bucket
+ */
+const countNumericRanges = (question: Question, values: number[]): OptionBucket[] => {
+  const min = question.min ?? Math.min(...values)
+  const max = question.max ?? Math.max(...values)
+  const width = (max - min) / NUMERIC_HISTOGRAM_BUCKETS
+  if (!Number.isFinite(width) || width <= 0) {
+    return [{ value: String(min), label: String(min), count: values.length }]
+  }
+
+  const formatBound = (bound: number) => String(Math.round(bound * 100) / 100)
+  const buckets: OptionBucket[] = Array.from({ length: NUMERIC_HISTOGRAM_BUCKETS }, (_, index) => {
+    const lower = min + index * width
+    const upper = index === NUMERIC_HISTOGRAM_BUCKETS - 1 ? max : lower + width
+    return { value: `${lower}-${upper}`, label: `${formatBound(lower)} ~ ${formatBound(upper)}`, count: 0 }
+  })
+  const outOfRange: OptionBucket = { value: OUT_OF_RANGE_OPTION_VALUE, label: '', count: 0 }
+
+  values.forEach((value) => {
+    if (value < min || value > max) {
+      outOfRange.count++
+      return
+    }
+    buckets[Math.min(Math.floor((value - min) / width), NUMERIC_HISTOGRAM_BUCKETS - 1)].count++
+  })
+
+  return outOfRange.count > 0 ? [...buckets, outOfRange] : buckets
+}
+
+/**
+ * Build per-question distributions for the aggregatable questions of one questionnaire
+ * - multiple_choice / multi_select: count per option (multi_select percentages are of respondents)
+ * - rating / nps: count per scale point plus average (and NPS score)
+ * - numeric: histogram over the configured range plus average and median
+ */
+export const buildQuestionDistributions = (
+  questionnaire: EchoQuestionnaire,
+  answers: EchoAnswer[]
+): QuestionDistribution[] => {
+  return [...questionnaire.questions]
+    .sort((a, b) => a.order - b.order)
+    .filter((question) => AGGREGATED_QUESTION_TYPES.includes(question.type))
+    .map((question) => {
+      const entries = answers
+        .map((answer) => parseAnswerValue(answer.answers?.[question.id], question))
+        .filter((entry): entry is AnswerValue => entry !== null)
+      const totalResponses = entries.length
+      const distribution: QuestionDistribution = {
+        question_id: question.id,
+        question_text: question.text,
+        question_type: question.type,
+        total_responses: totalResponses,
+        options: [],
+      }
+
+      if (question.type === 'multiple_choice' || question.type === 'multi_select') {
+        const selections = entries.flatMap((entry) => {
+          if (entry.type === 'multi_select') {
+            return entry.value.map((value, index) => ({ value, label: entry.label[index] }))
+          }
+          return [{ value: String(entry.value), label: entry.type === 'multiple_choice' ? entry.label : undefined }]
+        })
+        distribution.options = toOptionDistributions(countChoices(question, selections), totalResponses)
+        return distribution
+      }
+
+      const values = entries.map((entry) => Number(entry.value)).filter((value) => Number.isFinite(value))
+      distribution.average = average(values)
+
+      if (question.type === 'rating') {
+        distribution.options = toOptionDistributions(countScale(values, RATING_SCALE), totalResponses)
+      } else if (question.type === 'nps') {
+        distribution.options = toOptionDistributions(countScale(values, NPS_SCALE), totalResponses)
+        const promoters = values.filter((value) => value >= NPS_PROMOTER_MIN).length
+        const detractors = values.filter((value) => value <= NPS_DETRACTOR_MAX).length
+        distribution.nps_score = values.length > 0 ? ((promoters - detractors) / values.length) * 100 : null
+      } else if (question.type === 'numeric') {
+        distribution.median = median(values)
+        distribution.options =
+          values.length > 0 ? toOptionDistributions(countNumericRanges(question, values), totalResponses) : []
+      }
+
+      return distribution
+    })
+}
+
+/**
+ * Fetch the questionnaire versions answers were collected against (echo_answers.questionnaire_version_id)
+ */
+export const getAnswerVersions = async (answers: EchoAnswer[]): Promise<Map<string, EchoQuestionnaireVersion>> => {
+  const versionIds = Array.from(
+    new Set(answers.map((answer) => answer.questionnaire_version_id).filter((id): id is string => !!id))
+  )
+  if (versionIds.length === 0) return new Map()
+
+  const { data, error } = await supabase.from('echo_questionnaire_version').select('*').in('id', versionIds)
+
+  if (error) {
+    throw requestFailed('fetch questionnaire versions for answers', error.message)
+  }
+
+  return new Map(((data || []) as EchoQuestionnaireVersion[]).map((version) => [version.id, version]))
+}
+
+/**
+ * Group answers by questionnaire and the version they reference, so each group is read with its own questions
+ * Answers collected before versioning (or whose version is missing) use the questionnaire as given,
+ * i.e. its published content
+ */
+export const groupAnswersByVersion = <T extends EchoAnswer>(
+  answers: T[],
+  questionnaires: EchoQuestionnaire[],
+  versions: Map<string, EchoQuestionnaireVersion>
+): AnswerVersionGroup<T>[] => {
+  const questionnaireById = new Map(questionnaires.map((questionnaire) => [questionnaire.id, questionnaire]))
+  const groups = new Map<string, AnswerVersionGroup<T>>()
+
+  answers.forEach((answer) => {
+    const questionnaire = questionnaireById.get(answer.questionnaire_id)
+    if (!questionnaire) return
+
+    const version = answer.questionnaire_version_id ? versions.get(answer.questionnaire_version_id) : undefined
+    const key = `${answer.questionnaire_id}:${version?.id ?? ''}`
+    const group = groups.get(key) || {
+      questionnaire: version ? toPublishedQuestionnaire({ ...questionnaire, published_version: version }) : questionnaire,
+      version_number: version?.version_number ?? null,
+      answers: [],
+    }
+    group.answers.push(answer)
+    groups.set(key, group)
+  })
+
+  return Array.from(groups.values())
+}
+
+/**
+ * Aggregate answers into response counts over time and per-version option distributions
+ * Versions of a questionnaire are listed together (newest first), questionnaires by their number of responses
+ */
+export const aggregateAnswers = (
+  answers: EchoAnswer[],
+  groups: AnswerVersionGroup[],
+  filters: AnswerFilters = {}
+): AnswerAnalytics => {
+  const responsesPerQuestionnaire = new Map<string, number>()
+  answers.forEach((answer) => {
+    const count = responsesPerQuestionnaire.get(answer.questionnaire_id) || 0
+    responsesPerQuestionnaire.set(answer.questionnaire_id, count + 1)
+  })
+  const questionnaireResponses = (questionnaireId: string) => responsesPerQuestionnaire.get(questionnaireId) || 0
+
+  const questionnaireAnalytics = groups
+    .map((group) => ({
+      questionnaire_id: group.questionnaire.id,
+      title: group.questionnaire.title,
+      version_number: group.version_number,
+      response_count: group.answers.length,
+      questions: buildQuestionDistributions(group.questionnaire, group.answers),
+    }))
+    .sort(
+      (a, b) =>
+        questionnaireResponses(b.questionnaire_id) - questionnaireResponses(a.questionnaire_id) ||
+        a.questionnaire_id.localeCompare(b.questionnaire_id) ||
+        (b.version_number ?? 0) - (a.version_number ?? 0)
+    )
+
+  return {
+    total_responses: answers.length,
+    daily_counts: countResponsesPerDay(answers, filters.startDate, filters.endDate),
+    questionnaires: questionnaireAnalytics,
+  }
+}
+
+/**
+ * Fetch answers matching the filters and aggregate them for the analytics dashboard
+ */
+export const getAnswerAnalytics = async (filters: AnswerFilters = {}): Promise<AnswerAnalytics> => {
+  const answers = await getAnswers(filters)
+
+  const questionnaireIds = Array.from(new Set(answers.map((answer) => answer.questionnaire_id)))
+  let questionnaires: EchoQuestionnaire[] = []
+
+  if (questionnaireIds.length > 0) {
+    const { data, error } = await supabase
+      .from('echo_questionnaire')
+      .select(`*, ${PUBLISHED_VERSION_SELECT}`)
+      .in('id', questionnaireIds)
+
+    if (error) {
+      throw requestFailed('fetch questionnaires for answers', error.message)
+    }
+
+    // Published content is the fallback for answers collected before versioning, never the draft
+    questionnaires = ((data || []) as QuestionnaireWithVersion[]).map(toPublishedQuestionnaire)
+  }
+
+  const versions = await getAnswerVersions(answers)
+
+  return aggregateAnswers(answers, groupAnswersByVersion(answers, questionnaires, versions), filters)
+}
+
+/**
+ * Submit a completed customer questionnaire
+ * Used by the public questionnaire page with the anon key; the inserted row is not read back so the
+ * insert keeps working once answers are no longer publicly readable (see RLS recommendations)
+ * @param questions - Questions of the version being answered; the answers are validated against them
+ */
+export const submitAnswers = async (submission: AnswerSubmission, questions: Question[]): Promise<void> => {
+  const validation = validateAnswers(questions, submission.answers)
+  if (!validation.valid) {
+    throw new AppError('answers.invalid', `Invalid answers: ${validation.error}`, { detail: validation.error || '' })
+  }
+
+  const { error } = await supabase.from('echo_answers').insert(submission)
+
+  if (error) {
+    throw requestFailed('submit answers', error.message)
+  }
+}
@@ -0,0 +1,110 @@
+// Version: 1.3.0
+// Service for the audit log (echo_audit_log) - records who changed what in the admin app, and reads it back
+// Mutating calls in restaurantService, qrcodeService, questionnaireService and trashService record an entry after
+// the change succeeded. Recording never fails the action itself: the change is already saved, so errors are only logged
+// v1.3.0: entityType on AuditEntry for actions that are not named after their entity (trash.*)
+// v1.2.0: Errors are typed (AppError with a code) for the admin UI to translate
+// v1.1.0: Restaurant actions (restaurantService)
+
+import { supabase } from './supabase'
+import { getCurrentUser } from './authService'
+import { requireSuperAdmin } from './roleService'
+import type { AuditAction, AuditEntityType, EchoAuditLog } from '../types/database'
+import { requestFailed } from '../utils/appError'
+
+export interface AuditEntry {
+  action: AuditAction
+  entityType?: AuditEntityType // Defaults to the action's entity; trash.* actions pass the item's type
+  entityId: string
+  restaurantId?: string | null
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditLogFilters {
+  actorId?: string
+  restaurantId?: string
+  action?: AuditAction
+}
+
+export interface AuditLogPage {
+  rows: EchoAuditLog[]
+  total: number
+}
+
+/**
+ * Entity type of an action ("qrcode.replace" -> "qrcode")
+ */
+export const getAuditEntityType = (action: AuditAction): AuditEntityType => {
+  return action.split('.')[0] as AuditEntityType
+}
+
+/**
+ * Record one or more audit entries for the signed-in user
+ */
+export const recordAudit = async (entries: AuditEntry | AuditEntry[]): Promise<void> => {
+  const list = Array.isArray(entries) ? entries : [entries]
+  if (list.length === 0) return
+
+  try {
+    const actor = await getCurrentUser()
+
+    const { error } = await supabase.from('echo_audit_log').insert(
+      list.map((entry) => ({
+        actor_id: actor?.id ?? null,
+        actor_email: actor?.email ?? null,
+        action: entry.action,
+        entity_type: entry.entityType ?? getAuditEntityType(entry.action),
+        entity_id: entry.entityId,
+        restaurant_id: entry.restaurantId ?? null,
+        before: entry.before ?? null,
+        after: entry.after ?? null,
+      }))
+    )
+
+    if (error) {
+      console.error('Failed to record audit entry:', error.message)
+    }
+  } catch (error) {
+    console.error('Failed to record audit entry:', error)
+  }
+}
+
+/**
+ * Fetch one page of the audit log, newest first (super admins only)
+ * @param page - Zero-based page index
+ */
+export const getAuditLogPage = async (
+  filters: AuditLogFilters,
+  page: number,
+  pageSize: number
+): Promise<AuditLogPage> => {
+  await requireSuperAdmin()
+
+  let query = supabase
+    .from('echo_audit_log')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+
+  if (filters.actorId) {
+    query = query.eq('actor_id', filters.actorId)
+  }
+  if (filters.restaurantId) {
+    query = query.eq('restaurant_id', filters.restaurantId)
+  }
+  if (filters.action) {
+    query = query.eq('action', filters.action)
+  }
+
+  const from = page * pageSize
+  const { data, error, count } = await query.range(from, from + pageSize - 1)
+
+  if (error) {
+    throw requestFailed('fetch audit log', error.message)
+  }
+
+  return {
+    rows: data || [],
+    total: count || 0,
+  }
+}
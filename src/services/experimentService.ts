@@ -0,0 +1,359 @@
+// Version: 1.8.0
+// Service for A/B test reports - compares questionnaire variants shown at a restaurant
+// Variants are echo_qrcode_questionnaire assignments (or the questionnaires behind them); answers are
+// attributed through echo_answers.assignment_id, which records the variant each customer actually saw
+// v1.8.0: Question comparisons carry the question type, so the page can label rating scale points
+// v1.7.0: Errors are typed (AppError with a code) for the admin UI to translate
+// v1.6.0: Questions are matched across variants and versions by question id; edited question texts are reported
+// v1.5.0: Scans per variant (sessions with a 'select' scan event for the assignment) and responses per scan
+// v1.4.0: Answers are read with the questions of the version they reference (echo_answers.questionnaire_version_id),
+//         not with the latest published version
+// v1.3.0: Rating and NPS questions are compared too; multi-select and numeric are excluded (not single-category answers)
+// v1.2.0: Questions are compared using each questionnaire's published version
+// v1.1.0: Expected traffic shares now come from the shared weightedSelection helpers
+
+import { supabase } from './supabase'
+import { PUBLISHED_VERSION_SELECT } from './questionnaireService'
+import { toPublishedQuestionnaire } from './questionnaireVersionService'
+import {
+  beijingDateToUtcIso,
+  buildQuestionDistributions,
+  getAnswers,
+  getAnswerVersions,
+  groupAnswersByVersion,
+} from './answerService'
+import { getAssignmentScanCounts } from './scanEventService'
+import type { OptionDistribution } from './answerService'
+import { chiSquareTest } from '../utils/statistics'
+import { requestFailed } from '../utils/appError'
+import { getSelectionPercentages } from '../utils/weightedSelection'
+import type { ChiSquareResult } from '../utils/statistics'
+import type { EchoAnswer, EchoQuestionnaire, EchoQuestionnaireVersion, QuestionType } from '../types/database'
+
+export type ExperimentGrouping = 'assignment' | 'questionnaire'
+
+// p-value below which a difference between variants is reported as significant
+export const SIGNIFICANCE_LEVEL = 0.05
+
+// Question types with exactly one category per answer, as required by the chi-square test
+const COMPARABLE_QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'rating', 'nps']
+
+export interface ExperimentVariant {
+  key: string // assignment_id or questionnaire_id depending on grouping
+  questionnaire_id: string
+  questionnaire_title: string
+  table_numbers: string[]
+  is_active: boolean
+  // Expected share of scans (%) derived from active assignment weights; null if no longer active
+  weight_share: number | null
+  response_count: number
+  // Sessions that were shown this variant (scan events of type 'select'); 0 for scans before tracking began
+  scan_count: number
+  response_rate: number | null // Responses per scan (%, at most 100); null without scans
+}
+
+export interface VariantQuestionBreakdown {
+  variant_key: string
+  total_responses: number
+  options: OptionDistribution[]
+}
+
+export interface ExperimentQuestionComparison {
+  question_id: string
+  question_text: string // Text in the newest version answered
+  question_type: QuestionType // Type in the newest version answered
+  // Every text the question had across the compared variants and versions (more than one when it was edited)
+  question_texts: string[]
+  text_changed: boolean
+  variants: VariantQuestionBreakdown[]
+  test: ChiSquareResult | null
+  significant: boolean
+}
+
+export interface ExperimentReport {
+  grouping: ExperimentGrouping
+  total_responses: number
+  variants: ExperimentVariant[]
+  questions: ExperimentQuestionComparison[]
+}
+
+interface RestaurantAssignment {
+  id: string
+  qrcode_id: string
+  questionnaire_id: string
+  weight: number
+  is_active: boolean
+  table_number: string
+  questionnaire: EchoQuestionnaire
+}
+
+/**
+ * Fetch all assignments (active and inactive) for QR codes of a restaurant
+ * Inactive assignments are included so finished experiments can still be reported on
+ */
+const getRestaurantAssignments = async (restaurantId: string): Promise<RestaurantAssignment[]> => {
+  const { data, error } = await supabase
+    .from('echo_qrcode_questionnaire')
+    .select(`
+      id,
+      qrcode_id,
+      questionnaire_id,
+      weight,
+      is_active,
+      echo_questionnaire(*, ${PUBLISHED_VERSION_SELECT}),
+      echo_qrcode!inner(
+        id,
+        echo_table!inner(
+          table_number,
+          restaurant_id
+        )
+      )
+    `)
+    .eq('echo_qrcode.echo_table.restaurant_id', restaurantId)
+
+  if (error) {
+    throw requestFailed('fetch restaurant assignments', error.message)
+  }
+
+  const assignments: RestaurantAssignment[] = []
+  data?.forEach((assignment: any) => {
+    // Supabase returns many-to-one relationships as objects, but handle arrays defensively
+    const qrcode = Array.isArray(assignment.echo_qrcode) ? assignment.echo_qrcode[0] : assignment.echo_qrcode
+    const table = Array.isArray(qrcode?.echo_table) ? qrcode.echo_table[0] : qrcode?.echo_table
+    const questionnaire = Array.isArray(assignment.echo_questionnaire)
+      ? assignment.echo_questionnaire[0]
+      : assignment.echo_questionnaire
+    if (!table || !questionnaire) return
+
+    assignments.push({
+      id: assignment.id,
+      qrcode_id: assignment.qrcode_id,
+      questionnaire_id: assignment.questionnaire_id,
+      weight: assignment.weight,
+      is_active: assignment.is_active,
+      table_number: table.table_number,
+      questionnaire: toPublishedQuestionnaire(questionnaire),
+    })
+  })
+
+  return assignments
+}
+
+/**
+ * Expected share of scans (%) for each active assignment, per QR code
+ * Uses the same weight normalization as the customer page's weighted selection
+ */
+const getAssignmentShares = (assignments: RestaurantAssignment[]): Map<string, number> => {
+  const activeByQRCode = new Map<string, RestaurantAssignment[]>()
+  assignments
+    .filter((a) => a.is_active)
+    .forEach((a) => activeByQRCode.set(a.qrcode_id, [...(activeByQRCode.get(a.qrcode_id) || []), a]))
+
+  const shares = new Map<string, number>()
+  activeByQRCode.forEach((qrcodeAssignments) => {
+    const percentages = getSelectionPercentages(qrcodeAssignments)
+    qrcodeAssignments.forEach((a, index) => shares.set(a.id, percentages[index]))
+  })
+
+  return shares
+}
+
+/**
+ * Build the variant list for the chosen grouping
+ */
+const buildVariants = (
+  grouping: ExperimentGrouping,
+  assignments: RestaurantAssignment[],
+  answers: EchoAnswer[],
+  scanCounts: Map<string, number>
+): ExperimentVariant[] => {
+  const shares = getAssignmentShares(assignments)
+  const activeQRCodeCount = new Set(assignments.filter((a) => a.is_active).map((a) => a.qrcode_id)).size
+  const variants = new Map<string, ExperimentVariant>()
+
+  assignments.forEach((assignment) => {
+    const key = grouping === 'assignment' ? assignment.id : assignment.questionnaire_id
+    const variant = variants.get(key) || {
+      key,
+      questionnaire_id: assignment.questionnaire_id,
+      questionnaire_title: assignment.questionnaire.title,
+      table_numbers: [],
+      is_active: false,
+      weight_share: null,
+      response_count: 0,
+      scan_count: 0,
+      response_rate: null,
+    }
+
+    variant.table_numbers.push(assignment.table_number)
+    variant.scan_count += scanCounts.get(assignment.id) || 0
+    if (assignment.is_active) {
+      variant.is_active = true
+      // For questionnaire grouping, the share is averaged over all QR codes with active assignments
+      const share = shares.get(assignment.id) || 0
+      const contribution = grouping === 'assignment' ? share : share / activeQRCodeCount
+      variant.weight_share = (variant.weight_share || 0) + contribution
+    }
+
+    variants.set(key, variant)
+  })
+
+  answers.forEach((answer) => {
+    const key = grouping === 'assignment' ? answer.assignment_id : answer.questionnaire_id
+    const variant = variants.get(key)
+    if (variant) variant.response_count++
+  })
+
+  return Array.from(variants.values())
+    .map((variant) => ({
+      ...variant,
+      // Answers collected before scan tracking began can outnumber the scans, hence the cap
+      response_rate:
+        variant.scan_count > 0 ? Math.min(100, (variant.response_count / variant.scan_count) * 100) : null,
+      table_numbers: Array.from(new Set(variant.table_numbers)).sort((a, b) =>
+        a.localeCompare(b, undefined, { numeric: true })
+      ),
+    }))
+    .sort((a, b) => b.response_count - a.response_count)
+}
+
+/**
+ * Add one version's answer counts for a question to a variant's breakdown
+ * Categories are matched by option value, falling back to the label; percentages are recomputed
+ */
+const mergeBreakdown = (
+  breakdown: VariantQuestionBreakdown,
+  totalResponses: number,
+  options: OptionDistribution[]
+): VariantQuestionBreakdown => {
+  const merged = new Map(breakdown.options.map((option) => [option.value || option.label, { ...option }]))
+  options.forEach((option) => {
+    const category = option.value || option.label
+    const existing = merged.get(category)
+    if (existing) {
+      existing.count += option.count
+    } else {
+      merged.set(category, { ...option })
+    }
+  })
+
+  const total = breakdown.total_responses + totalResponses
+  return {
+    variant_key: breakdown.variant_key,
+    total_responses: total,
+    options: Array.from(merged.values()).map((option) => ({
+      ...option,
+      percentage: total > 0 ? (option.count / total) * 100 : 0,
+    })),
+  }
+}
+
+/**
+ * Compare single-category questions (single choice, rating, NPS) across variants
+ * A variant's answers are read per questionnaire version, each with that version's questions, and added up.
+ * Questions are matched by question id, which is stable across versions, so renamed questions stay one comparison
+ * and questions with the same text stay apart; answer categories are matched by option value, falling back to the label.
+ */
+const compareQuestions = (
+  grouping: ExperimentGrouping,
+  variants: ExperimentVariant[],
+  assignments: RestaurantAssignment[],
+  answers: EchoAnswer[],
+  versions: Map<string, EchoQuestionnaireVersion>
+): ExperimentQuestionComparison[] => {
+  const questionnaires = new Map(assignments.map((a) => [a.questionnaire_id, a.questionnaire]))
+  const comparisons = new Map<string, VariantQuestionBreakdown[]>()
+  // Texts per question id, in the order they were seen (answers come newest first)
+  const questionTexts = new Map<string, string[]>()
+  const questionTypes = new Map<string, QuestionType>()
+
+  variants.forEach((variant) => {
+    const questionnaire = questionnaires.get(variant.questionnaire_id)
+    if (!questionnaire) return
+
+    const variantAnswers = answers.filter((answer) =>
+      grouping === 'assignment' ? answer.assignment_id === variant.key : answer.questionnaire_id === variant.key
+    )
+
+    const breakdowns = new Map<string, VariantQuestionBreakdown>()
+    groupAnswersByVersion(variantAnswers, [questionnaire], versions).forEach((group) => {
+      buildQuestionDistributions(group.questionnaire, group.answers).forEach((distribution) => {
+        if (!COMPARABLE_QUESTION_TYPES.includes(distribution.question_type)) return
+        const questionKey = distribution.question_id
+        const texts = questionTexts.get(questionKey) || []
+        const text = distribution.question_text.trim()
+        if (!texts.includes(text)) questionTexts.set(questionKey, [...texts, text])
+        if (!questionTypes.has(questionKey)) questionTypes.set(questionKey, distribution.question_type)
+        const breakdown = breakdowns.get(questionKey) || { variant_key: variant.key, total_responses: 0, options: [] }
+        breakdowns.set(questionKey, mergeBreakdown(breakdown, distribution.total_responses, distribution.options))
+      })
+    })
+
+    breakdowns.forEach((breakdown, questionKey) => {
+      comparisons.set(questionKey, [...(comparisons.get(questionKey) || []), breakdown])
+    })
+  })
+
+  return Array.from(comparisons.entries())
+    .filter(([, breakdowns]) => breakdowns.length >= 2)
+    .map(([questionId, breakdowns]) => {
+      const categoryKeys = Array.from(
+        new Set(breakdowns.flatMap((b) => b.options.map((option) => option.value || option.label)))
+      )
+      const observed = breakdowns.map((b) =>
+        categoryKeys.map((category) =>
+          b.options
+            .filter((option) => (option.value || option.label) === category)
+            .reduce((sum, option) => sum + option.count, 0)
+        )
+      )
+      const test = chiSquareTest(observed)
+
+      const texts = questionTexts.get(questionId) || []
+
+      return {
+        question_id: questionId,
+        question_text: texts[0] || questionId,
+        question_texts: texts,
+        question_type: questionTypes.get(questionId)!,
+        text_changed: texts.length > 1,
+        variants: breakdowns,
+        test,
+        significant: !!test && test.pValue < SIGNIFICANCE_LEVEL,
+      }
+    })
+}
+
+/**
+ * Build an A/B test report for a restaurant
+ * Groups answers by assignment (per-table variant) or by questionnaire (variant across all tables)
+ */
+export const getExperimentReport = async (
+  restaurantId: string,
+  grouping: ExperimentGrouping,
+  dateRange: { startDate?: string; endDate?: string } = {}
+): Promise<ExperimentReport> => {
+  const [assignments, answers] = await Promise.all([
+    getRestaurantAssignments(restaurantId),
+    getAnswers({ restaurantId, ...dateRange }),
+  ])
+
+  const [versions, scanCounts] = await Promise.all([
+    getAnswerVersions(answers),
+    getAssignmentScanCounts(
+      assignments.map((assignment) => assignment.id),
+      {
+        since: dateRange.startDate ? beijingDateToUtcIso(dateRange.startDate, false) : undefined,
+        until: dateRange.endDate ? beijingDateToUtcIso(dateRange.endDate, true) : undefined,
+      }
+    ),
+  ])
+  const variants = buildVariants(grouping, assignments, answers, scanCounts)
+
+  return {
+    grouping,
+    total_responses: answers.length,
+    variants,
+    questions: compareQuestions(grouping, variants, assignments, answers, versions),
+  }
+}
@@ -1,5 +1,20 @@
-// Version: 1.6.0
+// Version: 1.19.0
 // Service for managing QR codes - generating, fetching, and downloading QR codes
+// v1.19.0: moveQRCodeToTable() rejects tables of other restaurants; the target's code only redirects once the move
+//          is confirmed
+// v1.18.0: Errors are typed (AppError with a code) for the admin UI to translate
+// v1.17.0: New QR codes get the restaurant's default assignment set instead of copying other tables' assignments
+// v1.16.0: New QR codes get the restaurant's default questionnaire when one is set (restaurant settings)
+// v1.15.0: Mutations record an audit log entry (auditService)
+// v1.14.0: Mutations require managing the table's restaurant (roleService)
+// v1.13.0: deleteTable() is a soft delete (trash); added deleteQRCode(); deleted tables/questionnaires are skipped
+// v1.12.0: Replaced regenerateQRCodeForTable() with replaceQRCodeForTable() and added moveQRCodeToTable() -
+//          old codes are retired (kept with their answers and redirected to the replacement) instead of deleted
+// v1.11.0: QR code images use the restaurant's QR code style (colors, logo, error correction, size)
+// v1.10.0: Added downloadQRCodeZip() - every table's QR code as PNG or SVG plus a manifest CSV in one ZIP
+// v1.9.0: Added print layouts - A4 card sheets and table tent cards for a whole restaurant, as PDF or SVG
+// v1.8.0: Added createTables() and generateQRCodesForTables() for batch table creation
+// v1.7.0: QR codes point at the in-app customer questionnaire (/q/{id}); old questionnaire.html links redirect there
 // v1.6.0: Added deleteTable function to support table deletion with CASCADE handling
 // v1.5.0: Fixed Supabase query syntax - removed !table_id from echo_qrcode relationship query
 // v1.4.0: Updated to use VITE_BASE_URL environment variable for production Vercel deployment
@@ -8,8 +23,31 @@
 // v1.1.0: Updated default base URL to use localhost:3000/questionnaire.html format
 
 import { supabase } from './supabase'
-import QRCode from 'qrcode'
-import type { EchoTable, EchoQRCode, TableWithQRCode } from '../types/database'
+import { zipSync, strToU8 } from 'fflate'
+import type { DefaultAssignment, EchoTable, EchoQRCode, QRCodeStyle, TableWithQRCode } from '../types/database'
+import { getRestaurantQRStyle, getRestaurantSettings } from './restaurantService'
+import { requireRestaurantAccess, requireTableAccess } from './roleService'
+import { recordAudit } from './auditService'
+import { A4_SIZE_MM, buildPrintPages } from '../utils/printLayout'
+import type { PrintCard, PrintOptions } from '../utils/printLayout'
+import { buildImagePdf, renderSvgToJpeg } from '../utils/pdf'
+import { downloadBlob, toCsv, UTF8_BOM } from '../utils/spreadsheet'
+import { compareTableNumbers } from '../utils/tableNames'
+import { DEFAULT_QR_STYLE, renderQRCodePng, renderQRCodeSvg } from '../utils/qrStyle'
+import { AppError, requestFailed } from '../utils/appError'
+
+// Customer questionnaire route (src/pages/CustomerQuestionnaire); the QR code id is appended
+const DEFAULT_QR_BASE_URL = 'http://localhost:3000/q/'
+
+// Print layouts are rasterized at 200 dpi for PDF output (A4 = 1654 x 2339 px)
+const PRINT_DPI = 200
+
+export type PrintFormat = 'pdf' | 'svg'
+
+export type QRCodeImageFormat = 'png' | 'svg'
+
+// Characters that are not allowed in file names on Windows/macOS
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|]/g
 
 /**
  * Fetch all tables with their QR codes for a specific restaurant
@@ -23,67 +61,55 @@ export const getTablesWithQRCodes = async (restaurantId: string): Promise<TableW
       echo_qrcode (*)
     `)
     .eq('restaurant_id', restaurantId)
+    .is('deleted_at', null)
     .order('table_number', { ascending: true })
 
   if (error) {
-    throw new Error(`Failed to fetch tables: ${error.message}`)
+    throw requestFailed('fetch tables', error.message)
   }
 
   return data || []
 }
 
 /**
- * Get questionnaires assigned to other tables in the same restaurant
- * This ensures new QR codes in a restaurant get the same questionnaires as existing tables
- * Returns empty array if no questionnaires are assigned to this restaurant
+ * Get the questionnaires new QR codes of a restaurant are assigned: its default assignment set
+ * (restaurant settings), in the saved order and with the saved weights. Questionnaires moved to the
+ * trash since the set was saved are skipped. Returns an empty array when no defaults are set.
  */
-const getQuestionnairesForRestaurant = async (restaurantId: string): Promise<Array<{ questionnaire_id: string; weight: number }>> => {
+const getDefaultAssignmentsForRestaurant = async (restaurantId: string): Promise<DefaultAssignment[]> => {
+  const { default_assignments: defaults = [] } = await getRestaurantSettings(restaurantId)
+  if (defaults.length === 0) return []
+
   const { data, error } = await supabase
-    .from('echo_qrcode_questionnaire')
-    .select(`
-      questionnaire_id,
-      weight,
-      echo_qrcode!inner(
-        echo_table!inner(
-          restaurant_id
-        )
-      )
-    `)
-    .eq('echo_qrcode.echo_table.restaurant_id', restaurantId)
-    .eq('is_active', true)
+    .from('echo_questionnaire')
+    .select('id')
+    .in('id', defaults.map((entry) => entry.questionnaire_id))
+    .is('deleted_at', null)
 
-  if (error || !data || data.length === 0) {
+  if (error) {
+    // Log warning but don't fail - the QR code itself can still be created
+    console.warn('Failed to check default questionnaires:', error.message)
     return []
   }
 
-  // Get unique questionnaires (in case multiple tables have the same questionnaire)
-  const uniqueQuestionnaires = new Map<string, number>()
-  data.forEach((assignment: any) => {
-    if (!uniqueQuestionnaires.has(assignment.questionnaire_id)) {
-      uniqueQuestionnaires.set(assignment.questionnaire_id, assignment.weight)
-    }
-  })
-
-  return Array.from(uniqueQuestionnaires.entries()).map(([questionnaire_id, weight]) => ({
-    questionnaire_id,
-    weight,
-  }))
+  const liveIds = new Set((data || []).map((questionnaire) => questionnaire.id))
+  return defaults.filter((entry) => liveIds.has(entry.questionnaire_id))
 }
 
 /**
  * Generate QR code for a table (creates database entry and returns QR code image)
  * Base URL is configured via VITE_BASE_URL environment variable
- * Default (development): http://localhost:3000/questionnaire.html?qrcode=
- * Production: https://echo.smartice.ai/questionnaire.html?qrcode=
+ * Default (development): http://localhost:3000/q/
+ * Production: https://echo.smartice.ai/q/
  * Final URL: {baseUrl}{qrCodeId}
  *
- * IMPORTANT: Automatically assigns questionnaires from the same restaurant
- * This ensures new QR codes get the same questionnaires as other tables in their restaurant.
+ * IMPORTANT: Automatically assigns the restaurant's default assignment set (questionnaires and weights, edited
+ * on the QR code page). The result only depends on that set, not on what other tables happen to have.
  * For AB testing or multiple questionnaires, use the Questionnaire Editor to manage assignments.
  */
 export const generateQRCodeForTable = async (
   tableId: string,
-  baseUrl: string = import.meta.env.VITE_BASE_URL || 'http://localhost:3000/questionnaire.html?qrcode='
+  baseUrl: string = import.meta.env.VITE_BASE_URL || DEFAULT_QR_BASE_URL
 ): Promise<{ qrCodeData: EchoQRCode; imageUrl: string }> => {
   // Get the table's restaurant_id first
   const { data: tableData, error: tableError } = await supabase
@@ -93,9 +119,12 @@ export const generateQRCodeForTable = async (
     .single()
 
   if (tableError || !tableData) {
-    throw new Error(`Failed to fetch table data: ${tableError?.message || 'Table not found'}`)
+    throw requestFailed('fetch table data', tableError?.message || 'Table not found')
   }
 
+  await requireRestaurantAccess(tableData.restaurant_id)
+  const style = await getRestaurantQRStyle(tableData.restaurant_id)
+
   // Generate a unique QR code ID
   const qrCodeId = crypto.randomUUID()
   const qrCodeValue = `${baseUrl}${qrCodeId}`
@@ -112,11 +141,11 @@ export const generateQRCodeForTable = async (
     .single()
 
   if (error) {
-    throw new Error(`Failed to create QR code: ${error.message}`)
+    throw requestFailed('create QR code', error.message)
   }
 
-  // Auto-assign questionnaires from the same restaurant
-  const questionnaires = await getQuestionnairesForRestaurant(tableData.restaurant_id)
+  // Auto-assign the restaurant's default assignment set
+  const questionnaires = await getDefaultAssignmentsForRestaurant(tableData.restaurant_id)
   if (questionnaires.length > 0) {
     const assignments = questionnaires.map(q => ({
       qrcode_id: qrCodeId,
@@ -134,34 +163,31 @@ export const generateQRCodeForTable = async (
       console.warn('Failed to auto-assign questionnaires:', assignError.message)
     }
   } else {
-    console.warn('No questionnaires assigned to this restaurant - QR code created without assignment')
+    console.warn('No default questionnaires set for this restaurant - QR code created without assignment')
   }
 
-  // Generate QR code image
-  const imageUrl = await QRCode.toDataURL(qrCodeValue, {
-    width: 512,
-    margin: 2,
-    color: {
-      dark: '#000000',
-      light: '#FFFFFF',
-    },
+  await recordAudit({
+    action: 'qrcode.generate',
+    entityId: qrCodeId,
+    restaurantId: tableData.restaurant_id,
+    after: data,
   })
 
+  // Generate QR code image
+  const imageUrl = await generateQRCodeImage(qrCodeValue, style)
+
   return { qrCodeData: data, imageUrl }
 }
 
 /**
- * Generate QR code image URL from existing QR code value
+ * Generate QR code image URL (PNG) from existing QR code value
+ * @param style - The restaurant's QR code style (getRestaurantQRStyle); plain black on white when omitted
  */
-export const generateQRCodeImage = async (qrCodeValue: string): Promise<string> => {
-  return await QRCode.toDataURL(qrCodeValue, {
-    width: 512,
-    margin: 2,
-    color: {
-      dark: '#000000',
-      light: '#FFFFFF',
-    },
-  })
+export const generateQRCodeImage = async (
+  qrCodeValue: string,
+  style: QRCodeStyle = DEFAULT_QR_STYLE
+): Promise<string> => {
+  return await renderQRCodePng(qrCodeValue, style)
 }
 
 /**
@@ -174,10 +200,123 @@ export const downloadQRCode = (imageUrl: string, filename: string) => {
   link.click()
 }
 
+/**
+ * Build print layout pages (SVG) for every table of a restaurant that has a QR code
+ * Tables are ordered naturally (A2 before A10) so cut cards come out in a sensible order
+ */
+export const buildQRCodePrintPages = async (
+  restaurantId: string,
+  restaurantName: string,
+  options: PrintOptions
+): Promise<string[]> => {
+  const tables = await getTablesWithQRCodes(restaurantId)
+  const cards: PrintCard[] = tables
+    .filter((table) => table.echo_qrcode)
+    .sort((a, b) => compareTableNumbers(a.table_number, b.table_number))
+    .map((table) => ({
+      restaurant_name: restaurantName,
+      table_number: table.table_number,
+      qr_code_value: table.echo_qrcode!.qr_code_value,
+    }))
+
+  if (cards.length === 0) {
+    throw new AppError('qrcode.none_to_print', 'No tables with QR codes to print')
+  }
+
+  return buildPrintPages(cards, { ...options, qrStyle: options.qrStyle || (await getRestaurantQRStyle(restaurantId)) })
+}
+
+/**
+ * Download print layout pages
+ * PDF: one file, pages rendered as images. SVG: one file, or a ZIP with one SVG per page.
+ */
+export const downloadPrintPages = async (pages: string[], format: PrintFormat, filenameBase: string) => {
+  if (format === 'svg') {
+    if (pages.length === 1) {
+      downloadBlob(new Blob([pages[0]], { type: 'image/svg+xml' }), `${filenameBase}.svg`)
+      return
+    }
+
+    const files: Record<string, Uint8Array> = {}
+    pages.forEach((page, index) => {
+      files[`${filenameBase}-${String(index + 1).padStart(3, '0')}.svg`] = strToU8(page)
+    })
+    downloadBlob(new Blob([zipSync(files)], { type: 'application/zip' }), `${filenameBase}.zip`)
+    return
+  }
+
+  const width = Math.round((A4_SIZE_MM.width / 25.4) * PRINT_DPI)
+  const height = Math.round((A4_SIZE_MM.height / 25.4) * PRINT_DPI)
+  const images = []
+  // One page at a time keeps memory use flat for large restaurants
+  for (const page of pages) {
+    images.push({ jpeg: await renderSvgToJpeg(page, width, height), width, height })
+  }
+
+  const pdf = buildImagePdf(images, A4_SIZE_MM.width, A4_SIZE_MM.height)
+  downloadBlob(new Blob([pdf], { type: 'application/pdf' }), `${filenameBase}.pdf`)
+}
+
+/**
+ * Decode a base64 data URL (as produced by generateQRCodeImage) to bytes
+ */
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Download every QR code of a restaurant as one ZIP
+ * Codes use the restaurant's QR code style. Files are named {restaurant}-table-{table_number}.{png|svg}; manifest.csv maps
+ * table_number -> qrcode_id -> URL -> file so print shops can match codes to tables
+ */
+export const downloadQRCodeZip = async (
+  restaurantId: string,
+  restaurantName: string,
+  format: QRCodeImageFormat
+): Promise<void> => {
+  const tables = (await getTablesWithQRCodes(restaurantId))
+    .filter((table) => table.echo_qrcode)
+    .sort((a, b) => compareTableNumbers(a.table_number, b.table_number))
+
+  if (tables.length === 0) {
+    throw new AppError('qrcode.none_to_download', 'No tables with QR codes to download')
+  }
+
+  const style = await getRestaurantQRStyle(restaurantId)
+  const prefix = restaurantName.replace(INVALID_FILENAME_CHARS, '_') || 'restaurant'
+  const files: Record<string, Uint8Array> = {}
+  const manifest: string[][] = [['table_number', 'qrcode_id', 'url', 'file']]
+
+  for (const table of tables) {
+    const qrCode = table.echo_qrcode!
+    let filename = `${prefix}-table-${table.table_number.replace(INVALID_FILENAME_CHARS, '_')}.${format}`
+    // Table numbers that only differ in replaced characters would overwrite each other
+    if (files[filename]) {
+      filename = filename.replace(`.${format}`, `-${qrCode.id.slice(0, 8)}.${format}`)
+    }
+
+    files[filename] =
+      format === 'svg'
+        ? strToU8(await renderQRCodeSvg(qrCode.qr_code_value, style))
+        : dataUrlToBytes(await generateQRCodeImage(qrCode.qr_code_value, style))
+    manifest.push([table.table_number, qrCode.id, qrCode.qr_code_value, filename])
+  }
+
+  files['manifest.csv'] = strToU8(UTF8_BOM + toCsv(manifest))
+  downloadBlob(new Blob([zipSync(files)], { type: 'application/zip' }), `${prefix}-qrcodes-${format}.zip`)
+}
+
 /**
  * Create a new table for a restaurant
  */
 export const createTable = async (restaurantId: string, tableNumber: string): Promise<EchoTable> => {
+  await requireRestaurantAccess(restaurantId)
+
   const { data, error } = await supabase
     .from('echo_table')
     .insert({
@@ -188,58 +327,375 @@ export const createTable = async (restaurantId: string, tableNumber: string): Pr
     .single()
 
   if (error) {
-    throw new Error(`Failed to create table: ${error.message}`)
+    throw requestFailed('create table', error.message)
   }
 
+  await recordAudit({ action: 'table.create', entityId: data.id, restaurantId, after: data })
+
   return data
 }
 
 /**
- * Regenerate QR code for a table (deletes old QR code and creates a new one)
- * WARNING: This will invalidate any printed QR codes!
- *
- * IMPORTANT: Deleting the old QR code CASCADE deletes all questionnaire assignments.
- * The new QR code will be auto-assigned questionnaires from the same restaurant via
- * generateQRCodeForTable(). If you need to preserve custom AB testing assignments,
- * use the Questionnaire Editor to reassign questionnaires after regeneration.
+ * Create several tables for a restaurant in a single insert
+ * The insert is all-or-nothing: if any table_number already exists, the (restaurant_id, table_number)
+ * unique constraint rejects the whole batch and no table is created
+ */
+export const createTables = async (restaurantId: string, tableNumbers: string[]): Promise<EchoTable[]> => {
+  await requireRestaurantAccess(restaurantId)
+
+  const { data, error } = await supabase
+    .from('echo_table')
+    .insert(tableNumbers.map((tableNumber) => ({ restaurant_id: restaurantId, table_number: tableNumber })))
+    .select()
+
+  if (error) {
+    throw requestFailed('create tables', error.message)
+  }
+
+  await recordAudit(
+    (data || []).map((table) => ({ action: 'table.create' as const, entityId: table.id, restaurantId, after: table }))
+  )
+
+  return data || []
+}
+
+/**
+ * Generate QR codes for several tables of one restaurant (batch version of generateQRCodeForTable)
+ * The restaurant's default assignment set is auto-assigned the same way. No images are rendered -
+ * reload the tables to display them.
  */
-export const regenerateQRCodeForTable = async (
+export const generateQRCodesForTables = async (
+  restaurantId: string,
+  tableIds: string[],
+  baseUrl: string = import.meta.env.VITE_BASE_URL || DEFAULT_QR_BASE_URL
+): Promise<EchoQRCode[]> => {
+  if (tableIds.length === 0) return []
+  await requireRestaurantAccess(restaurantId)
+
+  const questionnaires = await getDefaultAssignmentsForRestaurant(restaurantId)
+
+  const rows = tableIds.map((tableId) => {
+    const qrCodeId = crypto.randomUUID()
+    return { id: qrCodeId, table_id: tableId, qr_code_value: `${baseUrl}${qrCodeId}` }
+  })
+
+  const { data, error } = await supabase.from('echo_qrcode').insert(rows).select()
+
+  if (error) {
+    throw requestFailed('create QR codes', error.message)
+  }
+
+  if (questionnaires.length > 0) {
+    const assignments = rows.flatMap((row) =>
+      questionnaires.map((q) => ({
+        qrcode_id: row.id,
+        questionnaire_id: q.questionnaire_id,
+        weight: q.weight,
+        is_active: true,
+      }))
+    )
+
+    const { error: assignError } = await supabase
+      .from('echo_qrcode_questionnaire')
+      .insert(assignments)
+
+    if (assignError) {
+      // Log warning but don't fail - QR codes were created successfully
+      console.warn('Failed to auto-assign questionnaires:', assignError.message)
+    }
+  } else {
+    console.warn('No default questionnaires set for this restaurant - QR codes created without assignment')
+  }
+
+  await recordAudit(
+    (data || []).map((qrCode) => ({
+      action: 'qrcode.generate' as const,
+      entityId: qrCode.id,
+      restaurantId,
+      after: qrCode,
+    }))
+  )
+
+  return data || []
+}
+
+/**
+ * Retire a QR code: detach it from its table so another code can take the table's place
+ * The row is kept, so answers collected through it stay attached (echo_answers.qrcode_id).
+ * Scans of a retired code open replaced_by_qrcode_id when set, otherwise show a "no longer in use" page.
+ */
+const retireQRCode = async (qrCodeId: string, tableId: string, replacedByQRCodeId: string | null): Promise<void> => {
+  const { error } = await supabase
+    .from('echo_qrcode')
+    .update({
+      table_id: null,
+      retired_from_table_id: tableId,
+      retired_at: new Date().toISOString(),
+      replaced_by_qrcode_id: replacedByQRCodeId,
+    })
+    .eq('id', qrCodeId)
+
+  if (error) {
+    throw requestFailed('retire QR code', error.message)
+  }
+}
+
+/**
+ * Undo retireQRCode() when the step after it fails, so the table is not left without a QR code
+ */
+const restoreRetiredQRCode = async (qrCodeId: string, tableId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('echo_qrcode')
+    .update({ table_id: tableId, retired_from_table_id: null, retired_at: null, replaced_by_qrcode_id: null })
+    .eq('id', qrCodeId)
+
+  if (error) {
+    console.warn('Failed to restore retired QR code:', error.message)
+  }
+}
+
+/**
+ * Deactivate the assignments of a retired QR code (kept as history for the answers that reference them)
+ */
+const deactivateRetiredAssignments = async (qrCodeId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('echo_qrcode_questionnaire')
+    .update({ is_active: false, deactivated_at: new Date().toISOString() })
+    .eq('qrcode_id', qrCodeId)
+    .eq('is_active', true)
+
+  if (error) {
+    // Log warning but don't fail - retired codes are never served, so stale assignments are harmless
+    console.warn('Failed to deactivate assignments of retired QR code:', error.message)
+  }
+}
+
+/**
+ * Replace the QR code of a table, e.g. when the printed sticker is damaged or lost
+ * The old code is retired and redirects to the new one, so a sticker that is still on a table keeps working.
+ * The new code takes over the old code's active questionnaire assignments (including A/B weights).
+ * Previously collected answers stay attached to the old code.
+ */
+export const replaceQRCodeForTable = async (
   tableId: string,
   existingQRCodeId: string,
-  baseUrl: string = import.meta.env.VITE_BASE_URL || 'http://localhost:3000/questionnaire.html?qrcode='
+  baseUrl: string = import.meta.env.VITE_BASE_URL || DEFAULT_QR_BASE_URL
 ): Promise<{ qrCodeData: EchoQRCode; imageUrl: string }> => {
-  // Delete the existing QR code (CASCADE deletes questionnaire assignments)
-  const { error: deleteError } = await supabase
+  const { data: tableData, error: tableError } = await supabase
+    .from('echo_table')
+    .select('restaurant_id')
+    .eq('id', tableId)
+    .single()
+
+  if (tableError || !tableData) {
+    throw requestFailed('fetch table data', tableError?.message || 'Table not found')
+  }
+
+  await requireRestaurantAccess(tableData.restaurant_id)
+
+  const { data: oldAssignments, error: assignmentsError } = await supabase
+    .from('echo_qrcode_questionnaire')
+    .select('questionnaire_id, weight')
+    .eq('qrcode_id', existingQRCodeId)
+    .eq('is_active', true)
+
+  if (assignmentsError) {
+    throw requestFailed('fetch QR code assignments', assignmentsError.message)
+  }
+
+  const style = await getRestaurantQRStyle(tableData.restaurant_id)
+
+  // The table can only hold one QR code, so the old one is detached first
+  await retireQRCode(existingQRCodeId, tableId, null)
+
+  const qrCodeId = crypto.randomUUID()
+  const qrCodeValue = `${baseUrl}${qrCodeId}`
+
+  const { data, error } = await supabase
     .from('echo_qrcode')
-    .delete()
+    .insert({
+      id: qrCodeId,
+      table_id: tableId,
+      qr_code_value: qrCodeValue,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    await restoreRetiredQRCode(existingQRCodeId, tableId)
+    throw requestFailed('create QR code', error.message)
+  }
+
+  const { error: redirectError } = await supabase
+    .from('echo_qrcode')
+    .update({ replaced_by_qrcode_id: qrCodeId })
     .eq('id', existingQRCodeId)
 
-  if (deleteError) {
-    throw new Error(`Failed to delete old QR code: ${deleteError.message}`)
+  if (redirectError) {
+    // Log warning but don't fail - the old sticker shows "no longer in use" instead of redirecting
+    console.warn('Failed to link retired QR code to its replacement:', redirectError.message)
+  }
+  await deactivateRetiredAssignments(existingQRCodeId)
+
+  if (oldAssignments && oldAssignments.length > 0) {
+    const { error: assignError } = await supabase.from('echo_qrcode_questionnaire').insert(
+      oldAssignments.map((assignment) => ({
+        qrcode_id: qrCodeId,
+        questionnaire_id: assignment.questionnaire_id,
+        weight: assignment.weight,
+        is_active: true,
+      }))
+    )
+
+    if (assignError) {
+      // Log warning but don't fail - QR code was created successfully
+      console.warn('Failed to copy questionnaire assignments:', assignError.message)
+    }
+  } else {
+    console.warn('Replaced QR code had no active assignment - QR code created without assignment')
+  }
+
+  await recordAudit({
+    action: 'qrcode.replace',
+    entityId: existingQRCodeId,
+    restaurantId: tableData.restaurant_id,
+    before: { qrcode_id: existingQRCodeId, table_id: tableId, assignments: oldAssignments || [] },
+    after: { qrcode_id: qrCodeId, qr_code_value: qrCodeValue, table_id: tableId, assignments: oldAssignments || [] },
+  })
+
+  const imageUrl = await generateQRCodeImage(qrCodeValue, style)
+
+  return { qrCodeData: data, imageUrl }
+}
+
+/**
+ * Move a QR code (the printed sticker) to another table of the same restaurant
+ * The code keeps its id, value and questionnaire assignments. If the target table already has a QR code,
+ * that code is retired and redirects to the moved one, so its sticker keeps opening the right table.
+ * Answers collected before the move keep the table they were submitted at (echo_answers.table_id).
+ */
+export const moveQRCodeToTable = async (
+  qrCodeId: string,
+  fromTableId: string,
+  targetTableId: string
+): Promise<void> => {
+  const restaurantId = await requireTableAccess(fromTableId)
+  const targetRestaurantId = await requireTableAccess(targetTableId)
+
+  if (targetRestaurantId !== restaurantId) {
+    throw new AppError('qrcode.move_other_restaurant', 'QR codes can only be moved to a table of the same restaurant')
+  }
+
+  const { data: target, error: targetError } = await supabase
+    .from('echo_table')
+    .select('id, echo_qrcode (id)')
+    .eq('id', targetTableId)
+    .single()
+
+  if (targetError || !target) {
+    throw requestFailed('fetch target table', targetError?.message || 'Table not found')
+  }
+
+  // echo_qrcode is a single object (not array) for 1:1 relationships
+  const targetQRCode = target.echo_qrcode as unknown as { id: string } | null
+
+  // table_id is unique, so the target's code is detached first; it only redirects to the moved code
+  // once the move is confirmed, and is put back on its table otherwise
+  if (targetQRCode) {
+    await retireQRCode(targetQRCode.id, targetTableId, null)
   }
 
-  // Generate new QR code (automatically assigns first active questionnaire)
-  return await generateQRCodeForTable(tableId, baseUrl)
+  const { data: moved, error } = await supabase
+    .from('echo_qrcode')
+    .update({ table_id: targetTableId, updated_at: new Date().toISOString() })
+    .eq('id', qrCodeId)
+    .eq('table_id', fromTableId)
+    .select('id')
+
+  if (error || !moved || moved.length === 0) {
+    if (targetQRCode) {
+      await restoreRetiredQRCode(targetQRCode.id, targetTableId)
+    }
+    if (error) {
+      throw requestFailed('move QR code', error.message)
+    }
+    throw new AppError('qrcode.not_on_table', 'The QR code is no longer on this table. Reload the page and try again.')
+  }
+
+  if (targetQRCode) {
+    const { error: redirectError } = await supabase
+      .from('echo_qrcode')
+      .update({ replaced_by_qrcode_id: qrCodeId })
+      .eq('id', targetQRCode.id)
+
+    if (redirectError) {
+      // Log warning but don't fail - the old sticker shows "no longer in use" instead of redirecting
+      console.warn('Failed to link retired QR code to the moved one:', redirectError.message)
+    }
+    await deactivateRetiredAssignments(targetQRCode.id)
+  }
+
+  await recordAudit({
+    action: 'qrcode.move',
+    entityId: qrCodeId,
+    restaurantId,
+    before: { table_id: fromTableId },
+    after: { table_id: targetTableId, retired_qrcode_id: targetQRCode?.id ?? null },
+  })
 }
 
 /**
- * Delete a table and all associated data
- * WARNING: This action is irreversible!
- *
- * IMPORTANT: Deleting a table CASCADE deletes all related data:
- * - Associated QR code (echo_qrcode)
- * - Questionnaire assignments (echo_qrcode_questionnaire)
- * - Customer answers (echo_answers)
- *
- * Use this function with caution. All customer feedback data for this table will be permanently lost.
+ * Move a table to the trash (soft delete)
+ * The table, its QR code, assignments and answers are kept; the table disappears from lists and its QR code
+ * stops opening questionnaires. Restore or purge it from the trash (trashService).
  */
 export const deleteTable = async (tableId: string): Promise<void> => {
-  const { error } = await supabase
+  const restaurantId = await requireTableAccess(tableId)
+
+  const { data, error } = await supabase
     .from('echo_table')
-    .delete()
+    .update({ deleted_at: new Date().toISOString() })
     .eq('id', tableId)
+    .select()
+    .single()
 
   if (error) {
-    throw new Error(`Failed to delete table: ${error.message}`)
+    throw requestFailed('delete table', error.message)
   }
+
+  await recordAudit({
+    action: 'table.delete',
+    entityId: tableId,
+    restaurantId,
+    before: { ...data, deleted_at: null },
+    after: data,
+  })
+}
+
+/**
+ * Move a table's QR code to the trash (soft delete)
+ * Like a retired code, it is detached from the table (so a new code can be generated) and remembers the table
+ * in retired_from_table_id for restoring. Scans show a "no longer in use" page.
+ */
+export const deleteQRCode = async (qrCodeId: string, tableId: string): Promise<void> => {
+  const restaurantId = await requireTableAccess(tableId)
+
+  const { data, error } = await supabase
+    .from('echo_qrcode')
+    .update({ table_id: null, retired_from_table_id: tableId, deleted_at: new Date().toISOString() })
+    .eq('id', qrCodeId)
+    .select()
+    .single()
+
+  if (error) {
+    throw requestFailed('delete QR code', error.message)
+  }
+
+  await recordAudit({
+    action: 'qrcode.delete',
+    entityId: qrCodeId,
+    restaurantId,
+    before: { ...data, table_id: tableId, retired_from_table_id: null, deleted_at: null },
+    after: data,
+  })
 }
@@ -1,6 +1,20 @@
-// Version: 3.0.0
+// Version: 3.11.1
 // Service for managing questionnaires - creating, updating, and assigning questionnaires
 // Updated: Added support for JSONB-based flexible questions with different types and options
+// v3.11.1: RATING_SCALE and NPS_SCALE moved to utils/questionScales
+// v3.11.0: Errors are typed (AppError with a code) - validateQuestions() returns one instead of an English string
+// v3.10.0: Copies and imports keep title / description translations
+// v3.9.0: Added importQuestionnaire() - create a questionnaire from a questionnaire file or overwrite the one with its id
+// v3.8.0: Added duplicateQuestionnaire() and createQuestionnaireFromTemplate() - copies get fresh question ids
+// v3.7.0: Mutations record an audit log entry (auditService)
+// v3.6.0: Mutations check the signed-in user's role (roleService) - questionnaire editing, deleting, and
+//         assignments only for restaurants the user manages
+// v3.5.0: Added deleteQuestionnaire() (soft delete to the trash); questionnaires and tables in the trash are skipped
+// v3.4.0: validateQuestions() checks skip logic - branch conditions, dangling targets and loops
+// v3.3.0: validateQuestions() supports rating, nps, multi_select and numeric questions
+// v3.2.0: getAllQuestionnaires() embeds the published version; drafts vs published snapshots live in questionnaireVersionService
+// v3.1.0: One-questionnaire-per-table is now an explicit AssignmentMode ('single' | 'weighted') instead of a hard rule.
+//         Added getQRCodeAssignments() and saveQRCodeAssignments() for the weighted per-QR-code assignment editor.
 // v3.0.0: BREAKING CHANGE - Removed legacy field support. All questionnaires now use JSONB format exclusively. Updated documentation.
 // v2.7.0: Changed validation - option.value is now optional (can be empty for synonymous options). Only label is required.
 // v2.6.0: IMPROVED UX - assignQuestionnaireToRestaurant() now SKIPS tables with existing assignments instead of throwing error. Returns assignment statistics (assigned/skipped counts).
@@ -15,25 +29,72 @@
 // v2.0.0: Updated create/update functions to handle questions array with multiple_choice and text_input types
 
 import { supabase } from './supabase'
+import {
+  requireQRCodeAccess,
+  requireQuestionnaireDeleteAccess,
+  requireQuestionnaireEditAccess,
+  requireRestaurantAccess,
+} from './roleService'
+import { recordAudit } from './auditService'
 import type {
   EchoQuestionnaire,
   EchoQRCodeQuestionnaire,
   QRCodeWithAssignments,
+  QRCodeQuestionnaireWithQuestionnaire,
   Question,
   QuestionnaireAssignment,
+  QuestionnaireWithVersion,
+  QuestionType,
 } from '../types/database'
+import {
+  BRANCHING_QUESTION_TYPES,
+  END_OF_QUESTIONNAIRE,
+  findQuestionCycle,
+  getOptionKey,
+} from '../utils/questionFlow'
+import { copyQuestions } from '../utils/questionnaireCopy'
+import type { QuestionnaireFileContent } from '../utils/questionnaireFile'
+import { NPS_SCALE, RATING_SCALE } from '../utils/questionScales'
+import { AppError, requestFailed } from '../utils/appError'
+import type { AppErrorCode, AppErrorParams } from '../utils/appError'
+
+export const QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'multi_select', 'text_input', 'rating', 'nps', 'numeric']
+
+// Allowed option count per choice question type
+export const OPTION_LIMITS: Partial<Record<QuestionType, { min: number; max: number }>> = {
+  multiple_choice: { min: 2, max: 5 },
+  multi_select: { min: 2, max: 10 },
+}
+
+// Embedded published snapshot of a questionnaire
+// The FK hint is required because echo_questionnaire and echo_questionnaire_version reference each other
+export const PUBLISHED_VERSION_SELECT = 'published_version:echo_questionnaire_version!published_version_id(*)'
+
+/**
+ * How a new assignment interacts with a QR code's existing assignments
+ * - 'single': one questionnaire per table - refuse (or skip) tables that already have an active assignment
+ * - 'weighted': A/B testing - add alongside existing assignments; customers get one at random by weight
+ */
+export type AssignmentMode = 'single' | 'weighted'
+
+// 'create' = new questionnaire, 'overwrite' = replace the draft of the questionnaire with the file's id
+export type QuestionnaireImportMode = 'create' | 'overwrite'
+
+// Result of validateQuestions() - the first problem found, as a typed error
+export type QuestionValidationResult = { valid: true; error?: undefined } | { valid: false; error: AppError }
 
 /**
- * Get all questionnaires
+ * Get all questionnaires (draft content) with their published version, if any
  */
-export const getAllQuestionnaires = async (): Promise<EchoQuestionnaire[]> => {
+export const getAllQuestionnaires = async (): Promise<QuestionnaireWithVersion[]> => {
   const { data, error } = await supabase
     .from('echo_questionnaire')
-    .select('*')
+    .select(`*, ${PUBLISHED_VERSION_SELECT}`)
+    .is('deleted_at', null)
     .order('created_at', { ascending: false })
 
   if (error) {
-    throw new Error(`Failed to fetch questionnaires: ${error.message}`)
+    throw requestFailed('fetch questionnaires', error.message)
   }
 
   return data || []
@@ -52,7 +113,7 @@ export const getQuestionnairesForQRCode = async (qrcodeId: string): Promise<Echo
     .eq('echo_questionnaire.is_active', true)
 
   if (error) {
-    throw new Error(`Failed to fetch questionnaires for QR code: ${error.message}`)
+    throw requestFailed('fetch questionnaires for QR code', error.message)
   }
 
   return data?.map((item: any) => item.echo_questionnaire) || []
@@ -77,7 +138,7 @@ export const getQuestionnaireAssignmentsForRestaurant = async (
     .eq('echo_table.restaurant_id', restaurantId)
 
   if (error) {
-    throw new Error(`Failed to fetch questionnaire assignments: ${error.message}`)
+    throw requestFailed('fetch questionnaire assignments', error.message)
   }
 
   return data || []
@@ -116,7 +177,7 @@ export const getAssignmentsForQuestionnaire = async (
     .eq('is_active', true)
 
   if (error) {
-    throw new Error(`Failed to fetch assignments for questionnaire: ${error.message}`)
+    throw requestFailed('fetch assignments for questionnaire', error.message)
   }
 
   // Group by restaurant
@@ -170,6 +231,8 @@ export const getAssignmentsForQuestionnaire = async (
 export const createQuestionnaire = async (
   questionnaire: Omit<EchoQuestionnaire, 'id' | 'created_at' | 'updated_at'>
 ): Promise<EchoQuestionnaire> => {
+  await requireQuestionnaireEditAccess()
+
   // Ensure questions array is provided, if not create empty array
   const questionnaireData = {
     ...questionnaire,
@@ -183,20 +246,132 @@ export const createQuestionnaire = async (
     .single()
 
   if (error) {
-    throw new Error(`Failed to create questionnaire: ${error.message}`)
+    throw requestFailed('create questionnaire', error.message)
   }
 
+  await recordAudit({ action: 'questionnaire.create', entityId: data.id, after: data })
+
   return data
 }
 
+/**
+ * Create a questionnaire from copied questions - fresh question ids, skip logic rewired to them
+ * The copy starts as an unpublished draft
+ */
+const createQuestionnaireFromCopy = async (
+  source: Pick<
+    EchoQuestionnaire,
+    'title' | 'description' | 'title_translations' | 'description_translations' | 'questions' | 'is_active'
+  >
+): Promise<EchoQuestionnaire> => {
+  const questions = copyQuestions(source.questions)
+
+  const validation = validateQuestions(questions)
+  if (!validation.valid) {
+    throw validation.error
+  }
+
+  return createQuestionnaire({
+    title: source.title,
+    description: source.description,
+    title_translations: source.title_translations || {},
+    description_translations: source.description_translations || {},
+    is_active: source.is_active,
+    questions,
+  })
+}
+
+/**
+ * Duplicate a questionnaire, e.g. as the variant of an A/B test
+ * Copies the draft (what the editor shows), not the published version; assignments are not copied
+ * @param title - Title of the copy
+ */
+export const duplicateQuestionnaire = async (
+  questionnaire: EchoQuestionnaire,
+  title: string
+): Promise<EchoQuestionnaire> => {
+  return createQuestionnaireFromCopy({ ...questionnaire, title })
+}
+
+/**
+ * Create a questionnaire from a template of the template library
+ */
+export const createQuestionnaireFromTemplate = async (
+  template: Pick<EchoQuestionnaire, 'title' | 'description' | 'questions'>
+): Promise<EchoQuestionnaire> => {
+  return createQuestionnaireFromCopy({ ...template, is_active: true })
+}
+
+/**
+ * Import a questionnaire read from a questionnaire file (parseQuestionnaireFile())
+ * Overwriting only replaces the draft - customers keep the published version until it is published again;
+ * question ids are kept, so answers to the overwritten questions stay matched to them
+ */
+export const importQuestionnaire = async (
+  content: QuestionnaireFileContent,
+  mode: QuestionnaireImportMode
+): Promise<EchoQuestionnaire> => {
+  const validation = validateQuestions(content.questions)
+  if (!validation.valid) {
+    throw validation.error
+  }
+
+  const questionnaireData = {
+    title: content.title,
+    description: content.description,
+    title_translations: content.title_translations || {},
+    description_translations: content.description_translations || {},
+    is_active: content.is_active,
+    questions: content.questions,
+  }
+
+  if (mode === 'create') {
+    return createQuestionnaire(questionnaireData)
+  }
+
+  const { data: existing, error } = await supabase
+    .from('echo_questionnaire')
+    .select('id')
+    .eq('id', content.id)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (error) {
+    throw requestFailed('fetch questionnaire', error.message)
+  }
+
+  if (!existing) {
+    throw new AppError(
+      'questionnaire.import_not_found',
+      'No questionnaire with the id of the file exists in this project - import it as a new questionnaire'
+    )
+  }
+
+  return updateQuestionnaire(content.id, questionnaireData)
+}
+
 /**
  * Update an existing questionnaire
  * Uses JSONB format (questions array) for unlimited question support
+ * Only changes the draft - customers keep seeing the published version until it is published again
  */
 export const updateQuestionnaire = async (
   questionnaireId: string,
   updates: Partial<Omit<EchoQuestionnaire, 'id' | 'created_at'>>
 ): Promise<EchoQuestionnaire> => {
+  await requireQuestionnaireEditAccess()
+
+  // Snapshot for the audit log
+  const { data: before, error: fetchError } = await supabase
+    .from('echo_questionnaire')
+    .select('*')
+    .eq('id', questionnaireId)
+    .single()
+
+  if (fetchError) {
+    throw requestFailed('fetch questionnaire', fetchError.message)
+  }
+
   const { data, error } = await supabase
     .from('echo_questionnaire')
     .update(updates)
@@ -205,57 +380,198 @@ export const updateQuestionnaire = async (
     .single()
 
   if (error) {
-    throw new Error(`Failed to update questionnaire: ${error.message}`)
+    throw requestFailed('update questionnaire', error.message)
   }
 
+  await recordAudit({ action: 'questionnaire.update', entityId: questionnaireId, before, after: data })
+
   return data
 }
 
+/**
+ * Move a questionnaire to the trash (soft delete)
+ * Assignments are left as they are, so restoring brings them back; customers stop seeing it immediately
+ * because the survey only serves questionnaires with deleted_at = NULL
+ */
+export const deleteQuestionnaire = async (questionnaireId: string): Promise<void> => {
+  await requireQuestionnaireDeleteAccess()
+
+  const { data, error } = await supabase
+    .from('echo_questionnaire')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', questionnaireId)
+    .select()
+    .single()
+
+  if (error) {
+    throw requestFailed('delete questionnaire', error.message)
+  }
+
+  await recordAudit({
+    action: 'questionnaire.delete',
+    entityId: questionnaireId,
+    before: { ...data, deleted_at: null },
+    after: data,
+  })
+}
+
 /**
  * Validate question structure
  * Ensures questions array has valid format before saving
+ * The error carries a code and the question / rule / option numbers (1-based) for the admin UI to translate
  */
-export const validateQuestions = (questions: Question[]): { valid: boolean; error?: string } => {
+export const validateQuestions = (questions: Question[]): QuestionValidationResult => {
+  const invalid = (code: AppErrorCode, message: string, params?: AppErrorParams): QuestionValidationResult => ({
+    valid: false,
+    error: new AppError(code, message, params),
+  })
+
   if (!Array.isArray(questions)) {
-    return { valid: false, error: 'Questions must be an array' }
+    return invalid('questions.not_array', 'Questions must be an array')
   }
 
   if (questions.length === 0) {
-    return { valid: false, error: 'At least one question is required' }
+    return invalid('questions.empty', 'At least one question is required')
   }
 
+  const questionIds = new Set(questions.map((q) => q.id))
+  const isValidTarget = (target: string | undefined) => !!target && (target === END_OF_QUESTIONNAIRE || questionIds.has(target))
+
   for (let i = 0; i < questions.length; i++) {
     const q = questions[i]
+    const question = i + 1
 
     if (!q.id || typeof q.id !== 'string') {
-      return { valid: false, error: `Question ${i + 1}: ID is required` }
+      return invalid('question.id_required', `Question ${question}: ID is required`, { question })
     }
 
     if (!q.text || typeof q.text !== 'string' || q.text.trim() === '') {
-      return { valid: false, error: `Question ${i + 1}: Text is required` }
+      return invalid('question.text_required', `Question ${question}: Text is required`, { question })
     }
 
-    if (!q.type || !['multiple_choice', 'text_input'].includes(q.type)) {
-      return { valid: false, error: `Question ${i + 1}: Type must be 'multiple_choice' or 'text_input'` }
+    if (!q.type || !QUESTION_TYPES.includes(q.type)) {
+      const types = QUESTION_TYPES.join(', ')
+      return invalid('question.type_invalid', `Question ${question}: Type must be one of ${types}`, { question, types })
     }
 
-    if (q.type === 'multiple_choice') {
+    const optionLimits = OPTION_LIMITS[q.type]
+    if (optionLimits) {
       if (!q.options || !Array.isArray(q.options)) {
-        return { valid: false, error: `Question ${i + 1}: Multiple choice questions must have options` }
+        return invalid('question.options_required', `Question ${question}: Choice questions must have options`, { question })
       }
 
-      if (q.options.length < 2 || q.options.length > 5) {
-        return { valid: false, error: `Question ${i + 1}: Multiple choice must have 2-5 options` }
+      if (q.options.length < optionLimits.min || q.options.length > optionLimits.max) {
+        return invalid(
+          'question.option_count',
+          `Question ${question}: ${q.type} must have ${optionLimits.min}-${optionLimits.max} options`,
+          { question, type: q.type, min: optionLimits.min, max: optionLimits.max }
+        )
       }
 
       for (let j = 0; j < q.options.length; j++) {
         const opt = q.options[j]
         if (!opt.label || opt.label.trim() === '') {
-          return { valid: false, error: `Question ${i + 1}, Option ${j + 1}: Label is required` }
+          return invalid('question.option_label_required', `Question ${question}, Option ${j + 1}: Label is required`, {
+            question,
+            option: j + 1,
+          })
         }
         // Value is optional - can be empty for synonymous options
       }
     }
+
+    if (q.type === 'multi_select') {
+      const optionCount = q.options!.length
+      const minSelections = q.min_selections ?? 1
+      const maxSelections = q.max_selections ?? optionCount
+
+      if (!Number.isInteger(minSelections) || minSelections < 1) {
+        return invalid(
+          'question.min_selections',
+          `Question ${question}: Minimum selections must be a whole number of at least 1`,
+          { question }
+        )
+      }
+
+      if (!Number.isInteger(maxSelections) || maxSelections < minSelections || maxSelections > optionCount) {
+        return invalid(
+          'question.max_selections',
+          `Question ${question}: Maximum selections must be between the minimum (${minSelections}) and the number of options (${optionCount})`,
+          { question, min: minSelections, count: optionCount }
+        )
+      }
+    }
+
+    if (q.type === 'rating' && !['star', 'emoji'].includes(q.rating_style || '')) {
+      return invalid('question.rating_style', `Question ${question}: Rating style must be 'star' or 'emoji'`, { question })
+    }
+
+    if (q.type === 'numeric') {
+      if (typeof q.min !== 'number' || typeof q.max !== 'number' || !Number.isFinite(q.min) || !Number.isFinite(q.max)) {
+        return invalid(
+          'question.numeric_range_required',
+          `Question ${question}: Numeric questions need a minimum and a maximum`,
+          { question }
+        )
+      }
+
+      if (q.min >= q.max) {
+        return invalid('question.numeric_range_order', `Question ${question}: Minimum must be less than maximum`, { question })
+      }
+    }
+
+    if (q.branches && q.branches.length > 0) {
+      if (!BRANCHING_QUESTION_TYPES.includes(q.type)) {
+        return invalid(
+          'question.branches_unsupported',
+          `Question ${question}: Skip logic rules are not supported for ${q.type} questions`,
+          { question, type: q.type }
+        )
+      }
+
+      const scale = q.type === 'rating' ? RATING_SCALE : q.type === 'nps' ? NPS_SCALE : null
+      const optionKeys = (q.options || []).map(getOptionKey)
+
+      for (let j = 0; j < q.branches.length; j++) {
+        const branch = q.branches[j]
+        const rule = j + 1
+
+        if (!isValidTarget(branch.next_question_id)) {
+          return invalid('question.branch_target', `Question ${question}, Rule ${rule}: Target question does not exist`, {
+            question,
+            rule,
+          })
+        }
+
+        if (scale) {
+          const min = branch.min_score ?? scale.min
+          const max = branch.max_score ?? scale.max
+          if (min < scale.min || max > scale.max || min > max) {
+            return invalid(
+              'question.branch_score_range',
+              `Question ${question}, Rule ${rule}: Score range must be within ${scale.min}-${scale.max}`,
+              { question, rule, min: scale.min, max: scale.max }
+            )
+          }
+        } else if (!branch.option_value || !optionKeys.includes(branch.option_value)) {
+          return invalid('question.branch_option', `Question ${question}, Rule ${rule}: Option does not exist`, {
+            question,
+            rule,
+          })
+        }
+      }
+    }
+
+    if (q.default_next_question_id !== undefined && !isValidTarget(q.default_next_question_id)) {
+      return invalid('question.default_next', `Question ${question}: Default next question does not exist`, { question })
+    }
+  }
+
+  const cycle = findQuestionCycle(questions)
+  if (cycle) {
+    const numbers = cycle.map((id) => questions.findIndex((q) => q.id === id) + 1)
+    const path = numbers.map((number) => `Question ${number}`).join(' → ')
+    return invalid('question.loop', `Skip logic creates a loop: ${path}`, { path: numbers.join(' → ') })
   }
 
   return { valid: true }
@@ -268,15 +584,16 @@ export const validateQuestions = (questions: Question[]): { valid: boolean; erro
 const checkExistingAssignments = async (qrcodeId: string): Promise<{
   hasAssignments: boolean
   existingQuestionnaires: string[]
+  existingQuestionnaireIds: string[]
 }> => {
   const { data, error } = await supabase
     .from('echo_qrcode_questionnaire')
-    .select('id, echo_questionnaire(title)')
+    .select('id, questionnaire_id, echo_questionnaire(title)')
     .eq('qrcode_id', qrcodeId)
     .eq('is_active', true)
 
   if (error) {
-    throw new Error(`Failed to check existing assignments: ${error.message}`)
+    throw requestFailed('check existing assignments', error.message)
   }
 
   const questionnaires = data?.map((assignment: any) => assignment.echo_questionnaire?.title || 'Unknown') || []
@@ -284,62 +601,231 @@ const checkExistingAssignments = async (qrcodeId: string): Promise<{
   return {
     hasAssignments: data && data.length > 0,
     existingQuestionnaires: questionnaires,
+    existingQuestionnaireIds: data?.map((assignment: any) => assignment.questionnaire_id) || [],
   }
 }
 
 /**
  * Assign a questionnaire to a QR code
- * IMPORTANT: Enforces one questionnaire per table policy - will throw error if table already has an assignment
+ * In 'single' mode (default) enforces one questionnaire per table - throws if the table already has an assignment.
+ * In 'weighted' mode the questionnaire is added next to existing ones for A/B testing; only assigning the
+ * same questionnaire twice is rejected.
+ * A previously deactivated assignment of the same questionnaire is reactivated (UNIQUE qrcode_id + questionnaire_id).
  */
 export const assignQuestionnaireToQRCode = async (
   qrcodeId: string,
   questionnaireId: string,
-  weight: number = 100
+  weight: number = 100,
+  mode: AssignmentMode = 'single'
 ): Promise<EchoQRCodeQuestionnaire> => {
+  const restaurantId = await requireQRCodeAccess(qrcodeId)
+
   // Check if this QR code already has active assignments
-  const { hasAssignments, existingQuestionnaires } = await checkExistingAssignments(qrcodeId)
+  const { hasAssignments, existingQuestionnaires, existingQuestionnaireIds } =
+    await checkExistingAssignments(qrcodeId)
 
-  if (hasAssignments) {
-    throw new Error(
+  if (mode === 'single' && hasAssignments) {
+    throw new AppError(
+      'assignment.table_has_questionnaire',
       `This table already has a questionnaire assigned: "${existingQuestionnaires.join(', ')}". ` +
-      `Please remove the existing assignment before assigning a new one.`
+        `Please remove the existing assignment before assigning a new one.`,
+      { titles: existingQuestionnaires.join(', ') }
+    )
+  }
+
+  if (mode === 'weighted' && existingQuestionnaireIds.includes(questionnaireId)) {
+    throw new AppError(
+      'assignment.already_assigned',
+      'This questionnaire is already assigned to this table. Adjust its weight in the assignment editor instead.'
     )
   }
 
   const { data, error } = await supabase
     .from('echo_qrcode_questionnaire')
-    .insert({
-      qrcode_id: qrcodeId,
-      questionnaire_id: questionnaireId,
-      is_active: true,
-      weight,
-    })
+    .upsert(
+      {
+        qrcode_id: qrcodeId,
+        questionnaire_id: questionnaireId,
+        is_active: true,
+        weight,
+        deactivated_at: null,
+      },
+      { onConflict: 'qrcode_id,questionnaire_id' }
+    )
     .select()
     .single()
 
   if (error) {
-    throw new Error(`Failed to assign questionnaire: ${error.message}`)
+    throw requestFailed('assign questionnaire', error.message)
   }
 
+  await recordAudit({ action: 'assignment.create', entityId: data.id, restaurantId, after: data })
+
   return data
 }
 
+/**
+ * Get the active questionnaire assignments of a QR code, with their questionnaires
+ * Used by the weighted assignment editor
+ */
+export const getQRCodeAssignments = async (
+  qrcodeId: string
+): Promise<QRCodeQuestionnaireWithQuestionnaire[]> => {
+  const { data, error } = await supabase
+    .from('echo_qrcode_questionnaire')
+    .select('*, echo_questionnaire(*)')
+    .eq('qrcode_id', qrcodeId)
+    .eq('is_active', true)
+    .order('assigned_at', { ascending: true })
+
+  if (error) {
+    throw requestFailed('fetch QR code assignments', error.message)
+  }
+
+  return data || []
+}
+
+/**
+ * Replace the active assignment set of a QR code with the given questionnaires and weights
+ * - Listed questionnaires are upserted as active with their weight (reactivating old rows)
+ * - Active assignments that are no longer listed are deactivated, not deleted, so their answers
+ *   stay attached for the A/B experiment report
+ * In 'single' mode exactly one questionnaire may be listed.
+ */
+export const saveQRCodeAssignments = async (
+  qrcodeId: string,
+  entries: Array<{ questionnaire_id: string; weight: number }>,
+  mode: AssignmentMode = 'weighted'
+): Promise<void> => {
+  const restaurantId = await requireQRCodeAccess(qrcodeId)
+
+  if (mode === 'single' && entries.length > 1) {
+    throw new AppError(
+      'assignment.single_mode_one_questionnaire',
+      'Only one questionnaire can be assigned in single-questionnaire mode'
+    )
+  }
+
+  const questionnaireIds = entries.map((entry) => entry.questionnaire_id)
+  if (new Set(questionnaireIds).size !== questionnaireIds.length) {
+    throw new AppError('assignment.duplicate_questionnaire', 'The same questionnaire cannot be assigned twice to one table')
+  }
+
+  for (const entry of entries) {
+    if (!Number.isInteger(entry.weight) || entry.weight < 1) {
+      throw new AppError('assignment.invalid_weight', 'Weights must be whole numbers of at least 1')
+    }
+  }
+
+  // Snapshot for the audit log
+  const { data: before, error: fetchError } = await supabase
+    .from('echo_qrcode_questionnaire')
+    .select('questionnaire_id, weight')
+    .eq('qrcode_id', qrcodeId)
+    .eq('is_active', true)
+
+  if (fetchError) {
+    throw requestFailed('fetch QR code assignments', fetchError.message)
+  }
+
+  if (entries.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('echo_qrcode_questionnaire')
+      .upsert(
+        entries.map((entry) => ({
+          qrcode_id: qrcodeId,
+          questionnaire_id: entry.questionnaire_id,
+          weight: entry.weight,
+          is_active: true,
+          deactivated_at: null,
+        })),
+        { onConflict: 'qrcode_id,questionnaire_id' }
+      )
+
+    if (upsertError) {
+      throw requestFailed('save assignments', upsertError.message)
+    }
+  }
+
+  // Deactivate active assignments that were removed in the editor
+  let deactivateQuery = supabase
+    .from('echo_qrcode_questionnaire')
+    .update({
+      is_active: false,
+      deactivated_at: new Date().toISOString(),
+    })
+    .eq('qrcode_id', qrcodeId)
+    .eq('is_active', true)
+
+  if (questionnaireIds.length > 0) {
+    deactivateQuery = deactivateQuery.not('questionnaire_id', 'in', `(${questionnaireIds.join(',')})`)
+  }
+
+  const { error: deactivateError } = await deactivateQuery
+
+  if (deactivateError) {
+    throw requestFailed('deactivate removed assignments', deactivateError.message)
+  }
+
+  // The whole assignment set of the QR code is one entry, keyed by the QR code id
+  await recordAudit({
+    action: 'assignment.update',
+    entityId: qrcodeId,
+    restaurantId,
+    before: before || [],
+    after: entries,
+  })
+}
+
+/**
+ * Throw unless the signed-in user manages the restaurant an assignment belongs to
+ * @returns The assignment row and its restaurant id (for the audit log)
+ */
+const requireAssignmentAccess = async (
+  assignmentId: string
+): Promise<{ assignment: EchoQRCodeQuestionnaire; restaurantId: string }> => {
+  const { data, error } = await supabase
+    .from('echo_qrcode_questionnaire')
+    .select('*')
+    .eq('id', assignmentId)
+    .single()
+
+  if (error || !data) {
+    throw requestFailed('fetch assignment', error?.message || 'Assignment not found')
+  }
+
+  const restaurantId = await requireQRCodeAccess(data.qrcode_id)
+  return { assignment: data, restaurantId }
+}
+
 /**
  * Deactivate a questionnaire assignment (soft delete)
  * Sets is_active to false and records deactivation timestamp
  */
 export const deactivateAssignment = async (assignmentId: string): Promise<void> => {
-  const { error } = await supabase
+  const { assignment, restaurantId } = await requireAssignmentAccess(assignmentId)
+
+  const { data, error } = await supabase
     .from('echo_qrcode_questionnaire')
     .update({
       is_active: false,
       deactivated_at: new Date().toISOString(),
     })
     .eq('id', assignmentId)
+    .select()
+    .single()
 
   if (error) {
-    throw new Error(`Failed to deactivate assignment: ${error.message}`)
+    throw requestFailed('deactivate assignment', error.message)
   }
+
+  await recordAudit({
+    action: 'assignment.deactivate',
+    entityId: assignmentId,
+    restaurantId,
+    before: assignment,
+    after: data,
+  })
 }
 
 /**
@@ -347,14 +833,18 @@ export const deactivateAssignment = async (assignmentId: string): Promise<void>
  * Permanently deletes the assignment from the database
  */
 export const removeAssignment = async (assignmentId: string): Promise<void> => {
+  const { assignment, restaurantId } = await requireAssignmentAccess(assignmentId)
+
   const { error } = await supabase
     .from('echo_qrcode_questionnaire')
     .delete()
     .eq('id', assignmentId)
 
   if (error) {
-    throw new Error(`Failed to remove assignment: ${error.message}`)
+    throw requestFailed('remove assignment', error.message)
   }
+
+  await recordAudit({ action: 'assignment.remove', entityId: assignmentId, restaurantId, before: assignment })
 }
 
 /**
@@ -368,6 +858,8 @@ export const removeRestaurantAssignments = async (
   questionnaireId: string,
   restaurantId: string
 ): Promise<number> => {
+  await requireRestaurantAccess(restaurantId)
+
   // First, get all QR codes for tables in this restaurant
   const { data: tables, error: fetchError } = await supabase
     .from('echo_table')
@@ -375,7 +867,7 @@ export const removeRestaurantAssignments = async (
     .eq('restaurant_id', restaurantId)
 
   if (fetchError) {
-    throw new Error(`Failed to fetch tables for restaurant: ${fetchError.message}`)
+    throw requestFailed('fetch tables for restaurant', fetchError.message)
   }
 
   if (!tables || tables.length === 0) {
@@ -403,9 +895,18 @@ export const removeRestaurantAssignments = async (
     .select()
 
   if (deleteError) {
-    throw new Error(`Failed to remove restaurant assignments: ${deleteError.message}`)
+    throw requestFailed('remove restaurant assignments', deleteError.message)
   }
 
+  await recordAudit(
+    (data || []).map((assignment) => ({
+      action: 'assignment.remove' as const,
+      entityId: assignment.id,
+      restaurantId,
+      before: assignment,
+    }))
+  )
+
   return data?.length || 0
 }
 
@@ -428,12 +929,14 @@ const getQRCodeId = (qrcode: any): string | null => {
 /**
  * Assign a questionnaire to all tables in a restaurant
  * UPDATED: Now skips tables that already have assignments instead of throwing an error
+ * In 'weighted' mode only tables that already have THIS questionnaire are skipped; others get it added as a variant
  * Returns info about how many tables were assigned and how many were skipped
  */
 export const assignQuestionnaireToRestaurant = async (
   restaurantId: string,
   questionnaireId: string,
-  weight: number = 100
+  weight: number = 100,
+  mode: AssignmentMode = 'single'
 ): Promise<{
   assignedCount: number
   skippedCount: number
@@ -442,9 +945,12 @@ export const assignQuestionnaireToRestaurant = async (
   console.log('🔍 [DEBUG] assignQuestionnaireToRestaurant called with:', {
     restaurantId,
     questionnaireId,
-    weight
+    weight,
+    mode
   })
 
+  await requireRestaurantAccess(restaurantId)
+
   // First, get all tables for the restaurant with their QR codes
   const { data: tables, error: fetchError } = await supabase
     .from('echo_table')
@@ -454,6 +960,7 @@ export const assignQuestionnaireToRestaurant = async (
       echo_qrcode!table_id (*)
     `)
     .eq('restaurant_id', restaurantId)
+    .is('deleted_at', null)
 
   console.log('🔍 [DEBUG] Query result:', {
     tablesCount: tables?.length || 0,
@@ -462,11 +969,11 @@ export const assignQuestionnaireToRestaurant = async (
   })
 
   if (fetchError) {
-    throw new Error(`Failed to fetch tables: ${fetchError.message}`)
+    throw requestFailed('fetch tables', fetchError.message)
   }
 
   if (!tables || tables.length === 0) {
-    throw new Error('No tables found for this restaurant')
+    throw new AppError('assignment.no_tables', 'No tables found for this restaurant')
   }
 
   // Filter tables that have QR codes
@@ -505,7 +1012,7 @@ export const assignQuestionnaireToRestaurant = async (
   })
 
   if (tablesWithQRCodes.length === 0) {
-    throw new Error('No QR codes found for this restaurant. Please generate QR codes first.')
+    throw new AppError('assignment.no_qrcodes', 'No QR codes found for this restaurant. Please generate QR codes first.')
   }
 
   // Check which tables already have questionnaire assignments
@@ -517,8 +1024,12 @@ export const assignQuestionnaireToRestaurant = async (
     const qrcodeId = getQRCodeId(table.echo_qrcode)
     if (!qrcodeId) continue
 
-    const { hasAssignments, existingQuestionnaires } = await checkExistingAssignments(qrcodeId)
-    if (hasAssignments) {
+    const { hasAssignments, existingQuestionnaires, existingQuestionnaireIds } =
+      await checkExistingAssignments(qrcodeId)
+    const shouldSkip = mode === 'single'
+      ? hasAssignments
+      : existingQuestionnaireIds.includes(questionnaireId)
+    if (shouldSkip) {
       // Skip this table - it already has assignments
       skippedTables.push({
         table_number: table.table_number,
@@ -539,10 +1050,19 @@ export const assignQuestionnaireToRestaurant = async (
 
   // If ALL tables already have assignments, throw an error
   if (tablesWithoutAssignments.length === 0) {
-    throw new Error(
-      `All ${tablesWithQRCodes.length} table(s) in this restaurant already have questionnaire assignments. ` +
-      `No new assignments were created.`
-    )
+    throw mode === 'single'
+      ? new AppError(
+          'assignment.all_tables_assigned',
+          `All ${tablesWithQRCodes.length} table(s) in this restaurant already have questionnaire assignments. ` +
+            `No new assignments were created.`,
+          { count: tablesWithQRCodes.length }
+        )
+      : new AppError(
+          'assignment.all_tables_have_questionnaire',
+          `All ${tablesWithQRCodes.length} table(s) in this restaurant already have this questionnaire assigned. ` +
+            `No new assignments were created.`,
+          { count: tablesWithQRCodes.length }
+        )
   }
 
   // Create assignments only for tables without existing assignments
@@ -553,14 +1073,28 @@ export const assignQuestionnaireToRestaurant = async (
     weight,
   }))
 
-  const { error: insertError } = await supabase
+  // Upsert so previously deactivated assignments of this questionnaire are reactivated
+  const { data: savedAssignments, error: insertError } = await supabase
     .from('echo_qrcode_questionnaire')
-    .insert(assignments)
+    .upsert(
+      assignments.map((assignment) => ({ ...assignment, deactivated_at: null })),
+      { onConflict: 'qrcode_id,questionnaire_id' }
+    )
+    .select()
 
   if (insertError) {
-    throw new Error(`Failed to assign questionnaire to restaurant: ${insertError.message}`)
+    throw requestFailed('assign questionnaire to restaurant', insertError.message)
   }
 
+  await recordAudit(
+    (savedAssignments || []).map((assignment) => ({
+      action: 'assignment.create' as const,
+      entityId: assignment.id,
+      restaurantId,
+      after: assignment,
+    }))
+  )
+
   // Return statistics about the operation
   return {
     assignedCount: tablesWithoutAssignments.length,
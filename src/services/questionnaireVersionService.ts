@@ -0,0 +1,124 @@
+// Version: 1.4.0
+// Service for questionnaire versions - publishing immutable snapshots of a questionnaire draft
+// The echo_questionnaire row is the editable draft; customers only ever see the published snapshot
+// (echo_questionnaire.published_version_id), and each answer records the version it was collected against
+// v1.4.0: Errors are typed (AppError with a code) for the admin UI to translate
+// v1.3.0: Versions snapshot the title / description translations (question translations are part of questions)
+// v1.2.0: Publishing records an audit log entry (auditService)
+// v1.1.0: Publishing requires questionnaire edit access (roleService)
+
+import { supabase } from './supabase'
+import { validateQuestions } from './questionnaireService'
+import { requireQuestionnaireEditAccess } from './roleService'
+import { recordAudit } from './auditService'
+import { AppError, requestFailed } from '../utils/appError'
+import { diffQuestionnaires } from '../utils/questionnaireDiff'
+import type { EchoQuestionnaire, EchoQuestionnaireVersion } from '../types/database'
+
+/**
+ * Get all versions of a questionnaire, newest first
+ */
+export const getQuestionnaireVersions = async (
+  questionnaireId: string
+): Promise<EchoQuestionnaireVersion[]> => {
+  const { data, error } = await supabase
+    .from('echo_questionnaire_version')
+    .select('*')
+    .eq('questionnaire_id', questionnaireId)
+    .order('version_number', { ascending: false })
+
+  if (error) {
+    throw requestFailed('fetch questionnaire versions', error.message)
+  }
+
+  return data || []
+}
+
+/**
+ * Publish the current draft of a questionnaire as a new immutable version
+ * Refuses to publish when the draft is identical to the latest version.
+ * The unique (questionnaire_id, version_number) constraint guards against two concurrent publishes.
+ */
+export const publishQuestionnaire = async (questionnaireId: string): Promise<EchoQuestionnaireVersion> => {
+  await requireQuestionnaireEditAccess()
+
+  const { data: draft, error: draftError } = await supabase
+    .from('echo_questionnaire')
+    .select('*')
+    .eq('id', questionnaireId)
+    .single()
+
+  if (draftError) {
+    throw requestFailed('fetch questionnaire', draftError.message)
+  }
+
+  const validation = validateQuestions(draft.questions)
+  if (!validation.valid) {
+    throw validation.error
+  }
+
+  const [latest] = await getQuestionnaireVersions(questionnaireId)
+  if (latest && !diffQuestionnaires(latest, draft).has_changes) {
+    throw new AppError(
+      'questionnaire.no_changes_to_publish',
+      'No changes to publish: the draft is identical to the latest version'
+    )
+  }
+
+  const { data: version, error: insertError } = await supabase
+    .from('echo_questionnaire_version')
+    .insert({
+      questionnaire_id: questionnaireId,
+      version_number: (latest?.version_number || 0) + 1,
+      title: draft.title,
+      description: draft.description,
+      title_translations: draft.title_translations || {},
+      description_translations: draft.description_translations || {},
+      questions: draft.questions,
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    throw requestFailed('publish questionnaire', insertError.message)
+  }
+
+  const { error: updateError } = await supabase
+    .from('echo_questionnaire')
+    .update({ published_version_id: version.id })
+    .eq('id', questionnaireId)
+
+  if (updateError) {
+    throw requestFailed('set published version', updateError.message)
+  }
+
+  await recordAudit({
+    action: 'questionnaire.publish',
+    entityId: questionnaireId,
+    before: latest ? { version_id: latest.id, version_number: latest.version_number } : null,
+    after: { version_id: version.id, version_number: version.version_number },
+  })
+
+  return version
+}
+
+/**
+ * Replace a questionnaire's draft content with its published snapshot
+ * Used wherever answers are interpreted, so unpublished draft edits never leak into reports.
+ * Questionnaires that were never published are returned unchanged.
+ */
+export const toPublishedQuestionnaire = <T extends EchoQuestionnaire>(
+  questionnaire: T & { published_version?: EchoQuestionnaireVersion | null }
+): T => {
+  const version = questionnaire.published_version
+  if (!version) return questionnaire
+
+  return {
+    ...questionnaire,
+    title: version.title,
+    description: version.description ?? undefined,
+    title_translations: version.title_translations,
+    description_translations: version.description_translations,
+    questions: version.questions,
+  }
+}
@@ -1,23 +1,111 @@
-// Version: 1.0.0
+// Version: 1.5.0
 // Service for managing restaurant data
+// Restaurants live in the shared roleplay_restaurants table; Echo-only settings live in echo_restaurant_settings
+// v1.5.0: Errors are typed (AppError with a code) for the admin UI to translate
+// v1.4.0: Default questionnaire replaced by a weighted default assignment set (saveDefaultAssignments)
+// v1.3.0: Create and edit restaurants (super admins); default questionnaire, timezone and active flag settings;
+//         restaurant changes record an audit log entry
+// v1.2.0: getAllRestaurants() only returns restaurants the signed-in user can view; saving a QR code style
+//         requires managing the restaurant
+// v1.1.0: Added per-restaurant QR code style (echo_restaurant_settings.qr_style)
 
 import { supabase } from './supabase'
-import type { Restaurant } from '../types/database'
+import type {
+  DefaultAssignment,
+  EchoRestaurantSettings,
+  QRCodeStyle,
+  Restaurant,
+  RestaurantWithSettings,
+} from '../types/database'
+import { DEFAULT_QR_STYLE } from '../utils/qrStyle'
+import { AppError, requestFailed } from '../utils/appError'
+import { canViewRestaurant } from '../utils/permissions'
+import { getCurrentUserRole, requireRestaurantAccess, requireSuperAdmin } from './roleService'
+import { recordAudit } from './auditService'
+
+// Time zone of restaurants without a saved one (all existing restaurants are in mainland China)
+export const DEFAULT_RESTAURANT_TIMEZONE = 'Asia/Shanghai'
+
+// Editable fields of roleplay_restaurants
+export interface RestaurantInput {
+  name: string
+  address?: string
+  city?: string
+}
+
+// Editable Echo settings of a restaurant
+// The QR code style and default assignments are saved separately (saveRestaurantQRStyle, saveDefaultAssignments)
+export interface RestaurantSettingsInput {
+  timezone: string
+  is_active: boolean
+}
 
 /**
- * Fetch all restaurants
+ * Fill in defaults for a restaurant without a settings row (or with columns added later still empty)
+ */
+const withSettingsDefaults = (
+  restaurantId: string,
+  settings: Partial<EchoRestaurantSettings> | null
+): EchoRestaurantSettings => ({
+  ...settings,
+  restaurant_id: restaurantId,
+  qr_style: { ...DEFAULT_QR_STYLE, ...(settings?.qr_style || {}) },
+  default_assignments: settings?.default_assignments || [],
+  timezone: settings?.timezone || DEFAULT_RESTAURANT_TIMEZONE,
+  is_active: settings?.is_active ?? true,
+})
+
+/**
+ * The fields saveRestaurantSettings() writes (audit log snapshots leave out the QR code style)
+ */
+const pickSettingsInput = (settings: EchoRestaurantSettings): Partial<RestaurantSettingsInput> => ({
+  timezone: settings.timezone,
+  is_active: settings.is_active,
+})
+
+/**
+ * Whether the runtime knows an IANA time zone name
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Trim restaurant fields and throw when the name is missing
+ * Empty address / city are stored as null
+ */
+const normalizeRestaurantInput = (input: RestaurantInput) => {
+  const name = input.name.trim()
+  if (!name) {
+    throw new AppError('restaurant.name_required', 'Restaurant name is required')
+  }
+
+  return {
+    name,
+    address: input.address?.trim() || null,
+    city: input.city?.trim() || null,
+  }
+}
+
+/**
+ * Fetch all restaurants the signed-in user can view (every restaurant selector in the app uses this)
  */
 export const getAllRestaurants = async (): Promise<Restaurant[]> => {
-  const { data, error } = await supabase
-    .from('roleplay_restaurants')
-    .select('*')
-    .order('name', { ascending: true })
+  const [{ data, error }, access] = await Promise.all([
+    supabase.from('roleplay_restaurants').select('*').order('name', { ascending: true }),
+    getCurrentUserRole(),
+  ])
 
   if (error) {
-    throw new Error(`Failed to fetch restaurants: ${error.message}`)
+    throw requestFailed('fetch restaurants', error.message)
   }
 
-  return data || []
+  return (data || []).filter((restaurant) => canViewRestaurant(access, restaurant.id))
 }
 
 /**
@@ -31,8 +119,259 @@ export const getRestaurantById = async (restaurantId: string): Promise<Restauran
     .single()
 
   if (error) {
-    throw new Error(`Failed to fetch restaurant: ${error.message}`)
+    throw requestFailed('fetch restaurant', error.message)
+  }
+
+  return data
+}
+
+/**
+ * Fetch the restaurants the signed-in user can view with their settings (restaurant management page)
+ */
+export const getRestaurantsWithSettings = async (): Promise<RestaurantWithSettings[]> => {
+  const restaurants = await getAllRestaurants()
+  if (restaurants.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('echo_restaurant_settings')
+    .select('*')
+    .in('restaurant_id', restaurants.map((restaurant) => restaurant.id))
+
+  if (error) {
+    throw requestFailed('fetch restaurant settings', error.message)
+  }
+
+  const settingsById = new Map<string, EchoRestaurantSettings>(
+    (data || []).map((settings) => [settings.restaurant_id, settings])
+  )
+
+  return restaurants.map((restaurant) => ({
+    ...restaurant,
+    settings: withSettingsDefaults(restaurant.id, settingsById.get(restaurant.id) || null),
+  }))
+}
+
+/**
+ * Get the settings of a restaurant, with defaults for anything not saved yet
+ */
+export const getRestaurantSettings = async (restaurantId: string): Promise<EchoRestaurantSettings> => {
+  const { data, error } = await supabase
+    .from('echo_restaurant_settings')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .maybeSingle()
+
+  if (error) {
+    throw requestFailed('fetch restaurant settings', error.message)
+  }
+
+  return withSettingsDefaults(restaurantId, data)
+}
+
+/**
+ * Create a restaurant (super admins only - roleplay_restaurants is shared with other apps)
+ * Its settings start with the defaults; no settings row is written until they are saved
+ */
+export const createRestaurant = async (input: RestaurantInput): Promise<Restaurant> => {
+  await requireSuperAdmin()
+
+  const { data, error } = await supabase
+    .from('roleplay_restaurants')
+    .insert(normalizeRestaurantInput(input))
+    .select()
+    .single()
+
+  if (error) {
+    throw requestFailed('create restaurant', error.message)
+  }
+
+  await recordAudit({ action: 'restaurant.create', entityId: data.id, restaurantId: data.id, after: data })
+
+  return data
+}
+
+/**
+ * Update the name, address and city of a restaurant (super admins only)
+ */
+export const updateRestaurant = async (restaurantId: string, input: RestaurantInput): Promise<Restaurant> => {
+  await requireSuperAdmin()
+
+  const before = await getRestaurantById(restaurantId)
+
+  const { data, error } = await supabase
+    .from('roleplay_restaurants')
+    .update({ ...normalizeRestaurantInput(input), updated_at: new Date().toISOString() })
+    .eq('id', restaurantId)
+    .select()
+    .single()
+
+  if (error) {
+    throw requestFailed('update restaurant', error.message)
   }
 
+  await recordAudit({ action: 'restaurant.update', entityId: restaurantId, restaurantId, before, after: data })
+
   return data
 }
+
+/**
+ * Save the timezone and active flag of a restaurant (creates the settings row when needed)
+ */
+export const saveRestaurantSettings = async (
+  restaurantId: string,
+  settings: RestaurantSettingsInput
+): Promise<EchoRestaurantSettings> => {
+  await requireRestaurantAccess(restaurantId)
+
+  if (!isValidTimeZone(settings.timezone)) {
+    throw new AppError('restaurant.unknown_timezone', `Unknown time zone: ${settings.timezone}`, {
+      timezone: settings.timezone,
+    })
+  }
+
+  const before = await getRestaurantSettings(restaurantId)
+
+  const { data, error } = await supabase
+    .from('echo_restaurant_settings')
+    .upsert(
+      {
+        restaurant_id: restaurantId,
+        timezone: settings.timezone,
+        is_active: settings.is_active,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'restaurant_id' }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    throw requestFailed('save restaurant settings', error.message)
+  }
+
+  await recordAudit({
+    action: 'restaurant.settings',
+    entityId: restaurantId,
+    restaurantId,
+    before: pickSettingsInput(before),
+    after: pickSettingsInput(data),
+  })
+
+  return withSettingsDefaults(restaurantId, data)
+}
+
+/**
+ * Replace the default assignment set of a restaurant - the questionnaires and weights every new QR code gets
+ * Existing QR codes keep their assignments. An empty set means new QR codes start without a questionnaire.
+ */
+export const saveDefaultAssignments = async (
+  restaurantId: string,
+  entries: DefaultAssignment[]
+): Promise<DefaultAssignment[]> => {
+  await requireRestaurantAccess(restaurantId)
+
+  const questionnaireIds = entries.map((entry) => entry.questionnaire_id)
+  if (new Set(questionnaireIds).size !== questionnaireIds.length) {
+    throw new AppError(
+      'restaurant.duplicate_default_questionnaire',
+      'The same questionnaire cannot be in the default assignments twice'
+    )
+  }
+
+  for (const entry of entries) {
+    if (!Number.isInteger(entry.weight) || entry.weight < 1) {
+      throw new AppError('assignment.invalid_weight', 'Weights must be whole numbers of at least 1')
+    }
+  }
+
+  // JSONB has no foreign key - check the questionnaires exist and are not in the trash
+  if (questionnaireIds.length > 0) {
+    const { data: questionnaires, error: fetchError } = await supabase
+      .from('echo_questionnaire')
+      .select('id')
+      .in('id', questionnaireIds)
+      .is('deleted_at', null)
+
+    if (fetchError) {
+      throw requestFailed('fetch questionnaires', fetchError.message)
+    }
+    if ((questionnaires || []).length !== questionnaireIds.length) {
+      throw new AppError(
+        'restaurant.missing_default_questionnaires',
+        'Some questionnaires no longer exist or are in the trash'
+      )
+    }
+  }
+
+  const before = await getRestaurantSettings(restaurantId)
+  const defaultAssignments = entries.map((entry) => ({ questionnaire_id: entry.questionnaire_id, weight: entry.weight }))
+
+  const { error } = await supabase
+    .from('echo_restaurant_settings')
+    .upsert(
+      { restaurant_id: restaurantId, default_assignments: defaultAssignments, updated_at: new Date().toISOString() },
+      { onConflict: 'restaurant_id' }
+    )
+
+  if (error) {
+    throw requestFailed('save default assignments', error.message)
+  }
+
+  await recordAudit({
+    action: 'restaurant.settings',
+    entityId: restaurantId,
+    restaurantId,
+    before: { default_assignments: before.default_assignments },
+    after: { default_assignments: defaultAssignments },
+  })
+
+  return defaultAssignments
+}
+
+/**
+ * Get the QR code style of a restaurant
+ * Restaurants without settings (or without a saved style) get DEFAULT_QR_STYLE
+ */
+export const getRestaurantQRStyle = async (restaurantId: string): Promise<QRCodeStyle> => {
+  const { data, error } = await supabase
+    .from('echo_restaurant_settings')
+    .select('qr_style')
+    .eq('restaurant_id', restaurantId)
+    .maybeSingle()
+
+  if (error) {
+    throw requestFailed('fetch QR code style', error.message)
+  }
+
+  // Fields added later fall back to their defaults
+  return { ...DEFAULT_QR_STYLE, ...(data?.qr_style || {}) }
+}
+
+/**
+ * Save the QR code style of a restaurant (creates the settings row when needed)
+ * Scan reliability is checked in the UI with getQRStyleWarnings() before calling this
+ */
+export const saveRestaurantQRStyle = async (restaurantId: string, style: QRCodeStyle): Promise<void> => {
+  await requireRestaurantAccess(restaurantId)
+
+  const before = await getRestaurantQRStyle(restaurantId)
+
+  const { error } = await supabase
+    .from('echo_restaurant_settings')
+    .upsert(
+      { restaurant_id: restaurantId, qr_style: style, updated_at: new Date().toISOString() },
+      { onConflict: 'restaurant_id' }
+    )
+
+  if (error) {
+    throw requestFailed('save QR code style', error.message)
+  }
+
+  await recordAudit({
+    action: 'restaurant.settings',
+    entityId: restaurantId,
+    restaurantId,
+    before: { qr_style: before },
+    after: { qr_style: style },
+  })
+}
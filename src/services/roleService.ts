@@ -0,0 +1,131 @@
+// Version: 1.2.0
+// Service for admin roles (echo_user_roles) - loading the signed-in user's role and guarding mutating service calls
+// Guards throw before the request is sent; RLS enforces the same rules in the database
+// v1.2.0: Guards throw typed errors (AppError with an access.* code)
+// v1.1.0: requireTableAccess() and requireQRCodeAccess() return the restaurant id (used for audit entries)
+
+import { supabase } from './supabase'
+import type { EchoUserRole } from '../types/database'
+import {
+  canDeleteQuestionnaires,
+  canEditQuestionnaires,
+  canManageRestaurant,
+  isSuperAdmin,
+} from '../utils/permissions'
+import { AppError, requestFailed } from '../utils/appError'
+
+// Role of the signed-in user, loaded once per user and reused by the guards
+let cachedAccess: { userId: string; access: EchoUserRole | null } | null = null
+
+/**
+ * Get the role row of a user (null when the user has no role and therefore no access)
+ */
+export const getUserRole = async (userId: string): Promise<EchoUserRole | null> => {
+  const { data, error } = await supabase
+    .from('echo_user_roles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw requestFailed('fetch user role', error.message)
+  }
+
+  return data ? { ...data, restaurant_ids: data.restaurant_ids || [] } : null
+}
+
+/**
+ * Get the role of the signed-in user (cached until clearCurrentUserRoleCache())
+ */
+export const getCurrentUserRole = async (): Promise<EchoUserRole | null> => {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) return null
+  if (cachedAccess?.userId === session.user.id) return cachedAccess.access
+
+  const access = await getUserRole(session.user.id)
+  cachedAccess = { userId: session.user.id, access }
+  return access
+}
+
+/**
+ * Forget the cached role, e.g. on sign-out or after the user's role was changed
+ */
+export const clearCurrentUserRoleCache = (): void => {
+  cachedAccess = null
+}
+
+/**
+ * Throw unless the signed-in user manages the restaurant
+ */
+export const requireRestaurantAccess = async (restaurantId: string): Promise<void> => {
+  if (!canManageRestaurant(await getCurrentUserRole(), restaurantId)) {
+    throw new AppError('access.manage_restaurant', 'You do not have permission to manage this restaurant')
+  }
+}
+
+/**
+ * Throw unless the signed-in user manages the restaurant of a table
+ * @returns The table's restaurant id
+ */
+export const requireTableAccess = async (tableId: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('echo_table')
+    .select('restaurant_id')
+    .eq('id', tableId)
+    .single()
+
+  if (error || !data) {
+    throw requestFailed('fetch table data', error?.message || 'Table not found')
+  }
+
+  await requireRestaurantAccess(data.restaurant_id)
+  return data.restaurant_id
+}
+
+/**
+ * Throw unless the signed-in user manages the restaurant of a QR code's table
+ * @returns The restaurant id of the QR code's table
+ */
+export const requireQRCodeAccess = async (qrcodeId: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('echo_qrcode')
+    .select('table_id')
+    .eq('id', qrcodeId)
+    .single()
+
+  if (error || !data?.table_id) {
+    throw requestFailed('fetch QR code', error?.message || 'QR code is not on a table')
+  }
+
+  return requireTableAccess(data.table_id)
+}
+
+/**
+ * Throw unless the signed-in user can create, edit and publish questionnaires
+ */
+export const requireQuestionnaireEditAccess = async (): Promise<void> => {
+  if (!canEditQuestionnaires(await getCurrentUserRole())) {
+    throw new AppError('access.edit_questionnaires', 'You do not have permission to edit questionnaires')
+  }
+}
+
+/**
+ * Throw unless the signed-in user can delete questionnaires
+ */
+export const requireQuestionnaireDeleteAccess = async (): Promise<void> => {
+  if (!canDeleteQuestionnaires(await getCurrentUserRole())) {
+    throw new AppError('access.delete_questionnaires', 'Only super admins can delete questionnaires')
+  }
+}
+
+/**
+ * Throw unless the signed-in user is a super admin
+ */
+export const requireSuperAdmin = async (): Promise<void> => {
+  if (!isSuperAdmin(await getCurrentUserRole())) {
+    throw new AppError('access.super_admin', 'Only super admins can do this')
+  }
+}
@@ -0,0 +1,242 @@
+// Version: 1.2.0
+// Service for scan events (echo_scan_events) - what customers do between scanning a QR code and submitting
+// The customer page records events without login (anon key); the QR code page reads them as a funnel per QR code.
+// Recording never blocks or fails the questionnaire: the customer is not affected, errors are only logged
+// v1.2.0: Errors are typed (AppError with a code) for the admin UI to translate
+// v1.1.0: Added getAssignmentScanCounts() - scans per assignment for the A/B experiment report
+
+import { supabase } from './supabase'
+import type { EchoScanEvent, EchoQuestionnaireVersion, ScanEventType } from '../types/database'
+import { requestFailed } from '../utils/appError'
+
+// Funnels on the QR code page cover this many days
+export const SCAN_FUNNEL_DAYS = 30
+
+// Supabase caps a single select at 1000 rows, so events are fetched page by page
+const FETCH_PAGE_SIZE = 1000
+
+// Assignment ids per request when counting scans, so the request URL stays short
+const ASSIGNMENT_ID_BATCH_SIZE = 100
+
+export interface ScanEventInput {
+  sessionId: string
+  qrcodeId: string
+  eventType: ScanEventType
+  assignmentId?: string | null
+  questionnaireVersionId?: string | null
+  questionId?: string | null
+}
+
+// Columns the funnel needs
+type FunnelEvent = Pick<EchoScanEvent, 'session_id' | 'qrcode_id' | 'event_type' | 'question_id' | 'questionnaire_version_id'>
+
+// Scan funnel of one QR code
+export interface QRCodeFunnel {
+  qrcode_id: string
+  scans: number // Sessions that opened the page
+  started: number // Sessions that were shown at least one question
+  completions: number // Sessions that submitted
+  completion_rate: number // completions / scans, 0-100
+  // Question most unfinished sessions stopped at (the last one they were shown); null without drop-offs
+  drop_off_question_id: string | null
+  drop_off_question_text: string | null
+  drop_off_count: number
+}
+
+/**
+ * New session id for one page load of the customer questionnaire
+ */
+export const createScanSessionId = (): string => crypto.randomUUID()
+
+/**
+ * Record one customer event
+ */
+export const recordScanEvent = async (input: ScanEventInput): Promise<void> => {
+  try {
+    const { error } = await supabase.from('echo_scan_events').insert({
+      session_id: input.sessionId,
+      qrcode_id: input.qrcodeId,
+      event_type: input.eventType,
+      assignment_id: input.assignmentId ?? null,
+      questionnaire_version_id: input.questionnaireVersionId ?? null,
+      question_id: input.questionId ?? null,
+    })
+
+    if (error) {
+      console.warn('Failed to record scan event:', error.message)
+    }
+  } catch (error) {
+    console.warn('Failed to record scan event:', error)
+  }
+}
+
+/**
+ * Build a funnel per QR code from its events
+ * Events are grouped into sessions; a session without a submit event dropped off at the last question it was shown
+ * (or before the first question when it was shown none)
+ * @param events - Events in the order they happened
+ * @param questionTexts - Question text by question id, for naming the drop-off question
+ */
+export const buildScanFunnels = (
+  events: FunnelEvent[],
+  questionTexts: Map<string, string> = new Map()
+): Record<string, QRCodeFunnel> => {
+  const sessionsByQRCode = new Map<string, Map<string, FunnelEvent[]>>()
+
+  events.forEach((event) => {
+    const sessions = sessionsByQRCode.get(event.qrcode_id) || new Map<string, FunnelEvent[]>()
+    sessions.set(event.session_id, [...(sessions.get(event.session_id) || []), event])
+    sessionsByQRCode.set(event.qrcode_id, sessions)
+  })
+
+  const funnels: Record<string, QRCodeFunnel> = {}
+
+  sessionsByQRCode.forEach((sessions, qrcodeId) => {
+    let scans = 0
+    let started = 0
+    let completions = 0
+    const dropOffs = new Map<string, number>()
+
+    sessions.forEach((sessionEvents) => {
+      const questionEvents = sessionEvents.filter((event) => event.event_type === 'question' && event.question_id)
+
+      if (sessionEvents.some((event) => event.event_type === 'open')) scans++
+      if (questionEvents.length > 0) started++
+
+      if (sessionEvents.some((event) => event.event_type === 'submit')) {
+        completions++
+      } else if (questionEvents.length > 0) {
+        const lastQuestionId = questionEvents[questionEvents.length - 1].question_id!
+        dropOffs.set(lastQuestionId, (dropOffs.get(lastQuestionId) || 0) + 1)
+      }
+    })
+
+    // Most common drop-off question (ties: the one seen first)
+    let dropOffQuestionId: string | null = null
+    let dropOffCount = 0
+    for (const [questionId, count] of dropOffs) {
+      if (count > dropOffCount) {
+        dropOffQuestionId = questionId
+        dropOffCount = count
+      }
+    }
+
+    funnels[qrcodeId] = {
+      qrcode_id: qrcodeId,
+      scans,
+      started,
+      completions,
+      completion_rate: scans > 0 ? Math.min(100, (completions / scans) * 100) : 0,
+      drop_off_question_id: dropOffQuestionId,
+      drop_off_question_text: dropOffQuestionId ? questionTexts.get(dropOffQuestionId) || null : null,
+      drop_off_count: dropOffCount,
+    }
+  })
+
+  return funnels
+}
+
+/**
+ * Get the scan funnel of each QR code over the last `days` days
+ * QR codes without events are missing from the result
+ */
+export const getScanFunnels = async (
+  qrcodeIds: string[],
+  days: number = SCAN_FUNNEL_DAYS
+): Promise<Record<string, QRCodeFunnel>> => {
+  if (qrcodeIds.length === 0) return {}
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+  const events: FunnelEvent[] = []
+
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('echo_scan_events')
+      .select('session_id, qrcode_id, event_type, question_id, questionnaire_version_id')
+      .in('qrcode_id', qrcodeIds)
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + FETCH_PAGE_SIZE - 1)
+
+    if (error) {
+      throw requestFailed('fetch scan events', error.message)
+    }
+
+    events.push(...((data || []) as FunnelEvent[]))
+
+    if (!data || data.length < FETCH_PAGE_SIZE) {
+      break
+    }
+  }
+
+  // Name drop-off questions with the text of the version the customer was shown
+  const versionIds = [
+    ...new Set(events.map((event) => event.questionnaire_version_id).filter((id): id is string => !!id)),
+  ]
+  const questionTexts = new Map<string, string>()
+
+  if (versionIds.length > 0) {
+    const { data: versions, error: versionError } = await supabase
+      .from('echo_questionnaire_version')
+      .select('id, questions')
+      .in('id', versionIds)
+
+    if (versionError) {
+      throw requestFailed('fetch questionnaire versions', versionError.message)
+    }
+
+    const versionRows = (versions || []) as Pick<EchoQuestionnaireVersion, 'id' | 'questions'>[]
+    versionRows.forEach((version) => {
+      version.questions.forEach((question) => questionTexts.set(question.id, question.text))
+    })
+  }
+
+  return buildScanFunnels(events, questionTexts)
+}
+
+/**
+ * Count scans per assignment: sessions whose questionnaire was picked from the assignment ('select' events)
+ * Assignments without scans are missing from the result
+ * @param range - UTC ISO bounds of created_at (inclusive); a missing bound is not applied
+ */
+export const getAssignmentScanCounts = async (
+  assignmentIds: string[],
+  range: { since?: string; until?: string } = {}
+): Promise<Map<string, number>> => {
+  const sessionsByAssignment = new Map<string, Set<string>>()
+
+  for (let start = 0; start < assignmentIds.length; start += ASSIGNMENT_ID_BATCH_SIZE) {
+    const batch = assignmentIds.slice(start, start + ASSIGNMENT_ID_BATCH_SIZE)
+
+    for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+      let query = supabase
+        .from('echo_scan_events')
+        .select('session_id, assignment_id')
+        .eq('event_type', 'select')
+        .in('assignment_id', batch)
+
+      if (range.since) query = query.gte('created_at', range.since)
+      if (range.until) query = query.lte('created_at', range.until)
+
+      const { data, error } = await query.order('id', { ascending: true }).range(from, from + FETCH_PAGE_SIZE - 1)
+
+      if (error) {
+        throw requestFailed('fetch scan events', error.message)
+      }
+
+      ;((data || []) as Pick<EchoScanEvent, 'session_id' | 'assignment_id'>[]).forEach((event) => {
+        if (!event.assignment_id) return
+        const sessions = sessionsByAssignment.get(event.assignment_id) || new Set<string>()
+        sessions.add(event.session_id)
+        sessionsByAssignment.set(event.assignment_id, sessions)
+      })
+
+      if (!data || data.length < FETCH_PAGE_SIZE) {
+        break
+      }
+    }
+  }
+
+  return new Map(Array.from(sessionsByAssignment, ([assignmentId, sessions]) => [assignmentId, sessions.size]))
+}
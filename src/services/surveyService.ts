@@ -0,0 +1,140 @@
+// Version: 1.4.1
+// Service for the public customer questionnaire (/q/:qrcodeId) - loads what a scanned QR code shows
+// Runs without login (anon key). Customers only ever see the published version of a questionnaire;
+// with several active assignments one is picked at random by weight (A/B testing)
+// v1.4.1: The customer page tells the errors apart by code; SURVEY_ERRORS only holds their English messages
+// v1.4.0: Errors are typed (AppError with a code); the messages stay SURVEY_ERRORS for the customer page
+// v1.3.0: Restaurants marked inactive in their settings fail with SURVEY_ERRORS.restaurantInactive
+// v1.2.0: QR codes and tables in the trash count as retired; questionnaires in the trash are not served
+// v1.1.0: Retired QR codes redirect to their replacement, or fail with SURVEY_ERRORS.qrCodeRetired
+
+import { supabase } from './supabase'
+import { PUBLISHED_VERSION_SELECT } from './questionnaireService'
+import { selectWeightedQuestionnaire } from '../utils/weightedSelection'
+import { AppError, requestFailed } from '../utils/appError'
+import type {
+  EchoQRCodeQuestionnaire,
+  EchoQuestionnaireVersion,
+  EchoRestaurantSettings,
+  EchoTable,
+  QuestionnaireWithVersion,
+  Restaurant,
+} from '../types/database'
+
+// English messages of the AppErrors thrown by loadSurvey(); the customer page explains them by their code
+export const SURVEY_ERRORS = {
+  qrCodeNotFound: 'QR code not found',
+  noActiveQuestionnaire: 'No active questionnaires found for this QR code',
+  qrCodeRetired: 'QR code is no longer in use',
+  restaurantInactive: 'Restaurant is not accepting feedback',
+} as const
+
+// Replacements followed before giving up (guards against a redirect loop in bad data)
+const MAX_QR_CODE_REDIRECTS = 5
+
+// Restaurant embedded in the QR code query, with the active flag of its settings (null without a settings row)
+type SurveyRestaurant = Restaurant & {
+  echo_restaurant_settings: Pick<EchoRestaurantSettings, 'is_active'> | null
+}
+
+interface SurveyAssignment extends EchoQRCodeQuestionnaire {
+  echo_questionnaire: QuestionnaireWithVersion
+}
+
+// Everything the customer page needs to render and submit a questionnaire
+export interface Survey {
+  // QR code actually served - the replacement when a retired code was scanned
+  qrcode_id: string
+  table: EchoTable
+  restaurant: Restaurant
+  assignment: EchoQRCodeQuestionnaire
+  // Published snapshot being answered (its questions are what the customer sees)
+  version: EchoQuestionnaireVersion
+}
+
+/**
+ * Load the questionnaire to show for a scanned QR code
+ * A retired QR code (replaced or moved sticker) is followed to its replacement
+ * Throws AppErrors (survey.* codes) when the QR code does not exist, is retired without a replacement,
+ * belongs to an inactive restaurant, or has no published, active questionnaire
+ * @param random - Value in [0, 1) used for the weighted pick; injectable for deterministic checks
+ */
+export const loadSurvey = async (
+  scannedQRCodeId: string,
+  random: number = Math.random()
+): Promise<Survey> => {
+  let qrcodeId = scannedQRCodeId
+  let redirects = 0
+  let qrCode
+
+  while (true) {
+    const { data, error: qrError } = await supabase
+      .from('echo_qrcode')
+      .select(
+        'id, retired_at, deleted_at, replaced_by_qrcode_id, echo_table(*, roleplay_restaurants(*, echo_restaurant_settings(is_active)))'
+      )
+      .eq('id', qrcodeId)
+      .maybeSingle()
+
+    if (qrError) {
+      throw requestFailed('fetch QR code', qrError.message)
+    }
+
+    if (data?.deleted_at) {
+      throw new AppError('survey.qr_code_retired', SURVEY_ERRORS.qrCodeRetired)
+    }
+    if (!data?.retired_at) {
+      qrCode = data
+      break
+    }
+    if (!data.replaced_by_qrcode_id || redirects >= MAX_QR_CODE_REDIRECTS) {
+      throw new AppError('survey.qr_code_retired', SURVEY_ERRORS.qrCodeRetired)
+    }
+    qrcodeId = data.replaced_by_qrcode_id
+    redirects++
+  }
+
+  const table = qrCode?.echo_table as unknown as (EchoTable & { roleplay_restaurants: SurveyRestaurant }) | null
+  if (!qrCode || !table) {
+    throw new AppError('survey.qr_code_not_found', SURVEY_ERRORS.qrCodeNotFound)
+  }
+  if (table.deleted_at) {
+    throw new AppError('survey.qr_code_retired', SURVEY_ERRORS.qrCodeRetired)
+  }
+  if (table.roleplay_restaurants?.echo_restaurant_settings?.is_active === false) {
+    throw new AppError('survey.restaurant_inactive', SURVEY_ERRORS.restaurantInactive)
+  }
+
+  const { data: assignmentRows, error: assignmentError } = await supabase
+    .from('echo_qrcode_questionnaire')
+    .select(`*, echo_questionnaire!inner(*, ${PUBLISHED_VERSION_SELECT})`)
+    .eq('qrcode_id', qrcodeId)
+    .eq('is_active', true)
+    .eq('echo_questionnaire.is_active', true)
+    .is('echo_questionnaire.deleted_at', null)
+
+  if (assignmentError) {
+    throw requestFailed('fetch questionnaire assignments', assignmentError.message)
+  }
+
+  // Questionnaires that were never published cannot be shown
+  const assignments = ((assignmentRows || []) as SurveyAssignment[]).filter(
+    (assignment) => assignment.echo_questionnaire?.published_version
+  )
+
+  if (assignments.length === 0) {
+    throw new AppError('survey.no_active_questionnaire', SURVEY_ERRORS.noActiveQuestionnaire)
+  }
+
+  const { echo_questionnaire: questionnaire, ...assignment } = selectWeightedQuestionnaire(assignments, random)
+  const { roleplay_restaurants: restaurantWithSettings, ...tableInfo } = table
+  const { echo_restaurant_settings: _settings, ...restaurant } = restaurantWithSettings
+
+  return {
+    qrcode_id: qrcodeId,
+    table: tableInfo,
+    restaurant,
+    assignment,
+    version: questionnaire.published_version!,
+  }
+}
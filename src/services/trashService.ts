@@ -0,0 +1,227 @@
+// Version: 1.3.0
+// Service for the trash - soft-deleted tables, QR codes and questionnaires (deleted_at IS NOT NULL)
+// Items can be restored within TRASH_RETENTION_DAYS. Purging deletes the row for good (CASCADE removes
+// assignments and answers) and is only allowed for super admins by the DELETE RLS policies.
+// v1.3.0: Restore and purge record trash.restore / trash.purge audit entries
+// v1.2.0: Errors are typed (AppError with a code) for the admin UI to translate
+// v1.1.0: Role-based access - managers see and restore their restaurants' tables and QR codes; questionnaires
+//         and purging are for super admins
+
+import { supabase } from './supabase'
+import { getCurrentUserRole, requireQuestionnaireDeleteAccess, requireSuperAdmin, requireTableAccess } from './roleService'
+import { canDeleteQuestionnaires, canManageRestaurant } from '../utils/permissions'
+import { recordAudit } from './auditService'
+import { AppError, requestFailed } from '../utils/appError'
+
+// Days a deleted item can still be restored
+export const TRASH_RETENTION_DAYS = 30
+
+export type TrashItemType = 'table' | 'qrcode' | 'questionnaire'
+
+export interface TrashItem {
+  type: TrashItemType
+  id: string
+  name: string // Table number, QR code value or questionnaire title
+  restaurant_id?: string // Tables and QR codes
+  restaurant_name?: string
+  table_id?: string // QR codes - table the code is restored to
+  table_number?: string // QR codes
+  deleted_at: string
+}
+
+// Tables that hold each item type
+const TRASH_TABLES: Record<TrashItemType, string> = {
+  table: 'echo_table',
+  qrcode: 'echo_qrcode',
+  questionnaire: 'echo_questionnaire',
+}
+
+// Postgres unique_violation - restoring would clash with an item created after the delete
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Last moment an item deleted at deletedAt can be restored
+ */
+export const getTrashExpiry = (deletedAt: string): Date => {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Whether an item is still within the retention window
+ */
+export const isRestorable = (item: TrashItem, now: Date = new Date()): boolean => {
+  return getTrashExpiry(item.deleted_at) > now
+}
+
+/**
+ * Get everything in the trash the signed-in user may restore, most recently deleted first
+ */
+export const getTrashItems = async (): Promise<TrashItem[]> => {
+  const [tablesResult, qrCodesResult, questionnairesResult] = await Promise.all([
+    supabase
+      .from('echo_table')
+      .select('id, restaurant_id, table_number, deleted_at, roleplay_restaurants(name)')
+      .not('deleted_at', 'is', null),
+    supabase
+      .from('echo_qrcode')
+      .select('id, qr_code_value, deleted_at, retired_from_table_id')
+      .not('deleted_at', 'is', null),
+    supabase
+      .from('echo_questionnaire')
+      .select('id, title, deleted_at')
+      .not('deleted_at', 'is', null),
+  ])
+
+  const error = tablesResult.error || qrCodesResult.error || questionnairesResult.error
+  if (error) {
+    throw requestFailed('fetch trash', error.message)
+  }
+
+  // Deleted QR codes are detached from their table, so their table is looked up separately
+  const qrCodes = qrCodesResult.data || []
+  const tableIds = [...new Set(qrCodes.map((qrCode) => qrCode.retired_from_table_id).filter(Boolean))]
+  const qrCodeTables = new Map<string, { table_number: string; restaurant_id: string; restaurant_name?: string }>()
+
+  if (tableIds.length > 0) {
+    const { data, error: tableError } = await supabase
+      .from('echo_table')
+      .select('id, restaurant_id, table_number, roleplay_restaurants(name)')
+      .in('id', tableIds)
+
+    if (tableError) {
+      throw requestFailed('fetch tables of deleted QR codes', tableError.message)
+    }
+
+    data?.forEach((table: any) => {
+      qrCodeTables.set(table.id, {
+        table_number: table.table_number,
+        restaurant_id: table.restaurant_id,
+        restaurant_name: table.roleplay_restaurants?.name,
+      })
+    })
+  }
+
+  const items: TrashItem[] = [
+    ...(tablesResult.data || []).map((table: any) => ({
+      type: 'table' as const,
+      id: table.id,
+      name: table.table_number,
+      restaurant_id: table.restaurant_id,
+      restaurant_name: table.roleplay_restaurants?.name,
+      deleted_at: table.deleted_at,
+    })),
+    ...qrCodes.map((qrCode) => {
+      const table = qrCode.retired_from_table_id ? qrCodeTables.get(qrCode.retired_from_table_id) : undefined
+      return {
+        type: 'qrcode' as const,
+        id: qrCode.id,
+        name: qrCode.qr_code_value,
+        restaurant_id: table?.restaurant_id,
+        restaurant_name: table?.restaurant_name,
+        table_id: qrCode.retired_from_table_id || undefined,
+        table_number: table?.table_number,
+        deleted_at: qrCode.deleted_at,
+      }
+    }),
+    ...(questionnairesResult.data || []).map((questionnaire) => ({
+      type: 'questionnaire' as const,
+      id: questionnaire.id,
+      name: questionnaire.title,
+      deleted_at: questionnaire.deleted_at,
+    })),
+  ]
+
+  const access = await getCurrentUserRole()
+  return items
+    .filter((item) =>
+      item.type === 'questionnaire'
+        ? canDeleteQuestionnaires(access)
+        : !!item.restaurant_id && canManageRestaurant(access, item.restaurant_id)
+    )
+    .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+}
+
+/**
+ * Restore an item from the trash
+ * Throws when the retention window has passed, or when a table number / the table's QR code slot
+ * was taken again after the delete
+ */
+export const restoreTrashItem = async (item: TrashItem): Promise<void> => {
+  if (!isRestorable(item)) {
+    throw new AppError(
+      'trash.retention_passed',
+      `Items can only be restored within ${TRASH_RETENTION_DAYS} days of deletion`,
+      { days: TRASH_RETENTION_DAYS }
+    )
+  }
+
+  if (item.type === 'qrcode' && !item.table_id) {
+    throw new AppError('trash.qrcode_table_missing', 'The table of this QR code no longer exists')
+  }
+
+  let restaurantId: string | null = null
+  if (item.type === 'questionnaire') {
+    await requireQuestionnaireDeleteAccess()
+  } else {
+    restaurantId = await requireTableAccess(item.type === 'table' ? item.id : item.table_id!)
+  }
+
+  // A QR code goes back onto the table it was deleted from
+  const updates =
+    item.type === 'qrcode'
+      ? { deleted_at: null, table_id: item.table_id, retired_from_table_id: null }
+      : { deleted_at: null }
+
+  const { error } = await supabase.from(TRASH_TABLES[item.type]).update(updates).eq('id', item.id)
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    throw item.type === 'qrcode'
+      ? new AppError('trash.qrcode_slot_taken', 'Failed to restore QR code: the table already has another QR code')
+      : new AppError('trash.table_number_taken', `Failed to restore table: another table is already named ${item.name}`, {
+          table: item.name,
+        })
+  }
+  if (error) {
+    throw requestFailed('restore item', error.message)
+  }
+
+  await recordAudit({
+    action: 'trash.restore',
+    entityType: item.type,
+    entityId: item.id,
+    restaurantId,
+    before: item,
+  })
+}
+
+/**
+ * Permanently delete an item from the trash (super admins only)
+ * WARNING: CASCADE deletes assignments and customer answers that reference it
+ */
+export const purgeTrashItem = async (item: TrashItem): Promise<void> => {
+  await requireSuperAdmin()
+
+  const { data, error } = await supabase
+    .from(TRASH_TABLES[item.type])
+    .delete()
+    .eq('id', item.id)
+    .not('deleted_at', 'is', null)
+    .select('id')
+
+  if (error) {
+    throw requestFailed('purge item', error.message)
+  }
+
+  // RLS silently filters rows the user may not delete
+  if (!data || data.length === 0) {
+    throw new AppError('access.purge_trash', 'Only super admins can permanently delete items')
+  }
+
+  await recordAudit({
+    action: 'trash.purge',
+    entityType: item.type,
+    entityId: item.id,
+    restaurantId: item.restaurant_id ?? null,
+    before: item,
+  })
+}
@@ -0,0 +1,209 @@
+// Version: 1.2.0
+// Service for managing admin accounts - inviting staff by email, changing roles and restaurants, deactivating accounts
+// Listing accounts goes through the echo_list_admin_users() database function because auth.users is not exposed
+// to the browser. Invitations are sent as a Supabase sign-in link; the role is applied when the email first signs in.
+// All functions are for super admins only
+// v1.2.0: Errors are typed (AppError with a code) for the admin UI to translate
+// v1.1.0: Invitation links open the set-password view of the reset password page (/reset-password?invite=1)
+
+import { supabase } from './supabase'
+import { getSession } from './authService'
+import { requireSuperAdmin } from './roleService'
+import type { AdminUser, EchoInvitation, UserRole } from '../types/database'
+import { AppError, requestFailed } from '../utils/appError'
+
+// Simple sanity check - Supabase Auth does the real validation when sending the link
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Normalize an email for matching invitations to accounts
+ */
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase()
+
+/**
+ * Throw when a role / restaurant combination is not useful
+ * Managers without restaurants could not change anything
+ */
+const validateRoleScope = (role: UserRole, restaurantIds: string[]): void => {
+  if (role === 'restaurant_manager' && restaurantIds.length === 0) {
+    throw new AppError('user.manager_needs_restaurant', 'Restaurant managers need at least one restaurant')
+  }
+}
+
+/**
+ * Throw when the signed-in user targets their own account (prevents super admins from locking themselves out)
+ */
+const requireOtherUser = async (userId: string): Promise<void> => {
+  const session = await getSession()
+  if (session?.user.id === userId) {
+    throw new AppError('user.own_account', 'You cannot change your own account')
+  }
+}
+
+/**
+ * Send the sign-in link an invited user follows to set a password
+ * shouldCreateUser creates the auth account on first use; the current admin session is not touched
+ */
+const sendInvitationEmail = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: {
+      shouldCreateUser: true,
+      // The reset password page shows its set-password view for invited users
+      emailRedirectTo: `${window.location.origin}/reset-password?invite=1`,
+    },
+  })
+
+  if (error) {
+    throw requestFailed('send invitation email', error.message)
+  }
+}
+
+/**
+ * Get every admin account with its role and last sign-in, sorted by email
+ */
+export const getAdminUsers = async (): Promise<AdminUser[]> => {
+  await requireSuperAdmin()
+
+  const { data, error } = await supabase.rpc('echo_list_admin_users')
+
+  if (error) {
+    throw requestFailed('fetch users', error.message)
+  }
+
+  return ((data || []) as AdminUser[])
+    .map((user) => ({ ...user, restaurant_ids: user.restaurant_ids || [] }))
+    .sort((a, b) => a.email.localeCompare(b.email))
+}
+
+/**
+ * Get invitations that have not been accepted yet, newest first
+ */
+export const getPendingInvitations = async (): Promise<EchoInvitation[]> => {
+  await requireSuperAdmin()
+
+  const { data, error } = await supabase
+    .from('echo_invitations')
+    .select('*')
+    .is('accepted_at', null)
+    .order('invited_at', { ascending: false })
+
+  if (error) {
+    throw requestFailed('fetch invitations', error.message)
+  }
+
+  return data || []
+}
+
+/**
+ * Invite a user by email with a role and restaurants
+ * Inviting an email again replaces the pending invitation and resends the link.
+ * For an email that already has an account the database applies the role right away.
+ */
+export const inviteUser = async (
+  email: string,
+  role: UserRole,
+  restaurantIds: string[]
+): Promise<EchoInvitation> => {
+  await requireSuperAdmin()
+
+  const normalizedEmail = normalizeEmail(email)
+  if (!EMAIL_PATTERN.test(normalizedEmail)) {
+    throw new AppError('user.invalid_email', 'Invalid email address')
+  }
+  validateRoleScope(role, restaurantIds)
+
+  const session = await getSession()
+
+  const { data, error } = await supabase
+    .from('echo_invitations')
+    .upsert(
+      {
+        email: normalizedEmail,
+        role,
+        restaurant_ids: role === 'super_admin' ? [] : restaurantIds,
+        invited_by: session?.user.id ?? null,
+        invited_at: new Date().toISOString(),
+        accepted_at: null,
+      },
+      { onConflict: 'email' }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    throw requestFailed('create invitation', error.message)
+  }
+
+  await sendInvitationEmail(normalizedEmail)
+
+  return data
+}
+
+/**
+ * Send the sign-in link of a pending invitation again
+ */
+export const resendInvitation = async (invitation: EchoInvitation): Promise<void> => {
+  await requireSuperAdmin()
+  await sendInvitationEmail(invitation.email)
+}
+
+/**
+ * Withdraw a pending invitation (a link already sent then signs in to an account without access)
+ */
+export const revokeInvitation = async (invitationId: string): Promise<void> => {
+  await requireSuperAdmin()
+
+  const { error } = await supabase.from('echo_invitations').delete().eq('id', invitationId)
+
+  if (error) {
+    throw requestFailed('revoke invitation', error.message)
+  }
+}
+
+/**
+ * Change the role and restaurants of an account
+ */
+export const updateUserRole = async (
+  userId: string,
+  role: UserRole,
+  restaurantIds: string[]
+): Promise<void> => {
+  await requireSuperAdmin()
+  await requireOtherUser(userId)
+  validateRoleScope(role, restaurantIds)
+
+  const { error } = await supabase
+    .from('echo_user_roles')
+    .update({
+      role,
+      restaurant_ids: role === 'super_admin' ? [] : restaurantIds,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId)
+
+  if (error) {
+    throw requestFailed('update user role', error.message)
+  }
+}
+
+/**
+ * Deactivate or reactivate an account
+ * Deactivated users can still sign in but see a "no access" screen and RLS rejects their writes
+ */
+export const setUserDeactivated = async (userId: string, deactivated: boolean): Promise<void> => {
+  await requireSuperAdmin()
+  await requireOtherUser(userId)
+
+  const { error } = await supabase
+    .from('echo_user_roles')
+    .update({
+      deactivated_at: deactivated ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId)
+
+  if (error) {
+    throw requestFailed(deactivated ? 'deactivate user' : 'reactivate user', error.message)
+  }
+}
@@ -1,6 +1,25 @@
-// Version: 3.0.0
+// Version: 3.16.0
 // TypeScript types for database tables based on database_architecture.md
 // Updated: Removed legacy question_1/2/3 and answer_1/2/3 fields - now JSONB-only
+// v3.16.0: Added trash.restore and trash.purge audit actions
+// v3.15.0: Added TranslationLocale / TranslatedText - translations of questionnaire titles, question texts and
+//          option labels (the untranslated fields are the canonical Chinese content)
+// v3.14.0: Added ScanEventType and EchoScanEvent (customer scan tracking)
+// v3.13.0: EchoRestaurantSettings.default_assignments (weighted default assignment set) replaces
+//          default_questionnaire_id
+// v3.12.0: EchoRestaurantSettings default questionnaire, timezone and active flag; RestaurantWithSettings;
+//          restaurant audit actions
+// v3.11.0: Added AuditAction, AuditEntityType and EchoAuditLog (audit log of admin actions)
+// v3.10.0: Added deactivated_at to EchoUserRole, EchoInvitation and AdminUser (user management)
+// v3.9.0: Added UserRole and EchoUserRole (role-based access control)
+// v3.8.0: deleted_at soft-delete marker on EchoTable, EchoQRCode and EchoQuestionnaire
+// v3.7.0: EchoQRCode retirement fields (table_id is null for retired codes, replaced_by_qrcode_id redirect)
+// v3.6.0: Added QRCodeStyle and EchoRestaurantSettings (per-restaurant QR code styling)
+// v3.5.0: Replaced AnswerEntry with the discriminated AnswerValue union; EchoAnswer.answers is an AnswerMap
+// v3.4.0: Added AnswerEntry (one answer in echo_answers.answers) for the in-app customer questionnaire
+// v3.3.0: Added QuestionBranch skip logic (branches / default_next_question_id on Question)
+// v3.2.0: Added rating, nps, multi_select and numeric question types with their settings
+// v3.1.0: Added EchoQuestionnaireVersion (published snapshots), published_version_id and questionnaire_version_id
 // v3.0.0: BREAKING CHANGE - Removed deprecated fields (question_1/2/3, answer_1/2/3). All data now uses JSONB format exclusively.
 // v2.3.0: Fixed TableWithQRCode type - echo_qrcode is a single object (not array) for 1:1 relationships
 // v2.2.0: Updated QuestionnaireAssignment to include restaurant address, city, and assignment_id for deletion
@@ -20,47 +39,127 @@ export interface EchoTable {
   id: string
   restaurant_id: string
   table_number: string // Changed to string to support alphanumeric format (A1, B2, C3, etc.)
+  deleted_at?: string | null // Set while the table is in the trash
   created_at?: string
   updated_at?: string
 }
 
 // Question type for the new JSONB structure
-export type QuestionType = 'multiple_choice' | 'text_input'
+// multiple_choice is single-select; multi_select uses checkboxes
+export type QuestionType = 'multiple_choice' | 'text_input' | 'rating' | 'nps' | 'multi_select' | 'numeric'
+
+// How a 1-5 rating is displayed to customers
+export type RatingStyle = 'star' | 'emoji'
+
+// Languages questionnaire content can be translated into; the content itself is written in Chinese
+export type TranslationLocale = 'en' | 'ja' | 'ko'
+
+// Translations of one text by language - missing languages fall back to the Chinese text
+export type TranslatedText = Partial<Record<TranslationLocale, string>>
 
 // Question option for multiple choice questions
 export interface QuestionOption {
   label: string
   value: string
+  label_translations?: TranslatedText // Display only - answers always store the Chinese label and the value
+}
+
+// Skip logic rule: when the answer matches, continue with next_question_id instead of the next question in order
+export interface QuestionBranch {
+  option_value?: string // multiple_choice / multi_select - option value (label when the value is empty)
+  min_score?: number // rating / nps - inclusive score range, either end may be open
+  max_score?: number
+  next_question_id: string // question id, or 'end' to finish the questionnaire
 }
 
 // Individual question structure
 export interface Question {
   id: string
   text: string
+  text_translations?: TranslatedText
   type: QuestionType
   order: number
-  options?: QuestionOption[] // Only required for multiple_choice type
+  options?: QuestionOption[] // Only required for multiple_choice and multi_select types
+  rating_style?: RatingStyle // rating only
+  min_selections?: number // multi_select only (default 1)
+  max_selections?: number // multi_select only (default: number of options)
+  min?: number // numeric only - lowest accepted value
+  max?: number // numeric only - highest accepted value
+  branches?: QuestionBranch[] // Checked in order, the first matching rule wins
+  default_next_question_id?: string // When no branch matches (default: next question in order)
 }
 
 export interface EchoQuestionnaire {
   id: string
   title: string
   description?: string
+  title_translations?: TranslatedText
+  description_translations?: TranslatedText
   // JSONB field for flexible questions (supports unlimited questions)
   questions: Question[]
   is_active: boolean
+  // Latest published snapshot - customers see this, while title/description/questions above are the draft
+  published_version_id?: string | null
+  deleted_at?: string | null // Set while the questionnaire is in the trash
   created_at?: string
   updated_at?: string
 }
 
+// Immutable snapshot of a questionnaire, created on publish
+export interface EchoQuestionnaireVersion {
+  id: string
+  questionnaire_id: string
+  version_number: number
+  title: string
+  description?: string | null
+  title_translations?: TranslatedText
+  description_translations?: TranslatedText
+  questions: Question[]
+  published_at: string
+}
+
 export interface EchoQRCode {
   id: string
-  table_id: string
+  table_id: string | null // null once the code is retired
   qr_code_value: string
+  // Retired codes are kept for their answers; scans redirect to replaced_by_qrcode_id when set
+  retired_at?: string | null
+  retired_from_table_id?: string | null
+  replaced_by_qrcode_id?: string | null
+  deleted_at?: string | null // Set while the QR code is in the trash (detached from its table like a retired code)
   created_at?: string
   updated_at?: string
 }
 
+// QR code error correction: L ~7%, M ~15%, Q ~25%, H ~30% of the code can be damaged or covered
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H'
+
+export type QRSizePreset = 'small' | 'medium' | 'large' | 'print'
+
+// How a restaurant's QR codes are rendered (echo_restaurant_settings.qr_style)
+export interface QRCodeStyle {
+  foreground: string // #rrggbb
+  background: string // #rrggbb
+  size: QRSizePreset
+  error_correction: QRErrorCorrectionLevel // Raised to H automatically while a logo is set
+  logo_data_url?: string | null // Centered logo (data URL)
+}
+
+// One questionnaire of a restaurant's default assignment set (echo_restaurant_settings.default_assignments)
+export interface DefaultAssignment {
+  questionnaire_id: string
+  weight: number
+}
+
+export interface EchoRestaurantSettings {
+  restaurant_id: string
+  qr_style?: QRCodeStyle | null
+  default_assignments?: DefaultAssignment[] // Assigned to every new QR code of the restaurant, in this order
+  timezone?: string // IANA time zone, e.g. "Asia/Shanghai"
+  is_active?: boolean // Inactive restaurants show customers a "not in service" page instead of questionnaires
+  updated_at?: string
+}
+
 export interface EchoQRCodeQuestionnaire {
   id: string
   qrcode_id: string
@@ -71,24 +170,136 @@ export interface EchoQRCodeQuestionnaire {
   deactivated_at?: string
 }
 
+// One entry of echo_answers.answers (keyed by question.id), discriminated by the question type
+// label is what the customer saw: the option label(s) of choice questions, or the score label of a rating
+// Stored rows are untrusted JSON - read them through parseAnswerValue() in utils/answerValidation.ts
+export type AnswerValue =
+  | { type: 'multiple_choice'; value: string; label: string }
+  | { type: 'multi_select'; value: string[]; label: string[] }
+  | { type: 'text_input'; value: string }
+  | { type: 'rating'; value: number; label?: string }
+  | { type: 'nps'; value: number }
+  | { type: 'numeric'; value: number }
+
+// echo_answers.answers - answers keyed by question.id (only the questions the customer was shown)
+export type AnswerMap = Record<string, AnswerValue>
+
 export interface EchoAnswer {
   id: string
   table_id: string
   questionnaire_id: string
   qrcode_id: string
   assignment_id: string
+  // Published version the customer answered (null only for answers collected before versioning)
+  questionnaire_version_id?: string | null
   // JSONB field for flexible answers (keyed by question.id, supports unlimited answers)
-  answers: Record<string, string>
+  answers: AnswerMap
   submitted_at: string
   customer_identifier?: string
 }
 
+// Admin app roles: super_admin can do everything; restaurant_manager manages the restaurants in restaurant_ids;
+// analyst is read-only (all restaurants when restaurant_ids is empty)
+export type UserRole = 'super_admin' | 'restaurant_manager' | 'analyst'
+
+export interface EchoUserRole {
+  user_id: string // auth.users.id
+  role: UserRole
+  restaurant_ids: string[] // roleplay_restaurants ids the role is limited to
+  deactivated_at?: string | null // Deactivated accounts keep their row but have no access
+  created_at?: string
+  updated_at?: string
+}
+
+// Pending invitation - becomes an echo_user_roles row when the invited email signs in for the first time
+export interface EchoInvitation {
+  id: string
+  email: string // Lowercase
+  role: UserRole
+  restaurant_ids: string[]
+  invited_by: string | null // auth.users.id
+  invited_at: string
+  accepted_at: string | null
+}
+
+// Admin account as listed by the echo_list_admin_users() function (auth.users joined with echo_user_roles)
+export interface AdminUser extends EchoUserRole {
+  email: string
+  last_sign_in_at: string | null
+}
+
+// Audited admin actions, as "<entity>.<verb>"
+// assignment.update is the whole assignment set of a QR code (entity_id = QR code id)
+// restaurant.settings covers echo_restaurant_settings, including the QR code style
+// trash.restore / trash.purge are recorded with the entity type of the restored or purged item
+export type AuditAction =
+  | 'restaurant.create'
+  | 'restaurant.update'
+  | 'restaurant.settings'
+  | 'table.create'
+  | 'table.delete'
+  | 'qrcode.generate'
+  | 'qrcode.replace'
+  | 'qrcode.move'
+  | 'qrcode.delete'
+  | 'questionnaire.create'
+  | 'questionnaire.update'
+  | 'questionnaire.delete'
+  | 'questionnaire.publish'
+  | 'assignment.create'
+  | 'assignment.update'
+  | 'assignment.deactivate'
+  | 'assignment.remove'
+  | 'trash.restore'
+  | 'trash.purge'
+
+export type AuditEntityType = 'restaurant' | 'table' | 'qrcode' | 'questionnaire' | 'assignment'
+
+// One audited admin action; before/after are row snapshots (null for creates / deletes of the whole row)
+export interface EchoAuditLog {
+  id: string
+  actor_id: string | null // auth.users.id, null once the account is gone
+  actor_email: string | null // Kept so the log stays readable after the account is removed
+  action: AuditAction
+  entity_type: AuditEntityType
+  entity_id: string
+  restaurant_id: string | null // Restaurant the entity belongs to; null for questionnaires (shared)
+  before: unknown | null
+  after: unknown | null
+  created_at: string
+}
+
+// What a customer did on the public questionnaire page (echo_scan_events)
+// open: page loaded for a QR code; select: a questionnaire was picked; question: a question was shown;
+// submit: answers were saved
+export type ScanEventType = 'open' | 'select' | 'question' | 'submit'
+
+export interface EchoScanEvent {
+  id: string
+  session_id: string // One page load of /q/:qrcodeId, generated in the browser
+  qrcode_id: string // QR code served (the replacement when a retired code was scanned)
+  assignment_id: string | null // Picked assignment; null when the page could not load a questionnaire
+  questionnaire_version_id: string | null
+  event_type: ScanEventType
+  question_id: string | null // question events only
+  created_at: string
+}
+
 // Extended types with joined data
 // Note: Supabase returns 1:1 relationships as a single object (not array)
 export interface TableWithQRCode extends EchoTable {
   echo_qrcode?: EchoQRCode | null
 }
 
+// Restaurant with its settings, defaults filled in for restaurants without a settings row
+export interface RestaurantWithSettings extends Restaurant {
+  settings: EchoRestaurantSettings
+}
+
+export interface QuestionnaireWithVersion extends EchoQuestionnaire {
+  published_version?: EchoQuestionnaireVersion | null
+}
+
 export interface QRCodeWithAssignments extends EchoQRCode {
   echo_qrcode_questionnaire?: QRCodeQuestionnaireWithQuestionnaire[]
 }
@@ -0,0 +1,204 @@
+// Version: 1.1.1
+// Shared answer model checks - parsing stored answers, validating answers against their questions
+// Writers (customer questionnaire) validate before submitting; readers (responses, analytics) parse
+// stored JSON with parseAnswerValue() instead of trusting echo_answers.answers blindly
+// v1.1.1: Scales come from utils/questionScales instead of the questionnaire service
+// v1.1.0: Added isAnswerValue(), parseAnswerValue(), validateAnswerValue() and validateAnswers() for the
+//         AnswerValue model; isAnswerComplete() now uses the same per-question rules
+
+import type { AnswerMap, AnswerValue, Question } from '../types/database'
+import { END_OF_QUESTIONNAIRE, getNextQuestionId, getOptionKey } from './questionFlow'
+import { NPS_SCALE, RATING_SCALE } from './questionScales'
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+const sortByOrder = (questions: Question[]) => [...questions].sort((a, b) => a.order - b.order)
+
+/**
+ * Allowed number of selections for a multi-select question
+ */
+export const getSelectionLimits = (question: Question): { min: number; max: number } => {
+  return {
+    min: question.min_selections || 1,
+    max: question.max_selections || (question.options || []).length,
+  }
+}
+
+/**
+ * Whether a JSON value has the exact shape of an AnswerValue (type, value and label types)
+ */
+export const isAnswerValue = (raw: unknown): raw is AnswerValue => {
+  if (!raw || typeof raw !== 'object') return false
+  const { type, value, label } = raw as Record<string, unknown>
+
+  switch (type) {
+    case 'multiple_choice':
+      return isString(value) && isString(label)
+    case 'multi_select':
+      return (
+        Array.isArray(value) &&
+        Array.isArray(label) &&
+        value.length === label.length &&
+        value.every(isString) &&
+        label.every(isString)
+      )
+    case 'text_input':
+      return isString(value)
+    case 'rating':
+      return isFiniteNumber(value) && (label === undefined || isString(label))
+    case 'nps':
+    case 'numeric':
+      return isFiniteNumber(value)
+    default:
+      return false
+  }
+}
+
+/**
+ * Read a stored answer as an AnswerValue
+ * Well-formed entries are returned as-is (even when their type no longer matches the question).
+ * Older rows - plain strings from before v5.1.0 of the customer page, or entries without a type -
+ * are interpreted with the question's type; an unknown question is treated as text.
+ * @returns null when the entry is missing or cannot be interpreted
+ */
+export const parseAnswerValue = (raw: unknown, question?: Question): AnswerValue | null => {
+  if (raw === null || raw === undefined) return null
+  if (isAnswerValue(raw)) return raw
+
+  const entry = (typeof raw === 'object' ? raw : { value: raw }) as { value?: unknown; label?: unknown }
+  const options = question?.options || []
+  const findLabel = (value: string) => options.find((option) => getOptionKey(option) === value)?.label ?? value
+
+  switch (question?.type ?? 'text_input') {
+    case 'multiple_choice': {
+      if (!isString(entry.value)) return null
+      return {
+        type: 'multiple_choice',
+        value: entry.value,
+        label: isString(entry.label) ? entry.label : findLabel(entry.value),
+      }
+    }
+    case 'multi_select': {
+      const values = (Array.isArray(entry.value) ? entry.value : [entry.value]).filter(isString)
+      const labels = Array.isArray(entry.label) ? entry.label : []
+      return {
+        type: 'multi_select',
+        value: values,
+        label: values.map((value, index) => (isString(labels[index]) ? labels[index] : findLabel(value))),
+      }
+    }
+    case 'rating':
+    case 'nps':
+    case 'numeric': {
+      const value = Number(entry.value)
+      if (entry.value === '' || !Number.isFinite(value)) return null
+      return { type: question!.type as 'rating' | 'nps' | 'numeric', value }
+    }
+    default:
+      return isString(entry.value) || isFiniteNumber(entry.value)
+        ? { type: 'text_input', value: String(entry.value) }
+        : null
+  }
+}
+
+/**
+ * Check one answer against its question
+ * @returns An error message, or null when the answer is valid
+ */
+export const validateAnswerValue = (question: Question, answer: AnswerValue): string | null => {
+  if (answer.type !== question.type) {
+    return `Expected a ${question.type} answer but got ${answer.type}`
+  }
+
+  const optionKeys = (question.options || []).map(getOptionKey)
+
+  switch (answer.type) {
+    case 'multiple_choice':
+      return optionKeys.includes(answer.value || answer.label) ? null : 'Selected option does not exist'
+    case 'multi_select': {
+      const keys = answer.value.map((value, index) => value || answer.label[index])
+      const limits = getSelectionLimits(question)
+      if (keys.length < limits.min || keys.length > limits.max) {
+        return `Select between ${limits.min} and ${limits.max} options`
+      }
+      if (new Set(keys).size !== keys.length) return 'An option is selected twice'
+      return keys.every((key) => optionKeys.includes(key)) ? null : 'Selected option does not exist'
+    }
+    case 'text_input':
+      return answer.value.trim() !== '' ? null : 'Answer is empty'
+    case 'rating':
+    case 'nps': {
+      const scale = answer.type === 'rating' ? RATING_SCALE : NPS_SCALE
+      return Number.isInteger(answer.value) && answer.value >= scale.min && answer.value <= scale.max
+        ? null
+        : `Score must be a whole number from ${scale.min} to ${scale.max}`
+    }
+    case 'numeric':
+      if (!Number.isFinite(answer.value)) return 'Answer must be a number'
+      if (question.min !== undefined && answer.value < question.min) return `Answer must be at least ${question.min}`
+      if (question.max !== undefined && answer.value > question.max) return `Answer must be at most ${question.max}`
+      return null
+  }
+}
+
+/**
+ * Whether an answer satisfies its question (used to enable the Next button)
+ */
+export const isAnswerComplete = (question: Question, answer?: AnswerValue): boolean => {
+  return !!answer && validateAnswerValue(question, answer) === null
+}
+
+/**
+ * Validate a complete submission against the questionnaire it answers
+ * Every answer must belong to a question and be valid for it, and the answered questions must be exactly
+ * the ones the skip logic leads through (all shown questions are required).
+ */
+export const validateAnswers = (questions: Question[], answers: unknown): { valid: boolean; error?: string } => {
+  if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+    return { valid: false, error: 'Answers must be an object keyed by question id' }
+  }
+
+  const sorted = sortByOrder(questions)
+  const byId = new Map(sorted.map((question) => [question.id, question]))
+  const questionNumber = (questionId: string) => sorted.findIndex((question) => question.id === questionId) + 1
+  const entries = answers as Record<string, unknown>
+
+  for (const [questionId, raw] of Object.entries(entries)) {
+    const question = byId.get(questionId)
+    if (!question) {
+      return { valid: false, error: `Answer for unknown question ${questionId}` }
+    }
+
+    if (!isAnswerValue(raw)) {
+      return { valid: false, error: `Question ${questionNumber(questionId)}: Malformed answer` }
+    }
+
+    const error = validateAnswerValue(question, raw)
+    if (error) {
+      return { valid: false, error: `Question ${questionNumber(questionId)}: ${error}` }
+    }
+  }
+
+  // Walk the questionnaire the way the customer did (validateQuestions() rejects loops; guard anyway)
+  const typedAnswers = entries as AnswerMap
+  const visited = new Set<string>()
+  let current: Question | undefined = sorted[0]
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id)
+    if (!typedAnswers[current.id]) {
+      return { valid: false, error: `Question ${questionNumber(current.id)}: Answer is missing` }
+    }
+
+    const nextId: string = getNextQuestionId(current, sorted, typedAnswers[current.id])
+    current = nextId === END_OF_QUESTIONNAIRE ? undefined : byId.get(nextId)
+  }
+
+  const skipped = Object.keys(entries).find((questionId) => !visited.has(questionId))
+  if (skipped) {
+    return { valid: false, error: `Question ${questionNumber(skipped)}: Answered although the skip logic skips it` }
+  }
+
+  return { valid: true }
+}
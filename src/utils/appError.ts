@@ -0,0 +1,162 @@
+// Version: 1.3.0
+// Typed service errors - a code plus parameters the admin UI translates (I18nContext translateError())
+// The English message is kept for console logs and for pages that show err.message as is
+// v1.3.0: Batch table naming errors (table.range_too_large, table.batch_too_large)
+// v1.2.0: Trash, user management, answers and customer questionnaire errors; their requests
+// v1.1.0: QR code move errors (qrcode.move_other_restaurant, qrcode.not_on_table)
+
+export type AppErrorCode =
+  // Question rules (validateQuestions)
+  | 'questions.not_array'
+  | 'questions.empty'
+  | 'question.id_required'
+  | 'question.text_required'
+  | 'question.type_invalid'
+  | 'question.options_required'
+  | 'question.option_count'
+  | 'question.option_label_required'
+  | 'question.min_selections'
+  | 'question.max_selections'
+  | 'question.rating_style'
+  | 'question.numeric_range_required'
+  | 'question.numeric_range_order'
+  | 'question.branches_unsupported'
+  | 'question.branch_target'
+  | 'question.branch_score_range'
+  | 'question.branch_option'
+  | 'question.default_next'
+  | 'question.loop'
+  // Questionnaires, publishing and assignments
+  | 'questionnaire.import_not_found'
+  | 'questionnaire.no_changes_to_publish'
+  | 'assignment.table_has_questionnaire'
+  | 'assignment.already_assigned'
+  | 'assignment.single_mode_one_questionnaire'
+  | 'assignment.duplicate_questionnaire'
+  | 'assignment.invalid_weight'
+  | 'assignment.no_tables'
+  | 'assignment.no_qrcodes'
+  | 'assignment.all_tables_assigned'
+  | 'assignment.all_tables_have_questionnaire'
+  // QR codes, tables and restaurants
+  | 'qrcode.none_to_print'
+  | 'qrcode.none_to_download'
+  | 'qrcode.move_other_restaurant'
+  | 'qrcode.not_on_table'
+  | 'table.range_too_large'
+  | 'table.batch_too_large'
+  | 'restaurant.name_required'
+  | 'restaurant.unknown_timezone'
+  | 'restaurant.duplicate_default_questionnaire'
+  | 'restaurant.missing_default_questionnaires'
+  // Trash and user management
+  | 'trash.retention_passed'
+  | 'trash.qrcode_table_missing'
+  | 'trash.qrcode_slot_taken'
+  | 'trash.table_number_taken'
+  | 'user.manager_needs_restaurant'
+  | 'user.own_account'
+  | 'user.invalid_email'
+  // Answers and the customer questionnaire (surveyService - the customer page explains these itself)
+  | 'answers.invalid'
+  | 'survey.qr_code_not_found'
+  | 'survey.qr_code_retired'
+  | 'survey.restaurant_inactive'
+  | 'survey.no_active_questionnaire'
+  // Access (roleService)
+  | 'access.manage_restaurant'
+  | 'access.edit_questionnaires'
+  | 'access.delete_questionnaires'
+  | 'access.super_admin'
+  | 'access.purge_trash'
+  // A Supabase request failed - params.action names the request, params.detail is the database message
+  | 'request_failed'
+
+export type AppErrorParams = Record<string, string | number>
+
+export class AppError extends Error {
+  readonly code: AppErrorCode
+  readonly params: AppErrorParams
+
+  constructor(code: AppErrorCode, message: string, params: AppErrorParams = {}) {
+    super(message)
+    this.name = 'AppError'
+    this.code = code
+    this.params = params
+  }
+}
+
+// Requests services send to Supabase, named as in the English message ("Failed to <action>: ...")
+export type RequestAction =
+  | 'assign questionnaire'
+  | 'assign questionnaire to restaurant'
+  | 'check existing assignments'
+  | 'create QR code'
+  | 'create QR codes'
+  | 'create invitation'
+  | 'create questionnaire'
+  | 'create restaurant'
+  | 'create table'
+  | 'create tables'
+  | 'deactivate assignment'
+  | 'deactivate removed assignments'
+  | 'deactivate user'
+  | 'delete QR code'
+  | 'delete questionnaire'
+  | 'delete table'
+  | 'fetch QR code'
+  | 'fetch QR code assignments'
+  | 'fetch QR code style'
+  | 'fetch answers'
+  | 'fetch assignment'
+  | 'fetch assignments for questionnaire'
+  | 'fetch audit log'
+  | 'fetch invitations'
+  | 'fetch questionnaire'
+  | 'fetch questionnaire assignments'
+  | 'fetch questionnaire versions'
+  | 'fetch questionnaire versions for answers'
+  | 'fetch questionnaires'
+  | 'fetch questionnaires for QR code'
+  | 'fetch questionnaires for answers'
+  | 'fetch responses'
+  | 'fetch restaurant'
+  | 'fetch restaurant assignments'
+  | 'fetch restaurant settings'
+  | 'fetch restaurants'
+  | 'fetch scan events'
+  | 'fetch table data'
+  | 'fetch tables'
+  | 'fetch tables for restaurant'
+  | 'fetch tables of deleted QR codes'
+  | 'fetch target table'
+  | 'fetch trash'
+  | 'fetch user role'
+  | 'fetch users'
+  | 'move QR code'
+  | 'publish questionnaire'
+  | 'purge item'
+  | 'reactivate user'
+  | 'remove assignment'
+  | 'remove restaurant assignments'
+  | 'restore item'
+  | 'retire QR code'
+  | 'revoke invitation'
+  | 'save QR code style'
+  | 'save assignments'
+  | 'save default assignments'
+  | 'save restaurant settings'
+  | 'send invitation email'
+  | 'set published version'
+  | 'submit answers'
+  | 'update questionnaire'
+  | 'update restaurant'
+  | 'update user role'
+
+/**
+ * Error of a failed Supabase request
+ * @param detail - Database error message (shown untranslated)
+ */
+export const requestFailed = (action: RequestAction, detail: string): AppError => {
+  return new AppError('request_failed', `Failed to ${action}: ${detail}`, { action, detail })
+}
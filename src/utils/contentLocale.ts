@@ -0,0 +1,147 @@
+// Version: 1.0.0
+// Languages of questionnaire content - translations of titles, question texts and option labels
+// Content is written in Chinese (title, text, label); translations are optional per language and fall back to
+// the Chinese text. Translations only change what customers see - answers keep the Chinese label and the value
+
+import type { QuestionOption, Question, TranslatedText, TranslationLocale } from '../types/database'
+import type { QuestionnaireContent } from './questionnaireDiff'
+
+export type ContentLocale = 'zh' | TranslationLocale
+
+export const DEFAULT_CONTENT_LOCALE: ContentLocale = 'zh'
+
+export const TRANSLATION_LOCALES: TranslationLocale[] = ['en', 'ja', 'ko']
+
+// Each language in its own name - shown to customers in the language switcher
+export const CONTENT_LOCALE_LABELS: Record<ContentLocale, string> = {
+  zh: '中文',
+  en: 'English',
+  ja: '日本語',
+  ko: '한국어',
+}
+
+// Text that can be translated, e.g. to list what is missing in the editor
+export interface TranslatableText {
+  key: string // Unique within the questionnaire, e.g. 'title' or 'question:q1:option:0'
+  kind: 'title' | 'description' | 'question' | 'option'
+  question_id?: string
+  option_index?: number
+  text: string // Chinese text
+  translations?: TranslatedText
+}
+
+/**
+ * Text in a language, falling back to the Chinese text when there is no translation
+ */
+export const translate = (text: string, translations: TranslatedText | undefined, locale: ContentLocale): string => {
+  if (locale === DEFAULT_CONTENT_LOCALE) return text
+  return translations?.[locale]?.trim() || text
+}
+
+export const getQuestionText = (question: Question, locale: ContentLocale) => {
+  return translate(question.text, question.text_translations, locale)
+}
+
+export const getOptionLabel = (option: QuestionOption, locale: ContentLocale) => {
+  return translate(option.label, option.label_translations, locale)
+}
+
+/**
+ * Every text of a questionnaire that can be translated, in display order
+ * Empty texts (e.g. no description) are skipped
+ */
+export const getTranslatableTexts = (content: QuestionnaireContent): TranslatableText[] => {
+  const texts: TranslatableText[] = [
+    { key: 'title', kind: 'title', text: content.title, translations: content.title_translations },
+  ]
+
+  if (content.description?.trim()) {
+    texts.push({
+      key: 'description',
+      kind: 'description',
+      text: content.description,
+      translations: content.description_translations,
+    })
+  }
+
+  const questions = [...content.questions].sort((a, b) => a.order - b.order)
+  questions.forEach((question) => {
+    texts.push({
+      key: `question:${question.id}`,
+      kind: 'question',
+      question_id: question.id,
+      text: question.text,
+      translations: question.text_translations,
+    })
+
+    const options = question.options || []
+    options.forEach((option, index) => {
+      texts.push({
+        key: `question:${question.id}:option:${index}`,
+        kind: 'option',
+        question_id: question.id,
+        option_index: index,
+        text: option.label,
+        translations: option.label_translations,
+      })
+    })
+  })
+
+  return texts.filter((entry) => entry.text.trim() !== '')
+}
+
+/**
+ * Set one language of a translations field; an empty text removes the language
+ */
+export const setTranslation = (
+  translations: TranslatedText | undefined,
+  locale: TranslationLocale,
+  text: string
+): TranslatedText => {
+  const { [locale]: _removed, ...rest } = translations || {}
+  return text.trim() ? { ...rest, [locale]: text } : rest
+}
+
+const hasTranslation = (entry: TranslatableText, locale: TranslationLocale) => !!entry.translations?.[locale]?.trim()
+
+/**
+ * Texts without a translation into a language
+ */
+export const getMissingTranslations = (content: QuestionnaireContent, locale: TranslationLocale): TranslatableText[] => {
+  return getTranslatableTexts(content).filter((entry) => !hasTranslation(entry, locale))
+}
+
+/**
+ * Languages a questionnaire can be shown in - Chinese, plus every language with at least one translation
+ */
+export const getAvailableLocales = (content: QuestionnaireContent): ContentLocale[] => {
+  const texts = getTranslatableTexts(content)
+  return [
+    DEFAULT_CONTENT_LOCALE,
+    ...TRANSLATION_LOCALES.filter((locale) => texts.some((entry) => hasTranslation(entry, locale))),
+  ]
+}
+
+/**
+ * Pick the language to show from the browser's preferred languages (navigator.languages)
+ * 'en-US' matches 'en', 'zh-TW' matches 'zh'; the first preferred language that is available wins.
+ * Browsers that prefer none of them get English when available - a foreign guest reads English more likely
+ * than Chinese
+ */
+export const pickContentLocale = (
+  available: ContentLocale[],
+  preferred: readonly string[]
+): ContentLocale => {
+  const bases = preferred.map((language) => language.toLowerCase().split('-')[0])
+
+  for (const base of bases) {
+    const match = available.find((locale) => locale === base)
+    if (match) return match
+  }
+
+  if (bases.length > 0 && !bases.includes(DEFAULT_CONTENT_LOCALE) && available.includes('en')) {
+    return 'en'
+  }
+
+  return DEFAULT_CONTENT_LOCALE
+}
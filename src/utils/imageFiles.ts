@@ -0,0 +1,14 @@
+// Version: 1.0.0
+// Image uploads handled in the browser - logos are kept as data URLs (print layouts, QR code styles)
+
+/**
+ * Read a file as a data URL
+ */
+export const readFileAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(new Error('Failed to read image'))
+    reader.readAsDataURL(file)
+  })
+}
@@ -0,0 +1,123 @@
+// Version: 1.0.0
+// Minimal PDF writer - one full-page JPEG per page (PDF 1.4, DCTDecode), generated in the browser
+// Pages are rendered by the browser first (renderSvgToJpeg), so Chinese text needs no embedded fonts
+
+export interface PdfImagePage {
+  jpeg: Uint8Array
+  width: number // pixels
+  height: number // pixels
+}
+
+const MM_TO_PT = 72 / 25.4
+
+const encoder = new TextEncoder()
+
+/**
+ * Rasterize an SVG document to JPEG bytes on a white background
+ */
+export const renderSvgToJpeg = (svg: string, width: number, height: number, quality = 0.92): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+    const image = new Image()
+
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = height
+      const context = canvas.getContext('2d')
+      if (!context) {
+        reject(new Error('Canvas is not supported'))
+        return
+      }
+
+      context.fillStyle = '#ffffff'
+      context.fillRect(0, 0, width, height)
+      context.drawImage(image, 0, 0, width, height)
+      canvas.toBlob(
+        (blob) => {
+          if (!blob) {
+            reject(new Error('Failed to render page'))
+            return
+          }
+          blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject)
+        },
+        'image/jpeg',
+        quality
+      )
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Failed to render page'))
+    }
+
+    image.src = url
+  })
+}
+
+/**
+ * Build a PDF where every page is one JPEG stretched over the full page
+ */
+export const buildImagePdf = (pages: PdfImagePage[], pageWidthMm: number, pageHeightMm: number): Uint8Array => {
+  const pageWidth = (pageWidthMm * MM_TO_PT).toFixed(2)
+  const pageHeight = (pageHeightMm * MM_TO_PT).toFixed(2)
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk
+    chunks.push(bytes)
+    length += bytes.length
+  }
+
+  // Object ids are 1-based; offsets[id - 1] is recorded for the cross-reference table
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id - 1] = length
+    write(`${id} 0 obj\n${body}\n`)
+    if (stream) {
+      write('stream\n')
+      write(stream)
+      write('\nendstream\n')
+    }
+    write('endobj\n')
+  }
+
+  // Objects: 1 catalog, 2 page tree, then page / content / image for every page
+  const pageIds = pages.map((_, index) => 3 + index * 3)
+
+  write('%PDF-1.4\n%âãÏÓ\n')
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>')
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`)
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index]
+    const content = encoder.encode(`q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`)
+
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    )
+    writeObject(pageId + 1, `<< /Length ${content.length} >>`, content)
+    writeObject(
+      pageId + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+      page.jpeg
+    )
+  })
+
+  const xrefOffset = length
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`)
+  offsets.forEach((offset) => write(`${String(offset).padStart(10, '0')} 00000 n \n`))
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  const pdf = new Uint8Array(length)
+  let position = 0
+  chunks.forEach((chunk) => {
+    pdf.set(chunk, position)
+    position += chunk.length
+  })
+  return pdf
+}
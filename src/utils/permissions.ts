@@ -0,0 +1,91 @@
+// Version: 1.4.0
+// Role-based access checks for the admin app - pure functions over the signed-in user's echo_user_roles row
+// The same rules are enforced by RLS in the database; services check them first for clear error messages
+// and the UI uses them to hide actions the user cannot take
+// v1.4.0: Added getViewableRestaurantIds (scopes answer queries)
+// v1.3.0: USER_ROLE_LABELS replaced by USER_ROLES; labels come from the admin catalogs
+// v1.2.0: Added canManageRestaurants and canEditRestaurantDetails (restaurant management page)
+// v1.1.0: Deactivated accounts have no access
+
+import type { EchoUserRole, UserRole } from '../types/database'
+
+// Roles in the order the role picker lists them; labels are under layout.roles in the admin catalogs
+export const USER_ROLES: UserRole[] = ['super_admin', 'restaurant_manager', 'analyst']
+
+/**
+ * Whether the user has a role and the account is not deactivated
+ */
+export const hasAccess = (access: EchoUserRole | null): access is EchoUserRole => {
+  return !!access && !access.deactivated_at
+}
+
+export const isSuperAdmin = (access: EchoUserRole | null): boolean => {
+  return hasAccess(access) && access.role === 'super_admin'
+}
+
+/**
+ * Whether the user can see a restaurant and its data
+ * Analysts without restaurant_ids see every restaurant
+ */
+export const canViewRestaurant = (access: EchoUserRole | null, restaurantId: string): boolean => {
+  if (!hasAccess(access)) return false
+  if (access.role === 'super_admin') return true
+  if (access.role === 'analyst' && access.restaurant_ids.length === 0) return true
+  return access.restaurant_ids.includes(restaurantId)
+}
+
+/**
+ * Restaurants whose data the user can see, for filtering queries - null when the user sees every restaurant
+ * (super admins, analysts without restaurant_ids); users without access get an empty list
+ */
+export const getViewableRestaurantIds = (access: EchoUserRole | null): string[] | null => {
+  if (!hasAccess(access)) return []
+  if (access.role === 'super_admin') return null
+  if (access.role === 'analyst' && access.restaurant_ids.length === 0) return null
+  return access.restaurant_ids
+}
+
+/**
+ * Whether the user can change a restaurant's tables, QR codes, QR code style and questionnaire assignments
+ */
+export const canManageRestaurant = (access: EchoUserRole | null, restaurantId: string): boolean => {
+  if (!hasAccess(access)) return false
+  if (access.role === 'super_admin') return true
+  return access.role === 'restaurant_manager' && access.restaurant_ids.includes(restaurantId)
+}
+
+/**
+ * Whether the user manages any restaurant (opens the restaurant management page)
+ */
+export const canManageRestaurants = (access: EchoUserRole | null): boolean => {
+  return hasAccess(access) && (access.role === 'super_admin' || access.role === 'restaurant_manager')
+}
+
+/**
+ * Whether the user can create restaurants and change their name, address and city
+ * roleplay_restaurants is shared with other apps, so only super admins can
+ */
+export const canEditRestaurantDetails = (access: EchoUserRole | null): boolean => {
+  return isSuperAdmin(access)
+}
+
+/**
+ * Whether the user can create, edit and publish questionnaires
+ */
+export const canEditQuestionnaires = (access: EchoUserRole | null): boolean => {
+  return hasAccess(access) && (access.role === 'super_admin' || access.role === 'restaurant_manager')
+}
+
+/**
+ * Whether the user can delete questionnaires - they are shared by every restaurant, so only super admins can
+ */
+export const canDeleteQuestionnaires = (access: EchoUserRole | null): boolean => {
+  return isSuperAdmin(access)
+}
+
+/**
+ * Whether the user can open the trash - analysts cannot restore anything
+ */
+export const canUseTrash = (access: EchoUserRole | null): boolean => {
+  return canEditQuestionnaires(access)
+}
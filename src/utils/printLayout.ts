@@ -0,0 +1,186 @@
+// Version: 1.1.0
+// Print layouts for table QR codes - A4 sheets of cut-out cards and fold-in-half table tent cards, as SVG pages
+// All measurements are millimetres on an A4 page; utils/pdf.ts turns the pages into a PDF
+// v1.1.0: QR codes follow the restaurant's QR code style (colors, error correction, centered logo)
+
+import QRCode from 'qrcode'
+import type { QRCodeStyle } from '../types/database'
+import { buildLogoOverlaySvg, DEFAULT_QR_STYLE, getErrorCorrectionLevel, QR_MARGIN } from './qrStyle'
+
+export type PrintLayout = 'sheet' | 'tent'
+
+export interface PrintCard {
+  restaurant_name: string
+  table_number: string
+  qr_code_value: string
+}
+
+export interface PrintOptions {
+  layout: PrintLayout
+  callToAction: string
+  brandText?: string // Optional line at the bottom of each card, e.g. a slogan
+  logoDataUrl?: string // Optional logo image shown above the restaurant name
+  accentColor: string // Table number and card frame colour
+  qrStyle?: QRCodeStyle // Restaurant QR code style (size preset is ignored - the layout decides the size)
+}
+
+export const A4_SIZE_MM = { width: 210, height: 297 }
+
+export const DEFAULT_CALL_TO_ACTION = '扫码评价，帮助我们做得更好'
+export const DEFAULT_ACCENT_COLOR = '#1976d2'
+
+// Sheet layout: 2 x 3 cards per page with cut lines
+const SHEET_COLUMNS = 2
+const SHEET_ROWS = 3
+const PAGE_MARGIN = 10
+const CARD_GAP = 5
+export const SHEET_CARDS_PER_PAGE = SHEET_COLUMNS * SHEET_ROWS
+
+const FONT_FAMILY = "'PingFang SC', 'Microsoft YaHei', 'Noto Sans CJK SC', sans-serif"
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * QR code as an SVG element, drawn from the module matrix so it stays sharp at any print size
+ */
+const renderQRCode = (value: string, x: number, y: number, size: number, style: QRCodeStyle): string => {
+  const { modules } = QRCode.create(value, { errorCorrectionLevel: getErrorCorrectionLevel(style) })
+  const quietZone = QR_MARGIN
+  const total = modules.size + quietZone * 2
+
+  let path = ''
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) path += `M${col} ${row}h1v1h-1z`
+    }
+  }
+
+  return (
+    `<svg x="${x}" y="${y}" width="${size}" height="${size}" viewBox="${-quietZone} ${-quietZone} ${total} ${total}" shape-rendering="crispEdges">` +
+    `<rect x="${-quietZone}" y="${-quietZone}" width="${total}" height="${total}" fill="${style.background}"/>` +
+    `<path d="${path}" fill="${style.foreground}"/>` +
+    (style.logo_data_url
+      ? `<g transform="translate(${-quietZone} ${-quietZone})">${buildLogoOverlaySvg(style.logo_data_url, total, style.background)}</g>`
+      : '') +
+    '</svg>'
+  )
+}
+
+const renderText = (text: string, x: number, y: number, fontSize: number, fill: string, bold = false): string => {
+  return (
+    `<text x="${x}" y="${y}" font-size="${fontSize}" font-family="${FONT_FAMILY}" fill="${fill}" ` +
+    `text-anchor="middle" dominant-baseline="middle"${bold ? ' font-weight="bold"' : ''}>${escapeXml(text)}</text>`
+  )
+}
+
+/**
+ * Content of one card (logo, restaurant name, QR code, table number, call-to-action, brand line),
+ * stacked top to bottom and centred in the given box
+ */
+const renderCard = (card: PrintCard, options: PrintOptions, x: number, y: number, width: number, height: number) => {
+  const centerX = x + width / 2
+  const padding = height * 0.06
+  const parts: string[] = []
+  let cursor = y + padding
+
+  if (options.logoDataUrl) {
+    const logoHeight = height * 0.1
+    parts.push(
+      `<image href="${escapeXml(options.logoDataUrl)}" x="${x}" y="${cursor}" width="${width}" height="${logoHeight}" preserveAspectRatio="xMidYMid meet"/>`
+    )
+    cursor += logoHeight + height * 0.02
+  }
+
+  const nameSize = height * 0.06
+  parts.push(renderText(card.restaurant_name, centerX, cursor + nameSize / 2, nameSize, '#333333', true))
+  cursor += nameSize + height * 0.03
+
+  // The QR code takes the remaining height after the text lines below it
+  const textBelow = height * (options.brandText ? 0.25 : 0.2)
+  const qrSize = Math.min(width * 0.7, y + height - padding - textBelow - cursor)
+  parts.push(renderQRCode(card.qr_code_value, centerX - qrSize / 2, cursor, qrSize, options.qrStyle || DEFAULT_QR_STYLE))
+  cursor += qrSize + height * 0.02
+
+  const tableSize = height * 0.08
+  parts.push(renderText(`桌号 ${card.table_number}`, centerX, cursor + tableSize / 2, tableSize, options.accentColor, true))
+  cursor += tableSize + height * 0.03
+
+  const ctaSize = height * 0.045
+  parts.push(renderText(options.callToAction, centerX, cursor + ctaSize / 2, ctaSize, '#333333'))
+  cursor += ctaSize + height * 0.025
+
+  if (options.brandText) {
+    const brandSize = height * 0.035
+    parts.push(renderText(options.brandText, centerX, cursor + brandSize / 2, brandSize, '#888888'))
+  }
+
+  return parts.join('')
+}
+
+const renderPage = (content: string): string => {
+  const { width, height } = A4_SIZE_MM
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>` +
+    content +
+    '</svg>'
+  )
+}
+
+/**
+ * A4 sheets with a grid of cards; dashed frames mark where to cut
+ */
+const buildSheetPages = (cards: PrintCard[], options: PrintOptions): string[] => {
+  const cardWidth = (A4_SIZE_MM.width - PAGE_MARGIN * 2 - CARD_GAP * (SHEET_COLUMNS - 1)) / SHEET_COLUMNS
+  const cardHeight = (A4_SIZE_MM.height - PAGE_MARGIN * 2 - CARD_GAP * (SHEET_ROWS - 1)) / SHEET_ROWS
+  const pages: string[] = []
+
+  for (let start = 0; start < cards.length; start += SHEET_CARDS_PER_PAGE) {
+    const content = cards
+      .slice(start, start + SHEET_CARDS_PER_PAGE)
+      .map((card, index) => {
+        const x = PAGE_MARGIN + (index % SHEET_COLUMNS) * (cardWidth + CARD_GAP)
+        const y = PAGE_MARGIN + Math.floor(index / SHEET_COLUMNS) * (cardHeight + CARD_GAP)
+        return (
+          `<rect x="${x}" y="${y}" width="${cardWidth}" height="${cardHeight}" rx="3" fill="none" ` +
+          `stroke="${options.accentColor}" stroke-width="0.4" stroke-dasharray="2 1.5"/>` +
+          renderCard(card, options, x, y, cardWidth, cardHeight)
+        )
+      })
+      .join('')
+    pages.push(renderPage(content))
+  }
+
+  return pages
+}
+
+/**
+ * One tent card per A4 page: folded along the middle line, with the top half upside down
+ * so the card reads the right way up from both sides of the table
+ */
+const buildTentPages = (cards: PrintCard[], options: PrintOptions): string[] => {
+  const { width, height } = A4_SIZE_MM
+  const half = height / 2
+
+  return cards.map((card) => {
+    const side = renderCard(card, options, PAGE_MARGIN, PAGE_MARGIN, width - PAGE_MARGIN * 2, half - PAGE_MARGIN * 2)
+    return renderPage(
+      `<g transform="rotate(180 ${width / 2} ${half / 2})">${side}</g>` +
+        `<g transform="translate(0 ${half})">${side}</g>` +
+        `<line x1="0" y1="${half}" x2="${width}" y2="${half}" stroke="#999999" stroke-width="0.3" stroke-dasharray="3 2"/>`
+    )
+  })
+}
+
+/**
+ * Build the SVG pages for a set of cards
+ */
+export const buildPrintPages = (cards: PrintCard[], options: PrintOptions): string[] => {
+  return options.layout === 'tent' ? buildTentPages(cards, options) : buildSheetPages(cards, options)
+}
@@ -0,0 +1,175 @@
+// Version: 1.0.0
+// QR code styling - size presets, error correction, scan reliability checks and rendering with a centered logo
+// Styles are stored per restaurant (echo_restaurant_settings.qr_style). The qrcode library draws the code;
+// a logo is composited on top (canvas for PNG, <image> for SVG) and forces error correction H.
+
+import QRCode from 'qrcode'
+import type { QRCodeStyle, QRErrorCorrectionLevel, QRSizePreset } from '../types/database'
+
+// Output width in pixels (PNG) / user units (SVG)
+export const QR_SIZE_PRESETS: Record<QRSizePreset, number> = {
+  small: 256,
+  medium: 512,
+  large: 1024,
+  print: 2048,
+}
+
+export const DEFAULT_QR_STYLE: QRCodeStyle = {
+  foreground: '#000000',
+  background: '#ffffff',
+  size: 'medium',
+  error_correction: 'M',
+  logo_data_url: null,
+}
+
+// Quiet zone around the code, in modules
+export const QR_MARGIN = 2
+
+// Contrast ratio (WCAG formula) below which phone cameras start to misread codes
+export const MIN_QR_CONTRAST = 4
+
+// Logos are stored inline in the settings row, so keep them small
+export const MAX_QR_LOGO_BYTES = 200 * 1024
+
+// Logo width as a share of the code width - small enough for error correction H to recover the covered modules
+const LOGO_SCALE = 0.22
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+export type QRStyleWarning =
+  | { code: 'invalid_color' }
+  | { code: 'low_contrast'; contrast: number }
+  | { code: 'inverted' }
+  | { code: 'small_with_logo' }
+
+/**
+ * Error correction actually used - a logo covers part of the code, so it needs the highest level
+ */
+export const getErrorCorrectionLevel = (style: QRCodeStyle): QRErrorCorrectionLevel => {
+  return style.logo_data_url ? 'H' : style.error_correction
+}
+
+const relativeLuminance = (hex: string): number => {
+  const [r, g, b] = [1, 3, 5].map((start) => {
+    const channel = parseInt(hex.slice(start, start + 2), 16) / 255
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/**
+ * WCAG contrast ratio between two #rrggbb colors (1 to 21)
+ */
+export const getContrastRatio = (foreground: string, background: string): number => {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a)
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+/**
+ * Check whether codes rendered with a style will scan reliably
+ * @returns Warnings to confirm before saving (empty when the style is fine)
+ */
+export const getQRStyleWarnings = (style: QRCodeStyle): QRStyleWarning[] => {
+  if (!HEX_COLOR.test(style.foreground) || !HEX_COLOR.test(style.background)) {
+    return [{ code: 'invalid_color' }]
+  }
+
+  const warnings: QRStyleWarning[] = []
+  const contrast = getContrastRatio(style.foreground, style.background)
+  if (contrast < MIN_QR_CONTRAST) {
+    warnings.push({ code: 'low_contrast', contrast })
+  }
+  // Light modules on a dark background are not supported by every scanner
+  if (relativeLuminance(style.foreground) > relativeLuminance(style.background)) {
+    warnings.push({ code: 'inverted' })
+  }
+  if (style.logo_data_url && style.size === 'small') {
+    warnings.push({ code: 'small_with_logo' })
+  }
+  return warnings
+}
+
+/**
+ * Logo on a background-coloured pad in the middle of a code, in the code's own coordinates
+ */
+export const buildLogoOverlaySvg = (logoDataUrl: string, codeSize: number, background: string): string => {
+  const logoSize = codeSize * LOGO_SCALE
+  const pad = logoSize * 0.1
+  const start = (codeSize - logoSize) / 2
+  const escapedUrl = logoDataUrl.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+
+  return (
+    `<rect x="${start - pad}" y="${start - pad}" width="${logoSize + pad * 2}" height="${logoSize + pad * 2}" ` +
+    `rx="${pad}" fill="${background}"/>` +
+    `<image href="${escapedUrl}" x="${start}" y="${start}" width="${logoSize}" height="${logoSize}" ` +
+    'preserveAspectRatio="xMidYMid meet"/>'
+  )
+}
+
+const toRendererOptions = (style: QRCodeStyle) => ({
+  width: QR_SIZE_PRESETS[style.size],
+  margin: QR_MARGIN,
+  errorCorrectionLevel: getErrorCorrectionLevel(style),
+  color: {
+    dark: style.foreground,
+    light: style.background,
+  },
+})
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('Failed to load QR code logo'))
+    image.src = src
+  })
+}
+
+/**
+ * Render a QR code as a PNG data URL
+ */
+export const renderQRCodePng = async (value: string, style: QRCodeStyle = DEFAULT_QR_STYLE): Promise<string> => {
+  const dataUrl = await QRCode.toDataURL(value, toRendererOptions(style))
+  if (!style.logo_data_url) return dataUrl
+
+  const size = QR_SIZE_PRESETS[style.size]
+  const [code, logo] = await Promise.all([loadImage(dataUrl), loadImage(style.logo_data_url)])
+
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas is not supported')
+  }
+  context.drawImage(code, 0, 0, size, size)
+
+  // Same geometry as buildLogoOverlaySvg(): a background pad with the logo fitted inside
+  const logoSize = size * LOGO_SCALE
+  const pad = logoSize * 0.1
+  const start = (size - logoSize) / 2
+  context.fillStyle = style.background
+  context.beginPath()
+  context.roundRect(start - pad, start - pad, logoSize + pad * 2, logoSize + pad * 2, pad)
+  context.fill()
+
+  // SVG logos without intrinsic dimensions fill the whole logo box
+  const scale = logo.width && logo.height ? Math.min(logoSize / logo.width, logoSize / logo.height) : 0
+  const width = scale ? logo.width * scale : logoSize
+  const height = scale ? logo.height * scale : logoSize
+  context.drawImage(logo, start + (logoSize - width) / 2, start + (logoSize - height) / 2, width, height)
+  return canvas.toDataURL('image/png')
+}
+
+/**
+ * Render a QR code as an SVG document
+ */
+export const renderQRCodeSvg = async (value: string, style: QRCodeStyle = DEFAULT_QR_STYLE): Promise<string> => {
+  const svg = await QRCode.toString(value, { ...toRendererOptions(style), type: 'svg' })
+  if (!style.logo_data_url) return svg
+
+  // The library's viewBox is the module count plus the quiet zone on both sides
+  const { modules } = QRCode.create(value, { errorCorrectionLevel: 'H' })
+  const codeSize = modules.size + QR_MARGIN * 2
+  return svg.replace('</svg>', `${buildLogoOverlaySvg(style.logo_data_url, codeSize, style.background)}</svg>`)
+}
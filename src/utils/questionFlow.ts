@@ -0,0 +1,108 @@
+// Version: 1.2.0
+// Skip logic between questions - which question follows which
+// The first matching branch wins, otherwise default_next_question_id, otherwise the next question in order;
+// 'end' finishes the questionnaire
+// v1.2.0: Answers are typed AnswerValue; branchMatches() switches on the answer type
+// v1.1.0: Added branchMatches() and getNextQuestionId() for the in-app customer questionnaire
+
+import type { AnswerValue, Question, QuestionBranch, QuestionOption, QuestionType } from '../types/database'
+
+// Branch / default target that finishes the questionnaire
+export const END_OF_QUESTIONNAIRE = 'end'
+
+// Question types whose answers can be matched by a branch rule
+export const BRANCHING_QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'multi_select', 'rating', 'nps']
+
+/**
+ * Key a branch rule uses to refer to an option - its value, or its label when the value is empty
+ */
+export const getOptionKey = (option: QuestionOption) => option.value || option.label
+
+const sortByOrder = (questions: Question[]) => [...questions].sort((a, b) => a.order - b.order)
+
+/**
+ * Whether a branch rule matches an answer
+ * Choice answers are matched by option key (value, or label when the value is empty)
+ */
+export const branchMatches = (question: Question, branch: QuestionBranch, answer?: AnswerValue): boolean => {
+  if (!answer || answer.type !== question.type) return false
+
+  switch (answer.type) {
+    case 'multiple_choice':
+      return (answer.value || answer.label) === branch.option_value
+    case 'multi_select':
+      return answer.value.some((value, index) => (value || answer.label[index]) === branch.option_value)
+    case 'rating':
+    case 'nps':
+      return (
+        (branch.min_score === undefined || branch.min_score === null || answer.value >= branch.min_score) &&
+        (branch.max_score === undefined || branch.max_score === null || answer.value <= branch.max_score)
+      )
+    default:
+      return false
+  }
+}
+
+/**
+ * Question that follows a question for the given answer
+ * @returns A question id, or END_OF_QUESTIONNAIRE
+ */
+export const getNextQuestionId = (question: Question, questions: Question[], answer?: AnswerValue): string => {
+  const branch = (question.branches || []).find((rule) => branchMatches(question, rule, answer))
+  const target = branch ? branch.next_question_id : question.default_next_question_id
+
+  if (target === END_OF_QUESTIONNAIRE) return END_OF_QUESTIONNAIRE
+  if (target && questions.some((q) => q.id === target)) return target
+
+  const sorted = sortByOrder(questions)
+  return sorted[sorted.findIndex((q) => q.id === question.id) + 1]?.id || END_OF_QUESTIONNAIRE
+}
+
+/**
+ * All questions that can directly follow a question, given every possible answer
+ * Returns question ids and/or END_OF_QUESTIONNAIRE
+ */
+export const getPossibleNextQuestionIds = (question: Question, questions: Question[]): string[] => {
+  const sorted = sortByOrder(questions)
+  const index = sorted.findIndex((q) => q.id === question.id)
+  const inOrder = sorted[index + 1]?.id || END_OF_QUESTIONNAIRE
+
+  const targets = new Set((question.branches || []).map((branch) => branch.next_question_id))
+  // The default route is taken whenever no branch matches
+  targets.add(question.default_next_question_id || inOrder)
+  return [...targets]
+}
+
+/**
+ * Find a loop in the skip logic
+ * @returns The question ids along the loop (first id repeated at the end), or null when there is none
+ */
+export const findQuestionCycle = (questions: Question[]): string[] | null => {
+  const byId = new Map(questions.map((question) => [question.id, question]))
+  const finished = new Set<string>()
+  const path: string[] = []
+
+  const visit = (questionId: string): string[] | null => {
+    const loopStart = path.indexOf(questionId)
+    if (loopStart !== -1) return [...path.slice(loopStart), questionId]
+    if (finished.has(questionId)) return null
+
+    const question = byId.get(questionId)
+    if (!question) return null
+
+    path.push(questionId)
+    for (const nextId of getPossibleNextQuestionIds(question, questions)) {
+      const cycle = visit(nextId)
+      if (cycle) return cycle
+    }
+    path.pop()
+    finished.add(questionId)
+    return null
+  }
+
+  for (const question of sortByOrder(questions)) {
+    const cycle = visit(question.id)
+    if (cycle) return cycle
+  }
+  return null
+}
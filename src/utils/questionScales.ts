@@ -0,0 +1,11 @@
+// Version: 1.0.0
+// Fixed answer scales of rating and NPS questions and the emojis the customer page shows for ratings
+// Shared by the questionnaire service (validation), the editor (branch conditions), answer validation,
+// analytics and the customer questionnaire page
+
+// Fixed scales - the customer page renders these ranges
+export const RATING_SCALE = { min: 1, max: 5 }
+export const NPS_SCALE = { min: 0, max: 10 }
+
+// Emoji shown for ratings 1-5 on the customer questionnaire page
+export const RATING_EMOJIS = ['😞', '🙁', '😐', '🙂', '😄']
@@ -0,0 +1,43 @@
+// Version: 1.0.0
+// Copying questions into a new questionnaire (duplicates and templates)
+// Every copied question gets a fresh id; skip logic is rewired to the new ids so branches keep pointing at the
+// same questions. Option values are kept - branch rules refer to options by value, and analytics group by it
+
+import type { Question } from '../types/database'
+import { END_OF_QUESTIONNAIRE } from './questionFlow'
+
+/**
+ * New question id, unique across questionnaires
+ */
+export const generateQuestionId = () => {
+  return `q${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Copy questions with fresh ids, in order and renumbered from 1
+ * Branch and default targets that point outside the copied questions are dropped
+ */
+export const copyQuestions = (questions: Question[]): Question[] => {
+  const sorted = [...questions].sort((a, b) => a.order - b.order)
+  const idMap = new Map(sorted.map((question) => [question.id, generateQuestionId()]))
+
+  const mapTarget = (target: string | undefined) => {
+    if (target === undefined || target === END_OF_QUESTIONNAIRE) return target
+    return idMap.get(target)
+  }
+
+  return sorted.map((question, index) => {
+    const branches = question.branches
+      ?.map((branch) => ({ ...branch, next_question_id: mapTarget(branch.next_question_id) }))
+      .filter((branch): branch is typeof branch & { next_question_id: string } => !!branch.next_question_id)
+
+    return {
+      ...question,
+      id: idMap.get(question.id)!,
+      order: index + 1,
+      options: question.options?.map((option) => ({ ...option })),
+      branches: branches && branches.length > 0 ? branches : undefined,
+      default_next_question_id: mapTarget(question.default_next_question_id),
+    }
+  })
+}
@@ -0,0 +1,200 @@
+// Version: 1.3.0
+// Structural diff between two questionnaire contents (e.g. a published version and the current draft)
+// Questions are matched by id, options by value (or by label when the value is empty) - the same keys
+// answers are stored and analysed under, so "breaking" changes are the ones that affect existing answers
+// v1.3.0: Detects translation changes (titles, question texts, option labels) - they never break answers
+// v1.2.0: Detects skip logic changes (branches, default next question)
+// v1.1.0: Detects changes to type-specific settings (rating style, selection limits, numeric range)
+
+import type { Question, QuestionOption, TranslatedText } from '../types/database'
+import { getOptionKey } from './questionFlow'
+
+// Content shared by drafts (echo_questionnaire) and snapshots (echo_questionnaire_version)
+export interface QuestionnaireContent {
+  title: string
+  description?: string | null
+  title_translations?: TranslatedText
+  description_translations?: TranslatedText
+  questions: Question[]
+}
+
+export type QuestionDiffStatus = 'added' | 'removed' | 'modified' | 'unchanged'
+
+export interface QuestionDiff {
+  question_id: string
+  status: QuestionDiffStatus
+  before?: Question
+  after?: Question
+  text_changed: boolean
+  type_changed: boolean
+  moved: boolean
+  settings_changed: boolean
+  logic_changed: boolean
+  translations_changed: boolean
+  options_added: QuestionOption[]
+  options_removed: QuestionOption[]
+  options_relabeled: Array<{ value: string; before: string; after: string }>
+  // Removed questions, type changes and removed options change the meaning of answers already collected
+  breaking: boolean
+}
+
+export interface QuestionnaireDiff {
+  title_changed: boolean
+  description_changed: boolean
+  translations_changed: boolean // Title or description translations
+  questions: QuestionDiff[]
+  has_changes: boolean
+  has_breaking_changes: boolean
+}
+
+const sortByOrder = (questions: Question[]) => [...questions].sort((a, b) => a.order - b.order)
+
+// Empty translations count as missing, so clearing a field and never filling it compare equal
+const translationsEqual = (before: TranslatedText | undefined, after: TranslatedText | undefined) => {
+  const normalize = (translations: TranslatedText | undefined) =>
+    JSON.stringify(
+      Object.entries(translations || {})
+        .filter(([, text]) => !!text?.trim())
+        .map(([locale, text]) => [locale, text!.trim()])
+        .sort()
+    )
+  return normalize(before) === normalize(after)
+}
+
+// Type-specific settings compared between versions (see Question in types/database.ts)
+const SETTING_KEYS = ['rating_style', 'min_selections', 'max_selections', 'min', 'max'] as const
+
+const diffQuestion = (
+  before: Question | undefined,
+  after: Question | undefined,
+  moved: boolean
+): QuestionDiff => {
+  const questionId = (after || before)!.id
+
+  if (!before || !after) {
+    return {
+      question_id: questionId,
+      status: before ? 'removed' : 'added',
+      before,
+      after,
+      text_changed: false,
+      type_changed: false,
+      moved: false,
+      settings_changed: false,
+      logic_changed: false,
+      translations_changed: false,
+      options_added: after?.options || [],
+      options_removed: before?.options || [],
+      options_relabeled: [],
+      breaking: !!before,
+    }
+  }
+
+  const beforeOptions = new Map((before.options || []).map((option) => [getOptionKey(option), option]))
+  const afterOptions = new Map((after.options || []).map((option) => [getOptionKey(option), option]))
+
+  const optionsAdded = (after.options || []).filter((option) => !beforeOptions.has(getOptionKey(option)))
+  const optionsRemoved = (before.options || []).filter((option) => !afterOptions.has(getOptionKey(option)))
+  const optionsRelabeled = (after.options || [])
+    .filter((option) => {
+      const previous = beforeOptions.get(getOptionKey(option))
+      return previous && option.value && previous.label !== option.label
+    })
+    .map((option) => ({
+      value: option.value,
+      before: beforeOptions.get(getOptionKey(option))!.label,
+      after: option.label,
+    }))
+
+  const textChanged = before.text.trim() !== after.text.trim()
+  const typeChanged = before.type !== after.type
+  const settingsChanged = !typeChanged && SETTING_KEYS.some((key) => before[key] !== after[key])
+  const logicChanged =
+    JSON.stringify(before.branches || []) !== JSON.stringify(after.branches || []) ||
+    (before.default_next_question_id || '') !== (after.default_next_question_id || '')
+  const translationsChanged =
+    !translationsEqual(before.text_translations, after.text_translations) ||
+    (after.options || []).some((option) => {
+      const previous = beforeOptions.get(getOptionKey(option))
+      return previous && !translationsEqual(previous.label_translations, option.label_translations)
+    })
+  const modified =
+    textChanged ||
+    translationsChanged ||
+    typeChanged ||
+    moved ||
+    settingsChanged ||
+    logicChanged ||
+    optionsAdded.length > 0 ||
+    optionsRemoved.length > 0 ||
+    optionsRelabeled.length > 0
+
+  return {
+    question_id: questionId,
+    status: modified ? 'modified' : 'unchanged',
+    before,
+    after,
+    text_changed: textChanged,
+    type_changed: typeChanged,
+    moved,
+    settings_changed: settingsChanged,
+    logic_changed: logicChanged,
+    translations_changed: translationsChanged,
+    options_added: optionsAdded,
+    options_removed: optionsRemoved,
+    options_relabeled: optionsRelabeled,
+    breaking: typeChanged || optionsRemoved.length > 0,
+  }
+}
+
+/**
+ * Compare two questionnaire contents
+ * @param before - Previous content, or null when nothing was published yet (everything counts as added)
+ * @param after - New content
+ * Questions are listed in the new order, followed by removed questions in their old order.
+ */
+export const diffQuestionnaires = (
+  before: QuestionnaireContent | null,
+  after: QuestionnaireContent
+): QuestionnaireDiff => {
+  const beforeQuestions = sortByOrder(before?.questions || [])
+  const afterQuestions = sortByOrder(after.questions)
+  const beforeById = new Map(beforeQuestions.map((question) => [question.id, question]))
+  const afterIds = new Set(afterQuestions.map((question) => question.id))
+
+  // A question counts as moved when its position among the questions kept from before changed
+  const keptBefore = beforeQuestions.filter((question) => afterIds.has(question.id)).map((q) => q.id)
+  const keptAfter = afterQuestions.filter((question) => beforeById.has(question.id)).map((q) => q.id)
+
+  const questions = [
+    ...afterQuestions.map((question) =>
+      diffQuestion(
+        beforeById.get(question.id),
+        question,
+        keptBefore.indexOf(question.id) !== keptAfter.indexOf(question.id)
+      )
+    ),
+    ...beforeQuestions
+      .filter((question) => !afterIds.has(question.id))
+      .map((question) => diffQuestion(question, undefined, false)),
+  ]
+
+  const titleChanged = (before?.title || '').trim() !== after.title.trim()
+  const descriptionChanged = (before?.description || '').trim() !== (after.description || '').trim()
+  const translationsChanged =
+    !translationsEqual(before?.title_translations, after.title_translations) ||
+    !translationsEqual(before?.description_translations, after.description_translations)
+
+  return {
+    title_changed: titleChanged,
+    description_changed: descriptionChanged,
+    translations_changed: translationsChanged,
+    questions,
+    has_changes:
+      titleChanged ||
+      descriptionChanged ||
+      translationsChanged ||
+      questions.some((question) => question.status !== 'unchanged'),
+    has_breaking_changes: questions.some((question) => question.breaking),
+  }
+}
@@ -0,0 +1,312 @@
+// Version: 1.1.0
+// Questionnaire files - a questionnaire exported as versioned JSON, to move it between Supabase projects
+// Reading a file checks a strict schema (unknown fields are rejected, not dropped) and reports every problem
+// per question; the question rules themselves (option counts, skip logic) are checked by validateQuestions()
+// v1.1.0: Files carry translations (title / description / question text / option label); files without them
+//         still read, so the file version stays 1
+
+import type { EchoQuestionnaire, Question, QuestionBranch, QuestionOption } from '../types/database'
+import { downloadBlob } from './spreadsheet'
+import { TRANSLATION_LOCALES } from './contentLocale'
+
+export const QUESTIONNAIRE_FILE_FORMAT = 'echo-questionnaire'
+export const QUESTIONNAIRE_FILE_VERSION = 1
+
+// Files are small; anything larger is not a questionnaire export
+export const MAX_QUESTIONNAIRE_FILE_BYTES = 1024 * 1024
+
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|]/g
+
+// Questionnaire fields a file carries - the draft, without publish state or timestamps
+export type QuestionnaireFileContent = Pick<
+  EchoQuestionnaire,
+  'id' | 'title' | 'description' | 'title_translations' | 'description_translations' | 'is_active' | 'questions'
+>
+
+export interface QuestionnaireFile {
+  format: typeof QUESTIONNAIRE_FILE_FORMAT
+  version: typeof QUESTIONNAIRE_FILE_VERSION
+  exported_at: string
+  questionnaire: QuestionnaireFileContent
+}
+
+// One problem in a file; questionIndex is 0-based, null for problems outside the questions
+export interface QuestionnaireFileIssue {
+  questionIndex: number | null
+  message: string
+}
+
+export interface QuestionnaireFileParseResult {
+  questionnaire: QuestionnaireFileContent | null // null when there are issues
+  issues: QuestionnaireFileIssue[]
+}
+
+const FILE_KEYS = ['format', 'version', 'exported_at', 'questionnaire']
+const QUESTIONNAIRE_KEYS = [
+  'id',
+  'title',
+  'description',
+  'title_translations',
+  'description_translations',
+  'is_active',
+  'questions',
+]
+const QUESTION_KEYS = [
+  'id',
+  'text',
+  'text_translations',
+  'type',
+  'order',
+  'options',
+  'rating_style',
+  'min_selections',
+  'max_selections',
+  'min',
+  'max',
+  'branches',
+  'default_next_question_id',
+]
+const OPTION_KEYS = ['label', 'value', 'label_translations']
+const BRANCH_KEYS = ['option_value', 'min_score', 'max_score', 'next_question_id']
+
+type FieldType = 'string' | 'number' | 'boolean'
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const isFieldType = (value: unknown, type: FieldType) => {
+  return type === 'number' ? typeof value === 'number' && Number.isFinite(value) : typeof value === type
+}
+
+/**
+ * Check an object's fields - unknown fields, missing required fields and wrong types
+ * @returns One message per problem, prefixed with `path`
+ */
+const checkFields = (
+  value: Record<string, unknown>,
+  path: string,
+  allowedKeys: string[],
+  fields: Record<string, { type: FieldType; required?: boolean; nullable?: boolean }>
+): string[] => {
+  const messages: string[] = []
+
+  Object.keys(value)
+    .filter((key) => !allowedKeys.includes(key))
+    .forEach((key) => messages.push(`${path}: unknown field "${key}"`))
+
+  Object.entries(fields).forEach(([key, field]) => {
+    const fieldValue = value[key]
+    if (fieldValue === undefined) {
+      if (field.required) messages.push(`${path}: "${key}" is required`)
+    } else if (fieldValue === null) {
+      if (!field.nullable) messages.push(`${path}: "${key}" must not be null`)
+    } else if (!isFieldType(fieldValue, field.type)) {
+      messages.push(`${path}: "${key}" must be a ${field.type}`)
+    }
+  })
+
+  return messages
+}
+
+/**
+ * Check a translations field - an object of strings keyed by supported language
+ */
+const checkTranslations = (value: Record<string, unknown>, path: string, key: string): string[] => {
+  const translations = value[key]
+  if (translations === undefined) return []
+  if (!isObject(translations)) return [`${path}: "${key}" must be an object`]
+
+  return checkFields(
+    translations,
+    `${path} ${key}`,
+    TRANSLATION_LOCALES,
+    Object.fromEntries(TRANSLATION_LOCALES.map((locale) => [locale, { type: 'string' as const }]))
+  )
+}
+
+const checkQuestion = (question: unknown): string[] => {
+  if (!isObject(question)) return ['must be an object']
+
+  const messages = checkFields(question, 'question', QUESTION_KEYS, {
+    id: { type: 'string', required: true },
+    text: { type: 'string', required: true },
+    type: { type: 'string', required: true },
+    order: { type: 'number', required: true },
+    rating_style: { type: 'string' },
+    min_selections: { type: 'number' },
+    max_selections: { type: 'number' },
+    min: { type: 'number' },
+    max: { type: 'number' },
+    default_next_question_id: { type: 'string' },
+  })
+  messages.push(...checkTranslations(question, 'question', 'text_translations'))
+
+  if (question.options !== undefined) {
+    if (!Array.isArray(question.options)) {
+      messages.push('question: "options" must be an array')
+    } else {
+      question.options.forEach((option, index) => {
+        const path = `option ${index + 1}`
+        if (!isObject(option)) {
+          messages.push(`${path}: must be an object`)
+          return
+        }
+        messages.push(
+          ...checkFields(option, path, OPTION_KEYS, {
+            label: { type: 'string', required: true },
+            value: { type: 'string', required: true },
+          }),
+          ...checkTranslations(option, path, 'label_translations')
+        )
+      })
+    }
+  }
+
+  if (question.branches !== undefined) {
+    if (!Array.isArray(question.branches)) {
+      messages.push('question: "branches" must be an array')
+    } else {
+      question.branches.forEach((branch, index) => {
+        const path = `rule ${index + 1}`
+        if (!isObject(branch)) {
+          messages.push(`${path}: must be an object`)
+          return
+        }
+        messages.push(
+          ...checkFields(branch, path, BRANCH_KEYS, {
+            option_value: { type: 'string' },
+            min_score: { type: 'number', nullable: true },
+            max_score: { type: 'number', nullable: true },
+            next_question_id: { type: 'string', required: true },
+          })
+        )
+      })
+    }
+  }
+
+  return messages
+}
+
+/**
+ * Read a questionnaire file
+ * Problems of the file and the questionnaire are reported with questionIndex null, problems of a question
+ * with its index; the questionnaire is only returned when there are none
+ */
+export const parseQuestionnaireFile = (text: string): QuestionnaireFileParseResult => {
+  const fail = (message: string): QuestionnaireFileParseResult => ({
+    questionnaire: null,
+    issues: [{ questionIndex: null, message }],
+  })
+
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return fail('The file is not valid JSON')
+  }
+
+  if (!isObject(data) || data.format !== QUESTIONNAIRE_FILE_FORMAT) {
+    return fail(`The file is not a questionnaire export (format "${QUESTIONNAIRE_FILE_FORMAT}" expected)`)
+  }
+
+  if (data.version !== QUESTIONNAIRE_FILE_VERSION) {
+    return fail(`Unsupported file version ${String(data.version)} (supported: ${QUESTIONNAIRE_FILE_VERSION})`)
+  }
+
+  const issues: QuestionnaireFileIssue[] = checkFields(data, 'file', FILE_KEYS, {
+    exported_at: { type: 'string' },
+  }).map((message) => ({ questionIndex: null, message }))
+
+  const questionnaire = data.questionnaire
+  if (!isObject(questionnaire)) {
+    issues.push({ questionIndex: null, message: 'file: "questionnaire" must be an object' })
+    return { questionnaire: null, issues }
+  }
+
+  issues.push(
+    ...checkFields(questionnaire, 'questionnaire', QUESTIONNAIRE_KEYS, {
+      id: { type: 'string', required: true },
+      title: { type: 'string', required: true },
+      description: { type: 'string', nullable: true },
+      is_active: { type: 'boolean', required: true },
+    }).map((message) => ({ questionIndex: null, message })),
+    ...['title_translations', 'description_translations'].flatMap((key) =>
+      checkTranslations(questionnaire, 'questionnaire', key).map((message) => ({ questionIndex: null, message }))
+    )
+  )
+
+  if (typeof questionnaire.title === 'string' && questionnaire.title.trim() === '') {
+    issues.push({ questionIndex: null, message: 'questionnaire: "title" must not be empty' })
+  }
+
+  if (!Array.isArray(questionnaire.questions)) {
+    issues.push({ questionIndex: null, message: 'questionnaire: "questions" must be an array' })
+    return { questionnaire: null, issues }
+  }
+
+  const seenIds = new Set<string>()
+  questionnaire.questions.forEach((question, index) => {
+    checkQuestion(question).forEach((message) => issues.push({ questionIndex: index, message }))
+
+    const id = isObject(question) ? question.id : undefined
+    if (typeof id === 'string') {
+      if (seenIds.has(id)) {
+        issues.push({ questionIndex: index, message: `question: id "${id}" is used by another question` })
+      }
+      seenIds.add(id)
+    }
+  })
+
+  if (issues.length > 0) {
+    return { questionnaire: null, issues }
+  }
+
+  return {
+    questionnaire: {
+      id: questionnaire.id as string,
+      title: questionnaire.title as string,
+      description: (questionnaire.description as string | null | undefined) ?? undefined,
+      title_translations: questionnaire.title_translations as QuestionnaireFileContent['title_translations'],
+      description_translations: questionnaire.description_translations as QuestionnaireFileContent['description_translations'],
+      is_active: questionnaire.is_active as boolean,
+      questions: (questionnaire.questions as Question[]).map((question) => ({
+        ...question,
+        options: question.options?.map((option: QuestionOption) => ({ ...option })),
+        branches: question.branches?.map((branch: QuestionBranch) => ({ ...branch })),
+      })),
+    },
+    issues: [],
+  }
+}
+
+/**
+ * Questionnaire file of a questionnaire's draft (what the editor shows)
+ */
+export const buildQuestionnaireFile = (questionnaire: EchoQuestionnaire): QuestionnaireFile => {
+  const questions = [...questionnaire.questions].sort((a, b) => a.order - b.order)
+
+  return {
+    format: QUESTIONNAIRE_FILE_FORMAT,
+    version: QUESTIONNAIRE_FILE_VERSION,
+    exported_at: new Date().toISOString(),
+    questionnaire: {
+      id: questionnaire.id,
+      title: questionnaire.title,
+      description: questionnaire.description ?? undefined,
+      title_translations: questionnaire.title_translations,
+      description_translations: questionnaire.description_translations,
+      is_active: questionnaire.is_active,
+      questions,
+    },
+  }
+}
+
+/**
+ * Download a questionnaire as a JSON file
+ */
+export const downloadQuestionnaireFile = (questionnaire: EchoQuestionnaire) => {
+  const json = JSON.stringify(buildQuestionnaireFile(questionnaire), null, 2)
+  const filename = `${questionnaire.title.replace(INVALID_FILENAME_CHARS, '_') || 'questionnaire'}.questionnaire.json`
+  downloadBlob(new Blob([json], { type: 'application/json' }), filename)
+}
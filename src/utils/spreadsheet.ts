@@ -0,0 +1,196 @@
+// Version: 1.2.0
+// Spreadsheet helpers - CSV and XLSX files generated in the browser, CSV files read back for imports
+// XLSX output is a minimal Office Open XML workbook (one worksheet, inline strings) zipped with fflate
+// v1.2.0: Exported UTF8_BOM for CSV files bundled into ZIPs
+// v1.1.0: Added parseCsv() for CSV imports (table lists)
+
+import { zipSync, strToU8 } from 'fflate'
+
+export type SpreadsheetCell = string | number | null | undefined
+
+// Excel needs a UTF-8 BOM to detect the encoding of CSV files with Chinese text
+export const UTF8_BOM = '\uFEFF'
+
+// Cells starting with these characters are evaluated as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// Control characters that are not allowed in XML 1.0
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+/**
+ * Quote a CSV cell when needed
+ * Text that would be read as a formula is prefixed with an apostrophe (customer answers are untrusted input)
+ */
+const toCsvCell = (cell: SpreadsheetCell): string => {
+  if (cell === null || cell === undefined) return ''
+  if (typeof cell === 'number') return String(cell)
+
+  const text = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serialize rows as CSV (RFC 4180, CRLF line endings)
+ */
+export const toCsv = (rows: SpreadsheetCell[][]): string => {
+  return rows.map((row) => row.map(toCsvCell).join(',')).join('\r\n')
+}
+
+/**
+ * Parse CSV text into rows (RFC 4180 quoting, CRLF or LF line endings, leading UTF-8 BOM ignored)
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char !== '"') {
+        cell += char
+      } else if (input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else {
+        quoted = false
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Convert a zero-based column index to a spreadsheet column name (0 -> A, 26 -> AA)
+ */
+const toColumnName = (index: number): string => {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+/**
+ * Excel sheet names are limited to 31 characters and cannot contain : \ / ? * [ ]
+ */
+const toSheetName = (name: string): string => {
+  return name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || 'Sheet1'
+}
+
+const buildWorksheetXml = (rows: SpreadsheetCell[][]): string => {
+  const rowsXml = rows
+    .map((row, rowIndex) => {
+      const cellsXml = row
+        .map((cell, columnIndex) => {
+          const ref = `${toColumnName(columnIndex)}${rowIndex + 1}`
+          if (cell === null || cell === undefined || cell === '') return ''
+          if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`
+        })
+        .join('')
+      return `<row r="${rowIndex + 1}">${cellsXml}</row>`
+    })
+    .join('')
+
+  // The first row is frozen so headers stay visible while scrolling
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '</sheetView></sheetViews>' +
+    `<sheetData>${rowsXml}</sheetData>` +
+    '</worksheet>'
+  )
+}
+
+/**
+ * Build an XLSX workbook with a single worksheet
+ */
+export const toXlsx = (rows: SpreadsheetCell[][], sheetName = 'Sheet1'): Uint8Array => {
+  return zipSync({
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(toSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>'
+    ),
+    'xl/worksheets/sheet1.xml': strToU8(buildWorksheetXml(rows)),
+  })
+}
+
+/**
+ * Trigger a browser download for a Blob
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.download = filename
+  link.href = url
+  link.click()
+  // Revoke after the click has been handled so the download can start
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export const downloadCsv = (rows: SpreadsheetCell[][], filename: string) => {
+  downloadBlob(new Blob([UTF8_BOM + toCsv(rows)], { type: 'text/csv;charset=utf-8' }), filename)
+}
+
+export const downloadXlsx = (rows: SpreadsheetCell[][], filename: string, sheetName?: string) => {
+  downloadBlob(new Blob([toXlsx(rows, sheetName)], { type: XLSX_MIME_TYPE }), filename)
+}
@@ -0,0 +1,116 @@
+// Version: 1.0.0
+// Statistical helpers for comparing questionnaire variants (A/B tests)
+// Chi-square test of independence with p-value from the regularized upper incomplete gamma function
+
+export interface ChiSquareResult {
+  statistic: number
+  degreesOfFreedom: number
+  pValue: number
+  // True when more than 20% of expected cell counts are below 5 - the approximation is unreliable
+  lowExpectedCounts: boolean
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+const logGamma = (x: number): number => {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ]
+  let y = x
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5)
+  let series = 1.000000000190015
+  for (const coefficient of coefficients) {
+    y += 1
+    series += coefficient / y
+  }
+  return -tmp + Math.log((2.5066282746310005 * series) / x)
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x)
+ * Uses the series expansion for x < a + 1 and a continued fraction otherwise
+ */
+const upperIncompleteGammaQ = (a: number, x: number): number => {
+  if (x <= 0) return 1
+
+  const maxIterations = 200
+  const epsilon = 3e-14
+  const logPrefix = -x + a * Math.log(x) - logGamma(a)
+
+  if (x < a + 1) {
+    let term = 1 / a
+    let sum = term
+    for (let n = 1; n < maxIterations; n++) {
+      term *= x / (a + n)
+      sum += term
+      if (Math.abs(term) < Math.abs(sum) * epsilon) break
+    }
+    return 1 - sum * Math.exp(logPrefix)
+  }
+
+  // Lentz's method for the continued fraction
+  const tiny = 1e-300
+  let b = x + 1 - a
+  let c = 1 / tiny
+  let d = 1 / b
+  let h = d
+  for (let i = 1; i < maxIterations; i++) {
+    const an = -i * (i - a)
+    b += 2
+    d = an * d + b
+    if (Math.abs(d) < tiny) d = tiny
+    c = b + an / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < epsilon) break
+  }
+  return Math.exp(logPrefix) * h
+}
+
+/**
+ * Chi-square test of independence on a contingency table (rows = variants, columns = answer options)
+ * Rows and columns with no observations are dropped first.
+ * Returns null when fewer than two rows or columns remain (nothing to compare).
+ */
+export const chiSquareTest = (observed: number[][]): ChiSquareResult | null => {
+  const rows = observed.filter((row) => row.reduce((sum, count) => sum + count, 0) > 0)
+  if (rows.length < 2) return null
+
+  const columnCount = Math.max(...rows.map((row) => row.length))
+  const columnTotals = Array.from({ length: columnCount }, (_, column) =>
+    rows.reduce((sum, row) => sum + (row[column] || 0), 0)
+  )
+  const keptColumns = columnTotals
+    .map((total, column) => (total > 0 ? column : -1))
+    .filter((column) => column >= 0)
+  if (keptColumns.length < 2) return null
+
+  const table = rows.map((row) => keptColumns.map((column) => row[column] || 0))
+  const rowTotals = table.map((row) => row.reduce((sum, count) => sum + count, 0))
+  const keptColumnTotals = keptColumns.map((column) => columnTotals[column])
+  const grandTotal = rowTotals.reduce((sum, total) => sum + total, 0)
+
+  let statistic = 0
+  let lowExpectedCells = 0
+  table.forEach((row, i) => {
+    row.forEach((count, j) => {
+      const expected = (rowTotals[i] * keptColumnTotals[j]) / grandTotal
+      if (expected < 5) lowExpectedCells++
+      statistic += (count - expected) ** 2 / expected
+    })
+  })
+
+  const degreesOfFreedom = (table.length - 1) * (keptColumns.length - 1)
+  const pValue = upperIncompleteGammaQ(degreesOfFreedom / 2, statistic / 2)
+
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue: Math.min(1, Math.max(0, pValue)),
+    lowExpectedCounts: lowExpectedCells > table.length * keptColumns.length * 0.2,
+  }
+}
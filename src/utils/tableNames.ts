@@ -0,0 +1,127 @@
+// Version: 1.2.0
+// Table names for batch table creation - expanding naming patterns, reading CSV table lists, previewing conflicts
+// Patterns are separated by new lines or commas:
+//   A1-A20     prefix (and suffix) repeated on both ends - also "1-20", "1号-20号"
+//   VIP-1..5   prefix and suffix around a "start..end" range
+//   包间8      anything else is a single table name
+// Leading zeros of the start number are kept ("A01-A12" -> A01, A02, ... A12)
+// v1.2.0: Too large ranges and batches throw AppErrors
+// v1.1.0: Added compareTableNumbers() for natural ordering in downloads and print layouts
+
+import { parseCsv } from './spreadsheet'
+import { AppError } from './appError'
+
+// Upper limit for one batch, so a typo such as "1-10000" cannot flood the restaurant with tables
+export const MAX_BATCH_TABLES = 500
+
+// First-row cells that mark a CSV header row (skipped on import)
+const TABLE_CSV_HEADERS = ['table_number', 'table', '桌号', '桌位']
+
+const DOTTED_RANGE = /^(.*?)(\d+)\s*\.\.\s*(\d+)(.*)$/
+const DASHED_RANGE = /^(\D*)(\d+)(\D*?)\s*-\s*\1(\d+)\3$/
+
+export type TableNameStatus = 'new' | 'exists' | 'duplicate'
+
+export interface TableNamePreview {
+  table_number: string
+  // exists: the restaurant already has this table; duplicate: listed more than once in this batch
+  status: TableNameStatus
+}
+
+/**
+ * Expand one pattern segment into table names
+ * A range whose start is greater than its end (e.g. "3-1") is kept as a literal name
+ */
+const expandSegment = (segment: string): string[] => {
+  const dotted = segment.match(DOTTED_RANGE)
+  const dashed = dotted ? null : segment.match(DASHED_RANGE)
+  const range = dotted
+    ? { prefix: dotted[1], start: dotted[2], end: dotted[3], suffix: dotted[4] }
+    : dashed
+      ? { prefix: dashed[1], start: dashed[2], end: dashed[4], suffix: dashed[3] }
+      : null
+
+  if (!range) return [segment]
+
+  const start = Number(range.start)
+  const end = Number(range.end)
+  if (start > end) return [segment]
+  if (end - start + 1 > MAX_BATCH_TABLES) {
+    throw new AppError('table.range_too_large', `Range "${segment}" has more than ${MAX_BATCH_TABLES} tables`, {
+      range: segment,
+      max: MAX_BATCH_TABLES,
+    })
+  }
+
+  const width = range.start.length > 1 && range.start.startsWith('0') ? range.start.length : 0
+  return Array.from({ length: end - start + 1 }, (_, index) => {
+    return `${range.prefix}${String(start + index).padStart(width, '0')}${range.suffix}`
+  })
+}
+
+/**
+ * Expand naming patterns into table names, in the order they are written
+ */
+export const expandTablePatterns = (input: string): string[] => {
+  const names = input
+    .split(/[\n,，]/)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .flatMap(expandSegment)
+
+  if (names.length > MAX_BATCH_TABLES) {
+    throw new AppError('table.batch_too_large', `At most ${MAX_BATCH_TABLES} tables can be created at once`, {
+      max: MAX_BATCH_TABLES,
+    })
+  }
+
+  return names
+}
+
+/**
+ * Read table names from CSV text - the first column of every row, with an optional header row
+ */
+export const parseTableCsv = (text: string): string[] => {
+  const names = parseCsv(text)
+    .map((row) => (row[0] || '').trim())
+    .filter(Boolean)
+
+  if (names.length > 0 && TABLE_CSV_HEADERS.includes(names[0].toLowerCase())) {
+    names.shift()
+  }
+
+  if (names.length > MAX_BATCH_TABLES) {
+    throw new AppError('table.batch_too_large', `At most ${MAX_BATCH_TABLES} tables can be created at once`, {
+      max: MAX_BATCH_TABLES,
+    })
+  }
+
+  return names
+}
+
+/**
+ * Mark each name as new, already existing in the restaurant, or repeated within the batch
+ * Names are compared exactly, like the (restaurant_id, table_number) unique constraint
+ */
+export const previewTableNames = (names: string[], existingTableNumbers: string[]): TableNamePreview[] => {
+  const existing = new Set(existingTableNumbers)
+  const seen = new Set<string>()
+
+  return names.map((tableNumber) => {
+    if (existing.has(tableNumber)) {
+      return { table_number: tableNumber, status: 'exists' }
+    }
+    if (seen.has(tableNumber)) {
+      return { table_number: tableNumber, status: 'duplicate' }
+    }
+    seen.add(tableNumber)
+    return { table_number: tableNumber, status: 'new' }
+  })
+}
+
+/**
+ * Natural order for table numbers (A2 before A10), used for downloads and print layouts
+ */
+export const compareTableNumbers = (a: string, b: string): number => {
+  return a.localeCompare(b, 'zh-CN', { numeric: true })
+}
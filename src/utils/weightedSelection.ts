@@ -0,0 +1,53 @@
+// Version: 1.1.0
+// Weighted random questionnaire selection for A/B testing
+// Used by the customer questionnaire (/q/:qrcodeId) and the assignment share percentages shown to admins:
+// a missing (or 0) weight counts as 100, and each assignment's chance is weight / total weight
+// v1.1.0: The customer questionnaire now uses this module instead of its own copy
+
+export interface Weighted {
+  weight?: number | null
+}
+
+// Weight used when an assignment has no weight set
+export const DEFAULT_ASSIGNMENT_WEIGHT = 100
+
+/**
+ * Effective weight of an assignment as seen by the customer page
+ */
+export const getEffectiveWeight = (assignment: Weighted): number => {
+  return assignment.weight || DEFAULT_ASSIGNMENT_WEIGHT
+}
+
+/**
+ * Pick one assignment at random, proportionally to its weight
+ * @param random - Value in [0, 1); injectable for previews and deterministic checks
+ */
+export const selectWeightedQuestionnaire = <T extends Weighted>(
+  assignments: T[],
+  random: number = Math.random()
+): T => {
+  if (assignments.length === 1) {
+    return assignments[0]
+  }
+
+  const totalWeight = assignments.reduce((sum, a) => sum + getEffectiveWeight(a), 0)
+
+  let remaining = random * totalWeight
+  for (const assignment of assignments) {
+    remaining -= getEffectiveWeight(assignment)
+    if (remaining <= 0) {
+      return assignment
+    }
+  }
+
+  return assignments[0] // Fallback
+}
+
+/**
+ * Normalized chance (in %) that each assignment is shown, in the same order as the input
+ */
+export const getSelectionPercentages = (assignments: Weighted[]): number[] => {
+  const totalWeight = assignments.reduce((sum, a) => sum + getEffectiveWeight(a), 0)
+  if (totalWeight === 0) return assignments.map(() => 0)
+  return assignments.map((a) => (getEffectiveWeight(a) / totalWeight) * 100)
+}